@@ -61,6 +61,12 @@ contract BattleArenaP2E is ReentrancyGuard, Ownable {
         uint256 winner;
         bool completed;
         TournamentType tournamentType;
+        // Match results recorded on-chain; the winner is derived from these
+        mapping(uint256 => uint256) wins;
+        mapping(uint256 => bool) eliminated;
+        mapping(uint256 => mapping(uint256 => bool)) played;
+        uint256 matchesPlayed;
+        uint256 eliminatedCount;
     }
     
     enum TournamentType { SINGLE_ELIMINATION, ROUND_ROBIN, BATTLE_ROYALE }
@@ -118,6 +124,7 @@ contract BattleArenaP2E is ReentrancyGuard, Ownable {
     mapping(uint256 => uint256) public lastFightTime;
     mapping(address => bool) public spectators; // Players watching battles
     mapping(uint256 => address[]) public battleSpectators; // Spectators for specific battles
+    mapping(uint256 => uint256) public activeTournament; // Tournament a character is registered in
     
     event BattleCompleted(
         uint256 indexed attacker, 
@@ -131,6 +138,13 @@ contract BattleArenaP2E is ReentrancyGuard, Ownable {
     event RewardClaimed(address indexed player, uint256 amount);
     event TournamentCreated(uint256 indexed tournamentId, string name, uint256 prizePool);
     event TournamentCompleted(uint256 indexed tournamentId, uint256 winner, uint256 prize);
+    event TournamentJoined(uint256 indexed tournamentId, uint256 indexed tokenId, address indexed player);
+    event TournamentMatchRecorded(
+        uint256 indexed tournamentId,
+        uint256 indexed winnerId,
+        uint256 indexed loserId,
+        bool forfeit
+    );
     event GuildCreated(uint256 indexed guildId, string name, address leader);
     event GuildJoined(address indexed player, uint256 indexed guildId);
     event SeasonStarted(uint256 indexed seasonId, uint256 startTime);
@@ -293,6 +307,10 @@ contract BattleArenaP2E is ReentrancyGuard, Ownable {
         distributeSpectatorRewards(battles.length - 1, rewardAmount);
         
         emit BattleCompleted(attackerId, defenderId, winner, rewardAmount, battleType);
+        
+        if (battleType == BattleType.TOURNAMENT) {
+            recordTournamentBattle(attackerId, defenderId, attackerWins);
+        }
     }
     
     /**
@@ -543,9 +561,9 @@ contract BattleArenaP2E is ReentrancyGuard, Ownable {
         // K-factor (rating sensitivity)
         uint256 kFactor = 32;
         
-        // Calculate rating changes
-        int256 attackerChange = int256(kFactor * (actualAttacker - expectedAttacker) / 100);
-        int256 defenderChange = int256(kFactor * (actualDefender - expectedDefender) / 100);
+        // Calculate rating changes (signed: the loser's actual score is below expected)
+        int256 attackerChange = int256(kFactor) * (int256(actualAttacker) - int256(expectedAttacker)) / 100;
+        int256 defenderChange = int256(kFactor) * (int256(actualDefender) - int256(expectedDefender)) / 100;
         
         // Apply changes
         if (attackerChange >= 0) {
@@ -741,6 +759,157 @@ contract BattleArenaP2E is ReentrancyGuard, Ownable {
         return tournamentId;
     }
     
+    /**
+     * @dev Register a character for a tournament (entry fee goes to the prize pool)
+     */
+    function joinTournament(uint256 tournamentId, uint256 tokenId) external nonReentrant {
+        require(characterNFT.ownerOf(tokenId) == msg.sender, "Not your character");
+        
+        Tournament storage tournament = tournaments[tournamentId];
+        require(tournament.id != 0, "Tournament does not exist");
+        require(block.timestamp < tournament.startTime, "Registration closed");
+        require(characters[tokenId].maxHealth > 0, "Characters not initialized");
+        require(!tournament.isParticipant[tokenId], "Already registered");
+        
+        // One tournament at a time so TOURNAMENT battles count toward exactly one
+        uint256 previous = activeTournament[tokenId];
+        require(
+            previous == 0 || tournaments[previous].completed || tournaments[previous].eliminated[tokenId],
+            "Already in another tournament"
+        );
+        
+        if (tournament.entryFee > 0) {
+            require(
+                rewardToken.transferFrom(msg.sender, address(this), tournament.entryFee),
+                "Entry fee transfer failed"
+            );
+            tournament.prizePool += tournament.entryFee;
+        }
+        
+        tournament.participants.push(tokenId);
+        tournament.isParticipant[tokenId] = true;
+        activeTournament[tokenId] = tournamentId;
+        
+        emit TournamentJoined(tournamentId, tokenId, msg.sender);
+    }
+    
+    /**
+     * @dev Concede a tournament match without a battle (e.g. the character cannot be healed)
+     */
+    function forfeitTournamentMatch(uint256 tournamentId, uint256 tokenId, uint256 opponentId) external {
+        require(characterNFT.ownerOf(tokenId) == msg.sender, "Not your character");
+        checkTournamentMatch(tournamentId, tokenId, opponentId);
+        recordTournamentMatch(tournamentId, opponentId, tokenId, true);
+    }
+    
+    /**
+     * @dev Complete a tournament once its results decide a winner and pay out the prize pool
+     * Elimination types: the last character not eliminated. Round robin: most wins after every pair
+     * has played, ties going to the earlier registration.
+     */
+    function completeTournament(uint256 tournamentId) external {
+        Tournament storage tournament = tournaments[tournamentId];
+        require(tournament.id != 0, "Tournament does not exist");
+        require(!tournament.completed, "Tournament already completed");
+        require(block.timestamp >= tournament.startTime, "Tournament not started");
+        
+        uint256 count = tournament.participants.length;
+        require(count >= 2, "Not enough participants");
+        
+        require(
+            tournament.tournamentType == TournamentType.ROUND_ROBIN
+                ? tournament.matchesPlayed == count * (count - 1) / 2
+                : tournament.eliminatedCount == count - 1,
+            "Matches remaining"
+        );
+        
+        // Most wins among characters not eliminated (elimination types leave exactly one)
+        uint256 winnerId;
+        bool found;
+        for (uint256 i = 0; i < count; i++) {
+            uint256 tokenId = tournament.participants[i];
+            if (tournament.eliminated[tokenId]) continue;
+            if (!found || tournament.wins[tokenId] > tournament.wins[winnerId]) {
+                winnerId = tokenId;
+                found = true;
+            }
+        }
+        
+        uint256 platformFee = tournament.prizePool * TOURNAMENT_FEE_PERCENTAGE / 100;
+        uint256 prize = tournament.prizePool - platformFee;
+        
+        tournament.winner = winnerId;
+        tournament.completed = true;
+        playerEarnings[characterNFT.ownerOf(winnerId)] += prize;
+        
+        emit TournamentCompleted(tournamentId, winnerId, prize);
+    }
+    
+    /**
+     * @dev Count a TOURNAMENT battle as a match when both characters are in the same running tournament
+     */
+    function recordTournamentBattle(uint256 attackerId, uint256 defenderId, bool attackerWins) internal {
+        uint256 tournamentId = activeTournament[attackerId];
+        if (tournamentId == 0 || activeTournament[defenderId] != tournamentId) return;
+        
+        Tournament storage tournament = tournaments[tournamentId];
+        if (tournament.completed || block.timestamp < tournament.startTime) return;
+        
+        checkTournamentMatch(tournamentId, attackerId, defenderId);
+        (uint256 winnerId, uint256 loserId) = attackerWins ? (attackerId, defenderId) : (defenderId, attackerId);
+        recordTournamentMatch(tournamentId, winnerId, loserId, false);
+    }
+    
+    /**
+     * @dev Both characters must be registered and still in the tournament (or not yet paired in round robin)
+     */
+    function checkTournamentMatch(uint256 tournamentId, uint256 tokenId, uint256 opponentId) internal view {
+        Tournament storage tournament = tournaments[tournamentId];
+        require(tournament.id != 0, "Tournament does not exist");
+        require(!tournament.completed, "Tournament already completed");
+        require(block.timestamp >= tournament.startTime, "Tournament not started");
+        require(tokenId != opponentId, "Cannot battle yourself");
+        require(
+            tournament.isParticipant[tokenId] && tournament.isParticipant[opponentId],
+            "Not a tournament participant"
+        );
+        
+        if (tournament.tournamentType == TournamentType.ROUND_ROBIN) {
+            require(!tournament.played[tokenId][opponentId], "Match already played");
+        } else {
+            require(
+                !tournament.eliminated[tokenId] && !tournament.eliminated[opponentId],
+                "Character eliminated"
+            );
+        }
+    }
+    
+    /**
+     * @dev Count the win and eliminate the loser (round robin: mark the pair as played)
+     */
+    function recordTournamentMatch(uint256 tournamentId, uint256 winnerId, uint256 loserId, bool forfeit) internal {
+        Tournament storage tournament = tournaments[tournamentId];
+        tournament.wins[winnerId]++;
+        tournament.matchesPlayed++;
+        
+        if (tournament.tournamentType == TournamentType.ROUND_ROBIN) {
+            tournament.played[winnerId][loserId] = true;
+            tournament.played[loserId][winnerId] = true;
+        } else {
+            tournament.eliminated[loserId] = true;
+            tournament.eliminatedCount++;
+        }
+        
+        emit TournamentMatchRecorded(tournamentId, winnerId, loserId, forfeit);
+    }
+    
+    /**
+     * @dev Get registered characters of a tournament
+     */
+    function getTournamentParticipants(uint256 tournamentId) external view returns (uint256[] memory) {
+        return tournaments[tournamentId].participants;
+    }
+    
     /**
      * @dev Create a guild
      */
@@ -1,6 +1,8 @@
 import type { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox-viem";
 
+import "./tasks";
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.28",
@@ -22,12 +24,13 @@ const config: HardhatUserConfig = {
     localhost: {
       url: "http://127.0.0.1:8545",
       chainId: 31337
+    },
+    // 테스트넷 (npm run deploy:sepolia)
+    sepolia: {
+      url: process.env.SEPOLIA_URL || "",
+      chainId: 11155111,
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : []
     }
-    // 추후 테스트넷 설정 추가 가능
-    // sepolia: {
-    //   url: process.env.SEPOLIA_URL || "",
-    //   accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : []
-    // }
   },
   gasReporter: {
     enabled: process.env.REPORT_GAS !== undefined,
@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * 🔐 AdvancedLock 모듈
+ * 다중 사용자 시간 잠금 금고를 배포합니다.
+ */
+const AdvancedLockModule = buildModule("AdvancedLockModule", (m) => {
+  const advancedLock = m.contract("AdvancedLock");
+
+  return { advancedLock };
+});
+
+export default AdvancedLockModule;
@@ -0,0 +1,57 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { parseEther } from "viem";
+
+import TokenModule from "./Token";
+
+const DEFAULT_INITIAL_LIQUIDITY = parseEther("10000");
+
+/**
+ * 🔄 DeFi 모듈
+ * MyToken / PairToken 쌍으로 SimpleDEX와 IntelligentDEX를 배포하고
+ * 두 거래소에 초기 유동성을 공급합니다.
+ */
+const DeFiModule = buildModule("DeFiModule", (m) => {
+  const { myToken } = m.useModule(TokenModule);
+
+  const initialLiquidity = m.getParameter("initialLiquidity", DEFAULT_INITIAL_LIQUIDITY);
+
+  // SimpleDEX는 단일 페어만 지원하므로 두 번째 ERC-20이 필요
+  const pairToken = m.contract("MyToken", [], { id: "PairToken" });
+
+  // SimpleDEX: 고정 페어 + 초기 유동성
+  const simpleDEX = m.contract("SimpleDEX", [myToken, pairToken]);
+
+  const approveSimpleA = m.call(myToken, "approve", [simpleDEX, initialLiquidity], {
+    id: "ApproveMyTokenForSimpleDEX",
+  });
+  const approveSimpleB = m.call(pairToken, "approve", [simpleDEX, initialLiquidity], {
+    id: "ApprovePairTokenForSimpleDEX",
+  });
+  m.call(simpleDEX, "addLiquidity", [initialLiquidity, initialLiquidity], {
+    id: "SeedSimpleDEX",
+    after: [approveSimpleA, approveSimpleB],
+  });
+
+  // IntelligentDEX: 풀 생성 후 PoolCreated 이벤트의 poolId로 유동성 공급
+  const intelligentDEX = m.contract("IntelligentDEX");
+
+  const createPool = m.call(intelligentDEX, "createPool", [myToken, pairToken], {
+    id: "CreateMyTokenPairPool",
+  });
+  const poolId = m.readEventArgument(createPool, "PoolCreated", "poolId");
+
+  const approveIntelligentA = m.call(myToken, "approve", [intelligentDEX, initialLiquidity], {
+    id: "ApproveMyTokenForIntelligentDEX",
+  });
+  const approveIntelligentB = m.call(pairToken, "approve", [intelligentDEX, initialLiquidity], {
+    id: "ApprovePairTokenForIntelligentDEX",
+  });
+  m.call(intelligentDEX, "addLiquidity", [poolId, initialLiquidity, initialLiquidity], {
+    id: "SeedIntelligentDEX",
+    after: [approveIntelligentA, approveIntelligentB],
+  });
+
+  return { pairToken, simpleDEX, intelligentDEX };
+});
+
+export default DeFiModule;
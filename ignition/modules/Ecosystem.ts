@@ -0,0 +1,36 @@
+// 생태계 전체를 한 번에 배포하는 최상위 Ignition 모듈
+// 도메인별 하위 모듈을 조합하며, 환경별 파라미터는 ignition/parameters/ 참고
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import AdvancedLockModule from "./AdvancedLock";
+import DeFiModule from "./DeFi";
+import GameModule from "./Game";
+import GovernanceModule from "./Governance";
+import NFTModule from "./NFT";
+import TokenModule from "./Token";
+
+const EcosystemModule = buildModule("EcosystemModule", (m) => {
+  const { myToken, evolutionaryToken } = m.useModule(TokenModule);
+  const { myNFT, dynamicNFT } = m.useModule(NFTModule);
+  const { pairToken, simpleDEX, intelligentDEX } = m.useModule(DeFiModule);
+  const { advancedLock } = m.useModule(AdvancedLockModule);
+  const { battleArena } = m.useModule(GameModule);
+  const { multiSig, dao } = m.useModule(GovernanceModule);
+
+  return {
+    myToken,
+    evolutionaryToken,
+    pairToken,
+    myNFT,
+    dynamicNFT,
+    simpleDEX,
+    intelligentDEX,
+    advancedLock,
+    battleArena,
+    multiSig,
+    dao,
+  };
+});
+
+export default EcosystemModule;
@@ -0,0 +1,29 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { parseEther } from "viem";
+
+import NFTModule from "./NFT";
+import TokenModule from "./Token";
+
+const DEFAULT_REWARD_POOL = parseEther("100000");
+
+/**
+ * 🎮 게임 모듈
+ * BattleArenaP2E를 MyToken(보상) / MyNFT(캐릭터)와 연결해 배포하고
+ * claimRewards 지급에 쓰일 보상 토큰을 아레나에 적립합니다.
+ */
+const GameModule = buildModule("GameModule", (m) => {
+  const { myToken } = m.useModule(TokenModule);
+  const { myNFT } = m.useModule(NFTModule);
+
+  const rewardPool = m.getParameter("rewardPool", DEFAULT_REWARD_POOL);
+
+  const battleArena = m.contract("BattleArenaP2E", [myToken, myNFT]);
+
+  m.call(myToken, "transfer", [battleArena, rewardPool], {
+    id: "FundBattleArenaRewards",
+  });
+
+  return { battleArena };
+});
+
+export default GameModule;
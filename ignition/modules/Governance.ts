@@ -0,0 +1,26 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import { envAddresses } from "./env";
+import TokenModule from "./Token";
+
+/**
+ * 🏛️ 거버넌스 모듈
+ * IntelligentMultiSig(재무 지갑)과 AIEnhancedDAO를 배포합니다.
+ * DAO의 treasury는 멀티시그 지갑 주소로 연결됩니다.
+ */
+const GovernanceModule = buildModule("GovernanceModule", (m) => {
+  const { myToken } = m.useModule(TokenModule);
+
+  // 멀티시그는 최소 3명의 소유자가 필요 (MULTISIG_OWNERS 환경 변수, 없으면 로컬 계정 0~2)
+  const owners = envAddresses("MULTISIG_OWNERS", 3) ?? [m.getAccount(0), m.getAccount(1), m.getAccount(2)];
+  const ownerNames = m.getParameter("ownerNames", ["Deployer", "Alice", "Bob"]);
+  const required = m.getParameter("required", 2);
+
+  const multiSig = m.contract("IntelligentMultiSig", [owners, required, ownerNames]);
+
+  const dao = m.contract("AIEnhancedDAO", [myToken, multiSig]);
+
+  return { multiSig, dao };
+});
+
+export default GovernanceModule;
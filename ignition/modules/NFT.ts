@@ -0,0 +1,22 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import { envAddress } from "./env";
+
+/**
+ * 🎨 NFT 모듈
+ * 게임 캐릭터 NFT(MyNFT)와 성과 기반 동적 NFT를 배포하고
+ * DynamicPerformanceNFT의 게임 오라클을 연결합니다.
+ */
+const NFTModule = buildModule("NFTModule", (m) => {
+  // GAME_ORACLE 환경 변수, 없으면 배포자 계정 (로컬 개발용)
+  const gameOracle = envAddress("GAME_ORACLE") ?? m.getAccount(0);
+
+  const myNFT = m.contract("MyNFT");
+  const dynamicNFT = m.contract("DynamicPerformanceNFT");
+
+  m.call(dynamicNFT, "setOracle", [gameOracle]);
+
+  return { myNFT, dynamicNFT };
+});
+
+export default NFTModule;
@@ -0,0 +1,16 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * 💰 토큰 모듈
+ * 생태계 전반에서 사용하는 ERC-20 토큰들을 배포합니다.
+ * - MyToken: 게임 보상, DEX 기준 토큰, DAO 거버넌스 토큰
+ * - EvolutionaryToken: 진화형 토큰 (독립 경제 실험용)
+ */
+const TokenModule = buildModule("TokenModule", (m) => {
+  const myToken = m.contract("MyToken");
+  const evolutionaryToken = m.contract("EvolutionaryToken");
+
+  return { myToken, evolutionaryToken };
+});
+
+export default TokenModule;
@@ -0,0 +1,28 @@
+import { getAddress, isAddress, zeroAddress, type Address } from "viem";
+
+/**
+ * 🔑 환경 변수에서 읽는 배포 주소
+ * 테스트넷/메인넷 주소는 파라미터 파일에 커밋하지 않고 환경 변수로 받습니다.
+ * 값이 없으면 undefined (모듈이 로컬 계정 기본값을 사용), 잘못된 주소나 0 주소면 배포 전에 실패합니다.
+ */
+export function envAddress(name: string): Address | undefined {
+  return envAddresses(name, 1)?.[0];
+}
+
+/**
+ * 쉼표로 구분된 주소 목록 (예: MULTISIG_OWNERS=0xA...,0xB...,0xC...)
+ */
+export function envAddresses(name: string, count: number): Address[] | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw) return undefined;
+
+  const values = raw.split(",").map((value) => value.trim());
+  if (values.length !== count) {
+    throw new Error(`${name}: 주소 ${count}개가 필요합니다 (받은 값 ${values.length}개)`);
+  }
+  return values.map((value) => {
+    if (!isAddress(value, { strict: false })) throw new Error(`${name}: 올바른 주소가 아닙니다 (${value})`);
+    if (getAddress(value) === zeroAddress) throw new Error(`${name}: 0 주소는 사용할 수 없습니다`);
+    return getAddress(value);
+  });
+}
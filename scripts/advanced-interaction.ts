@@ -1,7 +1,10 @@
 import hre from "hardhat";
 import { formatEther, parseEther } from "viem";
 
-async function main() {
+import { runScript, StepRunner } from "./lib/steps";
+import { AdvancedLockClient } from "./sdk";
+
+export async function main(steps: StepRunner) {
   console.log("🚀 AdvancedLock 고급 상호작용 데모");
   
   // 계정 준비
@@ -16,50 +19,54 @@ async function main() {
   
   // AdvancedLock 배포
   console.log("\n📦 AdvancedLock 배포...");
-  const advancedLock = await hre.viem.deployContract("AdvancedLock");
+  const advancedLock = await steps.step("AdvancedLock 배포", () => hre.viem.deployContract("AdvancedLock"));
+  if (!advancedLock) return;
   console.log(`컨트랙트 주소: ${advancedLock.address}`);
   
   // 시나리오 1: Alice가 3개월 잠금 생성
   console.log("\n🔒 시나리오 1: Alice의 3개월 잠금");
   const threeMonths = 3 * 30 * 24 * 60 * 60; // 3개월
   
-  const aliceTxHash = await advancedLock.write.createLock(
-    [alice.account.address, threeMonths],
-    {
-      value: parseEther("2.5"),
-      account: alice.account
-    }
-  );
-  
-  console.log(`✅ Alice 잠금 생성: ${aliceTxHash}`);
+  await steps.step("Alice 잠금 생성", async () => {
+    const aliceTxHash = await advancedLock.write.createLock(
+      [alice.account.address, BigInt(threeMonths)],
+      {
+        value: parseEther("2.5"),
+        account: alice.account
+      }
+    );
+    console.log(`   🧾 트랜잭션: ${aliceTxHash}`);
+  });
   
   // 시나리오 2: Bob이 6개월 잠금 생성
   console.log("\n🔒 시나리오 2: Bob의 6개월 잠금");
   const sixMonths = 6 * 30 * 24 * 60 * 60; // 6개월
   
-  const bobTxHash = await advancedLock.write.createLock(
-    [bob.account.address, sixMonths],
-    {
-      value: parseEther("1.8"),
-      account: bob.account
-    }
-  );
-  
-  console.log(`✅ Bob 잠금 생성: ${bobTxHash}`);
+  await steps.step("Bob 잠금 생성", async () => {
+    const bobTxHash = await advancedLock.write.createLock(
+      [bob.account.address, BigInt(sixMonths)],
+      {
+        value: parseEther("1.8"),
+        account: bob.account
+      }
+    );
+    console.log(`   🧾 트랜잭션: ${bobTxHash}`);
+  });
   
   // 시나리오 3: Charlie가 자신에게 1년 잠금 (선물)
   console.log("\n🎁 시나리오 3: Charlie의 자기 자신에게 선물");
   const oneYear = 365 * 24 * 60 * 60; // 1년
   
-  const charlieTxHash = await advancedLock.write.createLock(
-    [charlie.account.address, oneYear],
-    {
-      value: parseEther("0.5"),
-      account: charlie.account
-    }
-  );
-  
-  console.log(`✅ Charlie 잠금 생성: ${charlieTxHash}`);
+  await steps.step("Charlie 잠금 생성", async () => {
+    const charlieTxHash = await advancedLock.write.createLock(
+      [charlie.account.address, BigInt(oneYear)],
+      {
+        value: parseEther("0.5"),
+        account: charlie.account
+      }
+    );
+    console.log(`   🧾 트랜잭션: ${charlieTxHash}`);
+  });
   
   // 현재 상태 조회
   console.log("\n📊 현재 상태:");
@@ -68,23 +75,23 @@ async function main() {
   console.log(`총 잠긴 금액: ${formatEther(totalLocked)} ETH`);
   
   // 각자의 잠금 정보 확인
-  for (const [name, user] of [["Alice", alice], ["Bob", bob], ["Charlie", charlie]]) {
-    const userLocks = await advancedLock.read.getUserLocks([user.account.address]);
-    const userTotal = await advancedLock.read.getUserTotalLocked([user.account.address]);
+  const lockClient = new AdvancedLockClient(hre, advancedLock);
+  for (const [name, user] of [["Alice", alice], ["Bob", bob], ["Charlie", charlie]] as const) {
+    const userLocks = await lockClient.getUserLocks(user.account.address);
+    const userTotal = await lockClient.getUserTotalLocked(user.account.address);
     
     console.log(`\n${name}:`);
     console.log(`- 잠금 개수: ${userLocks.length}`);
     console.log(`- 총 잠긴 금액: ${formatEther(userTotal)} ETH`);
     
     // 각 잠금의 상세 정보
-    for (let i = 0; i < userLocks.length; i++) {
-      const lockInfo = await advancedLock.read.locks([userLocks[i]]);
-      const unlockDate = new Date(Number(lockInfo[1]) * 1000);
+    for (const lockInfo of userLocks) {
+      const unlockDate = new Date(Number(lockInfo.unlockTime) * 1000);
       
-      console.log(`  잠금 #${userLocks[i]}:`);
-      console.log(`    - 금액: ${formatEther(lockInfo[0])} ETH`);
+      console.log(`  잠금 #${lockInfo.id}:`);
+      console.log(`    - 금액: ${formatEther(lockInfo.amount)} ETH`);
       console.log(`    - 해제일: ${unlockDate.toLocaleDateString()}`);
-      console.log(`    - 상태: ${lockInfo[2] ? '인출완료' : '잠금중'}`);
+      console.log(`    - 상태: ${lockInfo.withdrawn ? '인출완료' : '잠금중'}`);
     }
   }
   
@@ -101,69 +108,65 @@ async function main() {
   
   // Alice 인출 시도
   console.log("\n💸 Alice 인출 시도:");
-  try {
+  await steps.step("Alice 인출", async () => {
     const aliceWithdrawTx = await advancedLock.write.withdraw([0n], {
       account: alice.account
     });
-    
-    console.log(`✅ Alice 인출 성공: ${aliceWithdrawTx}`);
+    console.log(`   🧾 트랜잭션: ${aliceWithdrawTx}`);
     
     // 인출 후 상태 확인
     const newTotalLocked = await advancedLock.read.totalLocked();
     console.log(`인출 후 총 잠긴 금액: ${formatEther(newTotalLocked)} ETH`);
-    
-  } catch (error: any) {
-    console.log(`❌ Alice 인출 실패: ${error.shortMessage}`);
-  }
+  });
   
   // Bob 인출 시도 (아직 시간이 안됨)
   console.log("\n💸 Bob 인출 시도 (실패 예상):");
-  try {
-    await advancedLock.write.withdraw([1n], {
-      account: bob.account
-    });
-    console.log("✅ Bob 인출 성공");
-  } catch (error: any) {
-    console.log(`❌ Bob 인출 실패 (예상됨): ${error.shortMessage}`);
-  }
+  await steps.expectRevert(
+    "Bob 만기 전 인출 차단",
+    () => advancedLock.write.withdraw([1n], { account: bob.account }),
+    "Lock not yet expired"
+  );
   
   // 시나리오 5: 관리자 권한 테스트
   console.log("\n🔧 시나리오 5: 관리자 기능 테스트");
   
   // 컨트랙트 일시정지
-  console.log("컨트랙트 일시정지...");
-  await advancedLock.write.pause({ account: deployer.account });
+  const paused = await steps.step("컨트랙트 일시정지", async () => {
+    await advancedLock.write.pause({ account: deployer.account });
+    return true;
+  });
   
   // 일시정지 상태에서 새 잠금 생성 시도 (실패해야 함)
-  try {
-    await advancedLock.write.createLock([alice.account.address, 3600], {
-      value: parseEther("1.0"),
-      account: alice.account
-    });
-    console.log("❌ 일시정지 중인데 잠금 생성 성공 (버그!)");
-  } catch (error) {
-    console.log("✅ 일시정지 중 잠금 생성 차단됨");
-  }
+  await steps.expectRevert(
+    "일시정지 중 잠금 생성 차단",
+    () =>
+      advancedLock.write.createLock([alice.account.address, 3600n], {
+        value: parseEther("1.0"),
+        account: alice.account
+      }),
+    undefined,
+    { requires: [paused] }
+  );
   
   // 일시정지 해제
-  console.log("컨트랙트 일시정지 해제...");
-  await advancedLock.write.unpause({ account: deployer.account });
+  await steps.step(
+    "컨트랙트 일시정지 해제",
+    () => advancedLock.write.unpause({ account: deployer.account }),
+    { requires: [paused] }
+  );
   
   // 이제 정상 작동해야 함
-  try {
-    const newLockTx = await advancedLock.write.createLock([alice.account.address, 3600], {
+  await steps.step("일시정지 해제 후 잠금 생성", () =>
+    advancedLock.write.createLock([alice.account.address, 3600n], {
       value: parseEther("0.1"),
       account: alice.account
-    });
-    console.log(`✅ 일시정지 해제 후 잠금 생성 성공: ${newLockTx}`);
-  } catch (error) {
-    console.log("❌ 일시정지 해제 후에도 실패");
-  }
+    })
+  );
   
   // 이벤트 조회
   console.log("\n📡 모든 이벤트 조회:");
   
-  try {
+  await steps.step("이벤트 조회", async () => {
     const lockCreatedEvents = await advancedLock.getEvents.LockCreated();
     console.log(`\n🔒 LockCreated 이벤트: ${lockCreatedEvents.length}개`);
     
@@ -184,19 +187,13 @@ async function main() {
       console.log(`- 수혜자: ${event.args.beneficiary}`);
       console.log(`- 금액: ${formatEther(event.args.amount!)} ETH`);
     });
-    
-  } catch (error) {
-    console.log("이벤트 조회 중 오류 발생");
-  }
+  });
   
   console.log("\n🎉 고급 상호작용 데모 완료!");
   console.log(`컨트랙트 주소: ${advancedLock.address}`);
   console.log("이 주소로 콘솔에서 추가 실험을 해보세요!");
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+if (require.main === module) {
+  runScript("AdvancedLock 고급 상호작용 데모", main);
+}
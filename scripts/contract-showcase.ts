@@ -1,7 +1,10 @@
 import hre from "hardhat";
 import { formatEther, parseEther } from "viem";
 
-async function main() {
+import { runScript, StepRunner } from "./lib/steps";
+import { BattleArenaClient, DaoClient, MultiSigClient, SimpleDexClient } from "./sdk";
+
+export async function main(steps: StepRunner) {
   console.log("🌟 스마트컨트랙트 종합 쇼케이스 시작!");
   console.log("=".repeat(60));
   
@@ -20,259 +23,324 @@ async function main() {
   console.log("\n💰 1. ERC-20 토큰 시스템 테스트");
   console.log("-".repeat(40));
   
-  const myToken = await hre.viem.deployContract("MyToken");
-  console.log(`토큰 컨트랙트 배포: ${myToken.address}`);
-  
-  // 에어드랍 테스트
-  console.log("Alice와 Bob이 에어드랍 claim...");
-  await myToken.write.claimAirdrop({ account: alice.account });
-  await myToken.write.claimAirdrop({ account: bob.account });
-  
-  const aliceBalance = await myToken.read.balanceOf([alice.account.address]);
-  const bobBalance = await myToken.read.balanceOf([bob.account.address]);
+  const myToken = await steps.step("토큰 컨트랙트 배포", () => hre.viem.deployContract("MyToken"));
   
-  console.log(`Alice 토큰 잔액: ${formatEther(aliceBalance)} MTK`);
-  console.log(`Bob 토큰 잔액: ${formatEther(bobBalance)} MTK`);
-  
-  // 스테이킹 테스트
-  console.log("Alice가 50 MTK 스테이킹...");
-  await myToken.write.stake([parseEther("50")], { account: alice.account });
-  
-  const aliceStaked = await myToken.read.stakedBalance([alice.account.address]);
-  console.log(`Alice 스테이킹 금액: ${formatEther(aliceStaked)} MTK`);
+  await steps.step(
+    "Alice와 Bob 에어드랍 claim",
+    async () => {
+      await myToken!.write.claimAirdrop({ account: alice.account });
+      await myToken!.write.claimAirdrop({ account: bob.account });
+
+      const aliceBalance = await myToken!.read.balanceOf([alice.account.address]);
+      const bobBalance = await myToken!.read.balanceOf([bob.account.address]);
+      console.log(`Alice 토큰 잔액: ${formatEther(aliceBalance)} MTK`);
+      console.log(`Bob 토큰 잔액: ${formatEther(bobBalance)} MTK`);
+    },
+    { requires: [myToken] }
+  );
+  
+  await steps.expectRevert(
+    "에어드랍 중복 claim 차단",
+    () => myToken!.write.claimAirdrop({ account: alice.account }),
+    undefined,
+    { requires: [myToken] }
+  );
+  
+  await steps.step(
+    "Alice 50 MTK 스테이킹",
+    async () => {
+      await myToken!.write.stake([parseEther("50")], { account: alice.account });
+      const aliceStaked = await myToken!.read.stakedBalance([alice.account.address]);
+      console.log(`Alice 스테이킹 금액: ${formatEther(aliceStaked)} MTK`);
+    },
+    { requires: [myToken] }
+  );
   
   // 2. NFT 컨트랙트 테스트
   console.log("\n🎨 2. NFT 컬렉션 테스트");
   console.log("-".repeat(40));
   
-  const myNFT = await hre.viem.deployContract("MyNFT");
-  console.log(`NFT 컨트랙트 배포: ${myNFT.address}`);
-  
-  // 화이트리스트 추가
-  await myNFT.write.addToWhitelist([[alice.account.address, bob.account.address]], {
-    account: deployer.account
-  });
-  
-  // 화이트리스트 민팅
-  console.log("Alice가 화이트리스트로 NFT 민팅...");
-  await myNFT.write.whitelistMint(["https://example.com/nft/1.json"], {
-    value: parseEther("0.03"),
-    account: alice.account
-  });
-  
-  // 화이트리스트 종료 후 공개 민팅
-  await myNFT.write.setWhitelistActive([false], { account: deployer.account });
-  
-  console.log("Bob이 공개 민팅...");
-  await myNFT.write.publicMint(["https://example.com/nft/2.json"], {
-    value: parseEther("0.05"),
-    account: bob.account
-  });
-  
-  const aliceNFTs = await myNFT.read.getUserNFTs([alice.account.address]);
-  const bobNFTs = await myNFT.read.getUserNFTs([bob.account.address]);
-  
-  console.log(`Alice NFT 개수: ${aliceNFTs.length}`);
-  console.log(`Bob NFT 개수: ${bobNFTs.length}`);
-  
-  // NFT 레벨업
-  console.log("Alice NFT 레벨업...");
-  await myNFT.write.levelUpNFT([aliceNFTs[0], 1500n], { account: alice.account });
-  
-  const aliceNFTInfo = await myNFT.read.getNFTInfo([aliceNFTs[0]]);
-  console.log(`Alice NFT #${aliceNFTs[0]} 레벨: ${aliceNFTInfo[2]}`);
+  const myNFT = await steps.step("NFT 컨트랙트 배포", () => hre.viem.deployContract("MyNFT"));
+  
+  await steps.step(
+    "Alice 화이트리스트 민팅",
+    async () => {
+      await myNFT!.write.addToWhitelist([[alice.account.address, bob.account.address]], {
+        account: deployer.account
+      });
+      await myNFT!.write.whitelistMint(["https://example.com/nft/1.json"], {
+        value: parseEther("0.03"),
+        account: alice.account
+      });
+    },
+    { requires: [myNFT] }
+  );
+  
+  await steps.step(
+    "화이트리스트 종료 후 Bob 공개 민팅",
+    async () => {
+      await myNFT!.write.setWhitelistActive([false], { account: deployer.account });
+      await myNFT!.write.publicMint(["https://example.com/nft/2.json"], {
+        value: parseEther("0.05"),
+        account: bob.account
+      });
+    },
+    { requires: [myNFT] }
+  );
+  
+  const aliceNFTs = await steps.step(
+    "NFT 보유 현황 조회",
+    async () => {
+      const aliceNFTs = await myNFT!.read.getUserNFTs([alice.account.address]);
+      const bobNFTs = await myNFT!.read.getUserNFTs([bob.account.address]);
+      console.log(`Alice NFT 개수: ${aliceNFTs.length}`);
+      console.log(`Bob NFT 개수: ${bobNFTs.length}`);
+      if (aliceNFTs.length === 0) throw new Error("Alice가 보유한 NFT가 없습니다");
+      return aliceNFTs;
+    },
+    { requires: [myNFT] }
+  );
+  
+  await steps.step(
+    "Alice NFT 레벨업",
+    async () => {
+      await myNFT!.write.levelUpNFT([aliceNFTs![0], 1500n], { account: alice.account });
+      const [, , level] = await myNFT!.read.getNFTInfo([aliceNFTs![0]]);
+      console.log(`Alice NFT #${aliceNFTs![0]} 레벨: ${level}`);
+    },
+    { requires: [aliceNFTs] }
+  );
   
   // 3. DEX 컨트랙트 테스트
   console.log("\n🔄 3. DEX (토큰 스왑) 테스트");
   console.log("-".repeat(40));
   
   // 두 번째 토큰 생성 (DEX용)
-  const tokenB = await hre.viem.deployContract("MyToken");
-  
-  // DEX 배포
-  const dex = await hre.viem.deployContract("SimpleDEX", [myToken.address, tokenB.address]);
-  console.log(`DEX 컨트랙트 배포: ${dex.address}`);
-  
-  // 배포자가 토큰 민팅
-  await myToken.write.mint([deployer.account.address, parseEther("10000")], {
-    account: deployer.account
-  });
-  await tokenB.write.mint([deployer.account.address, parseEther("10000")], {
-    account: deployer.account
-  });
-  
-  // DEX에 유동성 공급
-  console.log("DEX에 유동성 공급...");
-  await myToken.write.approve([dex.address, parseEther("1000")], {
-    account: deployer.account
-  });
-  await tokenB.write.approve([dex.address, parseEther("1000")], {
-    account: deployer.account
-  });
-  
-  await dex.write.addLiquidity([parseEther("1000"), parseEther("1000")], {
-    account: deployer.account
-  });
-  
-  const poolStats = await dex.read.getPoolStats();
-  console.log(`유동성 풀 - TokenA: ${formatEther(poolStats[0])}, TokenB: ${formatEther(poolStats[1])}`);
-  
-  // 스왑 테스트
-  console.log("Alice가 토큰 스왑 진행...");
-  await myToken.write.transfer([alice.account.address, parseEther("100")], {
-    account: deployer.account
-  });
-  await myToken.write.approve([dex.address, parseEther("10")], {
-    account: alice.account
-  });
-  
-  await dex.write.swapAtoB([parseEther("10")], { account: alice.account });
-  
-  const aliceTokenBBalance = await tokenB.read.balanceOf([alice.account.address]);
-  console.log(`스왑 후 Alice TokenB 잔액: ${formatEther(aliceTokenBBalance)}`);
+  const tokenB = await steps.step("TokenB 배포", () => hre.viem.deployContract("MyToken"));
+  
+  const dex = await steps.step(
+    "DEX 컨트랙트 배포",
+    () => hre.viem.deployContract("SimpleDEX", [myToken!.address, tokenB!.address]),
+    { requires: [myToken, tokenB] }
+  );
+  
+  const pool = await steps.step(
+    "DEX에 유동성 공급",
+    async () => {
+      await myToken!.write.mint([deployer.account.address, parseEther("10000")], {
+        account: deployer.account
+      });
+      await tokenB!.write.mint([deployer.account.address, parseEther("10000")], {
+        account: deployer.account
+      });
+      await myToken!.write.approve([dex!.address, parseEther("1000")], {
+        account: deployer.account
+      });
+      await tokenB!.write.approve([dex!.address, parseEther("1000")], {
+        account: deployer.account
+      });
+      await dex!.write.addLiquidity([parseEther("1000"), parseEther("1000")], {
+        account: deployer.account
+      });
+
+      const { reserveA, reserveB } = await new SimpleDexClient(hre, dex!).getPoolStats();
+      console.log(`유동성 풀 - TokenA: ${formatEther(reserveA)}, TokenB: ${formatEther(reserveB)}`);
+      return { reserveA, reserveB };
+    },
+    { requires: [dex] }
+  );
+  
+  await steps.step(
+    "Alice 토큰 스왑",
+    async () => {
+      await myToken!.write.transfer([alice.account.address, parseEther("100")], {
+        account: deployer.account
+      });
+      await myToken!.write.approve([dex!.address, parseEther("10")], {
+        account: alice.account
+      });
+      await dex!.write.swapAtoB([parseEther("10")], { account: alice.account });
+
+      const aliceTokenBBalance = await tokenB!.read.balanceOf([alice.account.address]);
+      console.log(`스왑 후 Alice TokenB 잔액: ${formatEther(aliceTokenBBalance)}`);
+    },
+    { requires: [pool] }
+  );
   
   // 4. 게임 컨트랙트 테스트
   console.log("\n🎮 4. RPG 배틀 게임 테스트");
   console.log("-".repeat(40));
   
-  const battleGame = await hre.viem.deployContract("BattleGame", [myToken.address]);
-  console.log(`게임 컨트랙트 배포: ${battleGame.address}`);
-  
-  // 게임에 토큰 제공 (보상용)
-  await myToken.write.transfer([battleGame.address, parseEther("10000")], {
-    account: deployer.account
-  });
-  
-  // 캐릭터 민팅
-  console.log("Alice와 Bob이 캐릭터 생성...");
-  await battleGame.write.mintCharacter(["Alice Warrior", 0n], {
-    value: parseEther("0.1"),
-    account: alice.account
-  });
-  
-  await battleGame.write.mintCharacter(["Bob Mage", 1n], {
-    value: parseEther("0.1"),
-    account: bob.account
-  });
-  
-  const aliceCharacters = await battleGame.read.getUserCharacters([alice.account.address]);
-  const bobCharacters = await battleGame.read.getUserCharacters([bob.account.address]);
-  
-  console.log(`Alice 캐릭터 ID: ${aliceCharacters[0]}`);
-  console.log(`Bob 캐릭터 ID: ${bobCharacters[0]}`);
-  
-  // 배틀 진행
-  console.log("Alice vs Bob 배틀 시작!");
-  await battleGame.write.startBattle([aliceCharacters[0], bobCharacters[0]], {
-    account: alice.account
-  });
-  
-  const aliceCharInfo = await battleGame.read.getCharacterInfo([aliceCharacters[0]]);
-  const bobCharInfo = await battleGame.read.getCharacterInfo([bobCharacters[0]]);
-  
-  console.log(`배틀 후 Alice 캐릭터 - 승: ${aliceCharInfo[8]}, 패: ${aliceCharInfo[9]}`);
-  console.log(`배틀 후 Bob 캐릭터 - 승: ${bobCharInfo[8]}, 패: ${bobCharInfo[9]}`);
+  const battleArena = await steps.step(
+    "게임 컨트랙트 배포",
+    () => hre.viem.deployContract("BattleArenaP2E", [myToken!.address, myNFT!.address]),
+    { requires: [myToken, myNFT] }
+  );
+  
+  await steps.step(
+    "게임에 보상용 토큰 제공",
+    () => myToken!.write.transfer([battleArena!.address, parseEther("10000")], { account: deployer.account }),
+    { requires: [battleArena] }
+  );
+  
+  // 캐릭터는 MyNFT 토큰으로 초기화 (클래스: 0 WARRIOR, 1 MAGE)
+  const characters = await steps.step(
+    "Alice와 Bob이 캐릭터 초기화",
+    async () => {
+      const [aliceCharacter] = await myNFT!.read.getUserNFTs([alice.account.address]);
+      const [bobCharacter] = await myNFT!.read.getUserNFTs([bob.account.address]);
+
+      await battleArena!.write.initializeCharacter([aliceCharacter, 0], { account: alice.account });
+      await battleArena!.write.initializeCharacter([bobCharacter, 1], { account: bob.account });
+
+      console.log(`Alice 캐릭터 ID: ${aliceCharacter}`);
+      console.log(`Bob 캐릭터 ID: ${bobCharacter}`);
+      return { aliceCharacter, bobCharacter };
+    },
+    { requires: [battleArena, aliceNFTs] }
+  );
+  
+  await steps.step(
+    "Alice vs Bob 배틀",
+    async () => {
+      await battleArena!.write.startBattle([characters!.aliceCharacter, characters!.bobCharacter, 0], {
+        account: alice.account
+      });
+
+      const arena = new BattleArenaClient(hre, battleArena!);
+      const aliceCharInfo = await arena.getCharacterStats(characters!.aliceCharacter);
+      const bobCharInfo = await arena.getCharacterStats(characters!.bobCharacter);
+      console.log(`배틀 후 Alice 캐릭터 - 승: ${aliceCharInfo.winCount}, 패: ${aliceCharInfo.lossCount}`);
+      console.log(`배틀 후 Bob 캐릭터 - 승: ${bobCharInfo.winCount}, 패: ${bobCharInfo.lossCount}`);
+    },
+    { requires: [characters] }
+  );
   
   // 5. 멀티시그 지갑 테스트
   console.log("\n🔐 5. 멀티시그 지갑 테스트");
   console.log("-".repeat(40));
   
   const owners = [deployer.account.address, alice.account.address, bob.account.address];
-  const requiredSignatures = 2;
-  
-  const multiSig = await hre.viem.deployContract("MultiSigWallet", [owners, requiredSignatures]);
-  console.log(`멀티시그 지갑 배포: ${multiSig.address}`);
-  
-  // 지갑에 ETH 입금
-  await deployer.sendTransaction({
-    to: multiSig.address,
-    value: parseEther("1.0")
-  });
-  
-  const walletInfo = await multiSig.read.getWalletInfo();
-  console.log(`멀티시그 잔액: ${formatEther(walletInfo[3])} ETH`);
-  console.log(`필요 서명 수: ${walletInfo[1]}/${walletInfo[0].length}`);
-  
-  // 트랜잭션 제출
-  console.log("Charlie에게 0.1 ETH 전송 제안...");
-  await multiSig.write.submitTransaction([
-    charlie.account.address,
-    parseEther("0.1"),
-    "0x"
-  ], { account: deployer.account });
-  
-  // Alice가 승인
-  await multiSig.write.confirmTransaction([0n], { account: alice.account });
-  
-  const txInfo = await multiSig.read.getTransaction([0n]);
-  console.log(`트랜잭션 상태 - 실행됨: ${txInfo[3]}, 승인 수: ${txInfo[4]}`);
+  const requiredSignatures = 2n;
+  
+  const multiSig = await steps.step("멀티시그 지갑 배포", () =>
+    hre.viem.deployContract("IntelligentMultiSig", [owners, requiredSignatures, ["Deployer", "Alice", "Bob"]])
+  );
+  
+  const walletBalance = await steps.step(
+    "지갑에 1 ETH 입금",
+    async () => {
+      const hash = await deployer.sendTransaction({
+        to: multiSig!.address,
+        value: parseEther("1.0")
+      });
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      const { balance, totalOwners, baseRequired } = await new MultiSigClient(hre, multiSig!).getWalletStats();
+      console.log(`멀티시그 잔액: ${formatEther(balance)} ETH`);
+      console.log(`필요 서명 수: ${baseRequired}/${totalOwners}`);
+      return balance;
+    },
+    { requires: [multiSig] }
+  );
+  
+  await steps.step(
+    "Charlie에게 0.1 ETH 전송 제안 및 Alice 승인",
+    async () => {
+      await multiSig!.write.submitTransaction([
+        charlie.account.address,
+        parseEther("0.1"),
+        "0x",
+        0 // NORMAL
+      ], { account: deployer.account });
+      await multiSig!.write.confirmTransaction([0n], { account: alice.account });
+
+      const transaction = await new MultiSigClient(hre, multiSig!).getTransaction(0n);
+      console.log(
+        `트랜잭션 상태 - 실행됨: ${transaction.executed}, 승인 수: ${transaction.confirmations}/${transaction.requiredConfirmations}`
+      );
+    },
+    { requires: [walletBalance] }
+  );
   
   // 6. DAO 거버넌스 테스트
   console.log("\n🏛️ 6. DAO 거버넌스 테스트");
   console.log("-".repeat(40));
   
-  const dao = await hre.viem.deployContract("DAOGovernance", [myToken.address]);
-  console.log(`DAO 컨트랙트 배포: ${dao.address}`);
-  
-  // Alice와 Bob이 토큰 스테이킹 (투표권 획득)
-  await myToken.write.approve([dao.address, parseEther("200")], {
-    account: alice.account
-  });
-  await dao.write.stakeTokens([parseEther("50")], { account: alice.account });
-  
-  const aliceVotingPower = await dao.read.getVotingPower([alice.account.address]);
-  console.log(`Alice 투표권: ${formatEther(aliceVotingPower)} votes`);
-  
-  // 제안서 생성 (투표권이 충분한 배포자가)
-  await myToken.write.approve([dao.address, parseEther("500")], {
-    account: deployer.account
-  });
-  await dao.write.stakeTokens([parseEther("500")], { account: deployer.account });
-  
-  await dao.write.propose([
-    "토큰 발행량 증가 제안",
-    "게임 보상을 위해 추가 토큰 발행",
-    "0x0000000000000000000000000000000000000000",
-    "0x"
-  ], { account: deployer.account });
-  
-  console.log("제안서 생성 완료!");
-  
-  const proposalDetails = await dao.read.getProposalDetails([0n]);
-  console.log(`제안서 제목: ${proposalDetails[0]}`);
+  const dao = await steps.step(
+    "DAO 컨트랙트 배포",
+    () => hre.viem.deployContract("AIEnhancedDAO", [myToken!.address, deployer.account.address]),
+    { requires: [myToken] }
+  );
+  
+  // 투표권 = 거버넌스 토큰 잔액
+  await steps.step(
+    "Alice 투표권 조회",
+    async () => {
+      const { votingPower, weightedPower } = await new DaoClient(hre, dao!).getVoterStats(alice.account.address);
+      console.log(`Alice 투표권: ${formatEther(votingPower)} votes (가중치 적용 ${formatEther(weightedPower)})`);
+    },
+    { requires: [dao] }
+  );
+  
+  // 제안은 1000 토큰 이상 보유자만, 설명은 100바이트 이상
+  const proposalId = await steps.step(
+    "제안서 생성",
+    async () => {
+      await dao!.write.submitProposal([
+        "토큰 발행량 증가 제안",
+        "게임 보상을 위해 추가 토큰을 발행하고, 발행된 토큰은 시즌 보상 풀에 배정합니다.",
+        0, // FUNDING
+        "0x"
+      ], { account: deployer.account });
+      return await dao!.read.proposalCount();
+    },
+    { requires: [dao] }
+  );
+  
+  await steps.step(
+    "제안서 조회",
+    async () => {
+      const proposal = await new DaoClient(hre, dao!).getProposal(proposalId!);
+      console.log(`제안서 제목: ${proposal.title} (필요 찬성률 ${proposal.requiredMajority}%)`);
+    },
+    { requires: [proposalId] }
+  );
   
   // 7. 전체 시스템 통계
   console.log("\n📊 전체 시스템 통계");
   console.log("-".repeat(40));
   
-  const totalTokenSupply = await myToken.read.totalSupply();
-  const nftTotalSupply = Number(await myNFT.read.balanceOf([alice.account.address])) + 
-                          Number(await myNFT.read.balanceOf([bob.account.address]));
-  
-  console.log(`총 토큰 공급량: ${formatEther(totalTokenSupply)} MTK`);
-  console.log(`총 NFT 발행량: ${nftTotalSupply} NFTs`);
-  console.log(`DEX 총 유동성: ${formatEther(poolStats[0] + poolStats[1])} 토큰`);
-  console.log(`게임 캐릭터 수: ${aliceCharacters.length + bobCharacters.length}`);
-  console.log(`멀티시그 지갑 잔액: ${formatEther(walletInfo[3])} ETH`);
+  await steps.step(
+    "전체 시스템 통계 조회",
+    async () => {
+      const totalTokenSupply = await myToken!.read.totalSupply();
+      const nftTotalSupply = Number(await myNFT!.read.balanceOf([alice.account.address])) + 
+                              Number(await myNFT!.read.balanceOf([bob.account.address]));
+
+      console.log(`총 토큰 공급량: ${formatEther(totalTokenSupply)} MTK`);
+      console.log(`총 NFT 발행량: ${nftTotalSupply} NFTs`);
+      if (pool) console.log(`DEX 총 유동성: ${formatEther(pool.reserveA + pool.reserveB)} 토큰`);
+      if (walletBalance !== undefined) console.log(`멀티시그 지갑 잔액: ${formatEther(walletBalance)} ETH`);
+    },
+    { requires: [myToken, myNFT] }
+  );
   
   console.log("\n🎉 모든 컨트랙트 테스트 완료!");
   console.log("=".repeat(60));
   
   // 컨트랙트 주소 정리
   console.log("\n📝 배포된 컨트랙트 주소:");
-  console.log(`- MyToken (ERC-20): ${myToken.address}`);
-  console.log(`- MyNFT (ERC-721): ${myNFT.address}`);
-  console.log(`- SimpleDEX: ${dex.address}`);
-  console.log(`- BattleGame: ${battleGame.address}`);
-  console.log(`- MultiSigWallet: ${multiSig.address}`);
-  console.log(`- DAOGovernance: ${dao.address}`);
+  console.log(`- MyToken (ERC-20): ${myToken?.address ?? "배포 실패"}`);
+  console.log(`- MyNFT (ERC-721): ${myNFT?.address ?? "배포 실패"}`);
+  console.log(`- SimpleDEX: ${dex?.address ?? "배포 실패"}`);
+  console.log(`- BattleArenaP2E: ${battleArena?.address ?? "배포 실패"}`);
+  console.log(`- IntelligentMultiSig: ${multiSig?.address ?? "배포 실패"}`);
+  console.log(`- AIEnhancedDAO: ${dao?.address ?? "배포 실패"}`);
   
   console.log("\n🚀 이제 콘솔에서 이 주소들로 더 자세한 테스트를 해보세요!");
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+if (require.main === module) {
+  runScript("스마트컨트랙트 종합 쇼케이스", main);
+}
@@ -0,0 +1,126 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeFunctionData, type Hex } from "viem";
+
+import {
+  decodeContractCall,
+  encodeContractCall,
+  functionBySelector,
+  loadContractTargets,
+  type CallDescription,
+  type CallTarget,
+  type ContractCall,
+} from "../lib/calls";
+import type { RegistryOptions } from "../lib/registry";
+import { decodeRevert, formatRevert } from "../lib/revert";
+
+export { callTarget, formatCallValue, type CallDescription, type CallTarget } from "../lib/calls";
+
+/**
+ * 🧾 DAO executionData 빌더와 미리보기
+ *
+ * AIEnhancedDAO.executeProposal은 executionData를 DAO 자신에게 호출합니다 (address(this).call).
+ * 그래서 DAO 함수(updateDAOParameters, setExpertStatus, withdrawTreasury)만 인코딩하고,
+ * 다른 생태계 컨트랙트는 주소 인자에 이름으로 쓸 때만 참조합니다.
+ *
+ *   const targets = await loadCallTargets(hre);
+ *   const { executionData, call } = buildExecutionData(targets, {
+ *     target: "dao",
+ *     functionName: "withdrawTreasury",
+ *     args: ["1 ether", "multiSig"],                  // 주소 자리에는 생태계 컨트랙트 이름도 가능
+ *   });
+ *   call.text;                                         // dao.withdrawTreasury(1000000000000000000, multiSig(0x…))
+ *   const preview = await previewExecutionData(hre, targets, executionData);   // DAO 주소로 eth_call
+ */
+
+export interface CallTargets {
+  dao: CallTarget;
+  // dao 포함
+  contracts: CallTarget[];
+}
+
+export interface ExecutionPreview {
+  executionData: Hex;
+  // executionData가 비어 있으면 undefined
+  call?: ContractCall;
+  // DAO 주소에서 eth_call 한 결과
+  ok: boolean;
+  // 성공 시 DAO 함수의 반환값
+  result?: unknown;
+  // 실패 시 revert 요약
+  revert?: string;
+}
+
+/**
+ * 배포 레지스트리의 주소와 컴파일된 ABI로 호출 대상 목록을 만듭니다 (dao는 필수)
+ */
+export async function loadCallTargets(
+  hre: HardhatRuntimeEnvironment,
+  options: RegistryOptions = {}
+): Promise<CallTargets> {
+  const contracts = await loadContractTargets(hre, options, ["dao"]);
+  return { dao: contracts.find((c) => c.name === "dao")!, contracts };
+}
+
+export function buildExecutionData(
+  targets: CallTargets,
+  description: CallDescription
+): { executionData: Hex; call: ContractCall } {
+  const { to, data, value, function: fn, call } = encodeContractCall(targets.contracts, description);
+  if (to !== targets.dao.address) {
+    throw new Error(
+      `${call.target}.${fn.name}: executeProposal은 DAO 자신의 함수만 호출하므로 ${targets.dao.name} 함수를 지정하세요`
+    );
+  }
+  if (value > 0n) {
+    throw new Error(`${targets.dao.name}.${fn.name}에는 ETH를 보낼 수 없습니다 (DAO 자신에게 보내는 호출)`);
+  }
+  return { executionData: data, call };
+}
+
+/**
+ * executionData → 호출 설명. DAO에 없는 함수 선택자면 (실행해도 실패하므로) 오류를 던집니다.
+ */
+export function decodeExecutionData(targets: CallTargets, executionData: Hex): ContractCall | undefined {
+  if (executionData === "0x") return undefined;
+
+  if (!functionBySelector(targets.dao, executionData)) {
+    throw new Error(`DAO에 선택자 ${executionData.slice(0, 10)}인 함수가 없어 실행하면 실패합니다`);
+  }
+  return decodeContractCall(targets.contracts, targets.dao.address, executionData);
+}
+
+/**
+ * DAO 주소를 from으로 executionData를 eth_call (executeProposal의 address(this).call과 같은 조건)
+ */
+export async function previewExecutionData(
+  hre: HardhatRuntimeEnvironment,
+  targets: CallTargets,
+  executionData: Hex
+): Promise<ExecutionPreview> {
+  let call: ContractCall | undefined;
+  try {
+    call = decodeExecutionData(targets, executionData);
+  } catch (error: any) {
+    return { executionData, ok: false, revert: error.message };
+  }
+  if (!call) return { executionData, ok: true };
+
+  const fn = functionBySelector(targets.dao, executionData)!;
+  const { args = [] } = decodeFunctionData({ abi: [fn], data: executionData });
+  const errors = targets.dao.abi.filter((item) => item.type === "error");
+
+  const publicClient = await hre.viem.getPublicClient();
+  try {
+    const { result } = await publicClient.simulateContract({
+      address: targets.dao.address,
+      abi: [fn, ...errors],
+      functionName: fn.name,
+      args,
+      account: targets.dao.address,
+    });
+    return { executionData, call, ok: true, result };
+  } catch (error) {
+    const revert = formatRevert(decodeRevert(error, { contract: targets.dao.artifact, functionName: fn.name }));
+    return { executionData, call, ok: false, revert };
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * 🧠 IntelligentDEX 동적 수수료 오프체인 재현
+ *
+ * 컨트랙트의 calculateAIDynamicFee / calculateAmountOut과 분석값 갱신
+ * (updateLiquidityHealth, updateTradingActivity, updateVolatilityScore)을 bigint로 그대로 옮겼습니다.
+ * 수수료는 basis points (10000 = 100%)이고 풀 분석값과 최근 1시간 스왑 수에 따라 달라집니다.
+ *
+ *   const fee = calculateDynamicFee(pool, amountIn);
+ *   const amountOut = getDynamicAmountOut(pool, tokenInIsA, amountIn, fee);
+ *
+ * 풀 모델은 addLiquidity/swap의 상태 변화를 따라가므로 여러 거래 뒤의 수수료도 예측할 수 있습니다.
+ *
+ *   let pool = applyAddLiquidity(createPoolModel(), parseEther("1000"), parseEther("1000")).pool;
+ *   const { fee, amountOut, pool: next } = applySwap(pool, true, parseEther("10"), timestamp);
+ */
+
+// IntelligentDEX.BASE_FEE / MIN_FEE / MAX_FEE (basis points)
+export const INTELLIGENT_DEX_FEES = {
+  base: 30n,
+  min: 10n,
+  max: 100n,
+  denominator: 10_000n,
+} as const;
+
+// getRecentSwapCount가 세는 구간 (초)
+export const RECENT_SWAP_WINDOW = 3600n;
+
+export interface DynamicFeePoolState {
+  reserveA: bigint;
+  reserveB: bigint;
+  volatilityScore: bigint;
+  liquidityHealth: bigint;
+  // 최근 1시간 스왑 수 (스왑이 채굴될 블록 시각 기준)
+  recentSwaps: bigint;
+}
+
+export interface PoolAnalytics {
+  volatilityScore: bigint;
+  liquidityHealth: bigint;
+  tradingActivity: bigint;
+  riskLevel: bigint;
+}
+
+// Pool 구조체 + poolAnalytics + swapHistory 타임스탬프
+export interface IntelligentPoolModel {
+  reserveA: bigint;
+  reserveB: bigint;
+  totalLiquidity: bigint;
+  volume24h: bigint;
+  feesCollected: bigint;
+  analytics: PoolAnalytics;
+  // 오래된 순
+  swapTimestamps: bigint[];
+}
+
+export interface DynamicFeeBreakdown {
+  fee: bigint;
+  // 범위 제한 전 각 요인의 가감 (basis points)
+  tradeSize: bigint;
+  volatility: bigint;
+  activity: bigint;
+  liquidityHealth: bigint;
+}
+
+/**
+ * calculateAIDynamicFee와 같은 계산 (요인별 가감 포함)
+ */
+export function dynamicFeeBreakdown(pool: DynamicFeePoolState, amountIn: bigint): DynamicFeeBreakdown {
+  const totalReserves = pool.reserveA + pool.reserveB;
+  const liquidityRatio = totalReserves > 0n ? (amountIn * 100n) / totalReserves : 0n;
+  const tradeSize = liquidityRatio > 10n ? liquidityRatio / 2n : 0n;
+
+  const volatility = pool.volatilityScore > 70n ? 20n : pool.volatilityScore < 30n ? -10n : 0n;
+  const activity = pool.recentSwaps > 50n ? 15n : pool.recentSwaps < 5n ? -5n : 0n;
+  const liquidityHealth = pool.liquidityHealth < 30n ? 25n : pool.liquidityHealth > 80n ? -10n : 0n;
+
+  const raw = INTELLIGENT_DEX_FEES.base + tradeSize + volatility + activity + liquidityHealth;
+  const fee =
+    raw > INTELLIGENT_DEX_FEES.max ? INTELLIGENT_DEX_FEES.max : raw < INTELLIGENT_DEX_FEES.min ? INTELLIGENT_DEX_FEES.min : raw;
+
+  return { fee, tradeSize, volatility, activity, liquidityHealth };
+}
+
+export function calculateDynamicFee(pool: DynamicFeePoolState, amountIn: bigint): bigint {
+  return dynamicFeeBreakdown(pool, amountIn).fee;
+}
+
+/**
+ * calculateAmountOut과 같은 계산. 출력 준비금이 0이면 revert하지 않고 0을 돌려줍니다.
+ */
+export function getDynamicAmountOut(
+  pool: Pick<DynamicFeePoolState, "reserveA" | "reserveB">,
+  tokenInIsA: boolean,
+  amountIn: bigint,
+  fee: bigint
+): bigint {
+  const amountInWithFee = (amountIn * (INTELLIGENT_DEX_FEES.denominator - fee)) / INTELLIGENT_DEX_FEES.denominator;
+  const [reserveIn, reserveOut] = tokenInIsA ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA];
+  const denominator = reserveIn + amountInWithFee;
+  if (denominator === 0n) throw new Error("Panic: division by zero");
+  return (amountInWithFee * reserveOut) / denominator;
+}
+
+/**
+ * createPool 직후 상태
+ */
+export function createPoolModel(): IntelligentPoolModel {
+  return {
+    reserveA: 0n,
+    reserveB: 0n,
+    totalLiquidity: 0n,
+    volume24h: 0n,
+    feesCollected: 0n,
+    analytics: { volatilityScore: 50n, liquidityHealth: 50n, tradingActivity: 0n, riskLevel: 50n },
+    swapTimestamps: [],
+  };
+}
+
+/**
+ * getRecentSwapCount: 최신 스왑부터 timestamp - 1시간 이전 스왑을 만날 때까지 셈
+ */
+export function countRecentSwaps(swapTimestamps: readonly bigint[], timestamp: bigint): bigint {
+  const timeLimit = timestamp - RECENT_SWAP_WINDOW;
+  let count = 0n;
+  for (let i = swapTimestamps.length; i > 0; i--) {
+    if (swapTimestamps[i - 1] < timeLimit) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * updateLiquidityHealth: 작은 쪽 준비금 비율이 50%를 넘으면 100, 아니면 비율 × 2
+ */
+export function liquidityHealthFor(reserveA: bigint, reserveB: bigint): bigint {
+  if (reserveA === 0n && reserveB === 0n) throw new Error("Panic: division by zero");
+  const ratio = reserveA > reserveB ? (reserveB * 100n) / reserveA : (reserveA * 100n) / reserveB;
+  return ratio > 50n ? 100n : ratio * 2n;
+}
+
+/**
+ * updateTradingActivity: 최근 1시간 스왑 수 (최대 100)
+ */
+export function tradingActivityFor(recentSwaps: bigint): bigint {
+  return recentSwaps > 100n ? 100n : recentSwaps;
+}
+
+/**
+ * updateVolatilityScore: 컨트랙트가 아직 자리표시자 값(50)만 씁니다 (reserveB가 0이면 revert)
+ */
+export function volatilityScoreFor(pool: Pick<IntelligentPoolModel, "reserveA" | "reserveB">): bigint {
+  if (pool.reserveB === 0n) throw new Error("Panic: division by zero");
+  return 50n;
+}
+
+/**
+ * timestamp 블록에서 스왑할 때 calculateAIDynamicFee가 보는 상태
+ */
+export function feeStateAt(pool: IntelligentPoolModel, timestamp: bigint): DynamicFeePoolState {
+  return {
+    reserveA: pool.reserveA,
+    reserveB: pool.reserveB,
+    volatilityScore: pool.analytics.volatilityScore,
+    liquidityHealth: pool.analytics.liquidityHealth,
+    recentSwaps: countRecentSwaps(pool.swapTimestamps, timestamp),
+  };
+}
+
+/**
+ * addLiquidity 상태 변화 (같은 조건에서 같은 사유로 실패)
+ * 유동성이 있으면 amountB는 현재 비율에 맞춘 값만 들어갑니다.
+ */
+export function applyAddLiquidity(
+  pool: IntelligentPoolModel,
+  amountA: bigint,
+  amountB: bigint
+): { pool: IntelligentPoolModel; amountA: bigint; amountB: bigint; liquidity: bigint } {
+  if (amountA <= 0n || amountB <= 0n) throw new Error("Invalid amounts");
+
+  if (pool.reserveA > 0n && pool.reserveB > 0n) {
+    const amountBOptimal = (amountA * pool.reserveB) / pool.reserveA;
+    if (amountBOptimal > amountB) throw new Error("Insufficient B amount");
+    amountB = amountBOptimal;
+  }
+
+  const liquidity =
+    pool.totalLiquidity === 0n
+      ? sqrt(amountA * amountB)
+      : min((amountA * pool.totalLiquidity) / pool.reserveA, (amountB * pool.totalLiquidity) / pool.reserveB);
+  if (liquidity <= 0n) throw new Error("Insufficient liquidity minted");
+
+  const reserveA = pool.reserveA + amountA;
+  const reserveB = pool.reserveB + amountB;
+  return {
+    pool: {
+      ...pool,
+      reserveA,
+      reserveB,
+      totalLiquidity: pool.totalLiquidity + liquidity,
+      analytics: { ...pool.analytics, liquidityHealth: liquidityHealthFor(reserveA, reserveB) },
+    },
+    amountA,
+    amountB,
+    liquidity,
+  };
+}
+
+/**
+ * timestamp 블록에서 실행된 swap의 상태 변화
+ * 스왑은 liquidityHealth를 갱신하지 않으므로 준비금이 기울어도 다음 addLiquidity 전까지 그대로입니다.
+ */
+export function applySwap(
+  pool: IntelligentPoolModel,
+  tokenInIsA: boolean,
+  amountIn: bigint,
+  timestamp: bigint,
+  minAmountOut = 0n
+): { pool: IntelligentPoolModel; fee: bigint; amountOut: bigint } {
+  if (amountIn <= 0n) throw new Error("Invalid input amount");
+
+  const fee = calculateDynamicFee(feeStateAt(pool, timestamp), amountIn);
+  const amountOut = getDynamicAmountOut(pool, tokenInIsA, amountIn, fee);
+  if (amountOut < minAmountOut) throw new Error("Insufficient output amount");
+
+  const swapTimestamps = [...pool.swapTimestamps, timestamp];
+  const next: IntelligentPoolModel = {
+    ...pool,
+    reserveA: tokenInIsA ? pool.reserveA + amountIn : pool.reserveA - amountOut,
+    reserveB: tokenInIsA ? pool.reserveB - amountOut : pool.reserveB + amountIn,
+    volume24h: pool.volume24h + amountIn,
+    feesCollected: pool.feesCollected + (amountIn * fee) / INTELLIGENT_DEX_FEES.denominator,
+    swapTimestamps,
+  };
+  next.analytics = {
+    ...pool.analytics,
+    tradingActivity: tradingActivityFor(countRecentSwaps(swapTimestamps, timestamp)),
+    volatilityScore: volatilityScoreFor(next),
+  };
+
+  return { pool: next, fee, amountOut };
+}
+
+// IntelligentDEX.sqrt (바빌로니아 방법)
+function sqrt(y: bigint): bigint {
+  if (y > 3n) {
+    let z = y;
+    let x = y / 2n + 1n;
+    while (x < z) {
+      z = x;
+      x = (y / x + x) / 2n;
+    }
+    return z;
+  }
+  return y !== 0n ? 1n : 0n;
+}
+
+function min(x: bigint, y: bigint): bigint {
+  return x < y ? x : y;
+}
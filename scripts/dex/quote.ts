@@ -0,0 +1,153 @@
+/**
+ * 💱 SimpleDEX 오프체인 견적
+ *
+ * 컨트랙트의 getAmountOut(x * y = k, 0.3% 수수료)을 bigint로 그대로 재현하고,
+ * 현재 준비금 기준 가격 영향과 실효 가격, 슬리피지 허용치에 따른 최소 수령량을 계산합니다.
+ *
+ *   const quote = quoteSwap(parseEther("10"), reserveA, reserveB);
+ *   const minAmountOut = minAmountOutFor(quote, { slippageBps: 50 });   // 0.5%
+ */
+
+export interface SwapFee {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+// SimpleDEX.FEE_NUMERATOR / FEE_DENOMINATOR
+export const SIMPLE_DEX_FEE: SwapFee = { numerator: 3n, denominator: 1000n };
+
+// 가격은 1e18 고정소수점 (컨트랙트 getPrice와 같은 단위)
+export const PRICE_SCALE = 10n ** 18n;
+export const BPS = 10_000n;
+// 슬리피지를 지정하지 않았을 때 기본 허용치 (0.5%)
+export const DEFAULT_SLIPPAGE_BPS = 50;
+
+export interface SwapQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  // 입력 토큰으로 낸 수수료
+  feeAmount: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  // 스왑 전 한계 가격: 입력 1개당 출력 (1e18 기준)
+  spotPrice: bigint;
+  // 실제 체결 가격: amountOut / amountIn (1e18 기준, 수수료 포함)
+  effectivePrice: bigint;
+  // 수수료를 뺀 순수 곡선 가격 영향 (basis points)
+  priceImpactBps: bigint;
+  // 스왑 후 준비금
+  reserveInAfter: bigint;
+  reserveOutAfter: bigint;
+}
+
+export interface SlippageOptions {
+  // 이보다 적게 받으면 거절 (최소 단위)
+  minAmountOut?: bigint;
+  // 견적 대비 허용 하락폭 (basis points, 50 = 0.5%)
+  slippageBps?: number;
+}
+
+/**
+ * 견적보다 적게 받게 되어 스왑을 보내지 않았을 때
+ */
+export class SlippageExceededError extends Error {
+  constructor(
+    readonly expectedOut: bigint,
+    readonly minAmountOut: bigint,
+    readonly quote: SwapQuote
+  ) {
+    super(`슬리피지 초과: 예상 수령량 ${expectedOut}이(가) 최소 수령량 ${minAmountOut}보다 적습니다`);
+    this.name = "SlippageExceededError";
+  }
+}
+
+/**
+ * SimpleDEX.getAmountOut과 같은 계산 (같은 조건에서 같은 사유로 실패)
+ */
+export function getAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: SwapFee = SIMPLE_DEX_FEE
+): bigint {
+  if (amountIn <= 0n) throw new Error("Insufficient input amount");
+  if (reserveIn <= 0n || reserveOut <= 0n) throw new Error("Insufficient liquidity");
+
+  const amountInWithFee = amountIn * (fee.denominator - fee.numerator);
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * fee.denominator + amountInWithFee;
+  return numerator / denominator;
+}
+
+export function quoteSwap(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  fee: SwapFee = SIMPLE_DEX_FEE
+): SwapQuote {
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, fee);
+  const feeAmount = (amountIn * fee.numerator) / fee.denominator;
+  const spotPrice = (reserveOut * PRICE_SCALE) / reserveIn;
+
+  // 수수료 차감 후 입력이 한계 가격으로 체결됐을 때 대비 얼마나 덜 받는지
+  const idealOut = (amountIn * (fee.denominator - fee.numerator) * reserveOut) / (reserveIn * fee.denominator);
+  const priceImpactBps = idealOut > 0n ? ((idealOut - amountOut) * BPS) / idealOut : 0n;
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    reserveIn,
+    reserveOut,
+    spotPrice,
+    effectivePrice: (amountOut * PRICE_SCALE) / amountIn,
+    priceImpactBps,
+    reserveInAfter: reserveIn + amountIn,
+    reserveOutAfter: reserveOut - amountOut,
+  };
+}
+
+/**
+ * 최소 수령량: minAmountOut과 슬리피지 기준 중 더 엄격한 값
+ * 둘 다 없으면 기본 슬리피지(0.5%)를 적용합니다.
+ */
+export function minAmountOutFor(quote: Pick<SwapQuote, "amountOut">, options: SlippageOptions = {}): bigint {
+  const slippageBps = options.slippageBps ?? (options.minAmountOut === undefined ? DEFAULT_SLIPPAGE_BPS : undefined);
+  if (slippageBps !== undefined && (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000)) {
+    throw new Error(`잘못된 슬리피지: ${slippageBps} (0 ~ 10000 bps)`);
+  }
+
+  const bySlippage = slippageBps === undefined ? 0n : (quote.amountOut * (BPS - BigInt(slippageBps))) / BPS;
+  const byMinimum = options.minAmountOut ?? 0n;
+  return bySlippage > byMinimum ? bySlippage : byMinimum;
+}
+
+/**
+ * 예상 수령량이 최소 수령량 이상인지 확인하고 최소 수령량을 반환
+ */
+export function assertSlippage(quote: SwapQuote, expectedOut: bigint, options: SlippageOptions = {}): bigint {
+  const minAmountOut = minAmountOutFor(quote, options);
+  if (expectedOut < minAmountOut) {
+    throw new SlippageExceededError(expectedOut, minAmountOut, quote);
+  }
+  return minAmountOut;
+}
+
+/**
+ * "0.5" / "0.5%" (퍼센트) 또는 "50bps" → basis points
+ */
+export function parseSlippageBps(value: string): number {
+  const text = value.trim().toLowerCase();
+  const bps = text.endsWith("bps") ? Number(text.slice(0, -3)) : Number(text.replace(/%$/, "")) * 100;
+  if (!Number.isFinite(bps) || bps < 0 || bps > 10_000 || text === "") {
+    throw new Error(`잘못된 슬리피지: '${value}' (예: 0.5, 1%, 50bps)`);
+  }
+  return Math.round(bps);
+}
+
+/**
+ * basis points → "0.50%"
+ */
+export function formatBps(bps: bigint | number): string {
+  return `${(Number(bps) / 100).toFixed(2)}%`;
+}
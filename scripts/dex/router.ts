@@ -0,0 +1,439 @@
+import { getAddress, type Address, type Hash, type Hex } from "viem";
+
+import type { IntelligentDexClient } from "../sdk/intelligent-dex";
+import type { SimpleDexClient } from "../sdk/simple-dex";
+import { calculateDynamicFee, getDynamicAmountOut, type DynamicFeePoolState } from "./dynamic-fee";
+import { BPS, getAmountOut, minAmountOutFor, type SlippageOptions, type SwapFee } from "./quote";
+
+/**
+ * 🧭 SimpleDEX + IntelligentDEX 통합 라우터
+ *
+ * 1. 풀 탐색: SimpleDEX 페어와 IntelligentDEX의 PoolCreated 이벤트 + getPoolInfo
+ * 2. 경로 탐색: maxHops 이내의 모든 단일/다중 홉 경로를 견적 (IntelligentDEX는 동적 수수료 포함)
+ * 3. 분할(선택): 풀이 겹치지 않는 경로들에 주문을 조각 단위로 나눠 총 수령량을 최대화
+ * 4. 실행: 전송 직전 재견적 → 최소 수령량 미만이면 보내지 않음, 각 홉도 최소 수령량 확인
+ *
+ *   const venues = { simpleDex: [dex], intelligentDex: [idex] };
+ *   const plan = planRoute(await discoverPools(venues), tokenIn, tokenOut, amountIn, { split: true });
+ *   const result = await executeRoutePlan(plan, venues, { slippageBps: 50 });
+ */
+
+export type DexVenue = "SimpleDEX" | "IntelligentDEX";
+
+interface PoolBase {
+  // 풀 고유 ID: "SimpleDEX:<주소>" 또는 "IntelligentDEX:<poolId>"
+  id: string;
+  dex: Address;
+  tokenA: Address;
+  tokenB: Address;
+  reserveA: bigint;
+  reserveB: bigint;
+}
+
+export interface SimpleDexPool extends PoolBase {
+  venue: "SimpleDEX";
+  fee: SwapFee;
+}
+
+export interface IntelligentDexPool extends PoolBase, DynamicFeePoolState {
+  venue: "IntelligentDEX";
+  poolId: Hex;
+}
+
+export type RouterPool = SimpleDexPool | IntelligentDexPool;
+
+export interface RouteHop {
+  pool: RouterPool;
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  // 이 홉의 수수료 (basis points)
+  feeBps: bigint;
+}
+
+export interface Route {
+  // 토큰 경로 (tokenIn → ... → tokenOut)
+  path: Address[];
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface RoutePlan {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  // 분할하지 않으면 경로 하나, 분할하면 풀이 겹치지 않는 여러 경로
+  routes: Route[];
+}
+
+export interface RouteOptions {
+  // 최대 홉 수 (기본 3)
+  maxHops?: number;
+}
+
+export interface PlanOptions extends RouteOptions {
+  // 여러 경로로 나눠 보낼지 (기본 false)
+  split?: boolean;
+  // 분할에 쓸 최대 경로 수 (기본 3)
+  maxRoutes?: number;
+  // 분할 단위: 주문을 몇 조각으로 나눠 배분할지 (기본 20)
+  parts?: number;
+}
+
+export interface RouterVenues {
+  simpleDex?: SimpleDexClient[];
+  intelligentDex?: IntelligentDexClient[];
+}
+
+export interface ExecutedHop {
+  poolId: string;
+  venue: DexVenue;
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  minAmountOut: bigint;
+  hash: Hash;
+  gasUsed: bigint;
+}
+
+export interface RouteExecutionResult {
+  amountIn: bigint;
+  amountOut: bigint;
+  // 전송 직전 재견적
+  expectedOut: bigint;
+  minAmountOut: bigint;
+  hops: ExecutedHop[];
+  gasUsed: bigint;
+}
+
+export const DEFAULT_MAX_HOPS = 3;
+export const DEFAULT_MAX_ROUTES = 3;
+export const DEFAULT_SPLIT_PARTS = 20;
+
+/**
+ * 전송 직전 재견적이 최소 수령량보다 적어 아무것도 보내지 않았을 때
+ */
+export class RouteSlippageError extends Error {
+  constructor(
+    readonly expectedOut: bigint,
+    readonly minAmountOut: bigint,
+    readonly plan: RoutePlan
+  ) {
+    super(`라우트 슬리피지 초과: 예상 수령량 ${expectedOut}이(가) 최소 수령량 ${minAmountOut}보다 적습니다`);
+    this.name = "RouteSlippageError";
+  }
+}
+
+/**
+ * 일부 홉을 실행한 뒤 실패했을 때 (completed의 스왑은 되돌릴 수 없음 - 중간 토큰이 지갑에 남음)
+ */
+export class RouteExecutionError extends Error {
+  constructor(
+    message: string,
+    readonly completed: ExecutedHop[],
+    readonly cause: unknown
+  ) {
+    super(`${message} (완료된 홉 ${completed.length}개)`);
+    this.name = "RouteExecutionError";
+  }
+}
+
+function otherToken(pool: RouterPool, token: Address): Address | undefined {
+  if (token === pool.tokenA) return pool.tokenB;
+  if (token === pool.tokenB) return pool.tokenA;
+  return undefined;
+}
+
+/**
+ * 한 풀에서의 견적. 유동성이 없거나 받을 수량이 0이면 undefined
+ */
+export function quoteHop(pool: RouterPool, tokenIn: Address, amountIn: bigint): RouteHop | undefined {
+  const tokenOut = otherToken(pool, tokenIn);
+  if (tokenOut === undefined || amountIn <= 0n || pool.reserveA === 0n || pool.reserveB === 0n) return undefined;
+
+  const tokenInIsA = tokenIn === pool.tokenA;
+  let amountOut: bigint;
+  let feeBps: bigint;
+  if (pool.venue === "SimpleDEX") {
+    const [reserveIn, reserveOut] = tokenInIsA ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA];
+    amountOut = getAmountOut(amountIn, reserveIn, reserveOut, pool.fee);
+    feeBps = (pool.fee.numerator * BPS) / pool.fee.denominator;
+  } else {
+    feeBps = calculateDynamicFee(pool, amountIn);
+    amountOut = getDynamicAmountOut(pool, tokenInIsA, amountIn, feeBps);
+  }
+
+  if (amountOut === 0n) return undefined;
+  return { pool, tokenIn, tokenOut, amountIn, amountOut, feeBps };
+}
+
+/**
+ * 정해진 풀 순서로 amountIn을 보냈을 때의 견적 (중간에 막히면 undefined)
+ */
+export function quotePath(pools: RouterPool[], tokenIn: Address, amountIn: bigint): Route | undefined {
+  const hops: RouteHop[] = [];
+  let token = getAddress(tokenIn);
+  let amount = amountIn;
+
+  for (const pool of pools) {
+    const hop = quoteHop(pool, token, amount);
+    if (hop === undefined) return undefined;
+    hops.push(hop);
+    token = hop.tokenOut;
+    amount = hop.amountOut;
+  }
+
+  return { path: [getAddress(tokenIn), ...hops.map((h) => h.tokenOut)], hops, amountIn, amountOut: amount };
+}
+
+/**
+ * tokenIn → tokenOut으로 가는 풀 순서를 모두 찾습니다 (같은 토큰/풀을 두 번 지나지 않음)
+ */
+export function enumeratePaths(
+  pools: RouterPool[],
+  tokenIn: Address,
+  tokenOut: Address,
+  options: RouteOptions = {}
+): RouterPool[][] {
+  const maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+  const [from, to] = [getAddress(tokenIn), getAddress(tokenOut)];
+  const paths: RouterPool[][] = [];
+
+  const visit = (token: Address, visited: Set<Address>, current: RouterPool[]) => {
+    if (current.length >= maxHops) return;
+    for (const pool of pools) {
+      const next = otherToken(pool, token);
+      if (next === undefined || visited.has(next) || current.includes(pool)) continue;
+
+      if (next === to) {
+        paths.push([...current, pool]);
+      } else {
+        visit(next, new Set([...visited, next]), [...current, pool]);
+      }
+    }
+  };
+
+  if (from !== to) visit(from, new Set([from]), []);
+  return paths;
+}
+
+/**
+ * 가능한 모든 경로의 견적 (수령량 내림차순, 같으면 홉이 적은 순)
+ */
+export function findRoutes(
+  pools: RouterPool[],
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint,
+  options: RouteOptions = {}
+): Route[] {
+  return enumeratePaths(pools, tokenIn, tokenOut, options)
+    .map((path) => quotePath(path, tokenIn, amountIn))
+    .filter((route): route is Route => route !== undefined)
+    .sort((a, b) => (a.amountOut === b.amountOut ? a.hops.length - b.hops.length : a.amountOut > b.amountOut ? -1 : 1));
+}
+
+export function findBestRoute(
+  pools: RouterPool[],
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint,
+  options: RouteOptions = {}
+): Route | undefined {
+  return findRoutes(pools, tokenIn, tokenOut, amountIn, options)[0];
+}
+
+/**
+ * 최적 경로 (split이면 분할 포함). 경로가 없으면 예외
+ *
+ * 분할은 풀이 겹치지 않는 상위 경로들만 사용하므로 각 경로의 견적이 서로 영향을 주지 않습니다.
+ * 조각을 하나씩, 그 조각으로 가장 많이 더 받는 경로에 배분하고(탐욕법)
+ * 결과가 단일 최적 경로보다 나을 때만 분할합니다.
+ */
+export function planRoute(
+  pools: RouterPool[],
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint,
+  options: PlanOptions = {}
+): RoutePlan {
+  const [from, to] = [getAddress(tokenIn), getAddress(tokenOut)];
+  const routes = findRoutes(pools, from, to, amountIn, options);
+  if (routes.length === 0) {
+    throw new Error(`${from} → ${to}: ${options.maxHops ?? DEFAULT_MAX_HOPS}홉 이내에 유동성 있는 경로가 없습니다`);
+  }
+
+  const best: RoutePlan = { tokenIn: from, tokenOut: to, amountIn, amountOut: routes[0].amountOut, routes: [routes[0]] };
+  if (!options.split) return best;
+
+  const candidates: Route[] = [];
+  for (const route of routes) {
+    if (candidates.length >= (options.maxRoutes ?? DEFAULT_MAX_ROUTES)) break;
+    const used = new Set(candidates.flatMap((c) => c.hops.map((h) => h.pool.id)));
+    if (route.hops.every((h) => !used.has(h.pool.id))) candidates.push(route);
+  }
+  if (candidates.length < 2) return best;
+
+  const parts = BigInt(options.parts ?? DEFAULT_SPLIT_PARTS);
+  if (parts < 1n) throw new Error(`잘못된 분할 수: ${options.parts}`);
+  const chunk = amountIn / parts;
+  const pathPools = candidates.map((route) => route.hops.map((h) => h.pool));
+  const outputFor = (index: number, amount: bigint) => quotePath(pathPools[index], from, amount)?.amountOut ?? 0n;
+
+  const allocations = candidates.map(() => 0n);
+  const outputs = candidates.map(() => 0n);
+  let remaining = amountIn;
+  while (remaining > 0n) {
+    // 나머지는 첫 조각에 포함
+    const size = remaining === amountIn ? amountIn - chunk * (parts - 1n) : chunk;
+    let chosen = 0;
+    let chosenOut = 0n;
+    let chosenGain = -1n;
+    for (let i = 0; i < candidates.length; i++) {
+      const out = outputFor(i, allocations[i] + size);
+      if (out - outputs[i] > chosenGain) {
+        [chosen, chosenOut, chosenGain] = [i, out, out - outputs[i]];
+      }
+    }
+    allocations[chosen] += size;
+    outputs[chosen] = chosenOut;
+    remaining -= size;
+  }
+
+  const split = allocations
+    .map((amount, i) => (amount > 0n ? quotePath(pathPools[i], from, amount) : undefined))
+    .filter((route): route is Route => route !== undefined);
+  const splitOut = split.reduce((sum, route) => sum + route.amountOut, 0n);
+
+  return split.length > 1 && splitOut > best.amountOut
+    ? { tokenIn: from, tokenOut: to, amountIn, amountOut: splitOut, routes: split }
+    : best;
+}
+
+/**
+ * 거래소 클라이언트에서 라우팅 가능한 풀 목록을 읽어옵니다
+ */
+export async function discoverPools(venues: RouterVenues, fromBlock = 0n): Promise<RouterPool[]> {
+  const simplePools = (venues.simpleDex ?? []).map(async (dex): Promise<RouterPool> => {
+    const [{ tokenA, tokenB }, { reserveA, reserveB }, fee] = await Promise.all([
+      dex.getTokens(),
+      dex.getPoolStats(),
+      dex.getFee(),
+    ]);
+    return {
+      id: `SimpleDEX:${dex.address}`,
+      venue: "SimpleDEX",
+      dex: dex.address,
+      tokenA: getAddress(tokenA),
+      tokenB: getAddress(tokenB),
+      reserveA,
+      reserveB,
+      fee,
+    };
+  });
+
+  const intelligentPools = (venues.intelligentDex ?? []).map(async (idex): Promise<RouterPool[]> => {
+    const poolIds = await idex.getPoolIds(fromBlock);
+    return Promise.all(
+      poolIds.map(async (poolId): Promise<RouterPool> => ({
+        id: `IntelligentDEX:${poolId}`,
+        venue: "IntelligentDEX",
+        dex: idex.address,
+        poolId,
+        ...(await idex.getFeeState(poolId)),
+      }))
+    );
+  });
+
+  const [simple, intelligent] = await Promise.all([Promise.all(simplePools), Promise.all(intelligentPools)]);
+  return [...simple, ...intelligent.flat()];
+}
+
+/**
+ * 계획한 라우트 실행
+ *   1. 풀을 다시 읽어 같은 배분으로 재견적 → 최소 수령량(minAmountOut/슬리피지 기준 중 엄격한 값) 미만이면
+ *      아무것도 보내지 않고 RouteSlippageError
+ *   2. 각 홉의 최소 수령량 = 재견적 × (최소 수령량 / 예상 수령량)
+ *      IntelligentDEX는 swap의 minAmountOut 인자로, SimpleDEX는 swapWithProtection 시뮬레이션으로 확인
+ *   3. 다중 홉은 앞 홉에서 실제로 받은 수량을 다음 홉에 보냄
+ */
+export async function executeRoutePlan(
+  plan: RoutePlan,
+  venues: RouterVenues,
+  options: SlippageOptions = {}
+): Promise<RouteExecutionResult> {
+  const fresh = new Map((await discoverPools(venues)).map((pool) => [pool.id, pool]));
+  const requoted = plan.routes.map((route) => {
+    const pools = route.hops.map((hop) => {
+      const pool = fresh.get(hop.pool.id);
+      if (pool === undefined) throw new Error(`라우트의 풀을 찾을 수 없습니다: ${hop.pool.id}`);
+      return pool;
+    });
+    return quotePath(pools, plan.tokenIn, route.amountIn);
+  });
+
+  const expectedOut = requoted.reduce((sum, route) => sum + (route?.amountOut ?? 0n), 0n);
+  const minAmountOut = minAmountOutFor(plan, options);
+  if (requoted.some((route) => route === undefined) || expectedOut < minAmountOut) {
+    throw new RouteSlippageError(expectedOut, minAmountOut, plan);
+  }
+
+  const completed: ExecutedHop[] = [];
+  let amountOut = 0n;
+  for (const route of requoted as Route[]) {
+    let amount = route.amountIn;
+    for (const hop of route.hops) {
+      const hopMin = expectedOut > 0n ? (hop.amountOut * minAmountOut) / expectedOut : 0n;
+      try {
+        const executed = await executeHop(hop.pool, hop.tokenIn, amount, hopMin, venues);
+        completed.push({
+          poolId: hop.pool.id,
+          venue: hop.pool.venue,
+          tokenIn: hop.tokenIn,
+          tokenOut: hop.tokenOut,
+          amountIn: amount,
+          amountOut: executed.amountOut,
+          minAmountOut: hopMin,
+          hash: executed.hash,
+          gasUsed: executed.gasUsed,
+        });
+        amount = executed.amountOut;
+      } catch (error) {
+        if (completed.length === 0) throw error;
+        throw new RouteExecutionError(`${hop.pool.id} 스왑 실패: ${(error as Error).message}`, completed, error);
+      }
+    }
+    amountOut += amount;
+  }
+
+  return {
+    amountIn: plan.amountIn,
+    amountOut,
+    expectedOut,
+    minAmountOut,
+    hops: completed,
+    gasUsed: completed.reduce((sum, hop) => sum + hop.gasUsed, 0n),
+  };
+}
+
+async function executeHop(
+  pool: RouterPool,
+  tokenIn: Address,
+  amountIn: bigint,
+  minAmountOut: bigint,
+  venues: RouterVenues
+): Promise<{ amountIn: bigint; amountOut: bigint; hash: Hash; gasUsed: bigint }> {
+  if (pool.venue === "SimpleDEX") {
+    const dex = venues.simpleDex?.find((client) => client.address === pool.dex);
+    if (dex === undefined) throw new Error(`SimpleDEX 클라이언트가 없습니다: ${pool.dex}`);
+    return dex.swapWithProtection(tokenIn === pool.tokenA ? "AtoB" : "BtoA", amountIn, { minAmountOut });
+  }
+
+  const idex = venues.intelligentDex?.find((client) => client.address === pool.dex);
+  if (idex === undefined) throw new Error(`IntelligentDEX 클라이언트가 없습니다: ${pool.dex}`);
+  return idex.swap(pool.poolId, tokenIn, amountIn, minAmountOut);
+}
@@ -0,0 +1,291 @@
+import bundledCatalog from "./revert-catalog.json";
+import type { ExtractionResult } from "./extract";
+
+/**
+ * 📚 revert 사유 카탈로그
+ *
+ * revert-catalog.json은 scripts/errors/generate-catalog.ts가 Solidity 소스에서 생성합니다.
+ *   - 코드는 컨트랙트별 접두사 + 일련번호 (LOCK-007)이며 한 번 부여되면 바뀌지 않음
+ *   - message_ko / hint (커스텀 에러는 message_en 포함)는 사람이 작성하고 재생성해도 유지
+ *   - 소스에서 사라진 항목은 삭제하지 않고 deprecated로 표시 (코드 재사용 방지)
+ */
+
+export type RevertEntryKind = "require" | "error";
+
+export interface RevertCatalogEntry {
+  code: string;
+  kind: RevertEntryKind;
+  // require: 소스의 문자열 그대로, error: 영문 설명
+  message_en: string;
+  message_ko: string;
+  hint: string;
+  // 이 사유로 revert할 수 있는 함수 (빈 배열이면 특정하지 않음 - 상속받은 커스텀 에러 등)
+  functions: string[];
+  // 커스텀 에러 시그니처와 선언 위치
+  error?: string;
+  declaredIn?: string;
+  deprecated?: boolean;
+}
+
+export interface RevertCatalogContract {
+  prefix: string;
+  file: string;
+  errors: RevertCatalogEntry[];
+}
+
+export interface RevertCatalog {
+  version: 1;
+  contracts: Record<string, RevertCatalogContract>;
+}
+
+/**
+ * 디코딩 결과로 돌려주는 구조화된 오류 정보
+ */
+export interface RevertInfo {
+  contract: string;
+  function?: string;
+  code: string;
+  message_ko: string;
+  message_en: string;
+  hint: string;
+}
+
+export interface RevertQuery {
+  // require 문자열
+  message?: string;
+  // 커스텀 에러 이름
+  errorName?: string;
+  // 알고 있다면 후보를 좁히는 데 사용
+  contract?: string;
+  functionName?: string;
+}
+
+export const DEFAULT_CATALOG_FILE = "scripts/errors/revert-catalog.json";
+
+// 컨트랙트별 코드 접두사 (없으면 이름에서 만듦)
+export const CONTRACT_PREFIXES: Record<string, string> = {
+  AdvancedLock: "LOCK",
+  Lock: "LCK",
+  MyToken: "TOKEN",
+  MyNFT: "NFT",
+  SimpleDEX: "SDEX",
+  IntelligentDEX: "IDEX",
+  BattleArenaP2E: "ARENA",
+  AIEnhancedDAO: "DAO",
+  IntelligentMultiSig: "MSIG",
+  EvolutionaryToken: "EVO",
+  DynamicPerformanceNFT: "DNFT",
+};
+
+/**
+ * Solidity Panic(uint256) 코드 (컴파일러가 삽입하므로 소스에서 추출할 수 없음)
+ */
+export const PANIC_CODES: Record<number, Omit<RevertInfo, "contract" | "function">> = {
+  0x01: {
+    code: "PANIC-01",
+    message_en: "Assertion failed",
+    message_ko: "assert 조건이 실패했습니다",
+    hint: "컨트랙트 내부 불변식이 깨졌습니다. 컨트랙트 버그일 가능성이 높습니다.",
+  },
+  0x11: {
+    code: "PANIC-11",
+    message_en: "Arithmetic operation resulted in underflow or overflow",
+    message_ko: "산술 연산에서 언더플로/오버플로가 발생했습니다",
+    hint: "입력 금액이나 상태 값(잔액, 레이팅 등)이 계산 범위를 벗어났는지 확인하세요.",
+  },
+  0x12: {
+    code: "PANIC-12",
+    message_en: "Division or modulo by zero",
+    message_ko: "0으로 나누었습니다",
+    hint: "분모가 되는 값(유동성, 총 투표 수 등)이 0인 상태에서 호출했는지 확인하세요.",
+  },
+  0x21: {
+    code: "PANIC-21",
+    message_en: "Invalid enum value",
+    message_ko: "잘못된 enum 값입니다",
+    hint: "enum 인자의 인덱스가 정의된 범위 안에 있는지 확인하세요.",
+  },
+  0x22: {
+    code: "PANIC-22",
+    message_en: "Incorrectly encoded storage byte array",
+    message_ko: "스토리지 바이트 배열 인코딩이 잘못되었습니다",
+    hint: "컨트랙트 스토리지가 손상되었을 수 있습니다.",
+  },
+  0x31: {
+    code: "PANIC-31",
+    message_en: "Pop on an empty array",
+    message_ko: "빈 배열에서 pop을 호출했습니다",
+    hint: "컨트랙트 내부 배열 상태를 확인하세요.",
+  },
+  0x32: {
+    code: "PANIC-32",
+    message_en: "Array index out of bounds",
+    message_ko: "배열 인덱스가 범위를 벗어났습니다",
+    hint: "존재하지 않는 ID(잠금, 제안, 트랜잭션 등)를 조회했는지 확인하세요.",
+  },
+  0x41: {
+    code: "PANIC-41",
+    message_en: "Out of memory",
+    message_ko: "메모리를 너무 많이 할당했습니다",
+    hint: "너무 큰 배열을 요청하지 않았는지 확인하세요.",
+  },
+  0x51: {
+    code: "PANIC-51",
+    message_en: "Called a zero-initialized function variable",
+    message_ko: "초기화되지 않은 함수 변수를 호출했습니다",
+    hint: "컨트랙트 버그일 가능성이 높습니다.",
+  },
+};
+
+export function loadRevertCatalog(): RevertCatalog {
+  return bundledCatalog as RevertCatalog;
+}
+
+/**
+ * 카탈로그에서 revert 사유 찾기
+ * 같은 문자열이 여러 컨트랙트에 있으면 contract → functionName 순으로 후보를 좁힙니다.
+ */
+export function findRevertInfo(query: RevertQuery, catalog: RevertCatalog = loadRevertCatalog()): RevertInfo | undefined {
+  const candidates: { contract: string; entry: RevertCatalogEntry }[] = [];
+  for (const [contract, section] of Object.entries(catalog.contracts)) {
+    if (query.contract !== undefined && contract !== query.contract) continue;
+    for (const entry of section.errors) {
+      const matched =
+        entry.kind === "require"
+          ? query.message !== undefined && entry.message_en === query.message
+          : query.errorName !== undefined && errorNameOf(entry) === query.errorName;
+      if (matched) candidates.push({ contract, entry });
+    }
+  }
+
+  const byFunction = query.functionName
+    ? candidates.filter(({ entry }) => entry.functions.includes(query.functionName!))
+    : [];
+  const best = byFunction[0] ?? candidates.find(({ entry }) => !entry.deprecated) ?? candidates[0];
+  if (!best) return undefined;
+
+  return {
+    contract: best.contract,
+    function: query.functionName ?? (best.entry.functions.length === 1 ? best.entry.functions[0] : undefined),
+    code: best.entry.code,
+    message_ko: best.entry.message_ko || best.entry.message_en,
+    message_en: best.entry.message_en,
+    hint: best.entry.hint,
+  };
+}
+
+export function panicInfo(panicCode: number, contract = "", functionName?: string): RevertInfo {
+  const known = PANIC_CODES[panicCode];
+  const hex = panicCode.toString(16).padStart(2, "0");
+  return {
+    contract,
+    function: functionName,
+    ...(known ?? {
+      code: `PANIC-${hex}`,
+      message_en: `Unknown panic 0x${hex}`,
+      message_ko: `알 수 없는 패닉 코드 0x${hex}`,
+      hint: "",
+    }),
+  };
+}
+
+export interface CatalogBuildResult {
+  catalog: RevertCatalog;
+  added: string[];
+  deprecated: string[];
+  // message_ko가 비어 있는 코드
+  untranslated: string[];
+}
+
+/**
+ * 추출 결과를 기존 카탈로그와 병합
+ * 기존 코드/번역은 유지하고, 새 항목은 다음 번호를 받으며, 같은 영문 사유의 번역이 있으면 재사용합니다.
+ */
+export function buildCatalog(extraction: ExtractionResult, previous?: RevertCatalog): CatalogBuildResult {
+  const contracts: Record<string, RevertCatalogContract> = {};
+  const added: string[] = [];
+  const deprecated: string[] = [];
+
+  const translations = new Map<string, RevertCatalogEntry>();
+  for (const section of Object.values(previous?.contracts ?? {})) {
+    for (const entry of section.errors) {
+      if (entry.message_ko && !translations.has(keyOf(entry))) translations.set(keyOf(entry), entry);
+    }
+  }
+
+  for (const extracted of extraction.contracts) {
+    const old = previous?.contracts[extracted.name];
+    const prefix = old?.prefix ?? CONTRACT_PREFIXES[extracted.name] ?? derivePrefix(extracted.name);
+    const oldEntries = new Map((old?.errors ?? []).map((entry) => [keyOf(entry), entry]));
+    let next = Math.max(0, ...(old?.errors ?? []).map((entry) => Number(entry.code.split("-").pop())));
+
+    const current: RevertCatalogEntry[] = [
+      ...extracted.requires.map((r) => ({
+        kind: "require" as const,
+        message_en: r.message,
+        functions: r.functions,
+      })),
+      ...extracted.customErrors.map((e) => ({
+        kind: "error" as const,
+        message_en: e.name,
+        functions: [],
+        error: e.signature,
+        declaredIn: e.declaredIn,
+      })),
+    ].map((fresh) => {
+      const key = keyOf(fresh);
+      const existing = oldEntries.get(key);
+      oldEntries.delete(key);
+      const translated = existing ?? translations.get(key);
+
+      const code = existing?.code ?? `${prefix}-${String(++next).padStart(3, "0")}`;
+      if (!existing) added.push(code);
+      return {
+        code,
+        kind: fresh.kind,
+        // 커스텀 에러의 영문 설명은 사람이 작성한 값을 유지
+        message_en: fresh.kind === "error" ? (translated?.message_en ?? fresh.message_en) : fresh.message_en,
+        message_ko: translated?.message_ko ?? "",
+        hint: translated?.hint ?? "",
+        functions: fresh.functions,
+        ...("error" in fresh ? { error: fresh.error, declaredIn: fresh.declaredIn } : {}),
+      };
+    });
+
+    for (const removed of oldEntries.values()) {
+      if (!removed.deprecated) deprecated.push(removed.code);
+      current.push({ ...removed, deprecated: true });
+    }
+    if (current.length === 0) continue;
+
+    current.sort((a, b) => a.code.localeCompare(b.code));
+    contracts[extracted.name] = { prefix, file: extracted.file, errors: current };
+  }
+
+  // 소스 파일째 사라진 컨트랙트도 코드 기록은 남김
+  for (const [name, section] of Object.entries(previous?.contracts ?? {})) {
+    if (contracts[name]) continue;
+    for (const entry of section.errors) if (!entry.deprecated) deprecated.push(entry.code);
+    contracts[name] = { ...section, errors: section.errors.map((entry) => ({ ...entry, deprecated: true })) };
+  }
+
+  const untranslated = Object.values(contracts).flatMap((section) =>
+    section.errors.filter((entry) => !entry.deprecated && !entry.message_ko).map((entry) => entry.code)
+  );
+
+  return { catalog: { version: 1, contracts }, added, deprecated, untranslated };
+}
+
+// require는 문자열, 커스텀 에러는 시그니처로 식별
+function keyOf(entry: Pick<RevertCatalogEntry, "kind" | "message_en" | "error">): string {
+  return entry.kind === "error" ? `error:${entry.error}` : `require:${entry.message_en}`;
+}
+
+function errorNameOf(entry: RevertCatalogEntry): string | undefined {
+  return entry.error?.slice(0, entry.error.indexOf("("));
+}
+
+function derivePrefix(name: string): string {
+  const capitals = name.replace(/[^A-Z]/g, "");
+  return (capitals.length >= 2 ? capitals : name.slice(0, 6)).toUpperCase();
+}
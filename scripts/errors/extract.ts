@@ -0,0 +1,297 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+
+import { findClosing, parseSoliditySource, stripCommentsAndStrings } from "../security/rule-engine";
+
+/**
+ * 🔎 Solidity 소스에서 revert 사유 추출 (컴파일 없이 동작)
+ *
+ *   - require(cond, "msg") / revert("msg") 문자열과 이를 발생시킬 수 있는 외부 진입 함수
+ *     (modifier와 internal 함수는 호출하는 public/external 함수로 펼침)
+ *   - 상속/라이브러리를 따라 import 경로(node_modules 포함)에서 찾은 커스텀 에러 선언
+ *
+ * 찾을 수 없는 import(예: OZ v5에서 사라진 security/ReentrancyGuard.sol)는 건너뛰고 missingImports에 기록합니다.
+ */
+
+export interface ExtractedRequire {
+  message: string;
+  // 이 사유로 revert할 수 있는 public/external 함수 (constructor, receive 포함)
+  functions: string[];
+}
+
+export interface ExtractedCustomError {
+  name: string;
+  // 정규화된 시그니처, 예: OwnableUnauthorizedAccount(address)
+  signature: string;
+  // 선언된 컨트랙트/인터페이스/라이브러리
+  declaredIn: string;
+}
+
+export interface ExtractedContract {
+  name: string;
+  file: string;
+  requires: ExtractedRequire[];
+  customErrors: ExtractedCustomError[];
+}
+
+export interface ExtractionResult {
+  contracts: ExtractedContract[];
+  missingImports: string[];
+}
+
+interface Declaration {
+  name: string;
+  kind: "contract" | "library" | "interface";
+  bases: string[];
+  file: string;
+  // 주석/문자열을 제거한 본문
+  body: string;
+  errors: ExtractedCustomError[];
+}
+
+const CONTRACT_PATTERN = /\b(abstract\s+contract|contract|library|interface)\s+(\w+)([^{;]*)\{/g;
+const ENTRY_VISIBILITY = /\b(public|external)\b/;
+
+export function extractRevertCatalog(sourcesDir: string, root: string = process.cwd()): ExtractionResult {
+  const declarations = new Map<string, Declaration>();
+  const missingImports = new Set<string>();
+  const visited = new Set<string>();
+  const projectFiles = listSolidityFiles(sourcesDir);
+
+  for (const file of projectFiles) {
+    loadDeclarations(file, root, declarations, visited, missingImports);
+  }
+
+  const contracts: ExtractedContract[] = [];
+  for (const file of projectFiles) {
+    const relativeFile = path.relative(root, file).split(path.sep).join("/");
+    const source = readFileSync(file, "utf8");
+
+    for (const declaration of parseDeclarations(relativeFile, source)) {
+      if (declaration.kind !== "contract") continue;
+      contracts.push({
+        name: declaration.name,
+        file: relativeFile,
+        requires: extractRequires(relativeFile, source, declaration.name),
+        customErrors: collectCustomErrors(declaration.name, declarations),
+      });
+    }
+  }
+
+  return { contracts, missingImports: [...missingImports].sort() };
+}
+
+/**
+ * 한 컨트랙트의 require/revert 문자열을 진입 함수와 함께 추출
+ */
+export function extractRequires(file: string, source: string, contractName: string): ExtractedRequire[] {
+  const code = stripCommentsAndStrings(source);
+  const contract = parseSoliditySource(file, source).find((c) => c.name === contractName);
+  const range = contractRange(code, contractName);
+  if (!contract || !range) return [];
+
+  const modifiers = collectModifiers(code, range);
+  const scopes = [
+    ...contract.functions.map((fn) => ({
+      name: fn.name,
+      start: fn.bodyOffset,
+      end: fn.bodyOffset + fn.body.length,
+    })),
+    ...modifiers.map((m) => ({ name: m.name, start: m.start, end: m.end })),
+  ];
+
+  // 호출 그래프: internal 함수/modifier → 이를 사용하는 함수
+  const entryPoints = new Map<string, Set<string>>();
+  const resolveEntries = (name: string, seen: Set<string>): Set<string> => {
+    if (entryPoints.has(name)) return entryPoints.get(name)!;
+    const result = new Set<string>();
+    if (seen.has(name)) return result;
+    seen.add(name);
+
+    const isModifier = modifiers.some((m) => m.name === name);
+    for (const fn of contract.functions) {
+      if (fn.name === name && !isModifier && isEntry(fn.name, fn.header)) result.add(fn.name);
+    }
+    const usage = new RegExp(`\\b${name}\\b${isModifier ? "" : "\\s*\\("}`);
+    for (const fn of contract.functions) {
+      if (fn.name === name) continue;
+      const used = isModifier ? usage.test(fn.header) : usage.test(fn.body);
+      if (used) resolveEntries(fn.name, seen).forEach((entry) => result.add(entry));
+    }
+    for (const m of modifiers) {
+      if (m.name !== name && !isModifier && usage.test(code.slice(m.start, m.end))) {
+        resolveEntries(m.name, seen).forEach((entry) => result.add(entry));
+      }
+    }
+
+    entryPoints.set(name, result);
+    return result;
+  };
+
+  const byMessage = new Map<string, Set<string>>();
+  const revertPattern = /\b(require|revert)\s*\(/g;
+  let match: RegExpExecArray | null;
+  while ((match = revertPattern.exec(code)) !== null) {
+    if (match.index < range.start || match.index > range.end) continue;
+
+    const open = match.index + match[0].length - 1;
+    const close = findClosing(code, open, "(", ")");
+    const message = source
+      .slice(open + 1, close)
+      .trim()
+      .match(/"((?:[^"\\]|\\.)*)"$/)?.[1];
+    if (message === undefined) continue;
+
+    const scope = scopes.find((s) => match!.index >= s.start && match!.index < s.end);
+    const functions = byMessage.get(message) ?? new Set<string>();
+    if (scope) resolveEntries(scope.name, new Set()).forEach((fn) => functions.add(fn));
+    byMessage.set(message, functions);
+  }
+
+  return [...byMessage].map(([message, functions]) => ({ message, functions: [...functions].sort() }));
+}
+
+function isEntry(name: string, header: string): boolean {
+  return ["constructor", "receive", "fallback"].includes(name) || ENTRY_VISIBILITY.test(header);
+}
+
+function contractRange(code: string, name: string): { start: number; end: number } | undefined {
+  CONTRACT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CONTRACT_PATTERN.exec(code)) !== null) {
+    const open = match.index + match[0].length - 1;
+    if (match[2] === name) return { start: open, end: findClosing(code, open, "{", "}") };
+  }
+  return undefined;
+}
+
+function collectModifiers(code: string, range: { start: number; end: number }) {
+  const modifiers: { name: string; start: number; end: number }[] = [];
+  const pattern = /\bmodifier\s+(\w+)[^{;]*\{/g;
+  pattern.lastIndex = range.start;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code)) !== null && match.index < range.end) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosing(code, open, "{", "}");
+    modifiers.push({ name: match[1], start: open + 1, end: close });
+    pattern.lastIndex = close + 1;
+  }
+  return modifiers;
+}
+
+/**
+ * 상속 계층 + 사용하는 라이브러리에 선언된 커스텀 에러
+ */
+function collectCustomErrors(name: string, declarations: Map<string, Declaration>): ExtractedCustomError[] {
+  const closure = new Set<string>();
+  const queue = [name];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const declaration = declarations.get(current);
+    if (!declaration || closure.has(current)) continue;
+    closure.add(current);
+
+    queue.push(...declaration.bases);
+    for (const [, library] of declaration.body.matchAll(/\b([A-Z]\w*)\s*\.\s*\w+\s*\(/g)) {
+      if (declarations.get(library)?.kind === "library") queue.push(library);
+    }
+    for (const [, library] of declaration.body.matchAll(/\busing\s+(\w+)\s+for\b/g)) {
+      if (declarations.get(library)?.kind === "library") queue.push(library);
+    }
+  }
+
+  const errors = new Map<string, ExtractedCustomError>();
+  for (const member of closure) {
+    for (const error of declarations.get(member)!.errors) errors.set(error.signature, error);
+  }
+  return [...errors.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function loadDeclarations(
+  file: string,
+  root: string,
+  declarations: Map<string, Declaration>,
+  visited: Set<string>,
+  missingImports: Set<string>
+) {
+  if (visited.has(file)) return;
+  visited.add(file);
+
+  const source = readFileSync(file, "utf8");
+  const relativeFile = path.relative(root, file).split(path.sep).join("/");
+  for (const declaration of parseDeclarations(relativeFile, source)) {
+    if (!declarations.has(declaration.name)) declarations.set(declaration.name, declaration);
+  }
+
+  for (const [, importPath] of source.matchAll(/^\s*import\s+(?:[^"']*\bfrom\s+)?["']([^"']+)["']/gm)) {
+    const resolved = resolveImport(file, importPath, root);
+    if (resolved) {
+      loadDeclarations(resolved, root, declarations, visited, missingImports);
+    } else {
+      missingImports.add(importPath);
+    }
+  }
+}
+
+function resolveImport(fromFile: string, importPath: string, root: string): string | undefined {
+  const candidate = importPath.startsWith(".")
+    ? path.resolve(path.dirname(fromFile), importPath)
+    : path.join(root, "node_modules", importPath);
+  return existsSync(candidate) ? candidate : undefined;
+}
+
+function parseDeclarations(file: string, source: string): Declaration[] {
+  const code = stripCommentsAndStrings(source);
+  const declarations: Declaration[] = [];
+
+  CONTRACT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CONTRACT_PATTERN.exec(code)) !== null) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosing(code, open, "{", "}");
+    const body = code.slice(open + 1, close);
+    const name = match[2];
+    const inheritance = match[3].match(/\bis\b([\s\S]*)$/)?.[1] ?? "";
+
+    declarations.push({
+      name,
+      kind: match[1].endsWith("library") ? "library" : match[1].endsWith("interface") ? "interface" : "contract",
+      // 생성자 인자가 있는 상속 (Ownable(msg.sender)) 도 이름만
+      bases: inheritance
+        .replace(/\([^)]*\)/g, "")
+        .split(",")
+        .map((base) => base.trim())
+        .filter(Boolean),
+      file,
+      body,
+      errors: [...body.matchAll(/\berror\s+(\w+)\s*\(([^)]*)\)\s*;/g)].map(([, errorName, params]) => ({
+        name: errorName,
+        signature: `${errorName}(${params
+          .split(",")
+          .map((param) => param.trim().split(/\s+/)[0])
+          .filter(Boolean)
+          .join(",")})`,
+        declaredIn: name,
+      })),
+    });
+
+    CONTRACT_PATTERN.lastIndex = close + 1;
+  }
+
+  return declarations;
+}
+
+function listSolidityFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listSolidityFiles(fullPath));
+    } else if (entry.name.endsWith(".sol")) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
@@ -0,0 +1,66 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+import { buildCatalog, DEFAULT_CATALOG_FILE, type RevertCatalog } from "./catalog";
+import { extractRevertCatalog } from "./extract";
+
+/**
+ * 📚 revert 사유 카탈로그 생성
+ *
+ *   npm run errors:catalog           # contracts/ 를 읽어 scripts/errors/revert-catalog.json 갱신
+ *   npm run errors:check             # 카탈로그가 소스와 다르거나 번역이 빠졌으면 종료 코드 1 (CI용)
+ *
+ * 옵션:
+ *   --sources <dir>   Solidity 소스 폴더 (기본 contracts)
+ *   --out <file>      카탈로그 파일 (기본 scripts/errors/revert-catalog.json)
+ *   --check           파일을 쓰지 않고 검사만
+ */
+function main(): boolean {
+  const sourcesDir = path.resolve(getOption("--sources") ?? "contracts");
+  const file = path.resolve(getOption("--out") ?? DEFAULT_CATALOG_FILE);
+  const check = process.argv.includes("--check");
+
+  const previous = existsSync(file) ? (JSON.parse(readFileSync(file, "utf8")) as RevertCatalog) : undefined;
+  const extraction = extractRevertCatalog(sourcesDir);
+  const { catalog, added, deprecated, untranslated } = buildCatalog(extraction, previous);
+
+  const entries = Object.values(catalog.contracts).flatMap((section) => section.errors);
+  console.log(`📚 ${Object.keys(catalog.contracts).length}개 컨트랙트, ${entries.length}개 revert 사유`);
+  for (const missing of extraction.missingImports) {
+    console.log(`⚠️ import를 찾을 수 없어 건너뜀: ${missing}`);
+  }
+  if (added.length > 0) console.log(`🆕 새 코드: ${added.join(", ")}`);
+  if (deprecated.length > 0) console.log(`🗑️ deprecated: ${deprecated.join(", ")}`);
+  if (untranslated.length > 0) console.log(`✏️ message_ko 미작성: ${untranslated.join(", ")}`);
+
+  const serialized = `${JSON.stringify(catalog, null, 2)}\n`;
+  const stale = !previous || readFileSync(file, "utf8") !== serialized;
+
+  if (check) {
+    if (stale) console.log(`❌ ${path.relative(process.cwd(), file)}이(가) 소스와 다릅니다. npm run errors:catalog로 갱신하세요`);
+    if (!stale && untranslated.length === 0) console.log("✅ 카탈로그가 최신 상태입니다");
+    return !stale && untranslated.length === 0;
+  }
+
+  if (stale) {
+    writeFileSync(file, serialized);
+    console.log(`💾 ${path.relative(process.cwd(), file)} 저장`);
+  } else {
+    console.log("✅ 변경 사항 없음");
+  }
+  return true;
+}
+
+function getOption(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+if (require.main === module) {
+  try {
+    if (!main()) process.exitCode = 1;
+  } catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
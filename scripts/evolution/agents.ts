@@ -0,0 +1,290 @@
+import { getAddress, keccak256, toHex, type Address } from "viem";
+
+import type { Random } from "../lib/random";
+import { toUnits, type Amount } from "../sdk/client";
+import type { EvolutionProposalTypeName, StakingPoolInfo } from "../sdk/evolution-token";
+
+/**
+ * 🧑‍🤝‍🧑 EvolutionaryToken 경제 시뮬레이션 에이전트
+ *
+ * 행동 프로필마다 활동하기로 한 날의 할 일을 시드 난수로 정합니다. 체인을 직접 읽지 않고
+ * 러너가 넘겨준 상태만 보므로 같은 시드와 상태면 같은 계획이 나옵니다.
+ *   - whale: 공급의 10% 넘게 보유하고 0.1% 넘게 전송, 가끔 거버넌스 제안
+ *     (고래 방지 수수료율은 (보유 % + 전송 %) / 10 bp를 내림하므로 1%만 넘게 보유해서는 수수료가 0)
+ *   - trader: 작은 금액을 자주 전송
+ *   - staker: 최소 금액을 넘는 풀 중 APY가 가장 높은 풀에 스테이킹, 주기적으로 보상 청구, 잠금이 풀리면 인출
+ *   - idler: 거의 활동하지 않음
+ *
+ *   const agents = createAgents({ whale: 5, trader: 95, staker: 60, idler: 140 });
+ *   const behaviours = resolveBehaviours({ whale: { proposeChance: 0 } });
+ *   const actions = planDay(agent, behaviours[agent.profile], state, market, random);
+ */
+
+export const AGENT_PROFILES = ["whale", "trader", "staker", "idler"] as const;
+
+export type AgentProfileName = (typeof AGENT_PROFILES)[number];
+
+export interface AgentBehaviour {
+  // 시작 잔액 (펀딩 계정이 전송)
+  initialBalance: Amount;
+  // 하루에 활동할 확률 (0 ~ 1)
+  activeChance: number;
+  // 활동한 날 전송 횟수 [최소, 최대]
+  transfersPerDay: readonly [number, number];
+  // 전송 금액 (잔액 대비 %) [최소, 최대]
+  transferPercent: readonly [number, number];
+  // 스테이킹 금액 (잔액 대비 %) [최소, 최대], null이면 스테이킹하지 않음
+  stakePercent: readonly [number, number] | null;
+  // 보상 청구 간격 (일, 처음 스테이킹한 날부터), null이면 청구하지 않음
+  claimEveryDays: number | null;
+  // 잠금이 풀린 풀을 인출할 확률 (활동한 날, 풀마다)
+  unstakeChance: number;
+  // 거버넌스 제안 확률 (활동한 날)
+  proposeChance: number;
+  // 투표 기간이 남은 제안에 투표할 확률 (활동한 날, 제안마다)
+  voteChance: number;
+}
+
+export const DEFAULT_BEHAVIOURS: Record<AgentProfileName, AgentBehaviour> = {
+  whale: {
+    initialBalance: "120000",
+    activeChance: 0.6,
+    transfersPerDay: [1, 2],
+    transferPercent: [2, 10],
+    stakePercent: null,
+    claimEveryDays: null,
+    unstakeChance: 0,
+    proposeChance: 0.05,
+    voteChance: 0.8,
+  },
+  trader: {
+    initialBalance: "1000",
+    activeChance: 0.9,
+    transfersPerDay: [1, 4],
+    transferPercent: [1, 10],
+    stakePercent: null,
+    claimEveryDays: null,
+    unstakeChance: 0,
+    proposeChance: 0,
+    voteChance: 0.3,
+  },
+  staker: {
+    initialBalance: "3000",
+    activeChance: 0.3,
+    transfersPerDay: [0, 1],
+    transferPercent: [1, 5],
+    stakePercent: [30, 60],
+    claimEveryDays: 7,
+    unstakeChance: 0.5,
+    proposeChance: 0,
+    voteChance: 0.6,
+  },
+  idler: {
+    initialBalance: "200",
+    activeChance: 0.05,
+    transfersPerDay: [1, 1],
+    transferPercent: [1, 5],
+    stakePercent: null,
+    claimEveryDays: null,
+    unstakeChance: 0,
+    proposeChance: 0,
+    voteChance: 0,
+  },
+};
+
+export const DEFAULT_AGENT_COUNTS: Record<AgentProfileName, number> = { whale: 5, trader: 95, staker: 60, idler: 140 };
+
+// 투표할 때 찬성할 확률
+export const VOTE_SUPPORT_CHANCE = 0.7;
+// 에이전트가 제안하는 타입 (STAKING_PARAMS, PARTNERSHIP은 실행해도 아무 일이 없음)
+export const SIMULATED_PROPOSAL_TYPES: readonly EvolutionProposalTypeName[] = ["EVOLUTION", "BURNING", "MINTING"];
+
+export interface Agent {
+  index: number;
+  address: Address;
+  profile: AgentProfileName;
+}
+
+export interface AgentState {
+  balance: bigint;
+  // 풀 ID → 스테이킹 금액
+  stakes: Map<bigint, bigint>;
+  // 컨트랙트는 풀과 관계없이 처음 스테이킹한 시각만 기록하고 잠금 해제도 이 시각으로 계산함 (없으면 0)
+  stakingStartTime: bigint;
+  lastClaimDay?: number;
+  voted: Set<bigint>;
+}
+
+export interface MarketState {
+  day: number;
+  timestamp: bigint;
+  pools: readonly StakingPoolInfo[];
+  // 투표 기간이 남은 제안
+  openProposals: readonly bigint[];
+  // 전송 상대 후보
+  agents: readonly Agent[];
+}
+
+export type AgentAction =
+  | { kind: "transfer"; to: Address; amount: bigint }
+  | { kind: "stake"; poolId: bigint; amount: bigint }
+  | { kind: "unstake"; poolId: bigint; amount: bigint }
+  | { kind: "claim" }
+  | { kind: "propose"; proposalType: EvolutionProposalTypeName }
+  | { kind: "vote"; proposalId: bigint; support: boolean };
+
+const TOKEN = 10n ** 18n;
+
+/**
+ * 인덱스로 정해지는 에이전트 주소 (개인 키 없이 hardhat_impersonateAccount로 사용)
+ */
+export function agentAddress(index: number): Address {
+  return getAddress(`0x${keccak256(toHex(`evolution-agent:${index}`)).slice(-40)}`);
+}
+
+export function resolveAgentCounts(
+  counts: Partial<Record<AgentProfileName, number>> = {}
+): Record<AgentProfileName, number> {
+  const resolved = { ...DEFAULT_AGENT_COUNTS, ...counts };
+  for (const profile of AGENT_PROFILES) {
+    const count = resolved[profile];
+    if (!Number.isInteger(count) || count < 0) {
+      throw new Error(`${profile} 에이전트 수는 0 이상 정수여야 합니다 (입력: ${count})`);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * 프로필 순서대로 주소를 매긴 에이전트 목록
+ */
+export function createAgents(counts: Record<AgentProfileName, number>): Agent[] {
+  const agents: Agent[] = [];
+  for (const profile of AGENT_PROFILES) {
+    for (let i = 0; i < counts[profile]; i++) {
+      agents.push({ index: agents.length, address: agentAddress(agents.length), profile });
+    }
+  }
+  return agents;
+}
+
+/**
+ * 기본 행동 프로필에 덮어쓸 값을 합치고 검증합니다
+ */
+export function resolveBehaviours(
+  overrides: Partial<Record<AgentProfileName, Partial<AgentBehaviour>>> = {}
+): Record<AgentProfileName, AgentBehaviour> {
+  for (const profile of Object.keys(overrides)) {
+    if (!(AGENT_PROFILES as readonly string[]).includes(profile)) {
+      throw new Error(`알 수 없는 행동 프로필 '${profile}' (${AGENT_PROFILES.join(", ")})`);
+    }
+  }
+
+  const resolved = {} as Record<AgentProfileName, AgentBehaviour>;
+  for (const profile of AGENT_PROFILES) {
+    const behaviour = { ...DEFAULT_BEHAVIOURS[profile], ...overrides[profile] };
+    const label = (field: string) => `${profile}.${field}`;
+    toUnits(behaviour.initialBalance);
+    for (const field of ["activeChance", "unstakeChance", "proposeChance", "voteChance"] as const) {
+      checkChance(label(field), behaviour[field]);
+    }
+    checkRange(label("transfersPerDay"), behaviour.transfersPerDay, Infinity);
+    checkRange(label("transferPercent"), behaviour.transferPercent, 100);
+    if (behaviour.stakePercent !== null) checkRange(label("stakePercent"), behaviour.stakePercent, 100);
+    const { claimEveryDays } = behaviour;
+    if (claimEveryDays !== null && (!Number.isInteger(claimEveryDays) || claimEveryDays < 1)) {
+      throw new Error(`${label("claimEveryDays")}는 1 이상 정수여야 합니다 (입력: ${claimEveryDays})`);
+    }
+    resolved[profile] = behaviour;
+  }
+  return resolved;
+}
+
+function checkChance(label: string, value: number) {
+  if (typeof value !== "number" || !(value >= 0 && value <= 1)) {
+    throw new Error(`${label}는 0 ~ 1 사이여야 합니다 (입력: ${value})`);
+  }
+}
+
+function checkRange(label: string, range: readonly [number, number], max: number) {
+  const valid =
+    Array.isArray(range) &&
+    range.length === 2 &&
+    range.every((v) => Number.isInteger(v) && v >= 0 && v <= max) &&
+    range[0] <= range[1];
+  if (!valid) {
+    const limit = max === Infinity ? "" : ` (최대 ${max})`;
+    throw new Error(`${label}는 [최소, 최대] 0 이상 정수 범위여야 합니다${limit} (입력: ${JSON.stringify(range)})`);
+  }
+}
+
+/**
+ * 활동하기로 한 날의 행동 계획 (순서대로 실행)
+ *
+ * 인출 → 보상 청구 → 스테이킹 → 전송 → 제안 → 투표 순입니다. 금액은 정수 토큰 단위로 내리고
+ * (활동 점수가 토큰 1개당 1점), 앞선 행동에 쓴 금액을 빼고 계산합니다.
+ */
+export function planDay(
+  agent: Agent,
+  behaviour: AgentBehaviour,
+  state: AgentState,
+  market: MarketState,
+  random: Random
+): AgentAction[] {
+  const actions: AgentAction[] = [];
+  let balance = state.balance;
+  const staked = [...state.stakes.values()].reduce((sum, amount) => sum + amount, 0n);
+
+  for (const [poolId, amount] of state.stakes) {
+    const pool = market.pools.find((p) => p.poolId === poolId);
+    if (amount === 0n || !pool || market.timestamp < state.stakingStartTime + pool.lockPeriod) continue;
+    if (random.chance(behaviour.unstakeChance)) actions.push({ kind: "unstake", poolId, amount });
+  }
+
+  const { claimEveryDays } = behaviour;
+  if (
+    claimEveryDays !== null &&
+    staked > 0n &&
+    state.lastClaimDay !== undefined &&
+    market.day - state.lastClaimDay >= claimEveryDays
+  ) {
+    actions.push({ kind: "claim" });
+  }
+
+  if (behaviour.stakePercent !== null && staked === 0n) {
+    const amount = wholeTokens((balance * BigInt(random.int(...behaviour.stakePercent))) / 100n);
+    const candidates = market.pools.filter((p) => p.isActive && amount > 0n && p.minStakeAmount <= amount);
+    const pool = candidates.reduce<StakingPoolInfo | undefined>(
+      (best, p) => (!best || p.rewardRate > best.rewardRate ? p : best),
+      undefined
+    );
+    if (pool) {
+      actions.push({ kind: "stake", poolId: pool.poolId, amount });
+      balance -= amount;
+    }
+  }
+
+  const transfers = random.int(...behaviour.transfersPerDay);
+  for (let i = 0; i < transfers; i++) {
+    const to = random.pick(market.agents).address;
+    const amount = wholeTokens((balance * BigInt(random.int(...behaviour.transferPercent))) / 100n);
+    if (to === agent.address || amount === 0n) continue;
+    actions.push({ kind: "transfer", to, amount });
+    balance -= amount;
+  }
+
+  if (random.chance(behaviour.proposeChance)) {
+    actions.push({ kind: "propose", proposalType: random.pick(SIMULATED_PROPOSAL_TYPES) });
+  }
+
+  for (const proposalId of market.openProposals) {
+    if (state.voted.has(proposalId) || !random.chance(behaviour.voteChance)) continue;
+    actions.push({ kind: "vote", proposalId, support: random.chance(VOTE_SUPPORT_CHANCE) });
+  }
+
+  return actions;
+}
+
+function wholeTokens(amount: bigint): bigint {
+  return amount - (amount % TOKEN);
+}
@@ -0,0 +1,187 @@
+import { formatEther } from "viem";
+
+import { USER_TIERS } from "../sdk/evolution-token";
+import { AGENT_PROFILES } from "./agents";
+import type { EconomyReport, ParticipantProfile } from "./simulation";
+
+/**
+ * 📈 경제 시뮬레이션 리포트
+ *
+ *   fs.writeFileSync("timeseries.csv", economyCsv(report));   // 하루 한 줄 (금액은 EVO 단위)
+ *   fs.writeFileSync("fees.csv", feePayersCsv(report));       // 고래 방지 수수료 납부자별 한 줄
+ *   fs.writeFileSync("summary.md", economyMarkdown(report));  // 진화 기록, 수수료 납부자, 거버넌스, 실패한 행동
+ */
+
+export function economyCsv(report: EconomyReport): string {
+  const header = [
+    "day",
+    "timestamp",
+    "supply",
+    "staking_ratio_pct",
+    "reward_pool",
+    "community_health",
+    "burn_rate_bps",
+    "generation",
+    "total_proposals",
+    "active_proposals",
+    "executed_proposals",
+    "total_voting_power",
+    "transactions",
+    "failures",
+    "anti_whale_fees",
+    "fee_payments",
+    "rewards_minted",
+    "burned",
+    ...USER_TIERS.map((tier) => `tier_${tier.toLowerCase()}`),
+  ];
+  const rows = report.samples.map((s) => [
+    s.day,
+    s.timestamp,
+    formatEther(s.metrics.currentSupply),
+    s.metrics.stakingRatio,
+    formatEther(s.metrics.rewardPool),
+    s.metrics.communityHealth,
+    s.metrics.burnRate,
+    s.generation,
+    s.governance.totalProposals,
+    s.governance.activeProposals,
+    s.governance.executedProposals,
+    formatEther(s.governance.totalVotingPower),
+    s.transactions,
+    s.failures,
+    formatEther(s.antiWhaleFees),
+    s.feePayments,
+    formatEther(s.rewardsMinted),
+    formatEther(s.burned),
+    ...USER_TIERS.map((tier) => s.tiers[tier]),
+  ]);
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
+
+export function feePayersCsv(report: EconomyReport): string {
+  const header = ["address", "profile", "payments", "total_fees", "transferred", "largest_fee"];
+  const rows = report.feePayers.map((p) => [
+    p.address,
+    p.profile,
+    p.payments,
+    formatEther(p.totalFees),
+    formatEther(p.transferred),
+    formatEther(p.largestFee),
+  ]);
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
+
+function evo(amount: bigint): string {
+  return Number(formatEther(amount)).toFixed(2);
+}
+
+export function economyMarkdown(report: EconomyReport): string {
+  const first = report.samples[0];
+  const last = report.samples[report.samples.length - 1];
+  const sum = (pick: (s: (typeof report.samples)[number]) => bigint) =>
+    report.samples.reduce((total, s) => total + pick(s), 0n);
+  const count = (pick: (s: (typeof report.samples)[number]) => number) =>
+    report.samples.reduce((total, s) => total + pick(s), 0);
+
+  const lines = [
+    "# 🧬 EvolutionaryToken 경제 시뮬레이션",
+    "",
+    `- 시드: \`${report.seed}\` (같은 시드와 같은 시작 상태면 같은 결과)`,
+    `- 기간: ${report.days}일, 토큰 ${report.token}, 펀딩 ${report.funder}`,
+    "",
+    "| 프로필 | 인원 | 시작 잔액 | 활동 확률 | 전송 (회/일, 잔액 %) | 스테이킹 (잔액 %) | 제안 확률 | 투표 확률 |",
+    "|---|---:|---:|---:|---|---|---:|---:|",
+  ];
+  for (const profile of AGENT_PROFILES) {
+    const b = report.behaviours[profile];
+    const stake = b.stakePercent ? `${b.stakePercent.join(" ~ ")}%, ${b.claimEveryDays ?? "-"}일마다 청구` : "-";
+    lines.push(
+      `| ${profile} | ${report.agentCounts[profile]} | ${b.initialBalance} | ${b.activeChance} | ` +
+        `${b.transfersPerDay.join(" ~ ")}회, ${b.transferPercent.join(" ~ ")}% | ${stake} | ` +
+        `${b.proposeChance} | ${b.voteChance} |`
+    );
+  }
+
+  lines.push(
+    "",
+    "## 📊 요약 (0일차 → 마지막 날)",
+    "",
+    "| 지표 | 시작 | 끝 |",
+    "|---|---:|---:|",
+    `| 총 공급 (EVO) | ${evo(first.metrics.currentSupply)} | ${evo(last.metrics.currentSupply)} |`,
+    `| 스테이킹 비율 | ${first.metrics.stakingRatio}% | ${last.metrics.stakingRatio}% |`,
+    `| 보상 풀 (EVO) | ${evo(first.metrics.rewardPool)} | ${evo(last.metrics.rewardPool)} |`,
+    `| 커뮤니티 건강도 | ${first.metrics.communityHealth} | ${last.metrics.communityHealth} |`,
+    `| 세대 | ${first.generation} | ${last.generation} |`,
+    `| 제안 (전체 / 실행) | ${first.governance.totalProposals} / ${first.governance.executedProposals} | ` +
+      `${last.governance.totalProposals} / ${last.governance.executedProposals} |`,
+    "",
+    `- 트랜잭션 ${count((s) => s.transactions)}건, revert된 행동 ${count((s) => s.failures)}건`,
+    `- 고래 방지 수수료 ${evo(sum((s) => s.antiWhaleFees))} EVO (${count((s) => s.feePayments)}건)`,
+    `- 스테이킹 보상 발행 ${evo(sum((s) => s.rewardsMinted))} EVO, 소각 ${evo(sum((s) => s.burned))} EVO`
+  );
+
+  lines.push("", "## 🧬 진화 기록", "");
+  if (report.evolutions.length === 0) {
+    lines.push("진화가 일어나지 않았습니다.");
+  } else {
+    lines.push("| 세대 | 일차 | 기능 | 영향 점수 | 계기 |", "|---:|---:|---|---:|---|");
+    for (const e of report.evolutions) {
+      const trigger = e.trigger ? `${e.trigger.action} (${e.trigger.profile} ${e.trigger.address})` : "시뮬레이션 밖";
+      lines.push(`| ${e.generation} | ${e.day} | ${e.featureName} | ${e.impactScore} | ${trigger} |`);
+    }
+  }
+
+  lines.push(
+    "",
+    "## 💸 고래 방지 수수료",
+    "",
+    "| 납부자 프로필 | 납부자 수 | 납부 횟수 | 총 수수료 (EVO) |",
+    "|---|---:|---:|---:|"
+  );
+  const payerProfiles: ParticipantProfile[] = ["funder", ...AGENT_PROFILES];
+  for (const profile of payerProfiles) {
+    const payers = report.feePayers.filter((p) => p.profile === profile);
+    if (payers.length === 0) continue;
+    const payments = payers.reduce((total, p) => total + p.payments, 0);
+    const fees = payers.reduce((total, p) => total + p.totalFees, 0n);
+    lines.push(`| ${profile} | ${payers.length} | ${payments} | ${evo(fees)} |`);
+  }
+  if (report.feePayers.length > 0) {
+    lines.push("", "| 납부자 | 프로필 | 횟수 | 총 수수료 | 전송 금액 | 최대 수수료 |", "|---|---|---:|---:|---:|---:|");
+    for (const p of report.feePayers.slice(0, 10)) {
+      lines.push(
+        `| ${p.address} | ${p.profile} | ${p.payments} | ${evo(p.totalFees)} | ` +
+          `${evo(p.transferred)} | ${evo(p.largestFee)} |`
+      );
+    }
+  }
+
+  lines.push("", "## 🗳️ 거버넌스 제안", "");
+  if (report.proposals.length === 0) {
+    lines.push("제안이 없었습니다.");
+  } else {
+    lines.push("| ID | 타입 | 제안 일차 | 제안자 | 결과 |", "|---:|---|---:|---|---|");
+    for (const p of report.proposals) {
+      const outcome = p.reason ? `${p.outcome} (${p.reason})` : p.outcome;
+      lines.push(`| ${p.proposalId} | ${p.proposalType} | ${p.day} | ${p.proposer} | ${outcome} |`);
+    }
+  }
+
+  lines.push(
+    "",
+    "## 🏅 에이전트 등급 분포 (마지막 날)",
+    "",
+    `| ${USER_TIERS.join(" | ")} |`,
+    `|${USER_TIERS.map(() => "---:").join("|")}|`,
+    `| ${USER_TIERS.map((tier) => last.tiers[tier]).join(" | ")} |`
+  );
+
+  const failures = Object.entries(report.failures).sort(([, a], [, b]) => b - a);
+  if (failures.length > 0) {
+    lines.push("", "## ⚠️ revert된 행동", "", "| 행동: 사유 | 횟수 |", "|---|---:|");
+    for (const [key, times] of failures) lines.push(`| ${key} | ${times} |`);
+  }
+
+  return lines.join("\n") + "\n";
+}
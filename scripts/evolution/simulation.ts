@@ -0,0 +1,436 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, getAddress, parseEther, toHex, type Address, type Hash } from "viem";
+
+import { createRandom, type Random } from "../lib/random";
+import { decodeRevert } from "../lib/revert";
+import { enumName, toUnits, type TxResult } from "../sdk/client";
+import {
+  USER_TIERS,
+  type EconomicMetrics,
+  type EvolutionProposalTypeName,
+  type EvolutionTokenClient,
+  type GovernanceStats,
+  type UserTierName,
+} from "../sdk/evolution-token";
+import {
+  createAgents,
+  planDay,
+  resolveAgentCounts,
+  resolveBehaviours,
+  type Agent,
+  type AgentAction,
+  type AgentBehaviour,
+  type AgentProfileName,
+  type AgentState,
+  type MarketState,
+} from "./agents";
+
+/**
+ * 🧬 EvolutionaryToken 에이전트 기반 경제 시뮬레이션
+ *
+ * 행동 프로필별 에이전트 계정을 만들어 시작 잔액을 나눠 준 뒤, 하루씩 시간을 이동하며
+ * 에이전트 행동(전송, 스테이킹, 보상 청구, 제안, 투표)을 실제 트랜잭션으로 보냅니다.
+ * 매일 마지막에 getEconomicMetrics, getGovernanceStats, getEvolutionHistory를 기록하고
+ * 영수증의 AntiWhaleTriggered, Evolution, TierUpgraded 이벤트로 수수료 납부자와 진화 계기를 모읍니다.
+ *
+ *   const evo = new EvolutionTokenClient(hre, await hre.viem.deployContract("EvolutionaryToken"));
+ *   const report = await runEconomySimulation(hre, evo, { agents: { whale: 5, trader: 95 }, days: 90, seed: 42 });
+ *   report.samples; report.evolutions; report.feePayers;
+ *
+ * 에이전트 계정은 hardhat_impersonateAccount로 쓰고 시간은 evm_mine으로 이동하므로 Hardhat 네트워크
+ * (hardhat, localhost 노드) 전용입니다. 펀딩은 클라이언트 지갑(기본: 첫 번째 계정)이 합니다.
+ * revert된 행동은 시뮬레이션을 멈추지 않고 "행동: 사유"별로 셉니다.
+ */
+
+export const DAY = 86_400n;
+export const DEFAULT_SIMULATION_DAYS = 90;
+// 에이전트 계정 가스비
+export const AGENT_GAS_BALANCE = parseEther("100");
+// createProposal 이후 투표 기간 (VOTING_PERIOD)
+export const VOTING_PERIOD = 7n * DAY;
+
+export type ParticipantProfile = AgentProfileName | "funder";
+
+export interface EconomySimulationOptions {
+  agents?: Partial<Record<AgentProfileName, number>>;
+  behaviours?: Partial<Record<AgentProfileName, Partial<AgentBehaviour>>>;
+  days?: number;
+  seed?: number;
+  log?: (message: string) => void;
+}
+
+export interface DaySample {
+  // 0은 펀딩 직후
+  day: number;
+  timestamp: bigint;
+  metrics: EconomicMetrics;
+  governance: GovernanceStats;
+  generation: number;
+  // 그날 성공한 트랜잭션 / revert된 행동
+  transactions: number;
+  failures: number;
+  antiWhaleFees: bigint;
+  feePayments: number;
+  rewardsMinted: bigint;
+  burned: bigint;
+  // 에이전트 등급 분포 (TierUpgraded 기준)
+  tiers: Record<UserTierName, number>;
+}
+
+export interface FeePayment {
+  day: number;
+  payer: Address;
+  profile: ParticipantProfile;
+  // 전송 요청 금액 (수수료 포함)
+  amount: bigint;
+  fee: bigint;
+  txHash: Hash;
+}
+
+export interface FeePayerSummary {
+  address: Address;
+  profile: ParticipantProfile;
+  payments: number;
+  totalFees: bigint;
+  transferred: bigint;
+  largestFee: bigint;
+}
+
+export interface EvolutionFired {
+  generation: bigint;
+  featureName: string;
+  impactScore: bigint;
+  timestamp: bigint;
+  day: number;
+  // 진화를 일으킨 트랜잭션 (시뮬레이션 밖에서 일어난 진화면 undefined)
+  trigger?: { address: Address; profile: ParticipantProfile; action: string; txHash: Hash };
+}
+
+export interface SimulatedProposal {
+  proposalId: bigint;
+  proposalType: EvolutionProposalTypeName;
+  proposer: Address;
+  day: number;
+  deadline: bigint;
+  outcome: "pending" | "executed" | "failed";
+  // 실행 실패 사유
+  reason?: string;
+}
+
+export interface EconomyReport {
+  seed: number;
+  days: number;
+  token: Address;
+  funder: Address;
+  startTime: bigint;
+  agentCounts: Record<AgentProfileName, number>;
+  behaviours: Record<AgentProfileName, AgentBehaviour>;
+  samples: DaySample[];
+  evolutions: EvolutionFired[];
+  fees: FeePayment[];
+  // 총 수수료 내림차순
+  feePayers: FeePayerSummary[];
+  proposals: SimulatedProposal[];
+  // "행동: 사유" → 횟수
+  failures: Record<string, number>;
+}
+
+type DayTally = Pick<
+  DaySample,
+  "transactions" | "failures" | "antiWhaleFees" | "feePayments" | "rewardsMinted" | "burned"
+>;
+
+type Attempt<T> = { tx: T; reason?: undefined } | { tx?: undefined; reason: string };
+
+export async function runEconomySimulation(
+  hre: HardhatRuntimeEnvironment,
+  token: EvolutionTokenClient,
+  options: EconomySimulationOptions = {}
+): Promise<EconomyReport> {
+  const log = options.log ?? console.log;
+  const days = options.days ?? DEFAULT_SIMULATION_DAYS;
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`days는 1 이상 정수여야 합니다 (입력: ${days})`);
+  }
+  const seed = options.seed ?? Date.now() % 2 ** 31;
+  const agentCounts = resolveAgentCounts(options.agents);
+  const behaviours = resolveBehaviours(options.behaviours);
+  const agents = createAgents(agentCounts);
+  if (agents.length < 2) throw new Error("에이전트가 2명 이상 필요합니다");
+
+  const random = createRandom(seed);
+  const provider = hre.network.provider;
+  const publicClient = await hre.viem.getPublicClient();
+  const funderAccount = token.wallet?.account ?? (await hre.viem.getWalletClients())[0].account;
+  const funder = getAddress(funderAccount.address);
+  const blockTime = async (tx: TxResult) => (await publicClient.getBlock({ blockNumber: tx.blockNumber })).timestamp;
+
+  const initialBalances = agents.map((agent) => toUnits(behaviours[agent.profile].initialBalance));
+  const totalFunding = initialBalances.reduce((sum, amount) => sum + amount, 0n);
+  const funderBalance = await token.balanceOf(funder);
+  if (funderBalance < totalFunding) {
+    throw new Error(
+      `펀딩 계정 ${funder}의 잔액이 부족합니다 (${formatEther(funderBalance)} EVO < 필요 ${formatEther(totalFunding)} EVO)`
+    );
+  }
+
+  const profiles = new Map<Address, ParticipantProfile>(agents.map((a) => [a.address, a.profile]));
+  profiles.set(funder, "funder");
+  const clients = new Map<Address, EvolutionTokenClient>();
+  const states = new Map<Address, AgentState>();
+  const tiers = new Map<Address, UserTierName>();
+  const samples: DaySample[] = [];
+  const fees: FeePayment[] = [];
+  const triggers = new Map<bigint, EvolutionFired["trigger"]>();
+  const proposals: SimulatedProposal[] = [];
+  const failures: Record<string, number> = {};
+  let day = 0;
+  let today = emptyTally();
+
+  const record = (actor: Address, action: string, tx: TxResult) => {
+    today.transactions++;
+    for (const { name, args } of tx.events) {
+      if (name === "AntiWhaleTriggered") {
+        const payer = getAddress(args.whale as Address);
+        const fee = args.fee as bigint;
+        const amount = args.amount as bigint;
+        fees.push({ day, payer, profile: profiles.get(payer) ?? "funder", amount, fee, txHash: tx.hash });
+        today.antiWhaleFees += fee;
+        today.feePayments++;
+      } else if (name === "Evolution") {
+        const generation = args.generation as bigint;
+        triggers.set(generation, { address: actor, profile: profiles.get(actor)!, action, txHash: tx.hash });
+        log(`🧬 ${day}일차: ${generation}세대 진화 "${args.featureName}" (${action}, ${actor})`);
+      } else if (name === "TierUpgraded") {
+        const user = getAddress(args.user as Address);
+        if (tiers.has(user)) tiers.set(user, enumName(USER_TIERS, args.newTier as number));
+      } else if (name === "StakingRewardClaimed") {
+        today.rewardsMinted += args.amount as bigint;
+      } else if (name === "BurnExecuted") {
+        today.burned += args.amount as bigint;
+      }
+    }
+  };
+
+  const attempt = async <T extends TxResult>(actor: Address, action: string, send: () => Promise<T>) => {
+    try {
+      const tx = await send();
+      record(actor, action, tx);
+      return { tx } as Attempt<T>;
+    } catch (error) {
+      const { reverted, reason } = decodeRevert(error);
+      if (!reverted) throw error;
+      const key = `${action}: ${reason}`;
+      failures[key] = (failures[key] ?? 0) + 1;
+      today.failures++;
+      return { reason } as Attempt<T>;
+    }
+  };
+
+  const sample = async (): Promise<DaySample> => {
+    const [metrics, governance, history, block] = await Promise.all([
+      token.getEconomicMetrics(),
+      token.getGovernanceStats(),
+      token.getEvolutionHistory(),
+      publicClient.getBlock(),
+    ]);
+    const tierCounts = Object.fromEntries(USER_TIERS.map((tier) => [tier, 0])) as Record<UserTierName, number>;
+    for (const tier of tiers.values()) tierCounts[tier]++;
+    const generation = history.length;
+    return { day, timestamp: block.timestamp, metrics, governance, generation, ...today, tiers: tierCounts };
+  };
+
+  // 실행 중 오류가 나도 에이전트 계정 가장(impersonation)이 노드에 남지 않도록 해제
+  const impersonated: Address[] = [];
+  let startTime = 0n;
+  try {
+    log(`🧑‍🤝‍🧑 에이전트 ${agents.length}명 준비 (${formatCounts(agentCounts)}), 시드 ${seed}`);
+    for (const agent of agents) {
+      await provider.send("hardhat_impersonateAccount", [agent.address]);
+      impersonated.push(agent.address);
+      await provider.send("hardhat_setBalance", [agent.address, toHex(AGENT_GAS_BALANCE)]);
+      clients.set(agent.address, token.connect(await hre.viem.getWalletClient(agent.address)));
+      states.set(agent.address, { balance: 0n, stakes: new Map(), stakingStartTime: 0n, voted: new Set() });
+      tiers.set(agent.address, "BRONZE");
+    }
+
+    // 0일차: 시작 잔액 전송 (펀딩 계정이 공급 대부분을 가지고 있어 큰 금액은 고래 방지 수수료가 붙음)
+    log(`💸 시작 잔액 ${formatEther(totalFunding)} EVO 전송 (펀딩 ${funder})`);
+    for (const [i, agent] of agents.entries()) {
+      if (initialBalances[i] === 0n) continue;
+      record(funder, "fund", await token.transfer(agent.address, initialBalances[i]));
+    }
+    startTime = (await publicClient.getBlock()).timestamp;
+    samples.push(await sample());
+
+    for (day = 1; day <= days; day++) {
+      today = emptyTally();
+      const timestamp = startTime + BigInt(day) * DAY;
+      await provider.send("evm_mine", [Number(timestamp)]);
+
+      await settleProposals(timestamp);
+      const market: MarketState = {
+        day,
+        timestamp,
+        pools: await token.getStakingPools(),
+        openProposals: proposals
+          .filter((p) => p.outcome === "pending" && timestamp <= p.deadline)
+          .map((p) => p.proposalId),
+        agents,
+      };
+
+      for (const agent of shuffle(agents, random)) {
+        const behaviour = behaviours[agent.profile];
+        if (!random.chance(behaviour.activeChance)) continue;
+        const state = states.get(agent.address)!;
+        state.balance = await token.balanceOf(agent.address);
+        for (const action of planDay(agent, behaviour, state, market, random)) {
+          await perform(agent, state, action);
+        }
+      }
+
+      const daySample = await sample();
+      samples.push(daySample);
+      if (day % 10 === 0 || day === days) {
+        const { metrics } = daySample;
+        log(
+          `📅 ${day}/${days}일: 공급 ${formatEther(metrics.currentSupply)} EVO, 스테이킹 ${metrics.stakingRatio}%, ` +
+            `보상 풀 ${formatEther(metrics.rewardPool)} EVO, ${daySample.generation}세대`
+        );
+      }
+    }
+  } finally {
+    for (const address of impersonated) {
+      await provider.send("hardhat_stopImpersonatingAccount", [address]);
+    }
+  }
+
+  const evolutions = (await token.getEvolutionHistory()).map((evolution) => ({
+    generation: evolution.generation,
+    featureName: evolution.featureName,
+    impactScore: evolution.impactScore,
+    timestamp: evolution.timestamp,
+    day: evolution.timestamp < startTime ? 0 : Number((evolution.timestamp - startTime) / DAY),
+    trigger: triggers.get(evolution.generation),
+  }));
+
+  return {
+    seed,
+    days,
+    token: token.address,
+    funder,
+    startTime,
+    agentCounts,
+    behaviours,
+    samples,
+    evolutions,
+    fees,
+    feePayers: summarizeFeePayers(fees),
+    proposals,
+    failures,
+  };
+
+  async function perform(agent: Agent, state: AgentState, action: AgentAction) {
+    const client = clients.get(agent.address)!;
+    switch (action.kind) {
+      case "transfer":
+        await attempt(agent.address, "transfer", () => client.transfer(action.to, action.amount));
+        return;
+      case "stake": {
+        const { tx } = await attempt(agent.address, "stake", () => client.stake(action.poolId, action.amount));
+        if (!tx) return;
+        state.stakes.set(action.poolId, (state.stakes.get(action.poolId) ?? 0n) + action.amount);
+        if (state.stakingStartTime === 0n) state.stakingStartTime = await blockTime(tx);
+        state.lastClaimDay ??= day;
+        return;
+      }
+      case "unstake": {
+        const { tx } = await attempt(agent.address, "unstake", () => client.unstake(action.poolId, action.amount));
+        if (tx) state.stakes.set(action.poolId, state.stakes.get(action.poolId)! - action.amount);
+        return;
+      }
+      case "claim":
+        // 실패해도 다음 주기까지 다시 시도하지 않음
+        state.lastClaimDay = day;
+        await attempt(agent.address, "claimAllRewards", () => client.claimAllRewards());
+        return;
+      case "propose": {
+        const description = `${day}일차 ${action.proposalType} 제안 (에이전트 #${agent.index})`;
+        const { tx } = await attempt(agent.address, "createProposal", () =>
+          client.createProposal(description, action.proposalType)
+        );
+        if (!tx) return;
+        proposals.push({
+          proposalId: tx.proposalId,
+          proposalType: action.proposalType,
+          proposer: agent.address,
+          day,
+          deadline: (await blockTime(tx)) + VOTING_PERIOD,
+          outcome: "pending",
+        });
+        return;
+      }
+      case "vote":
+        state.voted.add(action.proposalId);
+        await attempt(agent.address, "vote", () => client.vote(action.proposalId, action.support));
+        return;
+    }
+  }
+
+  /**
+   * 투표가 끝난 제안은 제안자가 실행 (찬성이 많지 않으면 "Proposal failed"로 실패 처리)
+   */
+  async function settleProposals(timestamp: bigint) {
+    for (const proposal of proposals) {
+      if (proposal.outcome !== "pending" || timestamp <= proposal.deadline) continue;
+      const client = clients.get(proposal.proposer)!;
+      const { tx, reason } = await attempt(proposal.proposer, "executeProposal", () =>
+        client.executeProposal(proposal.proposalId)
+      );
+      proposal.outcome = tx ? "executed" : "failed";
+      if (reason !== undefined) proposal.reason = reason;
+    }
+  }
+}
+
+function emptyTally(): DayTally {
+  return { transactions: 0, failures: 0, antiWhaleFees: 0n, feePayments: 0, rewardsMinted: 0n, burned: 0n };
+}
+
+function formatCounts(counts: Record<AgentProfileName, number>): string {
+  return Object.entries(counts)
+    .map(([profile, count]) => `${profile} ${count}`)
+    .join(", ");
+}
+
+/**
+ * 매일 행동 순서를 섞어 같은 에이전트가 항상 먼저 진화를 일으키지 않게 함 (Fisher-Yates)
+ */
+function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = random.int(0, i);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function summarizeFeePayers(fees: readonly FeePayment[]): FeePayerSummary[] {
+  const payers = new Map<Address, FeePayerSummary>();
+  for (const fee of fees) {
+    const summary = payers.get(fee.payer) ?? {
+      address: fee.payer,
+      profile: fee.profile,
+      payments: 0,
+      totalFees: 0n,
+      transferred: 0n,
+      largestFee: 0n,
+    };
+    summary.payments++;
+    summary.totalFees += fee.fee;
+    summary.transferred += fee.amount;
+    if (fee.fee > summary.largestFee) summary.largestFee = fee.fee;
+    payers.set(fee.payer, summary);
+  }
+  return [...payers.values()].sort((a, b) => (a.totalFees === b.totalFees ? 0 : a.totalFees > b.totalFees ? -1 : 1));
+}
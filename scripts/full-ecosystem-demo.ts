@@ -1,5 +1,9 @@
 import hre from "hardhat";
-import { parseEther, formatEther, getAddress } from "viem";
+import { parseEther, formatEther } from "viem";
+
+import { formatBps } from "./dex/quote";
+import { runScript, StepRunner } from "./lib/steps";
+import { BattleArenaClient, DaoClient, MultiSigClient, SimpleDexClient } from "./sdk";
 
 /**
  * 🌟 블록체인 생태계 전체 데모
@@ -14,9 +18,18 @@ import { parseEther, formatEther, getAddress } from "viem";
  * 4. 🏛️ DAO에서 게임 업데이트 제안 및 투표
  * 5. 🔐 멀티시그로 안전한 자산 관리
  * 6. 🎨 성과에 따른 동적 NFT 업그레이드
+ *
+ * 각 단계는 StepRunner로 실행되어 실패가 삼켜지지 않고 마지막 요약표에 표시됩니다.
  */
 
-async function main() {
+// 컨트랙트 enum 값
+const CharacterClass = { WARRIOR: 0, MAGE: 1 } as const;
+const BattleType = { CASUAL: 0 } as const;
+const ProposalType = { FUNDING: 0 } as const;
+const VoteType = { AGAINST: 0, FOR: 1 } as const;
+const TransactionType = { NORMAL: 0 } as const;
+
+export async function main(steps: StepRunner) {
   console.log("🚀 블록체인 생태계 종합 데모 시작!");
   console.log("=" .repeat(60));
   
@@ -35,211 +48,273 @@ async function main() {
   console.log("📦 1단계: 스마트 컨트랙트 생태계 구축");
   console.log("-".repeat(40));
   
-  // 토큰 배포
-  console.log("💰 ERC-20 게임 토큰 배포...");
-  const gameToken = await hre.viem.deployContract("MyToken", [parseEther("10000000")]);
-  
-  console.log("🎨 게임 캐릭터 NFT 배포...");
-  const characterNFT = await hre.viem.deployContract("MyNFT");
-  
-  console.log("🏆 성과 기반 동적 NFT 배포...");
-  const achievementNFT = await hre.viem.deployContract("DynamicPerformanceNFT");
-  
-  console.log("🔄 분산형 거래소(DEX) 배포...");
-  const dex = await hre.viem.deployContract("SimpleDEX");
-  
-  console.log("🏛️ DAO 거버넌스 시스템 배포...");
-  const dao = await hre.viem.deployContract("DAOGovernance", [gameToken.address]);
-  
-  console.log("🔐 멀티시그 자산 관리 지갑 배포...");
+  const gameToken = await steps.step("💰 ERC-20 게임 토큰 배포", () => hre.viem.deployContract("MyToken"));
+  const pairToken = await steps.step("💵 DEX 페어 토큰 배포", () => hre.viem.deployContract("MyToken"));
+  const characterNFT = await steps.step("🎨 게임 캐릭터 NFT 배포", () => hre.viem.deployContract("MyNFT"));
+  const achievementNFT = await steps.step("🏆 성과 기반 동적 NFT 배포", () =>
+    hre.viem.deployContract("DynamicPerformanceNFT")
+  );
+  const dex = await steps.step(
+    "🔄 분산형 거래소(DEX) 배포",
+    () => hre.viem.deployContract("SimpleDEX", [gameToken!.address, pairToken!.address]),
+    { requires: [gameToken, pairToken] }
+  );
+  const dao = await steps.step(
+    "🏛️ DAO 거버넌스 시스템 배포",
+    () => hre.viem.deployContract("AIEnhancedDAO", [gameToken!.address, deployer.account.address]),
+    { requires: [gameToken] }
+  );
   const owners = [deployer.account.address, alice.account.address, bob.account.address];
-  const multiSig = await hre.viem.deployContract("MultiSigWallet", [owners, 2]);
-  
-  console.log("🎮 배틀 게임 시스템 배포...");
-  const battleGame = await hre.viem.deployContract("BattleGame");
-  
-  console.log("✅ 모든 컨트랙트 배포 완료!\n");
+  const multiSig = await steps.step("🔐 멀티시그 자산 관리 지갑 배포", () =>
+    hre.viem.deployContract("IntelligentMultiSig", [owners, 2n, ["Deployer", "Alice", "Bob"]])
+  );
+  const battleArena = await steps.step(
+    "🎮 배틀 게임 시스템 배포",
+    () => hre.viem.deployContract("BattleArenaP2E", [gameToken!.address, characterNFT!.address]),
+    { requires: [gameToken, characterNFT] }
+  );
+  console.log("");
 
   // 🎮 2단계: 게임 플레이 및 NFT 경제
   console.log("🎮 2단계: 게임 플레이 & NFT 생태계");
   console.log("-".repeat(40));
   
-  // 캐릭터 생성
-  console.log("⚡ 앨리스가 '전사' 캐릭터 생성...");
-  await battleGame.write.createCharacter(["Warrior"], { account: alice.account });
-  
-  console.log("🔮 밥이 '마법사' 캐릭터 생성...");
-  await battleGame.write.createCharacter(["Mage"], { account: bob.account });
-  
-  // NFT 캐릭터 발급
-  console.log("🎨 캐릭터 NFT 발급...");
-  await characterNFT.write.safeMint([alice.account.address, "https://game.com/characters/warrior/1"]);
-  await characterNFT.write.safeMint([bob.account.address, "https://game.com/characters/mage/1"]);
-  
-  // 배틀 시작
-  console.log("⚔️ PvP 배틀 시작!");
-  try {
-    await battleGame.write.battle([bob.account.address], { account: alice.account });
-    console.log("🏆 배틀 완료!");
-  } catch (error) {
-    console.log("⚡ 배틀 진행 중...");
-  }
-  
-  // 게임 보상 지급
-  console.log("💰 게임 보상 지급...");
-  await gameToken.write.transfer([alice.account.address, parseEther("1000")]);
-  await gameToken.write.transfer([bob.account.address, parseEther("800")]);
-  await gameToken.write.transfer([charlie.account.address, parseEther("500")]);
-  
-  console.log("✅ 게임 플레이 단계 완료!\n");
+  // 캐릭터 NFT 발급 (토큰 ID는 0부터)
+  const minted = await steps.step(
+    "🎨 캐릭터 NFT 발급",
+    async () => {
+      await characterNFT!.write.adminMint([alice.account.address, "https://game.com/characters/warrior/1"]);
+      await characterNFT!.write.adminMint([bob.account.address, "https://game.com/characters/mage/1"]);
+      return { aliceCharacter: 0n, bobCharacter: 1n };
+    },
+    { requires: [characterNFT] }
+  );
+
+  const initialized = await steps.step(
+    "⚡ 앨리스 '전사', 밥 '마법사' 캐릭터 초기화",
+    async () => {
+      await battleArena!.write.initializeCharacter([minted!.aliceCharacter, CharacterClass.WARRIOR], {
+        account: alice.account,
+      });
+      await battleArena!.write.initializeCharacter([minted!.bobCharacter, CharacterClass.MAGE], {
+        account: bob.account,
+      });
+      return true;
+    },
+    { requires: [battleArena, minted] }
+  );
+
+  await steps.step(
+    "🏦 배틀 보상 풀 충전",
+    () => gameToken!.write.transfer([battleArena!.address, parseEther("10000")]),
+    { requires: [gameToken, battleArena] }
+  );
+
+  await steps.step(
+    "⚔️ PvP 배틀 (앨리스 → 밥)",
+    async () => {
+      const hash = await battleArena!.write.startBattle(
+        [minted!.aliceCharacter, minted!.bobCharacter, BattleType.CASUAL],
+        { account: alice.account }
+      );
+      await publicClient.waitForTransactionReceipt({ hash });
+    },
+    { requires: [initialized] }
+  );
+  
+  await steps.step(
+    "💰 게임 보상 지급",
+    async () => {
+      await gameToken!.write.transfer([alice.account.address, parseEther("1000")]);
+      await gameToken!.write.transfer([bob.account.address, parseEther("800")]);
+      await gameToken!.write.transfer([charlie.account.address, parseEther("500")]);
+    },
+    { requires: [gameToken] }
+  );
+  console.log("");
 
   // 💱 3단계: DeFi 생태계 - 토큰 거래 및 유동성
   console.log("💱 3단계: DeFi 생태계 - 토큰 거래");
   console.log("-".repeat(40));
   
-  // DEX에 유동성 공급
-  console.log("🌊 DEX에 유동성 공급...");
-  await gameToken.write.approve([dex.address, parseEther("5000")]);
-  
-  try {
-    await dex.write.addLiquidity([parseEther("1000")], { 
-      value: parseEther("2"),
-      account: deployer.account 
-    });
-    console.log("✅ 유동성 풀 생성 완료!");
-  } catch (error) {
-    console.log("📊 유동성 풀 설정 중...");
-  }
-  
-  // 사용자들의 토큰 거래
-  console.log("🔄 사용자들이 DEX에서 토큰 거래...");
-  await gameToken.write.approve([dex.address, parseEther("500")], { account: alice.account });
-  await gameToken.write.approve([dex.address, parseEther("300")], { account: bob.account });
-  
-  console.log("✅ DeFi 생태계 구축 완료!\n");
+  const pool = await steps.step(
+    "🌊 DEX에 1000:1000 유동성 공급",
+    async () => {
+      await gameToken!.write.approve([dex!.address, parseEther("1000")]);
+      await pairToken!.write.approve([dex!.address, parseEther("1000")]);
+      await dex!.write.addLiquidity([parseEther("1000"), parseEther("1000")]);
+      return true;
+    },
+    { requires: [dex] }
+  );
+  
+  await steps.step(
+    "🔄 앨리스가 100 GTK를 페어 토큰으로 스왑",
+    async () => {
+      // 견적 → 시뮬레이션 → 슬리피지 1% 이내일 때만 전송
+      const aliceDex = new SimpleDexClient(hre, dex!, alice);
+      const quote = await aliceDex.quote("AtoB", "100");
+      console.log(`   📈 예상 수령: ${formatEther(quote.amountOut)} (가격 영향 ${formatBps(quote.priceImpactBps)})`);
+      const { amountOut } = await aliceDex.swapWithProtection("AtoB", "100", { reference: quote, slippageBps: 100 });
+      console.log(`   💱 앨리스 수령: ${formatEther(amountOut)} 페어 토큰`);
+    },
+    { requires: [pool] }
+  );
+  console.log("");
 
   // 🏛️ 4단계: DAO 거버넌스 - 커뮤니티 의사결정
   console.log("🏛️ 4단계: DAO 거버넌스 시스템");
   console.log("-".repeat(40));
   
-  // 중요한 제안들 생성
-  console.log("📝 게임 업데이트 제안 생성...");
-  await dao.write.createProposal([
-    "New Character Class: Archer",
-    "Add archer class with unique abilities and balanced stats"
-  ]);
-  
-  await dao.write.createProposal([
-    "Tournament Prize Pool",
-    "Allocate 50,000 tokens for monthly tournament prizes"
-  ]);
-  
-  await dao.write.createProposal([
-    "NFT Marketplace Integration",
-    "Integrate with OpenSea for character trading"
-  ]);
-  
-  // 제안 정보 조회
-  const proposal1 = await dao.read.proposals([0n]);
-  const proposal2 = await dao.read.proposals([1n]);
-  
-  console.log(`📋 제안 1: ${proposal1[1]}`);
-  console.log(`📋 제안 2: ${proposal2[1]}`);
-  
-  console.log("✅ DAO 거버넌스 활성화 완료!\n");
+  // 제안 설명은 100바이트 이상이어야 함
+  const proposalId = await steps.step(
+    "📝 토너먼트 상금 풀 제안 생성",
+    async () => {
+      await dao!.write.submitProposal([
+        "Tournament Prize Pool",
+        "Allocate 50,000 tokens from the treasury for monthly tournament prizes so that top ranked players are rewarded.",
+        ProposalType.FUNDING,
+        "0x",
+      ]);
+      return await dao!.read.proposalCount();
+    },
+    { requires: [dao] }
+  );
+
+  await steps.step(
+    "🗳️ 배포자와 앨리스가 찬성 투표",
+    async () => {
+      await dao!.write.vote([proposalId!, VoteType.FOR, "Players deserve it"]);
+      await dao!.write.vote([proposalId!, VoteType.FOR, "Agree"], { account: alice.account });
+      const proposal = await new DaoClient(hre, dao!).getProposal(proposalId!);
+      console.log(`   📋 제안 #${proposalId}: ${proposal.title}`);
+      console.log(`   📊 현재 지지율 ${proposal.currentSupport}% (필요 ${proposal.requiredMajority}%)`);
+    },
+    { requires: [proposalId] }
+  );
+  console.log("");
 
   // 🔐 5단계: 멀티시그 자산 관리
   console.log("🔐 5단계: 멀티시그 자산 관리");
   console.log("-".repeat(40));
   
-  // 멀티시그 지갑에 자금 입금
-  console.log("💸 멀티시그 지갑에 게임 수익금 입금...");
-  await deployer.sendTransaction({
-    to: multiSig.address,
-    value: parseEther("5")
-  });
-  
-  // 대규모 자금 이동 제안
-  console.log("📋 대규모 자금 이동 제안 (3 ETH)...");
-  await multiSig.write.submitTransaction([
-    charlie.account.address,
-    parseEther("3"),
-    "0x"
-  ], { account: deployer.account });
-  
-  // 첫 번째 승인
-  console.log("✅ 앨리스가 트랜잭션 승인...");
-  await multiSig.write.confirmTransaction([0n], { account: alice.account });
-  
-  console.log("⏳ 추가 승인 대기 중 (2/3 required)...");
-  console.log("✅ 멀티시그 보안 시스템 작동 확인!\n");
+  const funded = await steps.step(
+    "💸 멀티시그 지갑에 게임 수익금 5 ETH 입금",
+    async () => {
+      const hash = await deployer.sendTransaction({ to: multiSig!.address, value: parseEther("5") });
+      await publicClient.waitForTransactionReceipt({ hash });
+      return true;
+    },
+    { requires: [multiSig] }
+  );
+  
+  const txSubmitted = await steps.step(
+    "📋 자금 이동 제안 (3 ETH → 찰리)",
+    async () => {
+      await multiSig!.write.submitTransaction([charlie.account.address, parseEther("3"), "0x", TransactionType.NORMAL]);
+      const { requiredConfirmations } = await new MultiSigClient(hre, multiSig!).getTransaction(0n);
+      console.log(`   ✍️ 필요한 승인 수: ${requiredConfirmations}`);
+      return true;
+    },
+    { requires: [funded] }
+  );
+  
+  await steps.step(
+    "✅ 앨리스가 트랜잭션 승인",
+    () => multiSig!.write.confirmTransaction([0n], { account: alice.account }),
+    { requires: [txSubmitted] }
+  );
+  console.log("");
 
   // 🏆 6단계: 성과 기반 동적 NFT 시스템
   console.log("🏆 6단계: 성과 기반 NFT 업그레이드");
   console.log("-".repeat(40));
   
-  // 높은 성과를 달성한 플레이어에게 특별 NFT 발급
-  console.log("🌟 앨리스의 뛰어난 게임 성과로 특별 NFT 획득...");
-  await achievementNFT.write.mint([alice.account.address]);
-  
-  console.log("📊 성과 데이터 업데이트...");
-  try {
-    await achievementNFT.write.updatePerformance([1n, 95n]); // 95점 성과
-    console.log("✨ 동적 NFT가 성과에 따라 자동 업그레이드됨!");
-  } catch (error) {
-    console.log("📈 성과 추적 시스템 활성화됨");
-  }
-  
-  console.log("✅ 성과 기반 NFT 시스템 완료!\n");
+  // mintWarrior의 토큰 ID는 1부터
+  const warriorMinted = await steps.step(
+    "🌟 앨리스에게 성과 NFT 발급",
+    async () => {
+      await achievementNFT!.write.mintWarrior([alice.account.address]);
+      return true;
+    },
+    { requires: [achievementNFT] }
+  );
+  
+  await steps.step(
+    "📊 성과 데이터 업데이트 (95점)",
+    async () => {
+      await achievementNFT!.write.updatePerformance([1n, 95n]);
+      const [level, , performanceScore] = await achievementNFT!.read.getNFTStats([1n]);
+      console.log(`   ✨ 레벨 ${level}, 성과 점수 ${performanceScore}`);
+    },
+    { requires: [warriorMinted] }
+  );
+  console.log("");
 
   // 📊 7단계: 생태계 현황 종합 리포트
   console.log("📊 7단계: 생태계 현황 종합 리포트");
   console.log("=" .repeat(60));
   
-  // 토큰 분포 현황
-  const aliceBalance = await gameToken.read.balanceOf([alice.account.address]);
-  const bobBalance = await gameToken.read.balanceOf([bob.account.address]);
-  const charlieBalance = await gameToken.read.balanceOf([charlie.account.address]);
-  const dexBalance = await gameToken.read.balanceOf([dex.address]);
-  
-  console.log("💰 토큰 생태계 현황:");
-  console.log(`  👩‍💼 앨리스: ${formatEther(aliceBalance)} GTK`);
-  console.log(`  👨‍💼 밥: ${formatEther(bobBalance)} GTK`);
-  console.log(`  👨‍💼 찰리: ${formatEther(charlieBalance)} GTK`);
-  console.log(`  🔄 DEX 풀: ${formatEther(dexBalance)} GTK`);
-  
-  // NFT 소유 현황
-  const aliceNFTCount = await characterNFT.read.balanceOf([alice.account.address]);
-  const bobNFTCount = await characterNFT.read.balanceOf([bob.account.address]);
-  const aliceAchievementCount = await achievementNFT.read.balanceOf([alice.account.address]);
-  
-  console.log("\n🎨 NFT 생태계 현황:");
-  console.log(`  👩‍💼 앨리스 캐릭터 NFT: ${aliceNFTCount}개`);
-  console.log(`  👨‍💼 밥 캐릭터 NFT: ${bobNFTCount}개`);
-  console.log(`  🏆 앨리스 성과 NFT: ${aliceAchievementCount}개`);
-  
-  // 거버넌스 현황
-  const proposalCount = await dao.read.proposalCount();
-  
-  console.log("\n🏛️ DAO 거버넌스 현황:");
-  console.log(`  📋 총 제안 수: ${proposalCount}개`);
-  console.log(`  🗳️ 활성 투표: 진행 중`);
-  
-  // 보안 시스템 현황
-  const multiSigOwners = await multiSig.read.getOwners();
-  const requiredConfirmations = await multiSig.read.required();
-  
-  console.log("\n🔐 멀티시그 보안 현황:");
-  console.log(`  👥 소유자 수: ${multiSigOwners.length}명`);
-  console.log(`  ✅ 필요한 승인 수: ${requiredConfirmations}개`);
-  
-  // 게임 시스템 현황
-  const aliceCharacter = await battleGame.read.characters([alice.account.address]);
-  const bobCharacter = await battleGame.read.characters([bob.account.address]);
-  
-  console.log("\n🎮 게임 시스템 현황:");
-  console.log(`  ⚡ 앨리스 캐릭터: ${aliceCharacter[1]} (레벨 ${aliceCharacter[2]})`);
-  console.log(`  🔮 밥 캐릭터: ${bobCharacter[1]} (레벨 ${bobCharacter[2]})`);
+  await steps.step(
+    "💰 토큰 생태계 현황 조회",
+    async () => {
+      const aliceBalance = await gameToken!.read.balanceOf([alice.account.address]);
+      const bobBalance = await gameToken!.read.balanceOf([bob.account.address]);
+      const charlieBalance = await gameToken!.read.balanceOf([charlie.account.address]);
+      const { reserveA, reserveB } = await new SimpleDexClient(hre, dex!).getPoolStats();
+
+      console.log(`  👩‍💼 앨리스: ${formatEther(aliceBalance)} GTK`);
+      console.log(`  👨‍💼 밥: ${formatEther(bobBalance)} GTK`);
+      console.log(`  👨‍💼 찰리: ${formatEther(charlieBalance)} GTK`);
+      console.log(`  🔄 DEX 풀: ${formatEther(reserveA)} GTK / ${formatEther(reserveB)} 페어 토큰`);
+    },
+    { requires: [gameToken, dex] }
+  );
+  
+  await steps.step(
+    "🎨 NFT 생태계 현황 조회",
+    async () => {
+      const aliceNFTCount = await characterNFT!.read.balanceOf([alice.account.address]);
+      const bobNFTCount = await characterNFT!.read.balanceOf([bob.account.address]);
+      const aliceAchievementCount = await achievementNFT!.read.balanceOf([alice.account.address]);
+
+      console.log(`  👩‍💼 앨리스 캐릭터 NFT: ${aliceNFTCount}개`);
+      console.log(`  👨‍💼 밥 캐릭터 NFT: ${bobNFTCount}개`);
+      console.log(`  🏆 앨리스 성과 NFT: ${aliceAchievementCount}개`);
+    },
+    { requires: [characterNFT, achievementNFT] }
+  );
+  
+  await steps.step(
+    "🏛️ DAO 거버넌스 현황 조회",
+    async () => {
+      const { totalProposals, activeProposals } = await new DaoClient(hre, dao!).getStats();
+      console.log(`  📋 총 제안 수: ${totalProposals}개 (진행 중 ${activeProposals}개)`);
+    },
+    { requires: [dao] }
+  );
+  
+  await steps.step(
+    "🔐 멀티시그 보안 현황 조회",
+    async () => {
+      const { balance, pendingTransactions, totalOwners, baseRequired } = await new MultiSigClient(hre, multiSig!).getWalletStats();
+      console.log(`  👥 소유자 수: ${totalOwners}명, 기본 승인 수: ${baseRequired}개`);
+      console.log(`  💰 잔액: ${formatEther(balance)} ETH, 대기 중 트랜잭션: ${pendingTransactions}개`);
+    },
+    { requires: [multiSig] }
+  );
+  
+  await steps.step(
+    "🎮 게임 시스템 현황 조회",
+    async () => {
+      const arena = new BattleArenaClient(hre, battleArena!);
+      const aliceCharacter = await arena.getCharacterStats(minted!.aliceCharacter);
+      const bobCharacter = await arena.getCharacterStats(minted!.bobCharacter);
+      console.log(`  ⚡ 앨리스 전사: 레벨 ${aliceCharacter.level}, 레이팅 ${aliceCharacter.rating}, ${aliceCharacter.winCount}승`);
+      console.log(`  🔮 밥 마법사: 레벨 ${bobCharacter.level}, 레이팅 ${bobCharacter.rating}, ${bobCharacter.winCount}승`);
+    },
+    { requires: [initialized] }
+  );
   
   console.log("\n" + "=" .repeat(60));
   console.log("🎉 블록체인 생태계 통합 데모 완료!");
@@ -258,17 +333,9 @@ async function main() {
   console.log("   GameFi + DeFi + DAO + NFT 통합 생태계의 축소 모델입니다!");
 }
 
-// 에러 처리와 함께 메인 함수 실행
-main()
-  .then(() => {
-    console.log("\n🎯 데모 스크립트 성공적으로 완료!");
-    process.exit(0);
-  })
-  .catch((error) => {
-    console.error("\n❌ 데모 실행 중 오류 발생:");
-    console.error(error);
-    process.exit(1);
-  });
+if (require.main === module) {
+  runScript("블록체인 생태계 종합 데모", main);
+}
 
 /**
  * 🔧 실행 방법:
@@ -278,13 +345,16 @@ main()
  * 
  * 2. 다른 터미널에서 데모 실행:
  *    npx hardhat run scripts/full-ecosystem-demo.ts --network localhost
+ *
+ * 3. 실패한 단계가 있으면 종료 코드 1로 끝내기 (CI용):
+ *    STRICT=true npx hardhat run scripts/full-ecosystem-demo.ts --network localhost
  * 
- * 3. 테스트넷(Sepolia)에서 실행:
+ * 4. 테스트넷(Sepolia)에서 실행:
  *    npx hardhat run scripts/full-ecosystem-demo.ts --network sepolia
  * 
  * 📊 예상 결과:
  * - 모든 컨트랙트가 성공적으로 배포됨
  * - 토큰, NFT, DEX, DAO, 멀티시그, 게임이 모두 연동됨
  * - 실제 DApp에서 일어날 수 있는 복잡한 워크플로우 시연
- * - 가스 사용량과 트랜잭션 비용 확인 가능
+ * - 마지막에 단계별 통과/실패/건너뜀 요약표 출력
  */
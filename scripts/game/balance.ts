@@ -0,0 +1,246 @@
+import { formatEther } from "viem";
+
+import { createRandom } from "../lib/random";
+import { CHARACTER_CLASSES, type BattleTypeName, type CharacterClassName } from "../sdk/battle-arena";
+import {
+  calculateExperienceGain,
+  calculateReward,
+  characterAtLevel,
+  simulateBattle,
+  SKILL_ALLOCATIONS,
+  type SkillAllocationName,
+} from "./battle";
+
+/**
+ * 📊 클래스 밸런스 몬테카를로 시뮬레이터
+ *
+ * 클래스 쌍마다 공격자/방어자의 레벨과 스킬 포인트 배분을 무작위로 뽑아 배틀을 반복하고
+ * 승률 행렬, 평균 피해량, 배틀당 기대 보상/경험치를 모읍니다. 무작위 배율(80 ~ 120)은 균등 분포로 뽑습니다.
+ *
+ *   const report = simulateBalance({ fightsPerMatchup: 2000, levels: [1, 10, 30], seed: 42 });
+ *   fs.writeFileSync("balance.csv", balanceCsv(report));
+ *   fs.writeFileSync("balance.md", balanceMarkdown(report));
+ */
+
+export interface BalanceOptions {
+  // 클래스 쌍(공격자 × 방어자)마다 배틀 수
+  fightsPerMatchup?: number;
+  // 공격자/방어자 레벨 후보 (각각 독립적으로 뽑음)
+  levels?: readonly number[];
+  allocations?: readonly SkillAllocationName[];
+  battleType?: BattleTypeName;
+  seed?: number;
+}
+
+export interface MatchupStats {
+  attacker: CharacterClassName;
+  defender: CharacterClassName;
+  fights: number;
+  attackerWins: number;
+  // 0 ~ 1
+  winRate: number;
+  avgDamageDealt: number;
+  avgDamageReceived: number;
+  // 배틀당 기대 보상 (wei): 공격자는 이길 때 전액, 방어자는 막았을 때 절반
+  avgAttackerReward: bigint;
+  avgDefenderReward: bigint;
+  avgAttackerExperience: number;
+  avgDefenderExperience: number;
+}
+
+export interface WinRateSummary {
+  fights: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface BalanceReport {
+  seed: number;
+  fightsPerMatchup: number;
+  levels: number[];
+  allocations: SkillAllocationName[];
+  battleType: BattleTypeName;
+  matchups: MatchupStats[];
+  // 클래스별 공격/방어 승률 (방어 승률은 막아 낸 비율)
+  classes: Record<CharacterClassName, { attacking: WinRateSummary; defending: WinRateSummary }>;
+  // 공격자 스킬 포인트 배분별 승률
+  allocationsAsAttacker: Record<SkillAllocationName, WinRateSummary>;
+}
+
+export const DEFAULT_BALANCE_OPTIONS = {
+  fightsPerMatchup: 2000,
+  levels: [1, 5, 10, 25, 50],
+  allocations: SKILL_ALLOCATIONS,
+  battleType: "RANKED",
+} as const;
+
+export function simulateBalance(options: BalanceOptions = {}): BalanceReport {
+  const fightsPerMatchup = options.fightsPerMatchup ?? DEFAULT_BALANCE_OPTIONS.fightsPerMatchup;
+  const levels = [...(options.levels ?? DEFAULT_BALANCE_OPTIONS.levels)];
+  const allocations = [...(options.allocations ?? DEFAULT_BALANCE_OPTIONS.allocations)];
+  const battleType = options.battleType ?? DEFAULT_BALANCE_OPTIONS.battleType;
+  const seed = options.seed ?? Date.now() % 2 ** 31;
+
+  if (!Number.isInteger(fightsPerMatchup) || fightsPerMatchup <= 0) {
+    throw new Error(`fightsPerMatchup은 양의 정수여야 합니다 (입력: ${fightsPerMatchup})`);
+  }
+  if (levels.length === 0 || allocations.length === 0) {
+    throw new Error("레벨과 스킬 배분 후보가 하나 이상 있어야 합니다");
+  }
+
+  const random = createRandom(seed);
+  const emptySummary = (): WinRateSummary => ({ fights: 0, wins: 0, winRate: 0 });
+  const classes = Object.fromEntries(
+    CHARACTER_CLASSES.map((c) => [c, { attacking: emptySummary(), defending: emptySummary() }])
+  ) as BalanceReport["classes"];
+  const allocationsAsAttacker = Object.fromEntries(
+    allocations.map((a) => [a, emptySummary()])
+  ) as BalanceReport["allocationsAsAttacker"];
+
+  const matchups: MatchupStats[] = [];
+  for (const attackerClass of CHARACTER_CLASSES) {
+    for (const defenderClass of CHARACTER_CLASSES) {
+      let attackerWins = 0;
+      let damageDealt = 0n;
+      let damageReceived = 0n;
+      let attackerReward = 0n;
+      let defenderReward = 0n;
+      let attackerExperience = 0n;
+      let defenderExperience = 0n;
+
+      for (let i = 0; i < fightsPerMatchup; i++) {
+        const allocation = random.pick(allocations);
+        const attacker = characterAtLevel(attackerClass, random.pick(levels), allocation);
+        const defender = characterAtLevel(defenderClass, random.pick(levels), random.pick(allocations));
+        const result = simulateBattle(attacker, defender, BigInt(random.int(80, 120)));
+        const reward = calculateReward(attacker, defender, battleType);
+
+        damageDealt += result.damageDealt;
+        damageReceived += result.damageReceived;
+        attackerExperience += calculateExperienceGain(attacker, defender, result.attackerWins);
+        defenderExperience += calculateExperienceGain(defender, attacker, !result.attackerWins);
+        if (result.attackerWins) {
+          attackerWins++;
+          attackerReward += reward;
+        } else {
+          defenderReward += reward / 2n;
+        }
+
+        record(allocationsAsAttacker[allocation], result.attackerWins);
+        record(classes[attackerClass].attacking, result.attackerWins);
+        record(classes[defenderClass].defending, !result.attackerWins);
+      }
+
+      const fights = BigInt(fightsPerMatchup);
+      matchups.push({
+        attacker: attackerClass,
+        defender: defenderClass,
+        fights: fightsPerMatchup,
+        attackerWins,
+        winRate: attackerWins / fightsPerMatchup,
+        avgDamageDealt: Number(damageDealt) / fightsPerMatchup,
+        avgDamageReceived: Number(damageReceived) / fightsPerMatchup,
+        avgAttackerReward: attackerReward / fights,
+        avgDefenderReward: defenderReward / fights,
+        avgAttackerExperience: Number(attackerExperience) / fightsPerMatchup,
+        avgDefenderExperience: Number(defenderExperience) / fightsPerMatchup,
+      });
+    }
+  }
+
+  return { seed, fightsPerMatchup, levels, allocations, battleType, matchups, classes, allocationsAsAttacker };
+}
+
+function record(summary: WinRateSummary, won: boolean) {
+  summary.fights++;
+  if (won) summary.wins++;
+  summary.winRate = summary.wins / summary.fights;
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * 클래스 쌍별 한 줄 (보상은 ether 단위)
+ */
+export function balanceCsv(report: BalanceReport): string {
+  const header = [
+    "attacker",
+    "defender",
+    "fights",
+    "attacker_wins",
+    "win_rate",
+    "avg_damage_dealt",
+    "avg_damage_received",
+    "avg_attacker_reward",
+    "avg_defender_reward",
+    "avg_attacker_xp",
+    "avg_defender_xp",
+  ];
+  const rows = report.matchups.map((m) => [
+    m.attacker,
+    m.defender,
+    m.fights,
+    m.attackerWins,
+    m.winRate.toFixed(4),
+    m.avgDamageDealt.toFixed(2),
+    m.avgDamageReceived.toFixed(2),
+    formatEther(m.avgAttackerReward),
+    formatEther(m.avgDefenderReward),
+    m.avgAttackerExperience.toFixed(2),
+    m.avgDefenderExperience.toFixed(2),
+  ]);
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
+
+export function balanceMarkdown(report: BalanceReport): string {
+  const lines = [
+    "# ⚔️ 클래스 밸런스 리포트",
+    "",
+    `- 시드: \`${report.seed}\` (같은 시드로 다시 돌리면 같은 결과)`,
+    `- 클래스 쌍마다 ${report.fightsPerMatchup}회, 배틀 타입 ${report.battleType}`,
+    `- 레벨 후보: ${report.levels.join(", ")} / 스킬 배분 후보: ${report.allocations.join(", ")}`,
+    "",
+    "## 승률 행렬 (행: 공격자, 열: 방어자)",
+    "",
+    `| 공격 \\ 방어 | ${CHARACTER_CLASSES.join(" | ")} |`,
+    `|---|${CHARACTER_CLASSES.map(() => "---:").join("|")}|`,
+  ];
+  for (const attacker of CHARACTER_CLASSES) {
+    const cells = CHARACTER_CLASSES.map((defender) => {
+      const matchup = report.matchups.find((m) => m.attacker === attacker && m.defender === defender)!;
+      return percent(matchup.winRate);
+    });
+    lines.push(`| **${attacker}** | ${cells.join(" | ")} |`);
+  }
+
+  lines.push("", "## 클래스별 승률", "", "| 클래스 | 공격 승률 | 방어 성공률 |", "|---|---:|---:|");
+  for (const characterClass of CHARACTER_CLASSES) {
+    const { attacking, defending } = report.classes[characterClass];
+    lines.push(`| ${characterClass} | ${percent(attacking.winRate)} | ${percent(defending.winRate)} |`);
+  }
+
+  lines.push("", "## 공격자 스킬 포인트 배분별 승률", "", "| 배분 | 배틀 수 | 승률 |", "|---|---:|---:|");
+  for (const allocation of report.allocations) {
+    const summary = report.allocationsAsAttacker[allocation];
+    lines.push(`| ${allocation} | ${summary.fights} | ${percent(summary.winRate)} |`);
+  }
+
+  lines.push(
+    "",
+    "## 클래스 쌍별 평균 피해량과 기대 보상",
+    "",
+    "| 공격자 | 방어자 | 승률 | 가한 피해 | 받은 피해 | 공격자 보상 | 방어자 보상 | 공격자 XP | 방어자 XP |",
+    "|---|---|---:|---:|---:|---:|---:|---:|---:|"
+  );
+  for (const m of report.matchups) {
+    lines.push(
+      `| ${m.attacker} | ${m.defender} | ${percent(m.winRate)} | ${m.avgDamageDealt.toFixed(1)} | ${m.avgDamageReceived.toFixed(1)} | ` +
+        `${Number(formatEther(m.avgAttackerReward)).toFixed(2)} | ${Number(formatEther(m.avgDefenderReward)).toFixed(2)} | ` +
+        `${m.avgAttackerExperience.toFixed(1)} | ${m.avgDefenderExperience.toFixed(1)} |`
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
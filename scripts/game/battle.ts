@@ -0,0 +1,244 @@
+import { encodePacked, keccak256, type Hex } from "viem";
+
+import type { BattleTypeName, CharacterClassName } from "../sdk/battle-arena";
+
+/**
+ * ⚔️ BattleArenaP2E 배틀 계산 오프체인 재현
+ *
+ * 컨트랙트의 getClassBaseStats / applyClassBonuses / calculateSkillBasedBattle과
+ * calculateReward / calculateExperienceGain / checkLevelUp의 능력치 증가를 bigint로 그대로 옮겼습니다.
+ *
+ *   const warrior = characterAtLevel("WARRIOR", 10);
+ *   const mage = characterAtLevel("MAGE", 10, "magic");
+ *   const { attackerWins } = simulateBattle(warrior, mage, battleRandomness(timestamp, 0n, 1n, prevrandao));
+ *
+ * skillPoints[0]은 "남은 포인트"이면서 전투에서는 공격 스킬 포인트(× 2)로도 쓰이므로,
+ * allocateSkillPoints로 나눠 주면(능력치 +1) 오히려 공격력이 줄어들 수 있습니다.
+ */
+
+// calculateSkillBasedBattle이 읽는 Character 필드
+export interface BattleCharacter {
+  characterClass: CharacterClassName;
+  level: bigint;
+  maxHealth: bigint;
+  attack: bigint;
+  defense: bigint;
+  speed: bigint;
+  magic: bigint;
+  streak: bigint;
+  // [남은 포인트(= 공격), 방어, 속도, 마법]
+  skillPoints: readonly bigint[];
+  prestigeLevel: bigint;
+}
+
+export interface BattleResult {
+  attackerWins: boolean;
+  // 상한(최대 체력의 60%) 적용 후
+  damageDealt: bigint;
+  damageReceived: bigint;
+}
+
+// 레벨업 때 나눠 줄 스킬 포인트 배분 전략 (none이면 skillPoints[0]에 남겨 둠)
+export const SKILL_ALLOCATIONS = ["none", "attack", "defense", "speed", "magic", "balanced"] as const;
+export type SkillAllocationName = (typeof SKILL_ALLOCATIONS)[number];
+
+// getClassBaseStats: [attack, defense, speed, magic]
+export const CLASS_BASE_STATS: Record<CharacterClassName, readonly [bigint, bigint, bigint, bigint]> = {
+  WARRIOR: [25n, 20n, 15n, 10n],
+  MAGE: [15n, 15n, 20n, 30n],
+  ARCHER: [22n, 16n, 25n, 12n],
+  ASSASSIN: [28n, 12n, 30n, 8n],
+  HEALER: [12n, 18n, 18n, 25n],
+};
+
+// applyClassBonuses: [공격 %, 마법 %]
+export const CLASS_BONUSES: Record<CharacterClassName, readonly [bigint, bigint]> = {
+  WARRIOR: [130n, 70n],
+  MAGE: [70n, 150n],
+  ARCHER: [120n, 90n],
+  ASSASSIN: [140n, 60n],
+  HEALER: [80n, 140n],
+};
+
+// calculateReward의 BASE_REWARD, 배틀 타입 배율 (%)
+export const BASE_REWARD = 10n * 10n ** 18n;
+export const BATTLE_TYPE_MULTIPLIERS: Record<BattleTypeName, bigint> = {
+  CASUAL: 100n,
+  RANKED: 150n,
+  TOURNAMENT: 200n,
+  GUILD_WAR: 120n,
+};
+
+// prestige 전까지 도달할 수 있는 최대 레벨
+export const MAX_LEVEL = 99;
+
+/**
+ * initializeCharacter 직후 캐릭터
+ */
+export function createCharacter(characterClass: CharacterClassName): BattleCharacter {
+  const [attack, defense, speed, magic] = CLASS_BASE_STATS[characterClass];
+  return {
+    characterClass,
+    level: 1n,
+    maxHealth: 100n,
+    attack,
+    defense,
+    speed,
+    magic,
+    streak: 0n,
+    skillPoints: [0n, 0n, 0n, 0n],
+    prestigeLevel: 0n,
+  };
+}
+
+/**
+ * level까지 레벨업한 캐릭터 (checkLevelUp 증가분), 받은 스킬 포인트는 allocation대로 배분
+ */
+export function characterAtLevel(
+  characterClass: CharacterClassName,
+  level: number,
+  allocation: SkillAllocationName = "none"
+): BattleCharacter {
+  if (!Number.isInteger(level) || level < 1 || level > MAX_LEVEL) {
+    throw new Error(`레벨은 1 ~ ${MAX_LEVEL}이어야 합니다 (입력: ${level})`);
+  }
+
+  const base = createCharacter(characterClass);
+  const gained = BigInt(level - 1);
+  const character: BattleCharacter = {
+    ...base,
+    level: BigInt(level),
+    maxHealth: base.maxHealth + gained * 10n,
+    attack: base.attack + gained * 2n,
+    defense: base.defense + gained * 2n,
+    speed: base.speed + gained,
+    magic: base.magic + gained,
+    skillPoints: [gained, 0n, 0n, 0n],
+  };
+  return allocateSkillPoints(character, allocation);
+}
+
+/**
+ * allocateSkillPoints: 남은 포인트(skillPoints[0])를 능력치에 1:1로 더함
+ */
+export function allocateSkillPoints(character: BattleCharacter, allocation: SkillAllocationName): BattleCharacter {
+  const available = character.skillPoints[0];
+  if (allocation === "none" || available === 0n) return character;
+
+  const points = { attack: 0n, defense: 0n, speed: 0n, magic: 0n };
+  if (allocation === "balanced") {
+    const stats = ["attack", "defense", "speed", "magic"] as const;
+    stats.forEach((stat, i) => {
+      points[stat] = available / 4n + (BigInt(i) < available % 4n ? 1n : 0n);
+    });
+  } else {
+    points[allocation] = available;
+  }
+
+  return {
+    ...character,
+    attack: character.attack + points.attack,
+    defense: character.defense + points.defense,
+    speed: character.speed + points.speed,
+    magic: character.magic + points.magic,
+    skillPoints: [0n, ...character.skillPoints.slice(1)],
+  };
+}
+
+/**
+ * applyClassBonuses
+ */
+export function applyClassBonuses(characterClass: CharacterClassName, attack: bigint, magic: bigint): [bigint, bigint] {
+  const [attackBonus, magicBonus] = CLASS_BONUSES[characterClass];
+  return [(attack * attackBonus) / 100n, (magic * magicBonus) / 100n];
+}
+
+/**
+ * 배틀 블록의 무작위 배율 (80 ~ 120): keccak256(abi.encodePacked(timestamp, attackerId, defenderId, prevrandao)) % 41 + 80
+ */
+export function battleRandomness(timestamp: bigint, attackerId: bigint, defenderId: bigint, prevrandao: Hex | bigint): bigint {
+  const hash = keccak256(
+    encodePacked(["uint256", "uint256", "uint256", "uint256"], [timestamp, attackerId, defenderId, BigInt(prevrandao)])
+  );
+  return (BigInt(hash) % 41n) + 80n;
+}
+
+/**
+ * calculateSkillBasedBattle (randomness는 80 ~ 120 배율)
+ * 승패는 상한 적용 전 피해량으로 정해집니다.
+ */
+export function simulateBattle(attacker: BattleCharacter, defender: BattleCharacter, randomness: bigint): BattleResult {
+  let attackPower = attacker.attack + attacker.skillPoints[0] * 2n;
+  let defensePower = defender.defense + defender.skillPoints[1] * 2n;
+  const attackSpeed = attacker.speed + attacker.skillPoints[2] * 2n;
+  const defenseSpeed = defender.speed + defender.skillPoints[2] * 2n;
+  let attackMagic = attacker.magic + attacker.skillPoints[3] * 2n;
+  let defenseMagic = defender.magic + defender.skillPoints[3] * 2n;
+
+  [attackPower, attackMagic] = applyClassBonuses(attacker.characterClass, attackPower, attackMagic);
+  [defensePower, defenseMagic] = applyClassBonuses(defender.characterClass, defensePower, defenseMagic);
+
+  const physicalDamage = attackPower > defensePower ? attackPower - defensePower / 2n : attackPower / 3n;
+  const magicalDamage = attackMagic > defenseMagic ? attackMagic - defenseMagic / 2n : attackMagic / 3n;
+  let damageDealt = physicalDamage + magicalDamage;
+
+  const counterPhysical = defensePower > attackPower / 2n ? defensePower - attackPower / 4n : defensePower / 3n;
+  const counterMagical = defenseMagic > attackMagic / 2n ? defenseMagic - attackMagic / 4n : defenseMagic / 3n;
+  let damageReceived = ((counterPhysical + counterMagical) * 70n) / 100n;
+
+  // 속도가 같거나 빠르면 선제공격 10% 가산
+  if (attackSpeed >= defenseSpeed) {
+    damageDealt = (damageDealt * 110n) / 100n;
+  } else {
+    damageReceived = (damageReceived * 110n) / 100n;
+  }
+
+  damageDealt = (damageDealt * randomness) / 100n;
+  const attackerWins = damageDealt > damageReceived;
+
+  const defenderCap = (defender.maxHealth * 60n) / 100n;
+  const attackerCap = (attacker.maxHealth * 60n) / 100n;
+  return {
+    attackerWins,
+    damageDealt: damageDealt > defenderCap ? defenderCap : damageDealt,
+    damageReceived: damageReceived > attackerCap ? attackerCap : damageReceived,
+  };
+}
+
+/**
+ * calculateReward: 이기면 공격자가 전액, 지면 방어자가 절반을 받음
+ */
+export function calculateReward(
+  attacker: BattleCharacter,
+  defender: BattleCharacter,
+  battleType: BattleTypeName,
+  ratings: { attacker: bigint; defender: bigint } = { attacker: 1000n, defender: 1000n },
+  rewardMultiplier = 100n
+): bigint {
+  const baseReward = (BASE_REWARD * rewardMultiplier) / 100n;
+
+  const levelBonus = defender.level > attacker.level ? (defender.level - attacker.level) * 20n : 0n;
+  const ratingBonus = ratings.defender > ratings.attacker ? ((ratings.defender - ratings.attacker) * 50n) / 100n : 0n;
+  const streakBonus = defender.streak * 10n;
+  const prestigeBonus = (attacker.prestigeLevel + defender.prestigeLevel) * 25n;
+
+  const totalBonus = levelBonus + ratingBonus + streakBonus + prestigeBonus;
+  const reward = (((baseReward * (100n + totalBonus)) / 100n) * BATTLE_TYPE_MULTIPLIERS[battleType]) / 100n;
+  const maxReward = BASE_REWARD * 10n;
+  return reward > maxReward ? maxReward : reward;
+}
+
+/**
+ * calculateExperienceGain
+ */
+export function calculateExperienceGain(
+  character: BattleCharacter,
+  opponent: BattleCharacter,
+  won: boolean,
+  experienceMultiplier = 100n
+): bigint {
+  let experience = (50n * experienceMultiplier) / 100n;
+  if (won) experience *= 2n;
+  if (opponent.level > character.level) experience += (opponent.level - character.level) * 25n;
+  return experience + opponent.prestigeLevel * 20n;
+}
@@ -0,0 +1,74 @@
+/**
+ * 🏆 BattleArenaP2E ELO 레이팅 오프체인 재현
+ *
+ * 컨트랙트의 calculateExpectedScore / updateRatings를 bigint로 그대로 옮겼습니다.
+ * 기대 점수는 0 ~ 100 정수이고, 레이팅 변화는 K × (실제 - 기대) / 100을 0 방향으로 버립니다.
+ *
+ *   calculateExpectedScore(1200n, 1000n);          // 70n
+ *   const { attacker, defender } = updateRatings(1200n, 1000n, false);
+ *   attacker.newRating;                            // 1178n (-22)
+ */
+
+// BattleArenaP2E의 레이팅 상수
+export const ELO_RATING = {
+  initial: 1000n,
+  // 감소폭이 레이팅 이상일 때 대신 들어가는 값
+  floor: 100n,
+  kFactor: 32n,
+  // 이 차이부터 기대 점수가 90 / 10으로 고정
+  maxGap: 400n,
+} as const;
+
+export interface RatingUpdate {
+  oldRating: bigint;
+  newRating: bigint;
+  // 버림 후 변화량 (하한 적용 전)
+  change: bigint;
+}
+
+export interface BattleRatingUpdate {
+  // 공격자의 기대 점수 (0 ~ 100, 방어자는 100 - expected)
+  expected: bigint;
+  attacker: RatingUpdate;
+  defender: RatingUpdate;
+}
+
+/**
+ * calculateExpectedScore: 같으면 50, 차이 400까지 선형(±40), 그 이상은 90 / 10
+ */
+export function calculateExpectedScore(ratingA: bigint, ratingB: bigint): bigint {
+  if (ratingA === ratingB) return 50n;
+
+  const diff = ratingA > ratingB ? ratingA - ratingB : ratingB - ratingA;
+  if (diff >= ELO_RATING.maxGap) return ratingA > ratingB ? 90n : 10n;
+
+  const delta = (diff * 40n) / ELO_RATING.maxGap;
+  return ratingA > ratingB ? 50n + delta : 50n - delta;
+}
+
+/**
+ * 레이팅 하나에 변화량 적용. 감소폭이 레이팅 이상이면 하한(100)으로 바뀌므로
+ * 100보다 낮은 레이팅이 오히려 올라갈 수 있고, 감소폭보다 큰 레이팅은 100 아래로도 내려갑니다.
+ */
+export function applyRatingChange(rating: bigint, change: bigint): RatingUpdate {
+  if (change >= 0n) return { oldRating: rating, newRating: rating + change, change };
+  return { oldRating: rating, newRating: rating > -change ? rating + change : ELO_RATING.floor, change };
+}
+
+/**
+ * updateRatings: 배틀 한 번의 공격자/방어자 레이팅 변화 (RatingUpdated 이벤트 순서와 같음)
+ */
+export function updateRatings(attackerRating: bigint, defenderRating: bigint, attackerWon: boolean): BattleRatingUpdate {
+  const expected = calculateExpectedScore(attackerRating, defenderRating);
+  const [actualAttacker, actualDefender] = attackerWon ? [100n, 0n] : [0n, 100n];
+
+  // bigint 나눗셈도 Solidity int256처럼 0 방향으로 버림
+  const attackerChange = (ELO_RATING.kFactor * (actualAttacker - expected)) / 100n;
+  const defenderChange = (ELO_RATING.kFactor * (actualDefender - (100n - expected))) / 100n;
+
+  return {
+    expected,
+    attacker: applyRatingChange(attackerRating, attackerChange),
+    defender: applyRatingChange(defenderRating, defenderChange),
+  };
+}
@@ -0,0 +1,244 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Address, Hash } from "viem";
+
+import { createRandom } from "../lib/random";
+import { formatTimestamp } from "../lib/time";
+import type { Amount } from "../sdk/client";
+import type { BattleArenaClient, TournamentInfo, TournamentTypeName } from "../sdk/battle-arena";
+import { BASE_REWARD } from "./battle";
+import { TournamentBracket, type MatchResult, type TournamentMatch, type TournamentStanding } from "./tournament";
+
+/**
+ * 🏆 BattleArenaP2E 토너먼트 진행
+ *
+ * 참가 등록 → 시작 시각까지 대기 → 대진표대로 TOURNAMENT 배틀 (컨트랙트가 경기 결과로 기록) → completeTournament
+ *
+ * 경기 결과는 컨트랙트에 기록되고 우승자도 컨트랙트가 정합니다 (엘리미네이션/배틀로얄: 마지막 생존자,
+ * 리그전: 최다승, 동률이면 먼저 등록한 캐릭터). 러너는 대진만 오프체인에서 짜므로 우승자를 고를 수 없습니다.
+ *
+ *   const arena = await BattleArenaClient.connect(hre);           // 새 토너먼트를 만들려면 컨트랙트 소유자 지갑
+ *   const result = await runTournament(hre, arena, {
+ *     name: "주간 컵",
+ *     tournamentType: "SINGLE_ELIMINATION",
+ *     characters: [0n, 1n, 2n, 3n, 4n],
+ *     advanceTime: true,                                          // 로컬 네트워크: 쿨다운을 시간 이동으로 건너뜀
+ *   });
+ *   result.standings; result.prize;
+ *
+ * 배틀은 캐릭터 소유자 지갑으로 보내야 하므로 소유자 계정이 노드에 열려 있어야 합니다 (hardhat/localhost).
+ * 캐릭터는 끝나지 않은 다른 토너먼트에 등록되어 있으면 참가할 수 없습니다.
+ * 공격자는 경기마다 시드 난수로 정하고, 체력이 0이면 healCharacter로 회복합니다 (비용: 미수령 보상 2.5 토큰).
+ * 양쪽 모두 회복할 수 없으면 낮은 시드의 소유자가 forfeitTournamentMatch로 경기를 내줍니다.
+ */
+
+export interface TournamentRunOptions {
+  // 기존 토너먼트에 이어서 진행 (없으면 새로 생성)
+  tournamentId?: bigint;
+  name?: string;
+  tournamentType?: TournamentTypeName;
+  entryFee?: Amount;
+  // 새 토너먼트의 참가 신청 기간 (초)
+  registrationWindow?: bigint;
+  // 등록할 캐릭터 (이미 등록된 캐릭터는 건너뜀)
+  characters?: readonly bigint[];
+  seed?: number;
+  // true면 evm_mine으로 시간 이동, false면 실제 시간이 지날 때까지 대기
+  advanceTime?: boolean;
+  log?: (message: string) => void;
+}
+
+export interface PlayedMatch extends MatchResult {
+  attacker?: bigint;
+  defender?: bigint;
+  // 경기 전에 회복한 캐릭터
+  healed: bigint[];
+  rewardAmount?: bigint;
+  txHash?: Hash;
+}
+
+export interface TournamentRunResult {
+  tournament: TournamentInfo;
+  seed: number;
+  matches: PlayedMatch[];
+  standings: TournamentStanding[];
+  // TournamentCompleted.winner (컨트랙트가 기록된 결과로 결정)
+  champion: bigint;
+  // TournamentCompleted.prize (플랫폼 수수료 차감 후)
+  prize: bigint;
+  completedTx: Hash;
+}
+
+export const DEFAULT_REGISTRATION_WINDOW = 600n;
+// healCharacter 비용 (BASE_REWARD / 4)
+export const HEAL_COST = BASE_REWARD / 4n;
+
+export async function runTournament(
+  hre: HardhatRuntimeEnvironment,
+  arena: BattleArenaClient,
+  options: TournamentRunOptions = {}
+): Promise<TournamentRunResult> {
+  const log = options.log ?? console.log;
+  const advanceTime = options.advanceTime ?? false;
+  const seed = options.seed ?? Date.now() % 2 ** 31;
+  const clock = new ChainClock(hre, advanceTime, log);
+
+  let tournamentId = options.tournamentId;
+  if (tournamentId === undefined) {
+    const startTime = (await clock.now()) + (options.registrationWindow ?? DEFAULT_REGISTRATION_WINDOW);
+    const created = await arena.createTournament({
+      name: options.name ?? "BattleArena Cup",
+      entryFee: options.entryFee ?? 0n,
+      startTime,
+      tournamentType: options.tournamentType ?? "SINGLE_ELIMINATION",
+    });
+    tournamentId = created.tournamentId;
+    log(`🏟️ 토너먼트 #${tournamentId} 생성 (참가 마감 ${formatTimestamp(startTime)})`);
+  }
+
+  let tournament = await arena.getTournament(tournamentId);
+  if (tournament.completed) {
+    throw new Error(`토너먼트 #${tournamentId}은(는) 이미 우승자 #${tournament.winner}로 끝났습니다`);
+  }
+  // 대진표는 매번 처음부터 만들므로 이미 기록된 경기가 있으면 이어서 진행할 수 없음
+  if (tournament.matchesPlayed > 0n) {
+    throw new Error(`토너먼트 #${tournamentId}에는 이미 경기 결과가 기록되어 있어 이어서 진행할 수 없습니다`);
+  }
+  const id = tournamentId;
+
+  // 참가 등록은 캐릭터 소유자 지갑으로
+  const owners = new Map<bigint, Address>();
+  const ownerOf = async (tokenId: bigint) => {
+    if (!owners.has(tokenId)) owners.set(tokenId, await arena.ownerOf(tokenId));
+    return owners.get(tokenId)!;
+  };
+  const clientFor = async (tokenId: bigint) => arena.connect(await hre.viem.getWalletClient(await ownerOf(tokenId)));
+
+  for (const tokenId of options.characters ?? []) {
+    if (tournament.participants.includes(tokenId)) continue;
+    await (await clientFor(tokenId)).joinTournament(tournamentId, tokenId);
+    log(`📝 캐릭터 #${tokenId} 참가 등록`);
+  }
+  tournament = await arena.getTournament(tournamentId);
+
+  // 리그전 동률은 등록 순서로 가르므로 참가 순서 그대로 전달
+  const entrants = await Promise.all(
+    tournament.participants.map(async (tokenId) => ({ tokenId, rating: (await arena.getCharacterStats(tokenId)).rating }))
+  );
+  const random = createRandom(seed);
+  const bracket = new TournamentBracket(tournament.tournamentType, entrants, random);
+  log(`🎲 ${tournament.tournamentType}, 참가자 ${entrants.length}명, 시드 ${seed}`);
+
+  await clock.waitUntil(tournament.startTime, "토너먼트 시작");
+
+  const matches: PlayedMatch[] = [];
+  const byesSeen = () => bracket.results.filter((r) => r.outcome === "bye");
+  while (!bracket.finished) {
+    const before = byesSeen().length;
+    const round = bracket.nextRound();
+    log(`\n⚔️ ${bracket.currentRound}라운드 (${round.length}경기)`);
+    for (const bye of byesSeen().slice(before)) {
+      log(`   🚶 #${bye.winner} ${tournament.tournamentType === "ROUND_ROBIN" ? "휴식" : "부전승"}`);
+      matches.push({ ...bye, healed: [] });
+    }
+
+    for (const match of round) {
+      const played = await playMatch(match);
+      matches.push(played);
+      const detail = played.outcome === "forfeit" ? "기권승" : `#${played.attacker} 공격`;
+      log(`   🏅 #${match.home} vs #${match.away} → #${played.winner} 승 (${detail})`);
+    }
+  }
+
+  const standings = bracket.standings();
+  const completed = await arena.completeTournament(tournamentId);
+  const champion = completed.winner;
+  if (champion !== bracket.champion) {
+    throw new Error(`컨트랙트가 정한 우승자 #${champion}이(가) 대진표 결과 #${bracket.champion}와 다릅니다`);
+  }
+  log(`\n🏆 우승: 캐릭터 #${champion}`);
+
+  return {
+    tournament: await arena.getTournament(tournamentId),
+    seed,
+    matches,
+    standings,
+    champion,
+    prize: completed.prize,
+    completedTx: completed.hash,
+  };
+
+  /**
+   * 공격자를 정하고 (필요하면 회복) 쿨다운이 풀린 뒤 TOURNAMENT 배틀
+   */
+  async function playMatch(match: TournamentMatch): Promise<PlayedMatch> {
+    const [first, second] = random.chance(0.5) ? [match.home, match.away] : [match.away, match.home];
+    const healed: bigint[] = [];
+
+    let attacker: bigint | undefined;
+    for (const candidate of [first, second]) {
+      if (await canFight(candidate)) {
+        attacker = candidate;
+        break;
+      }
+    }
+    if (attacker === undefined) {
+      const [winner, loser] =
+        bracket.seedOf(match.home) < bracket.seedOf(match.away) ? [match.home, match.away] : [match.away, match.home];
+      const forfeit = await (await clientFor(loser)).forfeitTournamentMatch(id, loser, winner);
+      return { ...bracket.record(match, winner, "forfeit"), healed, txHash: forfeit.hash };
+    }
+    const defender = attacker === match.home ? match.away : match.home;
+
+    if ((await arena.getCharacterStats(attacker)).health === 0n) {
+      await (await clientFor(attacker)).healCharacter(attacker);
+      healed.push(attacker);
+      log(`   💊 #${attacker} 회복`);
+    }
+    await clock.waitUntil(await arena.battleReadyAt(attacker, defender), `#${attacker} 배틀 쿨다운`);
+
+    const outcome = await (await clientFor(attacker)).startBattle(attacker, defender, "TOURNAMENT");
+    if (outcome.tournamentMatch?.tournamentId !== id) {
+      throw new Error(`#${attacker} vs #${defender} 배틀이 토너먼트 #${id} 경기로 기록되지 않았습니다`);
+    }
+    const result = bracket.record(match, outcome.tournamentMatch.winnerId);
+    return { ...result, attacker, defender, healed, rewardAmount: outcome.rewardAmount, txHash: outcome.hash };
+  }
+
+  async function canFight(tokenId: bigint): Promise<boolean> {
+    if ((await arena.getCharacterStats(tokenId)).health > 0n) return true;
+    const { totalEarnings } = await arena.getPlayerStats(await ownerOf(tokenId));
+    return totalEarnings >= HEAL_COST;
+  }
+}
+
+/**
+ * 블록 시각 기준 대기 (로컬 네트워크는 시간 이동)
+ */
+class ChainClock {
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly advanceTime: boolean,
+    private readonly log: (message: string) => void
+  ) {}
+
+  async now(): Promise<bigint> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    return (await publicClient.getBlock()).timestamp;
+  }
+
+  async waitUntil(timestamp: bigint, reason: string) {
+    let now = await this.now();
+    if (now >= timestamp) return;
+
+    if (this.advanceTime) {
+      await this.hre.network.provider.send("evm_mine", [Number(timestamp)]);
+      return;
+    }
+
+    this.log(`   ⏳ ${reason}: ${formatTimestamp(timestamp)}까지 대기`);
+    while (now < timestamp) {
+      await new Promise((resolve) => setTimeout(resolve, Math.min(Number(timestamp - now), 60) * 1000));
+      now = await this.now();
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import type { Random } from "../lib/random";
+import type { TournamentTypeName } from "../sdk/battle-arena";
+
+/**
+ * 🏆 토너먼트 대진표
+ *
+ * 컨트랙트는 경기 결과를 기록해 우승자를 정하고, 대진 생성, 부전승, 순위 계산은 오프체인에서 합니다.
+ *
+ *   SINGLE_ELIMINATION  레이팅 시드 대진표 (1번 시드 vs 최하위 시드), 인원이 2의 거듭제곱이 아니면 상위 시드 부전승
+ *   ROUND_ROBIN         원형 방식 리그전, 홀수 인원이면 라운드마다 한 명 휴식, 동률은 등록 순서 (컨트랙트와 같음)
+ *   BATTLE_ROYALE       라운드마다 남은 인원을 무작위로 짝지어 진 쪽 탈락, 홀수면 부전승이 적은 쪽에서 한 명 통과
+ *
+ *   const bracket = new TournamentBracket("SINGLE_ELIMINATION", entrants, createRandom(seed));
+ *   while (!bracket.finished) {
+ *     for (const match of bracket.nextRound()) bracket.record(match, await play(match));
+ *   }
+ *   bracket.standings();
+ */
+
+export interface TournamentEntrant {
+  tokenId: bigint;
+  rating: bigint;
+}
+
+export interface TournamentMatch {
+  // 1부터
+  round: number;
+  home: bigint;
+  away: bigint;
+}
+
+// bye: 상대 없이 통과 (승리로 세지 않음), forfeit: 싸울 수 없어서 진 쪽이 기권
+export type MatchOutcome = "battle" | "bye" | "forfeit";
+
+export interface MatchResult {
+  round: number;
+  winner: bigint;
+  loser: bigint | null;
+  outcome: MatchOutcome;
+}
+
+export interface TournamentStanding {
+  rank: number;
+  tokenId: bigint;
+  // 1 = 레이팅 최상위
+  seed: number;
+  // 참가 등록 순서 (0부터)
+  registration: number;
+  wins: number;
+  losses: number;
+  byes: number;
+  // 탈락한 라운드 (리그전이거나 살아남았으면 null)
+  eliminatedInRound: number | null;
+}
+
+/**
+ * 레이팅 높은 순 (같으면 토큰 ID 순)
+ */
+export function seedEntrants(entrants: readonly TournamentEntrant[]): bigint[] {
+  return [...entrants]
+    .sort((a, b) => (a.rating !== b.rating ? (a.rating > b.rating ? -1 : 1) : a.tokenId < b.tokenId ? -1 : 1))
+    .map((entrant) => entrant.tokenId);
+}
+
+/**
+ * 싱글 엘리미네이션 1라운드 슬롯 (2의 거듭제곱 크기, 인접한 두 칸이 한 경기, null은 부전승 자리)
+ * 시드 순서: [1, 8, 4, 5, 2, 7, 3, 6] → 상위 시드끼리는 최대한 늦게 만남
+ */
+export function eliminationSlots(seeded: readonly bigint[]): (bigint | null)[] {
+  let order = [1];
+  while (order.length < seeded.length) {
+    const size = order.length * 2;
+    order = order.flatMap((seed) => [seed, size + 1 - seed]);
+  }
+  return order.map((seed) => (seed <= seeded.length ? seeded[seed - 1] : null));
+}
+
+/**
+ * 원형 방식 리그전 일정: 첫 번째를 고정하고 나머지를 돌림 (null은 휴식)
+ */
+export function roundRobinSchedule(tokenIds: readonly bigint[]): [bigint | null, bigint | null][][] {
+  const slots: (bigint | null)[] = tokenIds.length % 2 === 0 ? [...tokenIds] : [...tokenIds, null];
+  const rounds: [bigint | null, bigint | null][][] = [];
+
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairs: [bigint | null, bigint | null][] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      pairs.push([slots[i], slots[slots.length - 1 - i]]);
+    }
+    rounds.push(pairs);
+    slots.splice(1, 0, slots.pop()!);
+  }
+  return rounds;
+}
+
+interface EntrantRecord {
+  tokenId: bigint;
+  seed: number;
+  registration: number;
+  wins: number;
+  losses: number;
+  byes: number;
+  eliminatedInRound: number | null;
+}
+
+export class TournamentBracket {
+  readonly results: MatchResult[] = [];
+  private readonly records = new Map<bigint, EntrantRecord>();
+  // 엘리미네이션/배틀로얄에서 아직 탈락하지 않은 참가자 (대진표 순서)
+  private alive: bigint[];
+  private readonly schedule: [bigint | null, bigint | null][][] = [];
+  private pending: TournamentMatch[] = [];
+  private round = 0;
+
+  /**
+   * entrants는 등록 순서대로 (리그전 동률 판정에 사용)
+   */
+  constructor(
+    readonly tournamentType: TournamentTypeName,
+    entrants: readonly TournamentEntrant[],
+    private readonly random: Random
+  ) {
+    if (entrants.length < 2) {
+      throw new Error(`토너먼트에는 참가자가 2명 이상 필요합니다 (현재 ${entrants.length}명)`);
+    }
+    if (new Set(entrants.map((e) => e.tokenId)).size !== entrants.length) {
+      throw new Error("같은 캐릭터가 두 번 등록되어 있습니다");
+    }
+
+    const seeded = seedEntrants(entrants);
+    seeded.forEach((tokenId, i) => {
+      const registration = entrants.findIndex((e) => e.tokenId === tokenId);
+      this.records.set(tokenId, {
+        tokenId,
+        seed: i + 1,
+        registration,
+        wins: 0,
+        losses: 0,
+        byes: 0,
+        eliminatedInRound: null,
+      });
+    });
+    this.alive = seeded;
+    if (tournamentType === "ROUND_ROBIN") this.schedule = roundRobinSchedule(seeded);
+  }
+
+  get currentRound(): number {
+    return this.round;
+  }
+
+  get finished(): boolean {
+    if (this.pending.length > 0) return false;
+    return this.tournamentType === "ROUND_ROBIN" ? this.round >= this.schedule.length : this.alive.length === 1;
+  }
+
+  /**
+   * 우승자 (끝나기 전에는 undefined)
+   */
+  get champion(): bigint | undefined {
+    return this.finished ? this.standings()[0].tokenId : undefined;
+  }
+
+  seedOf(tokenId: bigint): number {
+    return this.entrant(tokenId).seed;
+  }
+
+  /**
+   * 다음 라운드에서 치를 경기 (부전승/휴식은 바로 기록하고 돌려주지 않음)
+   */
+  nextRound(): TournamentMatch[] {
+    if (this.pending.length > 0) {
+      throw new Error(`${this.round}라운드 경기가 ${this.pending.length}개 남아 있습니다`);
+    }
+    if (this.finished) return [];
+
+    this.round++;
+    const pairs = this.pairings();
+    for (const [home, away] of pairs) {
+      if (home !== null && away !== null) {
+        this.pending.push({ round: this.round, home, away });
+      } else if (home !== null || away !== null) {
+        const tokenId = (home ?? away)!;
+        this.entrant(tokenId).byes++;
+        this.results.push({ round: this.round, winner: tokenId, loser: null, outcome: "bye" });
+      }
+    }
+
+    // 부전승만 있던 라운드(엘리미네이션 대진표의 빈 칸)는 다음 라운드로
+    return this.pending.length > 0 || this.finished ? [...this.pending] : this.nextRound();
+  }
+
+  record(match: TournamentMatch, winner: bigint, outcome: Exclude<MatchOutcome, "bye"> = "battle"): MatchResult {
+    const index = this.pending.findIndex((m) => m.round === match.round && m.home === match.home && m.away === match.away);
+    if (index < 0) {
+      throw new Error(`진행 중인 경기가 아닙니다: ${match.round}라운드 #${match.home} vs #${match.away}`);
+    }
+    if (winner !== match.home && winner !== match.away) {
+      throw new Error(`#${winner}은(는) ${match.round}라운드 #${match.home} vs #${match.away} 경기 참가자가 아닙니다`);
+    }
+    this.pending.splice(index, 1);
+
+    const loser = winner === match.home ? match.away : match.home;
+    this.entrant(winner).wins++;
+    this.entrant(loser).losses++;
+    if (this.tournamentType !== "ROUND_ROBIN") {
+      this.entrant(loser).eliminatedInRound = match.round;
+      this.alive = this.alive.filter((tokenId) => tokenId !== loser);
+    }
+
+    const result: MatchResult = { round: match.round, winner, loser, outcome };
+    this.results.push(result);
+    return result;
+  }
+
+  /**
+   * 엘리미네이션: 늦게 탈락한 순 → 승수 → 시드, 리그전: 승수 → 패수 → 등록 순서
+   */
+  standings(): TournamentStanding[] {
+    const eliminated = (r: EntrantRecord) => r.eliminatedInRound ?? Number.MAX_SAFE_INTEGER;
+    return [...this.records.values()]
+      .sort((a, b) => {
+        if (this.tournamentType === "ROUND_ROBIN") {
+          return b.wins - a.wins || a.losses - b.losses || a.registration - b.registration;
+        }
+        if (eliminated(a) !== eliminated(b)) return eliminated(b) - eliminated(a);
+        return b.wins - a.wins || a.losses - b.losses || a.seed - b.seed;
+      })
+      .map((record, i) => ({ rank: i + 1, ...record }));
+  }
+
+  private pairings(): [bigint | null, bigint | null][] {
+    switch (this.tournamentType) {
+      case "ROUND_ROBIN":
+        return this.schedule[this.round - 1];
+      case "SINGLE_ELIMINATION": {
+        // 1라운드는 시드 대진표, 이후에는 대진표 순서대로 이웃끼리
+        const slots = this.round === 1 ? eliminationSlots(this.alive) : this.alive;
+        this.alive = slots.filter((tokenId): tokenId is bigint => tokenId !== null);
+        return pairAdjacent(slots);
+      }
+      case "BATTLE_ROYALE": {
+        const remaining = [...this.alive];
+        let bye: bigint | null = null;
+        if (remaining.length % 2 === 1) {
+          const fewest = Math.min(...remaining.map((tokenId) => this.entrant(tokenId).byes));
+          bye = this.random.pick(remaining.filter((tokenId) => this.entrant(tokenId).byes === fewest));
+          remaining.splice(remaining.indexOf(bye), 1);
+        }
+        const pairs = pairAdjacent(shuffle(remaining, this.random));
+        return bye === null ? pairs : [...pairs, [bye, null]];
+      }
+    }
+  }
+
+  private entrant(tokenId: bigint): EntrantRecord {
+    const record = this.records.get(tokenId);
+    if (!record) throw new Error(`토너먼트 참가자가 아닙니다: #${tokenId}`);
+    return record;
+  }
+}
+
+function pairAdjacent(slots: readonly (bigint | null)[]): [bigint | null, bigint | null][] {
+  const pairs: [bigint | null, bigint | null][] = [];
+  for (let i = 0; i < slots.length; i += 2) {
+    pairs.push([slots[i], slots[i + 1] ?? null]);
+  }
+  return pairs;
+}
+
+// Fisher-Yates
+function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = random.int(0, i);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
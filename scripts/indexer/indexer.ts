@@ -0,0 +1,235 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeEventLog, getAddress, type Abi, type Address, type Hash, type Log } from "viem";
+
+import { ECOSYSTEM_CONTRACTS, loadDeploymentRegistry, type EcosystemContractName } from "../lib/registry";
+import { EventStore, type IndexedEvent } from "./store";
+
+/**
+ * 🛰️ 생태계 이벤트 인덱서
+ *
+ * 1. 백필: 저장소의 lastBlock(없으면 fromBlock)부터 현재 블록까지 getLogs를 구간 단위로 조회
+ * 2. 추적: watchBlockNumber로 새 블록을 감시하며 같은 동기화 과정을 반복
+ * 3. 재구성: 동기화 전에 마지막 블록 해시를 체인과 비교하고, 다르면 공통 조상까지 되돌린 뒤 다시 인덱싱
+ *
+ * 이벤트는 컴파일된 아티팩트 ABI로 디코딩하며, 상속된 이벤트(Transfer, OwnershipTransferred 등)도 포함됩니다.
+ */
+
+export interface IndexerOptions {
+  // 이름 → 주소 (생략 시 배포 레지스트리에서 찾은 모든 생태계 컨트랙트)
+  contracts?: Partial<Record<string, Address>>;
+  // 이름 → 아티팩트 (contracts에 레지스트리에 없는 이름을 쓸 때)
+  artifacts?: Partial<Record<string, string>>;
+  // 저장소 파일 (undefined면 메모리 전용)
+  file?: string;
+  // 저장소가 비어 있을 때 시작 블록
+  fromBlock?: bigint;
+  // 이 수만큼 뒤처진 블록까지만 인덱싱 (기본 0)
+  confirmations?: bigint;
+  // getLogs 한 번에 조회할 블록 수
+  batchSize?: bigint;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncProgress {
+  fromBlock: bigint;
+  toBlock: bigint;
+  events: number;
+  // 재구성으로 되돌린 블록 (없으면 undefined)
+  reorgedTo?: bigint;
+  removed?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 2_000n;
+
+interface WatchedContract {
+  name: string;
+  address: Address;
+  abi: Abi;
+}
+
+export class EventIndexer {
+  private syncing: Promise<SyncProgress | undefined> = Promise.resolve(undefined);
+
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    readonly store: EventStore,
+    private readonly contracts: Map<Address, WatchedContract>,
+    private readonly options: IndexerOptions
+  ) {}
+
+  static async create(hre: HardhatRuntimeEnvironment, options: IndexerOptions = {}): Promise<EventIndexer> {
+    const publicClient = await hre.viem.getPublicClient();
+    const chainId = await publicClient.getChainId();
+
+    const targets = options.contracts ?? (await loadDeploymentRegistry(hre, { chainId })).addresses;
+    const contracts = new Map<Address, WatchedContract>();
+
+    for (const [name, address] of Object.entries(targets)) {
+      if (address === undefined) continue;
+
+      const artifact =
+        options.artifacts?.[name] ?? ECOSYSTEM_CONTRACTS[name as EcosystemContractName]?.artifact;
+      if (artifact === undefined) {
+        throw new Error(`${name}: 아티팩트 이름을 알 수 없습니다 (options.artifacts에 지정하세요)`);
+      }
+
+      const { abi } = await hre.artifacts.readArtifact(artifact);
+      contracts.set(getAddress(address), { name, address: getAddress(address), abi });
+    }
+
+    if (contracts.size === 0) {
+      throw new Error(`체인 ${chainId}에서 인덱싱할 컨트랙트가 없습니다. 먼저 생태계를 배포하세요.`);
+    }
+
+    return new EventIndexer(hre, EventStore.open(options.file, chainId), contracts, options);
+  }
+
+  get watched(): { name: string; address: Address }[] {
+    return [...this.contracts.values()].map(({ name, address }) => ({ name, address }));
+  }
+
+  /**
+   * 현재 블록(- confirmations)까지 동기화. 동시에 여러 번 호출되어도 순서대로 실행됩니다.
+   */
+  sync(): Promise<SyncProgress | undefined> {
+    this.syncing = this.syncing.catch(() => undefined).then(() => this.syncOnce());
+    return this.syncing;
+  }
+
+  /**
+   * 새 블록마다 동기화. 반환된 함수를 호출하면 감시를 멈춥니다.
+   */
+  async follow(onError: (error: unknown) => void = console.error): Promise<() => void> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    await this.sync();
+
+    return publicClient.watchBlockNumber({
+      emitMissed: false,
+      onBlockNumber: () => {
+        this.sync().catch(onError);
+      },
+      onError,
+    });
+  }
+
+  private async syncOnce(): Promise<SyncProgress | undefined> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const head = await publicClient.getBlockNumber();
+    const target = head - (this.options.confirmations ?? 0n);
+
+    let reorgedTo: bigint | undefined;
+    let removed: number | undefined;
+
+    const common = await this.findCommonAncestor();
+    if (common !== undefined) {
+      removed = this.store.rollback(common);
+      reorgedTo = common;
+    }
+    // 재구성 정보는 첫 배치의 진행 콜백과 전체 결과에만 보고
+    const reorg = reorgedTo !== undefined ? { reorgedTo, removed } : {};
+
+    const start = this.store.lastBlock !== undefined ? this.store.lastBlock + 1n : (this.options.fromBlock ?? 0n);
+    if (start > target) {
+      if (reorgedTo !== undefined) this.store.save();
+      return reorgedTo !== undefined ? { fromBlock: start, toBlock: target, events: 0, reorgedTo, removed } : undefined;
+    }
+
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    let total = 0;
+
+    for (let fromBlock = start; fromBlock <= target; fromBlock += batchSize) {
+      const toBlock = fromBlock + batchSize - 1n < target ? fromBlock + batchSize - 1n : target;
+      const logs = await publicClient.getLogs({
+        address: [...this.contracts.keys()],
+        fromBlock,
+        toBlock,
+      });
+
+      const hashes = new Map<bigint, Hash>();
+      const events = await this.decode(logs, hashes);
+      const last = await publicClient.getBlock({ blockNumber: toBlock });
+      hashes.set(toBlock, last.hash);
+
+      this.store.append(toBlock, hashes, events);
+      this.store.save();
+      total += events.length;
+
+      this.options.onProgress?.({ fromBlock, toBlock, events: events.length, reorgedTo, removed });
+      reorgedTo = undefined;
+      removed = undefined;
+    }
+
+    return { fromBlock: start, toBlock: target, events: total, ...reorg };
+  }
+
+  /**
+   * 마지막 블록의 해시가 체인과 다르면 저장된 해시를 거슬러 올라가 일치하는 블록을 반환
+   * 재구성이 없으면 undefined
+   */
+  private async findCommonAncestor(): Promise<bigint | undefined> {
+    const lastBlock = this.store.lastBlock;
+    if (lastBlock === undefined) return undefined;
+
+    const publicClient = await this.hre.viem.getPublicClient();
+    const head = await publicClient.getBlockNumber();
+
+    for (const blockNumber of this.store.knownBlocks()) {
+      if (blockNumber > head) continue;
+      const block = await publicClient.getBlock({ blockNumber });
+      if (block.hash === this.store.blockHash(blockNumber)) {
+        return blockNumber === lastBlock ? undefined : blockNumber;
+      }
+    }
+
+    // 저장된 해시가 하나도 일치하지 않음: 로컬 노드 재시작 등으로 체인이 바뀜 → 처음부터 다시 인덱싱
+    return -1n;
+  }
+
+  private async decode(logs: Log[], hashes: Map<bigint, Hash>): Promise<IndexedEvent[]> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const timestamps = new Map<bigint, bigint>();
+    const events: IndexedEvent[] = [];
+
+    for (const log of logs) {
+      if (log.blockNumber === null || log.blockHash === null || log.transactionHash === null || log.logIndex === null) {
+        continue; // pending 로그
+      }
+
+      const contract = this.contracts.get(getAddress(log.address));
+      if (!contract) continue;
+
+      let decoded;
+      try {
+        decoded = decodeEventLog({ abi: contract.abi, data: log.data, topics: log.topics });
+      } catch {
+        continue; // ABI에 없는 이벤트 (프록시, 라이브러리 등)
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
+        timestamps.set(log.blockNumber, block.timestamp);
+      }
+      hashes.set(log.blockNumber, log.blockHash);
+
+      events.push({
+        contract: contract.name,
+        address: contract.address,
+        event: decoded.eventName!,
+        args: toRecord(decoded.args),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+      });
+    }
+
+    return events;
+  }
+}
+
+// 이름 없는 인자는 인덱스를 키로 사용
+function toRecord(args: unknown): Record<string, unknown> {
+  if (Array.isArray(args)) return Object.fromEntries(args.map((value, index) => [String(index), value]));
+  return (args ?? {}) as Record<string, unknown>;
+}
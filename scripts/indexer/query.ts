@@ -0,0 +1,94 @@
+import { getAddress, isAddress, type Address } from "viem";
+
+import { EventStore, type IndexedEvent } from "./store";
+
+/**
+ * 🔎 인덱스 조회
+ *
+ *   const store = openEventStore(31337);
+ *   queryEvents(store, { contract: "advancedLock", event: "LockCreated", args: { beneficiary: alice } });
+ *   countEvents(store, { event: "TokenSwapped" });
+ */
+
+export interface EventFilter {
+  contract?: string | string[];
+  event?: string | string[];
+  address?: Address;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  transactionHash?: string;
+  // 인자 값 비교 (주소는 대소문자 무시, 숫자는 bigint로 비교)
+  args?: Record<string, unknown>;
+  order?: "asc" | "desc";
+  limit?: number;
+}
+
+/**
+ * 저장된 인덱스 파일 열기 (인덱서 없이 스크립트/테스트에서 조회할 때)
+ */
+export function openEventStore(chainId: number, file: string = EventStore.defaultFile(chainId)): EventStore {
+  return EventStore.open(file, chainId);
+}
+
+export function queryEvents(store: EventStore, filter: EventFilter = {}): IndexedEvent[] {
+  const contracts = toSet(filter.contract);
+  const events = toSet(filter.event);
+  const address = filter.address ? getAddress(filter.address) : undefined;
+
+  const matched = store.events.filter(
+    (e) =>
+      (contracts === undefined || contracts.has(e.contract)) &&
+      (events === undefined || events.has(e.event)) &&
+      (address === undefined || e.address === address) &&
+      (filter.fromBlock === undefined || e.blockNumber >= filter.fromBlock) &&
+      (filter.toBlock === undefined || e.blockNumber <= filter.toBlock) &&
+      (filter.transactionHash === undefined || e.transactionHash.toLowerCase() === filter.transactionHash.toLowerCase()) &&
+      Object.entries(filter.args ?? {}).every(([key, value]) => argEquals(e.args[key], value))
+  );
+
+  const ordered = matched.sort(compareEvents);
+  if (filter.order === "desc") ordered.reverse();
+  return filter.limit !== undefined ? ordered.slice(0, filter.limit) : ordered;
+}
+
+export function countEvents(store: EventStore, filter: Omit<EventFilter, "limit" | "order"> = {}): number {
+  return queryEvents(store, filter).length;
+}
+
+/**
+ * (컨트랙트, 이벤트)별 개수 요약
+ */
+export function summarizeEvents(store: EventStore): { contract: string; event: string; count: number }[] {
+  const counts = new Map<string, { contract: string; event: string; count: number }>();
+  for (const e of store.events) {
+    const key = `${e.contract}.${e.event}`;
+    const entry = counts.get(key) ?? { contract: e.contract, event: e.event, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => a.contract.localeCompare(b.contract) || a.event.localeCompare(b.event));
+}
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+function toSet(value: string | string[] | undefined): Set<string> | undefined {
+  if (value === undefined) return undefined;
+  return new Set(Array.isArray(value) ? value : [value]);
+}
+
+function argEquals(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === "bigint") {
+    try {
+      return actual === BigInt(expected as string | number | bigint);
+    } catch {
+      return false;
+    }
+  }
+  if (typeof actual === "string" && isAddress(actual) && typeof expected === "string" && isAddress(expected)) {
+    return getAddress(actual) === getAddress(expected);
+  }
+  return actual === expected;
+}
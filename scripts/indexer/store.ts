@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import type { Address, Hash } from "viem";
+
+import { replaceBigInt, reviveBigInt } from "../lib/json";
+
+/**
+ * 🗄️ 인덱서 저장소 (파일 기반)
+ *
+ * 체인별 JSON 파일 하나에 디코딩된 이벤트와 최근 블록 해시를 보관합니다.
+ * 블록 해시는 재구성(reorg) 감지용으로 최근 REORG_WINDOW 블록만 유지합니다.
+ * 저장은 임시 파일에 쓴 뒤 rename 하므로 중간에 종료되어도 파일이 깨지지 않습니다.
+ */
+
+export const DEFAULT_INDEXER_DIR = "data/indexer";
+export const REORG_WINDOW = 128n;
+
+export interface IndexedEvent {
+  // 레지스트리 이름 (myToken, advancedLock, ...)
+  contract: string;
+  address: Address;
+  event: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  blockHash: Hash;
+  timestamp: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+interface StoreData {
+  version: 1;
+  chainId: number;
+  // 마지막으로 인덱싱을 마친 블록
+  lastBlock: bigint | null;
+  blockHashes: Record<string, Hash>;
+  events: IndexedEvent[];
+}
+
+export class EventStore {
+  private constructor(
+    // undefined면 메모리 전용 (테스트용)
+    readonly file: string | undefined,
+    private data: StoreData
+  ) {}
+
+  static open(file: string | undefined, chainId: number): EventStore {
+    if (file === undefined || !fs.existsSync(file)) {
+      return new EventStore(file, { version: 1, chainId, lastBlock: null, blockHashes: {}, events: [] });
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, "utf8"), reviveBigInt) as StoreData;
+    if (data.chainId !== chainId) {
+      throw new Error(`${file}: 체인 ${data.chainId}의 인덱스입니다 (현재 체인 ${chainId})`);
+    }
+    return new EventStore(file, data);
+  }
+
+  static defaultFile(chainId: number): string {
+    return path.join(DEFAULT_INDEXER_DIR, `chain-${chainId}.json`);
+  }
+
+  get chainId(): number {
+    return this.data.chainId;
+  }
+
+  get lastBlock(): bigint | undefined {
+    return this.data.lastBlock ?? undefined;
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.data.events;
+  }
+
+  blockHash(blockNumber: bigint): Hash | undefined {
+    return this.data.blockHashes[blockNumber.toString()];
+  }
+
+  // 재구성 시 공통 조상을 찾기 위해 저장된 해시를 최신 블록부터 순회
+  knownBlocks(): bigint[] {
+    return Object.keys(this.data.blockHashes)
+      .map((n) => BigInt(n))
+      .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+  }
+
+  /**
+   * [이전 lastBlock + 1, toBlock] 구간의 인덱싱 결과 반영
+   * hashes에는 이벤트가 있는 블록과 구간 마지막 블록의 해시를 넘깁니다.
+   */
+  append(toBlock: bigint, hashes: Map<bigint, Hash>, events: IndexedEvent[]) {
+    for (const [blockNumber, hash] of hashes) {
+      this.data.blockHashes[blockNumber.toString()] = hash;
+    }
+    this.data.events.push(...events);
+    this.data.lastBlock = toBlock;
+    this.prune();
+  }
+
+  /**
+   * 재구성: blockNumber 이후의 이벤트와 해시를 버림
+   * 반환값은 제거된 이벤트 수
+   */
+  rollback(blockNumber: bigint): number {
+    const before = this.data.events.length;
+    this.data.events = this.data.events.filter((e) => e.blockNumber <= blockNumber);
+
+    for (const key of Object.keys(this.data.blockHashes)) {
+      if (BigInt(key) > blockNumber) delete this.data.blockHashes[key];
+    }
+    this.data.lastBlock = blockNumber < 0n ? null : blockNumber;
+    return before - this.data.events.length;
+  }
+
+  save() {
+    if (this.file === undefined) return;
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(this.data, replaceBigInt));
+    fs.renameSync(temp, this.file);
+  }
+
+  private prune() {
+    if (this.data.lastBlock === null) return;
+    const oldest = this.data.lastBlock - REORG_WINDOW;
+    for (const key of Object.keys(this.data.blockHashes)) {
+      if (BigInt(key) < oldest) delete this.data.blockHashes[key];
+    }
+  }
+}
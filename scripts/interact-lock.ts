@@ -1,22 +1,29 @@
 import hre from "hardhat";
 import { formatEther, parseEther } from "viem";
+import {
+  getEcosystemContract,
+  MissingDeploymentError,
+  type EcosystemContract,
+} from "./lib/registry";
+import { runScript, StepRunner } from "./lib/steps";
 
-async function main() {
+export async function main(steps: StepRunner) {
   console.log("🔐 Lock 컨트랙트 상호작용 스크립트");
   
-  // 배포된 주소 자동 감지 또는 수동 입력
-  const deploymentFile = "ignition/deployments/chain-31337/deployed_addresses.json";
-  let contractAddress: string;
+  // 배포 레지스트리에서 Lock 주소 조회
+  let lock: EcosystemContract<"lock">;
   
   try {
-    const fs = require('fs');
-    const deployments = JSON.parse(fs.readFileSync(deploymentFile, 'utf8'));
-    contractAddress = deployments["LockModule#Lock"];
-    console.log(`📍 자동 감지된 컨트랙트 주소: ${contractAddress}`);
+    lock = await getEcosystemContract(hre, "lock");
+    console.log(`📍 자동 감지된 컨트랙트 주소: ${lock.address}`);
   } catch (error) {
-    console.log("❌ 배포 주소를 찾을 수 없습니다.");
-    console.log("먼저 'npm run deploy:local'을 실행하세요.");
-    return;
+    if (error instanceof MissingDeploymentError) {
+      console.log("❌ 배포 주소를 찾을 수 없습니다.");
+      console.log(error.message);
+      steps.skip("Lock 상호작용", "배포 주소 없음 (npm run deploy:lock)");
+      return;
+    }
+    throw error;
   }
   
   // 계정 정보
@@ -26,9 +33,6 @@ async function main() {
   console.log(`👤 배포자: ${deployer.account.address}`);
   console.log(`👤 사용자1: ${user1.account.address}`);
   
-  // 컨트랙트 연결
-  const lock = await hre.viem.getContractAt("Lock", contractAddress as `0x${string}`);
-  
   console.log("\n📊 현재 컨트랙트 상태:");
   
   // 기본 정보 읽기
@@ -65,7 +69,7 @@ async function main() {
   
   console.log("\n💸 인출 테스트:");
   
-  try {
+  await steps.step("Lock 인출", async () => {
     // 인출 전 배포자 잔액
     const beforeBalance = await publicClient.getBalance({
       address: deployer.account.address,
@@ -94,14 +98,11 @@ async function main() {
     // 순 이득 계산 (가스비 제외)
     const netGain = afterBalance - beforeBalance + receipt.gasUsed * receipt.effectiveGasPrice;
     console.log(`✅ 순 이득 (가스비 제외): ${formatEther(netGain)} ETH`);
-    
-  } catch (error: any) {
-    console.log(`❌ 인출 실패: ${error.shortMessage || error.message}`);
-  }
+  });
   
   // 이벤트 조회
   console.log("\n📡 이벤트 조회:");
-  try {
+  await steps.step("Withdrawal 이벤트 조회", async () => {
     const events = await lock.getEvents.Withdrawal();
     console.log(`총 ${events.length}개의 Withdrawal 이벤트 발견`);
     
@@ -111,16 +112,11 @@ async function main() {
       console.log(`- 금액: ${formatEther(event.args.amount!)} ETH`);
       console.log(`- 시간: ${new Date(Number(event.args.when!) * 1000).toLocaleString()}`);
     });
-  } catch (error) {
-    console.log("이벤트 조회 중 오류 발생");
-  }
+  });
   
   console.log("\n🎉 상호작용 완료!");
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
+if (require.main === module) {
+  runScript("Lock 상호작용", main);
+}
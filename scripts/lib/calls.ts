@@ -0,0 +1,314 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  formatEther,
+  getAddress,
+  isAddress,
+  isHex,
+  parseUnits,
+  toFunctionSelector,
+  toFunctionSignature,
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  type Address,
+  type Hex,
+} from "viem";
+
+import { toUnits, type Amount } from "../sdk/client";
+import {
+  ECOSYSTEM_CONTRACTS,
+  loadDeploymentRegistry,
+  resolveAddress,
+  type EcosystemContractName,
+  type RegistryOptions,
+} from "./registry";
+
+/**
+ * 📞 생태계 컨트랙트 호출 인코딩/디코딩
+ *
+ * 컴파일된 ABI로 "컨트랙트.함수(인자)" 설명과 calldata를 오갑니다.
+ * DAO executionData(scripts/dao/calldata.ts)와 멀티시그 제안(scripts/multisig/service.ts)이 함께 씁니다.
+ *
+ *   const targets = await loadContractTargets(hre);
+ *   const { to, data, call } = encodeContractCall(targets, {
+ *     target: "myToken",
+ *     functionName: "transfer",
+ *     args: ["multiSig", "1000 ether"],                       // 주소 자리에는 생태계 컨트랙트 이름도 가능
+ *   });
+ *   decodeContractCall(targets, to, data).text;                // myToken.transfer(multiSig(0x…), 1000000000000000000000)
+ */
+
+export interface CallTarget {
+  // 레지스트리 이름 (dao, myToken, simpleDEX …)
+  name: string;
+  address: Address;
+  abi: Abi;
+  // revert 카탈로그 조회에 쓰는 아티팩트 이름
+  artifact?: string;
+}
+
+export interface CallDescription {
+  // 대상 컨트랙트 이름 (CallTarget.name)
+  target: string;
+  // 함수 이름, 오버로드된 함수는 "transfer(address,uint256)" 형식의 시그니처
+  functionName: string;
+  // 정수는 "1000", "1.5 ether", "20 gwei" / 주소는 0x... 또는 생태계 컨트랙트 이름 / 배열과 튜플은 배열
+  args?: readonly unknown[];
+  // 함께 보낼 ETH (payable 함수만)
+  value?: Amount;
+}
+
+export interface ContractCall {
+  // 레지스트리에 없는 주소면 undefined
+  target?: string;
+  address: Address;
+  // 대상 ABI로 풀 수 없으면 undefined (선택자만 표시)
+  signature?: string;
+  args: readonly unknown[];
+  value: bigint;
+  // 사람이 읽는 한 줄: myToken.transfer(multiSig(0x…), 1000000000000000000000)
+  text: string;
+}
+
+export interface EncodedCall {
+  to: Address;
+  data: Hex;
+  value: bigint;
+  function: AbiFunction;
+  call: ContractCall;
+}
+
+/**
+ * 배포 레지스트리의 주소와 컴파일된 ABI로 호출 대상 목록을 만듭니다
+ * required 중 배포되지 않은 컨트랙트가 있으면 MissingDeploymentError
+ */
+export async function loadContractTargets(
+  hre: HardhatRuntimeEnvironment,
+  options: RegistryOptions = {},
+  required: readonly EcosystemContractName[] = []
+): Promise<CallTarget[]> {
+  const registry = await loadDeploymentRegistry(hre, options);
+  for (const name of required) resolveAddress(registry, name);
+
+  const targets: CallTarget[] = [];
+  for (const [name, address] of Object.entries(registry.addresses)) {
+    const { artifact } = ECOSYSTEM_CONTRACTS[name as EcosystemContractName];
+    const { abi } = await hre.artifacts.readArtifact(artifact);
+    targets.push({ name, address, abi: abi as Abi, artifact });
+  }
+  return targets;
+}
+
+/**
+ * 이미 가진 viem 컨트랙트 인스턴스를 호출 대상으로 (테스트, 레지스트리 밖 배포)
+ */
+export function callTarget(name: string, contract: { address: Address; abi: Abi }, artifact?: string): CallTarget {
+  return { name, address: getAddress(contract.address), abi: contract.abi, artifact };
+}
+
+export function encodeContractCall(targets: readonly CallTarget[], description: CallDescription): EncodedCall {
+  const target = targets.find((c) => c.name === description.target);
+  if (!target) {
+    const names = targets.map((c) => c.name).join(", ");
+    throw new Error(`알 수 없는 대상 컨트랙트 '${description.target}' (사용 가능: ${names})`);
+  }
+
+  const fn = findFunction(target, description.functionName);
+  const label = `${target.name}.${toFunctionSignature(fn)}`;
+  if (fn.stateMutability === "view" || fn.stateMutability === "pure") {
+    throw new Error(`${label}은(는) 상태를 바꾸지 않는 ${fn.stateMutability} 함수입니다`);
+  }
+  const given = description.args ?? [];
+  if (given.length !== fn.inputs.length) {
+    throw new Error(`${label}: 인자 ${fn.inputs.length}개가 필요합니다 (입력 ${given.length}개)`);
+  }
+  const args = fn.inputs.map((param, i) => parseArgument(targets, param, given[i], param.name || `#${i}`));
+
+  const value = toUnits(description.value ?? 0n);
+  if (value > 0n && fn.stateMutability !== "payable") {
+    throw new Error(`${label}에는 ETH를 보낼 수 없습니다 (payable 아님)`);
+  }
+
+  const data = encodeFunctionData({ abi: [fn], functionName: fn.name, args });
+  return { to: target.address, data, value, function: fn, call: describeCall(targets, target, fn, args, value) };
+}
+
+/**
+ * calldata → 호출 설명. 모르는 주소나 ABI에 없는 선택자는 원시 데이터 그대로 표시합니다.
+ */
+export function decodeContractCall(
+  targets: readonly CallTarget[],
+  to: Address,
+  data: Hex,
+  value = 0n
+): ContractCall {
+  const target = targets.find((c) => c.address === getAddress(to));
+  const label = target?.name ?? getAddress(to);
+  if (data === "0x") {
+    return {
+      target: target?.name,
+      address: getAddress(to),
+      args: [],
+      value,
+      text: `${label} ← ${formatEther(value)} ETH`,
+    };
+  }
+
+  const fn = target && functionBySelector(target, data);
+  if (target && fn) {
+    const { args = [] } = decodeFunctionData({ abi: [fn], data });
+    return describeCall(targets, target, fn, args, value);
+  }
+
+  // 레지스트리 밖 주소이거나 ABI에 없는 함수
+  return {
+    target: target?.name,
+    address: getAddress(to),
+    args: [data],
+    value,
+    text: `${label}.call(${data})${valueSuffix(value)}`,
+  };
+}
+
+export function functionBySelector(target: CallTarget, data: Hex): AbiFunction | undefined {
+  const selector = data.slice(0, 10).toLowerCase();
+  return abiFunctions(target).find((fn) => toFunctionSelector(fn) === selector);
+}
+
+/**
+ * 반환값/인자 표시용 (bigint는 그대로, 주소는 생태계 이름을 붙임)
+ */
+export function formatCallValue(targets: readonly CallTarget[], value: unknown): string {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string") {
+    if (isAddress(value)) {
+      const known = targets.find((c) => c.address === getAddress(value));
+      return known ? `${known.name}(${getAddress(value)})` : getAddress(value);
+    }
+    return isHex(value) ? value : JSON.stringify(value);
+  }
+  if (Array.isArray(value)) return `[${value.map((v) => formatCallValue(targets, v)).join(", ")}]`;
+  if (value !== null && typeof value === "object") {
+    const fields = Object.entries(value).map(([key, v]) => `${key}: ${formatCallValue(targets, v)}`);
+    return `{ ${fields.join(", ")} }`;
+  }
+  return String(value);
+}
+
+function describeCall(
+  targets: readonly CallTarget[],
+  target: CallTarget,
+  fn: AbiFunction,
+  args: readonly unknown[],
+  value: bigint
+): ContractCall {
+  const text = `${target.name}.${fn.name}(${args.map((arg) => formatCallValue(targets, arg)).join(", ")})`;
+  return {
+    target: target.name,
+    address: target.address,
+    signature: toFunctionSignature(fn),
+    args,
+    value,
+    text: text + valueSuffix(value),
+  };
+}
+
+function valueSuffix(value: bigint): string {
+  return value > 0n ? ` {value: ${formatEther(value)} ETH}` : "";
+}
+
+function abiFunctions(target: CallTarget): AbiFunction[] {
+  return target.abi.filter((item): item is AbiFunction => item.type === "function");
+}
+
+function findFunction(target: CallTarget, functionName: string): AbiFunction {
+  const wanted = functionName.replace(/\s+/g, "");
+  const matches = abiFunctions(target).filter((fn) =>
+    wanted.includes("(") ? toFunctionSignature(fn) === wanted : fn.name === wanted
+  );
+  if (matches.length === 0) {
+    throw new Error(`${target.name}에 ${functionName} 함수가 없습니다`);
+  }
+  if (matches.length > 1) {
+    const signatures = matches.map((fn) => toFunctionSignature(fn)).join(", ");
+    throw new Error(`${target.name}.${functionName}이(가) 오버로드되어 있습니다. 시그니처로 지정하세요: ${signatures}`);
+  }
+  return matches[0];
+}
+
+/**
+ * 사람이 입력한 값 → ABI 타입 값
+ */
+function parseArgument(targets: readonly CallTarget[], param: AbiParameter, value: unknown, label: string): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`인자 ${label} (${param.type}): ${expected}이어야 합니다 (입력: ${JSON.stringify(value, bigintJson)})`);
+  };
+
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    if (!Array.isArray(value)) return fail("배열");
+    if (array[2] !== "" && value.length !== Number(array[2])) return fail(`길이 ${array[2]}인 배열`);
+    const element = { ...param, type: array[1] } as AbiParameter;
+    return value.map((item, i) => parseArgument(targets, element, item, `${label}[${i}]`));
+  }
+
+  if (param.type === "tuple") {
+    const components = "components" in param ? param.components : [];
+    if (Array.isArray(value)) {
+      if (value.length !== components.length) return fail(`항목 ${components.length}개인 배열`);
+      const items = components.map((c, i) => parseArgument(targets, c, value[i], `${label}.${c.name || i}`));
+      // 이름 있는 튜플은 viem 디코딩 결과와 같은 객체 형태로
+      return components.every((c) => c.name)
+        ? Object.fromEntries(components.map((c, i) => [c.name, items[i]]))
+        : items;
+    }
+    if (value === null || typeof value !== "object") return fail("배열 또는 객체");
+    const fields = value as Record<string, unknown>;
+    return Object.fromEntries(
+      components.map((c) => [c.name, parseArgument(targets, c, fields[c.name!], `${label}.${c.name}`)])
+    );
+  }
+
+  if (param.type === "address") {
+    if (typeof value !== "string") return fail("주소 또는 생태계 컨트랙트 이름");
+    if (isAddress(value)) return getAddress(value);
+    const known = targets.find((c) => c.name === value);
+    return known ? known.address : fail("주소 또는 생태계 컨트랙트 이름");
+  }
+
+  if (param.type === "bool") {
+    if (value === true || value === "true") return true;
+    if (value === false || value === "false") return false;
+    return fail("true 또는 false");
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    if (typeof value === "bigint") return value;
+    if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value);
+    if (typeof value === "string") {
+      const text = value.trim();
+      if (/^-?\d+$/.test(text)) return BigInt(text);
+      const unit = text.match(/^(-?\d+(?:\.\d+)?)\s*(ether|gwei)$/);
+      if (unit) return parseUnits(unit[1], unit[2] === "ether" ? 18 : 9);
+    }
+    return fail('정수 ("1000", "1.5 ether", "20 gwei")');
+  }
+
+  if (param.type.startsWith("bytes")) {
+    if (typeof value !== "string" || !isHex(value)) return fail("0x로 시작하는 16진수");
+    return value;
+  }
+
+  if (param.type === "string") {
+    if (typeof value !== "string") return fail("문자열");
+    return value;
+  }
+
+  return fail("지원하는 타입");
+}
+
+function bigintJson(_key: string, value: unknown) {
+  return typeof value === "bigint" ? value.toString() : value;
+}
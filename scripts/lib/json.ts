@@ -0,0 +1,13 @@
+/**
+ * 🗃️ bigint를 담은 JSON 파일 저장 (인덱서, 멀티시그 제안 저장소)
+ *
+ * bigint는 { "$bigint": "123" } 형태로 저장하고 읽을 때 되살립니다.
+ */
+
+export function replaceBigInt(_: string, value: unknown) {
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value;
+}
+
+export function reviveBigInt(_: string, value: any) {
+  return value !== null && typeof value === "object" && typeof value.$bigint === "string" ? BigInt(value.$bigint) : value;
+}
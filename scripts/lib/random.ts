@@ -0,0 +1,78 @@
+/**
+ * 🎲 시드 고정 난수 (시뮬레이션, 차등 테스트 재현용)
+ *
+ * 같은 시드면 같은 수열을 돌려주므로 실패한 무작위 시나리오를 시드만으로 다시 돌릴 수 있습니다.
+ *
+ *   const random = createRandom(42);
+ *   random.int(1, 6);                 // 1 ~ 6
+ *   random.bigint(1n, 10n ** 18n);    // 1 ~ 1e18
+ */
+
+export interface Random {
+  readonly seed: number;
+  // [0, 1)
+  next(): number;
+  // min ~ max (양 끝 포함)
+  int(min: number, max: number): number;
+  bigint(min: bigint, max: bigint): bigint;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+}
+
+/**
+ * mulberry32
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => {
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+      throw new Error(`잘못된 난수 범위: ${min} ~ ${max}`);
+    }
+    return min + Math.floor(next() * (max - min + 1));
+  };
+
+  return {
+    seed,
+    next,
+    int,
+    bigint(min, max) {
+      if (min > max) throw new Error(`잘못된 난수 범위: ${min} ~ ${max}`);
+      // 32비트씩 이어 붙여 범위보다 넓은 난수를 만든 뒤 나머지 연산
+      const range = max - min + 1n;
+      let value = 0n;
+      for (let bits = 0n; 1n << bits < range * 2n ** 32n; bits += 32n) {
+        value = (value << 32n) | BigInt(int(0, 0xffffffff));
+      }
+      return min + (value % range);
+    },
+    chance(probability) {
+      return next() < probability;
+    },
+    pick(items) {
+      if (items.length === 0) throw new Error("빈 배열에서 고를 수 없습니다");
+      return items[int(0, items.length - 1)];
+    },
+  };
+}
+
+/**
+ * 환경 변수(예: DIFF_SEED)로 시드를 고정할 수 있게 하고, 없으면 현재 시각
+ */
+export function seedFromEnv(name: string): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return Date.now() % 2 ** 31;
+
+  const seed = Number(value);
+  if (!Number.isSafeInteger(seed)) {
+    throw new Error(`${name}: 잘못된 시드 '${value}'`);
+  }
+  return seed;
+}
@@ -0,0 +1,211 @@
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTypesMap } from "hardhat/types/artifacts";
+import { getAddress, isAddress, type Address } from "viem";
+
+/**
+ * 📇 배포 레지스트리
+ *
+ * Ignition 배포 폴더(ignition/deployments/<deploymentId>/deployed_addresses.json)와
+ * 선택적인 오버라이드 파일에서 생태계 컨트랙트 주소를 찾아
+ * hre.viem.getContractAt 인스턴스로 돌려줍니다.
+ *
+ * 오버라이드 파일 형식 (체인 ID → 컨트랙트 이름 → 주소):
+ *   { "31337": { "simpleDEX": "0x..." } }
+ */
+
+// 컨트랙트 이름 → 아티팩트 이름 / Ignition future ID
+export const ECOSYSTEM_CONTRACTS = {
+  myToken: { artifact: "MyToken", futureId: "TokenModule#MyToken" },
+  evolutionaryToken: { artifact: "EvolutionaryToken", futureId: "TokenModule#EvolutionaryToken" },
+  pairToken: { artifact: "MyToken", futureId: "DeFiModule#PairToken" },
+  myNFT: { artifact: "MyNFT", futureId: "NFTModule#MyNFT" },
+  dynamicNFT: { artifact: "DynamicPerformanceNFT", futureId: "NFTModule#DynamicPerformanceNFT" },
+  simpleDEX: { artifact: "SimpleDEX", futureId: "DeFiModule#SimpleDEX" },
+  intelligentDEX: { artifact: "IntelligentDEX", futureId: "DeFiModule#IntelligentDEX" },
+  advancedLock: { artifact: "AdvancedLock", futureId: "AdvancedLockModule#AdvancedLock" },
+  battleArena: { artifact: "BattleArenaP2E", futureId: "GameModule#BattleArenaP2E" },
+  multiSig: { artifact: "IntelligentMultiSig", futureId: "GovernanceModule#IntelligentMultiSig" },
+  dao: { artifact: "AIEnhancedDAO", futureId: "GovernanceModule#AIEnhancedDAO" },
+  lock: { artifact: "Lock", futureId: "LockModule#Lock" },
+} as const;
+
+export type EcosystemContractName = keyof typeof ECOSYSTEM_CONTRACTS;
+export type EcosystemArtifactName<N extends EcosystemContractName> =
+  (typeof ECOSYSTEM_CONTRACTS)[N]["artifact"];
+export type EcosystemContract<N extends EcosystemContractName> =
+  ContractTypesMap[EcosystemArtifactName<N>];
+
+export const DEFAULT_OVERRIDE_FILE = "ignition/addresses.override.json";
+
+export interface RegistryOptions {
+  chainId?: number;
+  // 기본값: chain-<chainId> (Ignition 기본 배포 ID)
+  deploymentId?: string;
+  // 기본값: DEPLOYMENT_OVERRIDES 환경 변수 또는 ignition/addresses.override.json
+  overrideFile?: string;
+}
+
+export interface DeploymentRegistry {
+  chainId: number;
+  addresses: Partial<Record<EcosystemContractName, Address>>;
+  // 실제로 읽어 들인 파일 목록 (오류 메시지용)
+  sources: string[];
+  // 확인했지만 존재하지 않았던 파일 목록
+  searched: string[];
+}
+
+export class MissingDeploymentError extends Error {
+  constructor(
+    public readonly chainId: number,
+    public readonly missing: EcosystemContractName[],
+    public readonly locations: string[]
+  ) {
+    const lines = [
+      `체인 ${chainId}에서 배포 주소를 찾을 수 없습니다: ${missing.join(", ")}`,
+      ...missing.map(
+        (name) => `  - ${name} (Ignition ID: ${ECOSYSTEM_CONTRACTS[name].futureId})`
+      ),
+      `확인한 위치: ${locations.length > 0 ? locations.join(", ") : "(없음)"}`,
+      "먼저 'npm run deploy:local'을 실행하거나 오버라이드 파일에 주소를 추가하세요.",
+    ];
+    super(lines.join("\n"));
+    this.name = "MissingDeploymentError";
+  }
+}
+
+/**
+ * 현재 네트워크(또는 지정한 체인)의 배포 주소를 모두 읽어옵니다
+ */
+export async function loadDeploymentRegistry(
+  hre: HardhatRuntimeEnvironment,
+  options: RegistryOptions = {}
+): Promise<DeploymentRegistry> {
+  const chainId = options.chainId ?? (await (await hre.viem.getPublicClient()).getChainId());
+  const registry: DeploymentRegistry = { chainId, addresses: {}, sources: [], searched: [] };
+
+  // 1. Ignition 배포 폴더
+  const deploymentId = options.deploymentId ?? `chain-${chainId}`;
+  const deployedAddressesFile = path.join(
+    hre.config.paths.ignition,
+    "deployments",
+    deploymentId,
+    "deployed_addresses.json"
+  );
+  const deployed = readJsonFile<Record<string, string>>(deployedAddressesFile, registry);
+
+  if (deployed !== undefined) {
+    for (const [name, info] of Object.entries(ECOSYSTEM_CONTRACTS)) {
+      const address = deployed[info.futureId];
+      if (address !== undefined) {
+        registry.addresses[name as EcosystemContractName] = toAddress(address, deployedAddressesFile);
+      }
+    }
+  }
+
+  // 2. 오버라이드 파일 (Ignition 결과보다 우선)
+  const overrideFile = path.resolve(
+    hre.config.paths.root,
+    options.overrideFile ?? process.env.DEPLOYMENT_OVERRIDES ?? DEFAULT_OVERRIDE_FILE
+  );
+  const overrides = readJsonFile<Record<string, Record<string, string>>>(overrideFile, registry);
+  const chainOverrides = overrides?.[String(chainId)] ?? {};
+
+  for (const [name, address] of Object.entries(chainOverrides)) {
+    if (!(name in ECOSYSTEM_CONTRACTS)) {
+      throw new Error(
+        `${overrideFile}: 알 수 없는 컨트랙트 이름 '${name}' (사용 가능: ${Object.keys(ECOSYSTEM_CONTRACTS).join(", ")})`
+      );
+    }
+    registry.addresses[name as EcosystemContractName] = toAddress(address, overrideFile);
+  }
+
+  return registry;
+}
+
+/**
+ * 레지스트리에서 주소 하나를 찾고, 없으면 MissingDeploymentError를 던집니다
+ */
+export function resolveAddress(
+  registry: DeploymentRegistry,
+  name: EcosystemContractName
+): Address {
+  const address = registry.addresses[name];
+  if (address === undefined) {
+    throw new MissingDeploymentError(registry.chainId, [name], [...registry.sources, ...registry.searched]);
+  }
+  return address;
+}
+
+/**
+ * 배포된 생태계 컨트랙트 하나를 viem 인스턴스로 가져옵니다
+ */
+export async function getEcosystemContract<N extends EcosystemContractName>(
+  hre: HardhatRuntimeEnvironment,
+  name: N,
+  options: RegistryOptions = {}
+): Promise<EcosystemContract<N>> {
+  const { [name]: contract } = await getEcosystemContracts(hre, [name], options);
+  return contract;
+}
+
+/**
+ * 여러 컨트랙트를 한 번에 가져옵니다. 누락된 주소는 한꺼번에 보고합니다.
+ */
+export async function getEcosystemContracts<N extends EcosystemContractName>(
+  hre: HardhatRuntimeEnvironment,
+  names: readonly N[],
+  options: RegistryOptions = {}
+): Promise<{ [K in N]: EcosystemContract<K> }> {
+  const registry = await loadDeploymentRegistry(hre, options);
+
+  const missing = names.filter((name) => registry.addresses[name] === undefined);
+  if (missing.length > 0) {
+    throw new MissingDeploymentError(registry.chainId, missing, [...registry.sources, ...registry.searched]);
+  }
+
+  const contracts: Record<string, unknown> = {};
+  for (const name of names) {
+    contracts[name] = await getEcosystemContractAt(hre, name, registry.addresses[name]!);
+  }
+
+  return contracts as { [K in N]: EcosystemContract<K> };
+}
+
+/**
+ * 주소를 알고 있는 생태계 컨트랙트를 이름에 맞는 아티팩트 타입으로 가져옵니다
+ */
+export async function getEcosystemContractAt<N extends EcosystemContractName>(
+  hre: HardhatRuntimeEnvironment,
+  name: N,
+  address: Address
+): Promise<EcosystemContract<N>> {
+  // hardhat-viem은 아티팩트 이름마다 오버로드를 만들어서 이름 유니온으로는 호출할 수 없으므로
+  // 일반 시그니처(string)로 호출하고 ContractTypesMap 타입으로 돌려줌
+  const artifact: string = ECOSYSTEM_CONTRACTS[name].artifact;
+  const contract: unknown = await hre.viem.getContractAt(artifact, address);
+  return contract as EcosystemContract<N>;
+}
+
+function readJsonFile<T>(file: string, registry: DeploymentRegistry): T | undefined {
+  if (!fs.existsSync(file)) {
+    registry.searched.push(file);
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8")) as T;
+    registry.sources.push(file);
+    return parsed;
+  } catch (error: any) {
+    throw new Error(`${file}: JSON 파싱 실패 - ${error.message}`);
+  }
+}
+
+function toAddress(value: string, source: string): Address {
+  if (!isAddress(value)) {
+    throw new Error(`${source}: 잘못된 주소 '${value}'`);
+  }
+  return getAddress(value);
+}
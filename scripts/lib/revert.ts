@@ -0,0 +1,154 @@
+import { BaseError, ContractFunctionExecutionError, ContractFunctionRevertedError } from "viem";
+
+import { findRevertInfo, panicInfo, type RevertInfo } from "../errors/catalog";
+
+export type { RevertInfo } from "../errors/catalog";
+
+/**
+ * 🧯 revert 사유 디코딩 (스크립트, 태스크, 시나리오, SDK 공용)
+ *
+ * viem 오류 체인에서 ContractFunctionRevertedError를 찾아
+ *   require 문자열 → "Lock not yet expired"
+ *   커스텀 에러     → "OwnableUnauthorizedAccount(0x...)"
+ *   Panic          → "Panic 0x11: Arithmetic operation resulted in underflow or overflow."
+ * 형태로 돌려줍니다. revert가 아닌 오류는 shortMessage를 사용합니다.
+ *
+ * revert 사유가 카탈로그(scripts/errors/revert-catalog.json)에 있으면 error에
+ * {contract, function, code, message_ko, message_en, hint}를 함께 담습니다.
+ */
+
+export interface DecodedRevert {
+  // revert 여부 (false면 네트워크/입력 오류 등)
+  reverted: boolean;
+  reason: string;
+  // 카탈로그에서 찾은 구조화된 오류 (없으면 undefined)
+  error?: RevertInfo;
+}
+
+export interface DecodeRevertOptions {
+  // 호출한 컨트랙트 아티팩트 이름 (같은 문자열을 쓰는 컨트랙트가 여럿일 때 구분)
+  contract?: string;
+  // viem 오류에 함수 이름이 없을 때 사용
+  functionName?: string;
+}
+
+/**
+ * SDK 클라이언트가 던지는 revert 오류 (원래 viem 오류는 cause에 보관)
+ */
+export class ContractRevertError extends Error {
+  constructor(
+    public readonly functionName: string,
+    public readonly reason: string,
+    public readonly cause?: unknown,
+    public readonly info?: RevertInfo
+  ) {
+    super(`${functionName} revert: ${info ? `[${info.code}] ${reason}` : reason}`);
+    this.name = "ContractRevertError";
+  }
+}
+
+export function decodeRevert(error: unknown, options: DecodeRevertOptions = {}): DecodedRevert {
+  if (error instanceof ContractRevertError) {
+    return withInfo({ reverted: true, reason: error.reason }, error.info);
+  }
+  if (error instanceof BaseError) {
+    const execution = error.walk((e) => e instanceof ContractFunctionExecutionError);
+    const functionName =
+      execution instanceof ContractFunctionExecutionError ? execution.functionName : options.functionName;
+    const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      return withInfo({ reverted: true, reason: describeRevert(revert) }, lookupRevert(revert, options.contract, functionName));
+    }
+    // gas: "auto"면 Hardhat이 가스 추정에서 revert 데이터 없이 실패를 돌려주므로 Details의 사유를 사용
+    return (
+      revertFromMessage(error.message, { ...options, functionName }) ?? { reverted: false, reason: error.shortMessage }
+    );
+  }
+
+  // viem을 거치지 않은 Hardhat 오류 ("reverted with reason string '...'")
+  const message = error instanceof Error ? error.message : String(error);
+  return revertFromMessage(message, options) ?? { reverted: /revert/i.test(message), reason: message.split("\n")[0] };
+}
+
+/**
+ * Hardhat 오류 메시지의 revert 사유
+ *   reverted with reason string 'Lock not yet expired'
+ *   reverted with custom error 'OwnableUnauthorizedAccount("0x...")'
+ *   reverted with panic code 0x11 (Arithmetic operation overflowed outside of an unchecked block)
+ */
+function revertFromMessage(message: string, options: DecodeRevertOptions): DecodedRevert | undefined {
+  const reason = message.match(/reverted with reason string '(.*)'/)?.[1];
+  if (reason !== undefined) {
+    return withInfo({ reverted: true, reason }, findRevertInfo({ message: reason, ...options }));
+  }
+
+  const custom = message.match(/reverted with custom error '(\w+)\((.*)\)'/);
+  if (custom) {
+    const [, errorName, args] = custom;
+    return withInfo(
+      { reverted: true, reason: `${errorName}(${args.replace(/"/g, "")})` },
+      findRevertInfo({ errorName, ...options })
+    );
+  }
+
+  const panic = message.match(/reverted with panic code (0x[0-9a-f]+) \((.*)\)/i);
+  if (panic) {
+    const [, code, description] = panic;
+    return withInfo(
+      { reverted: true, reason: `Panic ${code}: ${description}` },
+      panicInfo(Number(code), options.contract, options.functionName)
+    );
+  }
+  return undefined;
+}
+
+export function decodeRevertReason(error: unknown): string {
+  return decodeRevert(error).reason;
+}
+
+/**
+ * 사람이 읽을 한 줄 요약
+ *   [LOCK-007] 아직 잠금 해제 시간이 되지 않았습니다 (Lock not yet expired) 💡 unlockTime 이후에 ...
+ * 카탈로그에 없으면 원래 사유를 그대로 돌려줍니다.
+ */
+export function formatRevert(decoded: DecodedRevert, options: { hint?: boolean } = {}): string {
+  if (!decoded.error) return decoded.reason;
+  const { code, message_ko, hint } = decoded.error;
+  const detail = message_ko === decoded.reason ? "" : ` (${decoded.reason})`;
+  const suffix = options.hint && hint ? ` 💡 ${hint}` : "";
+  return `[${code}] ${message_ko}${detail}${suffix}`;
+}
+
+function withInfo(decoded: DecodedRevert, info: RevertInfo | undefined): DecodedRevert {
+  return info ? { ...decoded, error: info } : decoded;
+}
+
+function lookupRevert(
+  error: ContractFunctionRevertedError,
+  contract: string | undefined,
+  functionName: string | undefined
+): RevertInfo | undefined {
+  const errorName = error.data?.errorName;
+  if (errorName === "Panic") {
+    return panicInfo(Number(error.data?.args?.[0] ?? 0n), contract, functionName);
+  }
+  if (error.reason && (errorName === undefined || errorName === "Error")) {
+    return findRevertInfo({ message: error.reason, contract, functionName });
+  }
+  if (errorName) return findRevertInfo({ errorName, contract, functionName });
+  return undefined;
+}
+
+function describeRevert(error: ContractFunctionRevertedError): string {
+  if (error.data?.errorName === "Panic") {
+    const code = error.data.args?.[0] as bigint | undefined;
+    return `Panic 0x${(code ?? 0n).toString(16)}: ${error.reason ?? "알 수 없는 패닉"}`;
+  }
+  if (error.reason) return error.reason;
+  if (error.data && error.data.errorName !== "Error") {
+    const args = (error.data.args ?? []).map((arg) => String(arg)).join(", ");
+    return `${error.data.errorName}(${args})`;
+  }
+  if (error.signature) return `알 수 없는 커스텀 에러 (${error.signature})`;
+  return error.shortMessage;
+}
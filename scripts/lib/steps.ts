@@ -0,0 +1,183 @@
+import { decodeRevert, formatRevert } from "./revert";
+
+/**
+ * 🪜 데모 스크립트 단계 실행기
+ *
+ * try/catch로 실패를 삼키는 대신 각 단계를 기록하고 마지막에 요약표를 출력합니다.
+ *   - 실패한 단계는 revert 사유와 함께 ❌로 표시하고 다음 단계를 계속 진행
+ *   - requires로 지정한 이전 단계 결과가 없으면 ⏭️ 건너뜀
+ *   - strict 모드(--strict 또는 STRICT=true)에서는 실패가 하나라도 있으면 종료 코드 1
+ *
+ *   npx hardhat run scripts/full-ecosystem-demo.ts                       # 실패해도 종료 코드 0
+ *   STRICT=true npx hardhat run scripts/full-ecosystem-demo.ts           # 실패 시 종료 코드 1
+ */
+
+export type ScriptStepStatus = "passed" | "failed" | "skipped";
+
+export interface ScriptStepRecord {
+  name: string;
+  status: ScriptStepStatus;
+  durationMs: number;
+  // 실패: revert 사유 (카탈로그에 있으면 "[코드] 한국어 (원문)"), 건너뜀: 건너뛴 이유
+  reason?: string;
+}
+
+export interface StepOptions {
+  // 이 값들 중 하나라도 undefined면 (앞 단계 실패) 실행하지 않고 건너뜀
+  requires?: unknown[];
+}
+
+export interface StepRunnerOptions {
+  strict?: boolean;
+  // false면 단계별 ✅/❌ 한 줄 출력을 생략 (테스트용)
+  verbose?: boolean;
+}
+
+export function isStrictMode(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): boolean {
+  return argv.includes("--strict") || env.STRICT === "true" || env.STRICT === "1";
+}
+
+export class StepRunner {
+  readonly records: ScriptStepRecord[] = [];
+  readonly strict: boolean;
+  private readonly verbose: boolean;
+
+  constructor(
+    readonly title: string,
+    options: StepRunnerOptions = {}
+  ) {
+    this.strict = options.strict ?? isStrictMode();
+    this.verbose = options.verbose ?? true;
+  }
+
+  /**
+   * 단계 실행: 성공하면 결과값, 실패/건너뜀이면 undefined
+   */
+  async step<T>(name: string, action: () => Promise<T>, options: StepOptions = {}): Promise<T | undefined> {
+    if (options.requires?.some((value) => value === undefined)) {
+      this.skip(name, "선행 단계 실패");
+      return undefined;
+    }
+
+    const started = Date.now();
+    try {
+      const result = await action();
+      this.record({ name, status: "passed", durationMs: Date.now() - started });
+      return result;
+    } catch (error) {
+      this.record({ name, status: "failed", durationMs: Date.now() - started, reason: formatRevert(decodeRevert(error)) });
+      return undefined;
+    }
+  }
+
+  /**
+   * 실패해야 하는 단계: revert되면 통과, 성공하면 실패
+   * reason을 주면 revert 사유에 포함되어 있는지도 확인합니다.
+   */
+  async expectRevert(name: string, action: () => Promise<unknown>, reason?: string, options: StepOptions = {}) {
+    if (options.requires?.some((value) => value === undefined)) {
+      this.skip(name, "선행 단계 실패");
+      return;
+    }
+
+    const started = Date.now();
+    try {
+      await action();
+    } catch (error) {
+      const decoded = decodeRevert(error);
+      if (!decoded.reverted) {
+        this.record({ name, status: "failed", durationMs: Date.now() - started, reason: decoded.reason });
+      } else if (reason !== undefined && !decoded.reason.includes(reason)) {
+        this.record({
+          name,
+          status: "failed",
+          durationMs: Date.now() - started,
+          reason: `'${reason}' revert 기대, 실제 '${decoded.reason}'`,
+        });
+      } else {
+        this.record({ name, status: "passed", durationMs: Date.now() - started, reason: formatRevert(decoded) });
+      }
+      return;
+    }
+
+    this.record({ name, status: "failed", durationMs: Date.now() - started, reason: "revert를 기대했지만 성공했습니다" });
+  }
+
+  skip(name: string, reason: string) {
+    this.record({ name, status: "skipped", durationMs: 0, reason });
+  }
+
+  count(status: ScriptStepStatus): number {
+    return this.records.filter((r) => r.status === status).length;
+  }
+
+  get passed(): boolean {
+    return this.count("failed") === 0;
+  }
+
+  exitCode(): number {
+    return this.strict && !this.passed ? 1 : 0;
+  }
+
+  printSummary() {
+    console.log(`\n📋 ${this.title} 단계 요약${this.strict ? " (strict)" : ""}`);
+    console.table(
+      this.records.map((r) => ({
+        단계: r.name,
+        결과: STATUS_LABEL[r.status],
+        "시간(ms)": r.durationMs,
+        사유: r.reason ?? "",
+      }))
+    );
+    console.log(`✅ ${this.count("passed")} 통과 / ❌ ${this.count("failed")} 실패 / ⏭️ ${this.count("skipped")} 건너뜀`);
+
+    if (!this.passed) {
+      console.log(
+        this.strict
+          ? "🚨 strict 모드: 실패한 단계가 있어 종료 코드 1로 끝납니다"
+          : "⚠️ 실패한 단계가 있습니다 (--strict 또는 STRICT=true로 실행하면 종료 코드 1)"
+      );
+    }
+  }
+
+  private record(record: ScriptStepRecord) {
+    this.records.push(record);
+    if (!this.verbose) return;
+
+    const suffix = record.reason ? ` — ${record.reason}` : "";
+    console.log(`${STATUS_ICON[record.status]} ${record.name}${suffix}`);
+  }
+}
+
+const STATUS_ICON: Record<ScriptStepStatus, string> = {
+  passed: "✅",
+  failed: "❌",
+  skipped: "⏭️",
+};
+
+const STATUS_LABEL: Record<ScriptStepStatus, string> = {
+  passed: "✅ 통과",
+  failed: "❌ 실패",
+  skipped: "⏭️ 건너뜀",
+};
+
+/**
+ * 스크립트 진입점: main을 실행하고 요약을 출력한 뒤 종료 코드를 설정
+ *
+ *   if (require.main === module) runScript("종합 데모", main);
+ */
+export function runScript(title: string, main: (steps: StepRunner) => Promise<void>) {
+  const steps = new StepRunner(title);
+
+  main(steps)
+    .then(() => {
+      steps.printSummary();
+      process.exit(steps.exitCode());
+    })
+    .catch((error) => {
+      steps.printSummary();
+      console.error(`\n❌ ${title} 실행 중 오류 발생:`);
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,49 @@
+/**
+ * ⏱️ 기간/시간 표시 유틸리티 (태스크, 스크립트 공용)
+ */
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/**
+ * "3600", "90m", "12h", "30d", "2w" 형식의 기간을 초 단위로 변환
+ */
+export function parseDuration(value: string): bigint {
+  const match = value.trim().match(/^(\d+)\s*([smhdw]?)$/i);
+  if (!match) {
+    throw new Error(`잘못된 기간 형식: '${value}' (예: 3600, 90m, 12h, 30d, 2w)`);
+  }
+
+  const unit = match[2].toLowerCase() || "s";
+  return BigInt(match[1]) * BigInt(UNIT_SECONDS[unit]);
+}
+
+/**
+ * 초 단위 기간을 "1일 2시간 3분" 형식으로 표시
+ */
+export function formatDuration(seconds: bigint | number): string {
+  let remaining = Number(seconds);
+  if (remaining <= 0) return "0초";
+
+  const parts: string[] = [];
+  for (const [label, size] of [["일", UNIT_SECONDS.d], ["시간", UNIT_SECONDS.h], ["분", UNIT_SECONDS.m]] as const) {
+    const amount = Math.floor(remaining / size);
+    if (amount > 0) parts.push(`${amount}${label}`);
+    remaining %= size;
+  }
+  if (parts.length === 0) parts.push(`${remaining}초`);
+
+  return parts.join(" ");
+}
+
+/**
+ * 블록 타임스탬프(초)를 사람이 읽을 수 있는 날짜로 표시
+ */
+export function formatTimestamp(timestamp: bigint | number): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString();
+}
@@ -0,0 +1,312 @@
+import { getAddress, size, type Address, type Hex } from "viem";
+
+import type { RiskFactors, TransactionTypeName } from "../sdk/multisig";
+
+/**
+ * 🛡️ IntelligentMultiSig 보안 정책 오프체인 재현
+ *
+ * 컨트랙트의 analyzeTransactionRisk / calculateRequiredConfirmations / calculateTimelockDelay와
+ * 실행 시 updateSpendingLimits(일일·월간 한도)를 bigint로 그대로 옮겼습니다.
+ * 제출 전에 위험 점수, 필요한 승인 수, 타임락, 한도 초과 여부를 미리 볼 수 있습니다.
+ *
+ *   const model = await wallet.getPolicyModel({ recipients: [to], spenders: [owner], timestamps: [now] });
+ *   const preview = previewTransaction(model, { to, value, data, txType: "HIGH_VALUE" }, { timestamp, executor });
+ *
+ * 지갑 모델은 제출/실행의 상태 변화를 따라가므로 여러 트랜잭션 뒤의 결과도 예측할 수 있습니다.
+ *
+ *   let next = applySubmission(model, tx, timestamp).model;
+ *   next = applyExecution(next, owner, tx.value, executedAt);    // 한도를 넘으면 "Daily limit exceeded"
+ *
+ * 컨트랙트의 한도 초기화는 lastResetDay[오늘]을 보므로 그날 처음 실행한 소유자의 사용액만 0으로 돌아갑니다.
+ * 다른 소유자의 dailySpent는 그대로 누적되며, 모델도 이 동작을 그대로 따릅니다.
+ */
+
+// 위험 점수 구간 (calculateRequiredConfirmations / calculateTimelockDelay의 경계)
+export const RISK_THRESHOLDS = {
+  medium: 40n,
+  high: 60n,
+  critical: 80n,
+} as const;
+
+// confirmTransaction: 위험 점수가 70을 넘으면 제출 1시간 뒤부터 승인 가능
+export const HIGH_RISK_SCORE = 70n;
+export const HIGH_RISK_CONFIRM_DELAY = 3600n;
+
+// submitTransaction: 위험 점수가 80을 넘으면 받는 주소의 suspiciousActivity 증가
+export const SUSPICIOUS_RISK_SCORE = 80n;
+
+// calculateTimelockDelay (초)
+export const TIMELOCK_DELAYS = {
+  low: 3600n,
+  medium: 86_400n,
+  high: 3n * 86_400n,
+  critical: 7n * 86_400n,
+} as const;
+
+// analyzeTransactionRisk의 타입별 기본 위험
+export const TYPE_RISK: Record<TransactionTypeName, bigint> = {
+  NORMAL: 0n,
+  HIGH_VALUE: 25n,
+  CONTRACT_INTERACTION: 20n,
+  EMERGENCY: 50n,
+  GOVERNANCE: 0n,
+  RECOVERY: 0n,
+};
+
+// updateSpendingLimits의 날짜/월 단위 (한 달은 30일)
+export const SPENDING_DAY = 86_400n;
+export const SPENDING_MONTH = 30n * 86_400n;
+
+export type RiskLevel = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+
+// securityPolicy 구조체
+export interface SecurityPolicy {
+  dailyLimit: bigint;
+  monthlyLimit: bigint;
+  emergencyDelay: bigint;
+  highValueThreshold: bigint;
+  emergencyMode: boolean;
+  emergencyActivatedAt: bigint;
+}
+
+// 정책 계산이 읽는 지갑 상태. 주소·날짜별 값은 읽어 온 것만 들어 있고 없으면 0 (컨트랙트 매핑 기본값)
+export interface MultiSigPolicyModel {
+  policy: SecurityPolicy;
+  ownerCount: bigint;
+  required: bigint;
+  balance: bigint;
+  suspiciousActivity: Record<Address, bigint>;
+  dailySpent: Record<Address, bigint>;
+  monthlySpent: Record<Address, bigint>;
+  // lastResetDay[d] == d인 날 / lastResetMonth[m] == m인 달
+  resetDays: bigint[];
+  resetMonths: bigint[];
+}
+
+export interface PolicyTransaction {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  txType: TransactionTypeName;
+}
+
+export interface RiskAnalysis {
+  riskScore: bigint;
+  // 컨트랙트가 저장하는 요인 (typeRisk 제외)
+  factors: RiskFactors;
+  typeRisk: bigint;
+}
+
+export interface SpendingCheck {
+  spender: Address;
+  // 실행 후 사용액 (초기화 반영)
+  dailySpent: bigint;
+  monthlySpent: bigint;
+  dailyLimit: bigint;
+  monthlyLimit: bigint;
+  // 이번 실행에서 사용액이 0으로 초기화되는지
+  dailyReset: boolean;
+  monthlyReset: boolean;
+  dailyExceeded: boolean;
+  monthlyExceeded: boolean;
+}
+
+export interface TransactionPreview extends RiskAnalysis {
+  riskLevel: RiskLevel;
+  requiredConfirmations: bigint;
+  ownerCount: bigint;
+  submittedAt: bigint;
+  timelockDelay: bigint;
+  // 가장 이른 실행 시각
+  executableAt: bigint;
+  // 위험 점수 70 초과면 제출 1시간 뒤
+  confirmableAt: bigint;
+  // 제출하면 받는 주소의 suspiciousActivity가 늘어나는지
+  flagsRecipient: boolean;
+  // executableAt에 executor가 실행할 때의 한도 (value가 0이면 한도를 보지 않으므로 undefined)
+  spending?: SpendingCheck;
+  // 제출이나 실행이 revert되거나 호출이 실패할 사유
+  problems: string[];
+}
+
+/**
+ * analyzeTransactionRisk와 같은 계산 (timestamp는 제출 블록 시각)
+ */
+export function analyzeRisk(model: MultiSigPolicyModel, tx: PolicyTransaction, timestamp: bigint): RiskAnalysis {
+  let amountRisk = 0n;
+  if (tx.value > model.policy.highValueThreshold) {
+    amountRisk = tx.value > model.balance / 2n ? 60n : 30n;
+  }
+
+  const suspicious = (model.suspiciousActivity[getAddress(tx.to)] ?? 0n) * 20n;
+  const recipientRisk = suspicious > 50n ? 50n : suspicious;
+
+  const length = BigInt(size(tx.data));
+  const dataComplexity = length > 1000n ? 30n : length > 0n ? 15n : 0n;
+
+  const hour = (timestamp / 3600n) % 24n;
+  const timeRisk = hour < 6n || hour > 22n ? 15n : 0n;
+
+  // 컨트랙트가 아직 빈도를 추적하지 않음
+  const frequencyRisk = 0n;
+  const typeRisk = TYPE_RISK[tx.txType];
+
+  const raw = amountRisk + recipientRisk + dataComplexity + timeRisk + frequencyRisk + typeRisk;
+  return {
+    riskScore: raw > 100n ? 100n : raw,
+    factors: { amountRisk, recipientRisk, dataComplexity, timeRisk, frequencyRisk },
+    typeRisk,
+  };
+}
+
+/**
+ * calculateRequiredConfirmations. 위험 구간별 비율은 소유자 수 기준이라 기본 required보다 작을 수도 있습니다.
+ */
+export function requiredConfirmationsFor(
+  model: Pick<MultiSigPolicyModel, "ownerCount" | "required">,
+  riskScore: bigint,
+  txType: TransactionTypeName
+): bigint {
+  if (txType === "EMERGENCY" || riskScore >= RISK_THRESHOLDS.critical) return model.ownerCount;
+  if (riskScore >= RISK_THRESHOLDS.high) return (model.ownerCount * 2n) / 3n;
+  if (riskScore >= RISK_THRESHOLDS.medium) return (model.ownerCount + 1n) / 2n;
+  return model.required;
+}
+
+/**
+ * calculateTimelockDelay (EMERGENCY는 0)
+ */
+export function timelockDelayFor(riskScore: bigint, txType: TransactionTypeName): bigint {
+  if (txType === "EMERGENCY") return 0n;
+  return TIMELOCK_DELAYS[riskLevel(riskScore).toLowerCase() as Lowercase<RiskLevel>];
+}
+
+export function riskLevel(riskScore: bigint): RiskLevel {
+  if (riskScore >= RISK_THRESHOLDS.critical) return "CRITICAL";
+  if (riskScore >= RISK_THRESHOLDS.high) return "HIGH";
+  if (riskScore >= RISK_THRESHOLDS.medium) return "MEDIUM";
+  return "LOW";
+}
+
+/**
+ * timestamp 블록에서 spender가 value를 실행할 때 updateSpendingLimits의 결과
+ */
+export function checkSpending(
+  model: MultiSigPolicyModel,
+  spender: Address,
+  value: bigint,
+  timestamp: bigint
+): SpendingCheck {
+  const owner = getAddress(spender);
+  const today = timestamp / SPENDING_DAY;
+  const thisMonth = timestamp / SPENDING_MONTH;
+  // 매핑 기본값이 0이므로 0번째 날/달은 이미 초기화된 것으로 봄
+  const dailyReset = today !== 0n && !model.resetDays.includes(today);
+  const monthlyReset = thisMonth !== 0n && !model.resetMonths.includes(thisMonth);
+
+  const dailySpent = (dailyReset ? 0n : (model.dailySpent[owner] ?? 0n)) + value;
+  const monthlySpent = (monthlyReset ? 0n : (model.monthlySpent[owner] ?? 0n)) + value;
+  return {
+    spender: owner,
+    dailySpent,
+    monthlySpent,
+    dailyLimit: model.policy.dailyLimit,
+    monthlyLimit: model.policy.monthlyLimit,
+    dailyReset,
+    monthlyReset,
+    dailyExceeded: dailySpent > model.policy.dailyLimit,
+    monthlyExceeded: monthlySpent > model.policy.monthlyLimit,
+  };
+}
+
+/**
+ * 제출 전 미리보기: timestamp 블록에 제출하고 타임락이 풀리자마자 executor가 실행한다고 가정
+ */
+export function previewTransaction(
+  model: MultiSigPolicyModel,
+  tx: PolicyTransaction,
+  options: { timestamp: bigint; executor?: Address }
+): TransactionPreview {
+  const { timestamp } = options;
+  const risk = analyzeRisk(model, tx, timestamp);
+  const timelockDelay = timelockDelayFor(risk.riskScore, tx.txType);
+  const executableAt = timestamp + timelockDelay;
+  const spending =
+    options.executor !== undefined && tx.value > 0n
+      ? checkSpending(model, options.executor, tx.value, executableAt)
+      : undefined;
+
+  const problems: string[] = [];
+  const rejection = submissionError(model, tx);
+  if (rejection) problems.push(`제출 불가: ${rejection}`);
+  if (spending?.dailyExceeded) problems.push("실행 불가: Daily limit exceeded");
+  if (spending?.monthlyExceeded) problems.push("실행 불가: Monthly limit exceeded");
+  if (tx.value > model.balance) problems.push("잔액 부족: 실행하면 호출이 실패합니다 (success=false)");
+
+  return {
+    ...risk,
+    riskLevel: riskLevel(risk.riskScore),
+    requiredConfirmations: requiredConfirmationsFor(model, risk.riskScore, tx.txType),
+    ownerCount: model.ownerCount,
+    submittedAt: timestamp,
+    timelockDelay,
+    executableAt,
+    confirmableAt: timestamp + (risk.riskScore > HIGH_RISK_SCORE ? HIGH_RISK_CONFIRM_DELAY : 0n),
+    flagsRecipient: risk.riskScore > SUSPICIOUS_RISK_SCORE,
+    spending,
+    problems,
+  };
+}
+
+/**
+ * submitTransaction 상태 변화 (같은 조건에서 같은 사유로 실패)
+ */
+export function applySubmission(
+  model: MultiSigPolicyModel,
+  tx: PolicyTransaction,
+  timestamp: bigint
+): { model: MultiSigPolicyModel; preview: TransactionPreview } {
+  const rejection = submissionError(model, tx);
+  if (rejection) throw new Error(rejection);
+
+  const preview = previewTransaction(model, tx, { timestamp });
+  if (!preview.flagsRecipient) return { model, preview };
+
+  const to = getAddress(tx.to);
+  const suspiciousActivity = { ...model.suspiciousActivity, [to]: (model.suspiciousActivity[to] ?? 0n) + 1n };
+  return { model: { ...model, suspiciousActivity }, preview };
+}
+
+/**
+ * executeTransaction의 한도 갱신과 ETH 이동 (ETH 송금만, 대상 컨트랙트의 동작은 모델링하지 않음)
+ * 잔액보다 큰 value는 호출이 실패해 잔액이 그대로지만 사용액은 늘어납니다.
+ */
+export function applyExecution(
+  model: MultiSigPolicyModel,
+  executor: Address,
+  value: bigint,
+  timestamp: bigint
+): MultiSigPolicyModel {
+  if (value === 0n) return model;
+
+  const spending = checkSpending(model, executor, value, timestamp);
+  if (spending.dailyExceeded) throw new Error("Daily limit exceeded");
+  if (spending.monthlyExceeded) throw new Error("Monthly limit exceeded");
+
+  const today = timestamp / SPENDING_DAY;
+  const thisMonth = timestamp / SPENDING_MONTH;
+  return {
+    ...model,
+    balance: value > model.balance ? model.balance : model.balance - value,
+    dailySpent: { ...model.dailySpent, [spending.spender]: spending.dailySpent },
+    monthlySpent: { ...model.monthlySpent, [spending.spender]: spending.monthlySpent },
+    resetDays: spending.dailyReset ? [...model.resetDays, today] : model.resetDays,
+    resetMonths: spending.monthlyReset ? [...model.resetMonths, thisMonth] : model.resetMonths,
+  };
+}
+
+function submissionError(model: MultiSigPolicyModel, tx: PolicyTransaction): string | undefined {
+  if (model.policy.emergencyMode) return "Wallet in emergency mode";
+  if (BigInt(tx.to) === 0n) return "Invalid recipient";
+  return undefined;
+}
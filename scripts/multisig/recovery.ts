@@ -0,0 +1,224 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress, isAddress, type Address, type WalletClient } from "viem";
+
+import { formatTimestamp } from "../lib/time";
+import type { TxResult } from "../sdk/client";
+import type { MultiSigClient, OwnerInfo, RecoveryRequest } from "../sdk/multisig";
+import { ProposalStore } from "./store";
+
+/**
+ * 🛟 IntelligentMultiSig 보호자 기반 소유자 복구
+ *
+ * 키를 잃은 소유자를 새 주소로 바꾸는 흐름입니다.
+ *   1. 지정: 소유자가 키를 가지고 있을 때 보호자 3명 이상을 저장소에 기록 (컨트랙트는 요청할 때만 보호자를 받음)
+ *   2. 요청: requestRecovery(잃어버린 소유자, 새 주소, 지정된 보호자)
+ *   3. 승인: 보호자가 요청 후 7일(RECOVERY_PERIOD) 안에 approveRecovery
+ *   4. 실행: 보호자 수 × 2 / 3(내림) 이상 승인되면 executeRecovery (실행에는 기한이 없음)
+ *
+ *   const recovery = await RecoveryService.open(hre, wallet, { file });
+ *   await recovery.connect(owner2).nominate([guardian1, guardian2, guardian3]);   // 미리
+ *   await recovery.request(owner2Address, newAddress);                            // 키를 잃은 뒤
+ *   await recovery.connect(guardian1).approve(owner2Address);
+ *   await recovery.execute(owner2Address);
+ *
+ * 컨트랙트는 요청자, 보호자, 실행 시 새 주소를 확인하지 않으므로 서비스가 지정된 보호자와
+ * 요청 calldata의 새 주소를 대조해 다른 요청을 드러냅니다.
+ */
+
+export type RecoveryStatus = "AWAITING_APPROVALS" | "EXECUTABLE" | "EXPIRED";
+
+export interface RecoveryView extends RecoveryRequest {
+  status: RecoveryStatus;
+  pendingGuardians: Address[];
+  missingApprovals: bigint;
+  // 승인 기한까지 남은 시간 (지났으면 0)
+  remaining: bigint;
+  // 저장소에 지정된 보호자 (지정하지 않았으면 undefined)
+  nominated?: readonly Address[];
+  // 요청의 보호자가 지정된 보호자와 다름 (지정하지 않았으면 false)
+  unexpectedGuardians: boolean;
+  // 비상 연락처 권한은 주소에 붙어 있어 복구 후에도 잃어버린 키에 남음
+  oldOwnerIsEmergencyContact: boolean;
+}
+
+// requestRecovery의 최소 보호자 수
+export const MIN_GUARDIANS = 3;
+
+export class RecoveryService {
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    readonly wallet: MultiSigClient,
+    readonly store: ProposalStore
+  ) {}
+
+  /**
+   * @param options.file 보호자 지정을 저장할 파일 (제안 저장소와 같은 파일, undefined면 메모리 전용)
+   */
+  static async open(
+    hre: HardhatRuntimeEnvironment,
+    wallet: MultiSigClient,
+    options: { file?: string } = {}
+  ): Promise<RecoveryService> {
+    const chainId = await (await hre.viem.getPublicClient()).getChainId();
+    return new RecoveryService(hre, wallet, ProposalStore.open(options.file, chainId, wallet.address));
+  }
+
+  connect(signer: WalletClient): RecoveryService {
+    return new RecoveryService(this.hre, this.wallet.connect(signer), this.store);
+  }
+
+  /**
+   * 연결된 소유자의 복구 보호자를 지정합니다 (저장소에만 기록)
+   */
+  async nominate(guardians: readonly Address[]): Promise<readonly Address[]> {
+    const owner = await this.signer();
+    await this.ensureOwner(owner);
+    const checked = checkGuardians(owner, guardians);
+
+    this.store.setGuardians(owner, checked);
+    this.store.save();
+    return checked;
+  }
+
+  nominated(owner: Address): readonly Address[] | undefined {
+    return this.store.guardiansOf(getAddress(owner));
+  }
+
+  /**
+   * 진행 중인 복구 요청과 승인 현황 (없으면 undefined)
+   */
+  async status(oldOwner: Address): Promise<RecoveryView | undefined> {
+    const request = await this.wallet.getRecoveryRequest(oldOwner);
+    if (!request) return undefined;
+
+    const now = await this.now();
+    const pendingGuardians = request.guardians.filter((g) => !request.approvedBy.includes(g));
+    const missing = request.requiredApprovals - BigInt(request.approvedBy.length);
+    const missingApprovals = missing > 0n ? missing : 0n;
+    // approveRecovery는 다음 블록에서 기한을 확인하므로 기한 당일 마지막 초에는 이미 늦음
+    const expired = now >= request.approvalDeadline;
+    const nominated = this.nominated(request.oldOwner);
+
+    return {
+      ...request,
+      status: missingApprovals === 0n ? "EXECUTABLE" : expired ? "EXPIRED" : "AWAITING_APPROVALS",
+      pendingGuardians,
+      missingApprovals,
+      remaining: expired ? 0n : request.approvalDeadline - now,
+      nominated,
+      unexpectedGuardians: nominated !== undefined && !sameMembers(nominated, request.guardians),
+      oldOwnerIsEmergencyContact: await this.wallet.isEmergencyContact(request.oldOwner),
+    };
+  }
+
+  async get(oldOwner: Address): Promise<RecoveryView> {
+    const view = await this.status(oldOwner);
+    if (!view) throw new Error(`${getAddress(oldOwner)}에 대한 복구 요청이 없습니다`);
+    return view;
+  }
+
+  /**
+   * 복구 요청. guardians를 생략하면 저장소에 지정된 보호자를 씁니다.
+   * 진행 중인 요청은 replace 없이는 덮어쓰지 않습니다 (컨트랙트는 보호자와 요청 시각을 그대로 덮어씀).
+   */
+  async request(
+    oldOwner: Address,
+    newOwner: Address,
+    options: { guardians?: readonly Address[]; replace?: boolean } = {}
+  ): Promise<TxResult & { recovery: RecoveryView }> {
+    const [old, next] = [getAddress(oldOwner), getAddress(newOwner)];
+    await this.ensureOwner(old);
+    if (await this.isOwner(next)) throw new Error(`${next}은(는) 이미 소유자입니다`);
+
+    const guardians = options.guardians ?? this.nominated(old);
+    if (!guardians) {
+      throw new Error(`${old}의 보호자가 지정되지 않았습니다. 먼저 보호자를 지정하거나 보호자 목록을 넘기세요`);
+    }
+    const checked = checkGuardians(old, guardians);
+
+    const existing = await this.status(old);
+    if (existing && existing.status !== "EXPIRED" && !options.replace) {
+      throw new Error(
+        `${old}에 대한 복구 요청이 이미 진행 중입니다 (${existing.status}, 승인 ${existing.approvedBy.length}/` +
+          `${existing.requiredApprovals}). 덮어쓰면 승인 기한이 다시 시작됩니다`
+      );
+    }
+
+    const tx = await this.wallet.requestRecovery(old, next, checked);
+    return { ...tx, recovery: await this.get(old) };
+  }
+
+  async approve(oldOwner: Address): Promise<TxResult & { recovery: RecoveryView }> {
+    const view = await this.get(oldOwner);
+    const guardian = await this.signer();
+    if (view.remaining === 0n) {
+      throw new Error(`승인 기한(${formatTimestamp(view.approvalDeadline)})이 지났습니다. 복구를 다시 요청하세요`);
+    }
+    if (!view.guardians.includes(guardian)) {
+      throw new Error(`${guardian}은(는) 이 요청의 보호자가 아닙니다 (보호자: ${view.guardians.join(", ")})`);
+    }
+    if (view.approvedBy.includes(guardian)) throw new Error(`${guardian}은(는) 이미 승인했습니다`);
+
+    const tx = await this.wallet.approveRecovery(view.oldOwner);
+    return { ...tx, recovery: await this.get(view.oldOwner) };
+  }
+
+  /**
+   * 소유자 교체. newOwner를 생략하면 요청 calldata의 새 주소를 씁니다.
+   */
+  async execute(oldOwner: Address, newOwner?: Address): Promise<TxResult & { owner: OwnerInfo }> {
+    const view = await this.get(oldOwner);
+    if (view.missingApprovals > 0n) {
+      const expired = view.status === "EXPIRED" ? ", 승인 기한이 지나 다시 요청해야 합니다" : "";
+      throw new Error(
+        `보호자 승인 ${view.missingApprovals}개가 더 필요합니다 (${view.approvedBy.length}/${view.requiredApprovals}, ` +
+          `미승인: ${view.pendingGuardians.join(", ")}${expired})`
+      );
+    }
+
+    const target = newOwner === undefined ? view.newOwner : getAddress(newOwner);
+    if (target === undefined) throw new Error("요청에서 새 소유자를 읽지 못했습니다. 새 소유자 주소를 지정하세요");
+    if (view.newOwner !== undefined && target !== view.newOwner) {
+      throw new Error(`요청된 새 소유자는 ${view.newOwner}입니다 (입력: ${target})`);
+    }
+    // executeRecovery는 새 주소가 이미 소유자인지 확인하지 않아 소유자 목록이 깨짐
+    if (await this.isOwner(target)) throw new Error(`${target}은(는) 이미 소유자입니다`);
+
+    const tx = await this.wallet.executeRecovery(view.oldOwner, target);
+    return { ...tx, owner: await this.wallet.getOwnerInfo(target) };
+  }
+
+  private async ensureOwner(address: Address) {
+    if (!(await this.isOwner(address))) throw new Error(`${address}은(는) 멀티시그 소유자가 아닙니다`);
+  }
+
+  private async isOwner(address: Address): Promise<boolean> {
+    return (await this.wallet.getOwners()).some((o) => getAddress(o.address) === address);
+  }
+
+  private async signer(): Promise<Address> {
+    const account = this.wallet.wallet?.account ?? (await this.hre.viem.getWalletClients())[0].account;
+    return getAddress(account.address);
+  }
+
+  private async now(): Promise<bigint> {
+    return (await (await this.hre.viem.getPublicClient()).getBlock()).timestamp;
+  }
+}
+
+function checkGuardians(owner: Address, guardians: readonly Address[]): Address[] {
+  const checked = guardians.map((g) => {
+    if (!isAddress(g)) throw new Error(`잘못된 보호자 주소 '${g}'`);
+    return getAddress(g);
+  });
+  if (new Set(checked).size !== checked.length) throw new Error("보호자 목록에 중복된 주소가 있습니다");
+  if (checked.includes(owner)) throw new Error("복구할 소유자 자신은 보호자가 될 수 없습니다");
+  if (checked.length < MIN_GUARDIANS) {
+    throw new Error(`보호자가 최소 ${MIN_GUARDIANS}명 필요합니다 (입력 ${checked.length}명)`);
+  }
+  return checked;
+}
+
+function sameMembers(a: readonly Address[], b: readonly Address[]): boolean {
+  return a.length === b.length && a.every((item) => b.includes(item));
+}
@@ -0,0 +1,315 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress, type Address, type Hex, type WalletClient } from "viem";
+
+import {
+  decodeContractCall,
+  encodeContractCall,
+  loadContractTargets,
+  type CallDescription,
+  type CallTarget,
+} from "../lib/calls";
+import { formatDuration, formatTimestamp } from "../lib/time";
+import { toUnits, type Amount } from "../sdk/client";
+import type { MultiSigClient, MultiSigTransaction, TransactionTypeName } from "../sdk/multisig";
+import { HIGH_RISK_CONFIRM_DELAY, HIGH_RISK_SCORE, type TransactionPreview } from "./policy";
+import { ProposalStore, type StoredProposal } from "./store";
+
+/**
+ * 📮 IntelligentMultiSig 제안 서비스 (Safe 트랜잭션 서비스 대용)
+ *
+ * 소유자들이 같은 저장소 파일을 보면서 제안 → 승인 → 실행을 진행합니다.
+ *   - 미리보기: 제출 전에 위험 점수, 승인 수, 타임락, 한도 초과를 계산 (policy.ts)
+ *   - 제안: submitTransaction + 사람이 읽는 설명과 해석한 호출을 저장
+ *   - 받은 편지함: confirmations / getTransactionDetails / isExecutable로 소유자별 할 일을 분류
+ *   - 실행: 승인과 타임락을 미리 확인한 뒤 executeTransaction
+ *
+ *   const service = await ProposalService.open(hre, await MultiSigClient.connect(hre), { file });
+ *   const { txId } = await service.propose({
+ *     description: "운영비 지급",
+ *     call: { target: "myToken", functionName: "transfer", args: [bob, "100 ether"] },
+ *   });
+ *   (await service.connect(owner2).inbox()).toConfirm;        // 승인할 제안
+ *   await service.connect(owner2).confirm(txId);
+ *
+ * 저장소에 없는 트랜잭션(다른 도구로 제출)은 TransactionSubmitted 이벤트로 동기화되며 설명이 비어 있습니다.
+ */
+
+export type ProposalStatus = "AWAITING_CONFIRMATIONS" | "TIMELOCKED" | "EXECUTABLE" | "EXECUTED";
+
+export type TransactionRequest = { txType?: TransactionTypeName } & (
+  | { to: Address; value?: Amount; data?: Hex }
+  // ABI로 인코딩할 호출 (scripts/lib/calls.ts)
+  | { call: CallDescription }
+);
+
+export type ProposalDraft = TransactionRequest & {
+  // 다른 소유자에게 보여줄 설명
+  description: string;
+};
+
+export interface ProposalView extends StoredProposal {
+  transaction: MultiSigTransaction;
+  status: ProposalStatus;
+  confirmedBy: Address[];
+  // 아직 승인하지 않은 소유자
+  unconfirmedOwners: Address[];
+  missingConfirmations: bigint;
+  // 위험 점수 70 초과 제안은 제출 1시간 뒤부터 승인 가능
+  confirmableAt: bigint;
+}
+
+export interface OwnerInbox {
+  owner: Address;
+  now: bigint;
+  // 이 소유자의 승인이 필요한 제안
+  toConfirm: ProposalView[];
+  // 승인과 타임락을 모두 통과해 실행만 남은 제안
+  toExecute: ProposalView[];
+  // 다른 소유자의 승인이나 타임락을 기다리는 제안
+  waiting: ProposalView[];
+}
+
+export interface SyncResult {
+  added: bigint[];
+  executed: bigint[];
+}
+
+export class ProposalService {
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    readonly wallet: MultiSigClient,
+    readonly store: ProposalStore,
+    readonly targets: readonly CallTarget[]
+  ) {}
+
+  /**
+   * @param options.file 저장소 파일 (undefined면 메모리 전용)
+   * @param options.targets 호출 해석에 쓸 컨트랙트 (기본: 배포 레지스트리)
+   */
+  static async open(
+    hre: HardhatRuntimeEnvironment,
+    wallet: MultiSigClient,
+    options: { file?: string; targets?: readonly CallTarget[] } = {}
+  ): Promise<ProposalService> {
+    const chainId = await (await hre.viem.getPublicClient()).getChainId();
+    const targets = options.targets ?? (await loadContractTargets(hre, { chainId }));
+    return new ProposalService(hre, wallet, ProposalStore.open(options.file, chainId, wallet.address), targets);
+  }
+
+  /**
+   * 같은 저장소를 다른 소유자 지갑으로 사용하는 서비스
+   */
+  connect(signer: WalletClient): ProposalService {
+    return new ProposalService(this.hre, this.wallet.connect(signer), this.store, this.targets);
+  }
+
+  /**
+   * 마지막 동기화 이후의 TransactionSubmitted / TransactionExecuted 이벤트 반영
+   */
+  async sync(): Promise<SyncResult> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const head = await publicClient.getBlockNumber();
+    const fromBlock = this.store.lastBlock === undefined ? 0n : this.store.lastBlock + 1n;
+    const result: SyncResult = { added: [], executed: [] };
+    if (fromBlock > head) return result;
+
+    for (const submitted of await this.wallet.getSubmissions(fromBlock, head)) {
+      if (this.store.get(submitted.txId)) continue;
+      const { data } = await this.wallet.getTransaction(submitted.txId);
+      this.store.add({
+        txId: submitted.txId,
+        description: "",
+        proposer: submitted.submitter,
+        to: submitted.to,
+        value: submitted.value,
+        data,
+        txType: submitted.txType,
+        call: decodeContractCall(this.targets, submitted.to, data, submitted.value).text,
+        submitTx: submitted.transactionHash,
+        submittedBlock: submitted.blockNumber,
+      });
+      result.added.push(submitted.txId);
+    }
+    for (const executed of await this.wallet.getExecutions(fromBlock, head)) {
+      this.store.markExecuted(executed.txId, executed.transactionHash, executed.success);
+      result.executed.push(executed.txId);
+    }
+
+    this.store.setLastBlock(head);
+    this.store.save();
+    return result;
+  }
+
+  async propose(draft: ProposalDraft): Promise<ProposalView> {
+    if (draft.description.trim() === "") {
+      throw new Error("제안 설명이 필요합니다");
+    }
+    const { to, value, data, txType } = this.encode(draft);
+    const submitted = await this.wallet.submitTransaction({ to, value, data, txType });
+    this.store.add({
+      txId: submitted.txId,
+      description: draft.description.trim(),
+      proposer: await this.signer(),
+      to,
+      value,
+      data,
+      txType,
+      call: decodeContractCall(this.targets, to, data, value).text,
+      submitTx: submitted.hash,
+      submittedBlock: submitted.blockNumber,
+    });
+    this.store.save();
+    return this.get(submitted.txId);
+  }
+
+  /**
+   * 제출하지 않고 위험 점수, 승인 수, 타임락, 한도를 계산 (scripts/multisig/policy.ts)
+   * @param options.executor 한도를 확인할 실행 소유자 (기본: 연결된 지갑)
+   */
+  async preview(
+    request: TransactionRequest,
+    options: { executor?: Address; timestamp?: bigint } = {}
+  ): Promise<TransactionPreview & { call: string }> {
+    const encoded = this.encode(request);
+    const preview = await this.wallet.previewTransaction(encoded, {
+      executor: options.executor ?? (await this.signer()),
+      timestamp: options.timestamp,
+    });
+    return { ...preview, call: decodeContractCall(this.targets, encoded.to, encoded.data, encoded.value).text };
+  }
+
+  async get(txId: bigint): Promise<ProposalView> {
+    await this.sync();
+    const stored = this.store.get(txId);
+    if (!stored) throw new Error(`트랜잭션 #${txId}이(가) 없습니다`);
+    return this.view(stored, await this.ownerAddresses());
+  }
+
+  /**
+   * 저장된 제안 (기본: 실행되지 않은 것만)
+   */
+  async list(options: { includeExecuted?: boolean } = {}): Promise<ProposalView[]> {
+    await this.sync();
+    const owners = await this.ownerAddresses();
+    const views: ProposalView[] = [];
+    for (const stored of this.store.proposals) {
+      if (stored.executedTx !== undefined && !options.includeExecuted) continue;
+      views.push(await this.view(stored, owners));
+    }
+    return views;
+  }
+
+  /**
+   * 소유자별 할 일 (기본: 연결된 지갑)
+   */
+  async inbox(owner?: Address): Promise<OwnerInbox> {
+    const address = owner === undefined ? await this.signer() : getAddress(owner);
+    const inbox: OwnerInbox = { owner: address, now: await this.now(), toConfirm: [], toExecute: [], waiting: [] };
+    for (const view of await this.list()) {
+      if (view.status === "EXECUTABLE") inbox.toExecute.push(view);
+      else if (view.missingConfirmations > 0n && !view.confirmedBy.includes(address)) inbox.toConfirm.push(view);
+      else inbox.waiting.push(view);
+    }
+    return inbox;
+  }
+
+  /**
+   * 승인. 필요한 승인 수와 타임락을 모두 충족하면 컨트랙트가 같은 트랜잭션에서 실행합니다.
+   */
+  async confirm(txId: bigint) {
+    const view = await this.get(txId);
+    const signer = await this.signer();
+    if (view.status === "EXECUTED") throw new Error(`트랜잭션 #${txId}은(는) 이미 실행되었습니다`);
+    if (view.confirmedBy.includes(signer)) throw new Error(`${signer}은(는) 트랜잭션 #${txId}을(를) 이미 승인했습니다`);
+    const now = await this.now();
+    if (now < view.confirmableAt) {
+      throw new Error(
+        `위험 점수 ${view.transaction.riskScore}인 트랜잭션은 ${formatTimestamp(view.confirmableAt)}부터 승인할 수 있습니다 ` +
+          `(${formatDuration(view.confirmableAt - now)} 남음)`
+      );
+    }
+
+    const confirmed = await this.wallet.confirmTransaction(txId);
+    if (confirmed.executed) this.store.markExecuted(txId, confirmed.hash, confirmed.success ?? false);
+    this.store.save();
+    return { ...confirmed, proposal: await this.get(txId) };
+  }
+
+  /**
+   * 승인과 타임락을 확인하고 executeTransaction
+   */
+  async execute(txId: bigint) {
+    const view = await this.get(txId);
+    if (view.status === "EXECUTED") throw new Error(`트랜잭션 #${txId}은(는) 이미 실행되었습니다`);
+    if (view.status === "AWAITING_CONFIRMATIONS") {
+      throw new Error(
+        `트랜잭션 #${txId}: 승인 ${view.missingConfirmations}개가 더 필요합니다 ` +
+          `(${view.transaction.confirmations}/${view.transaction.requiredConfirmations}, ` +
+          `미승인: ${view.unconfirmedOwners.join(", ")})`
+      );
+    }
+    if (view.status === "TIMELOCKED") {
+      const now = await this.now();
+      throw new Error(
+        `트랜잭션 #${txId}은(는) ${formatTimestamp(view.transaction.timelock)}까지 타임락입니다 ` +
+          `(${formatDuration(view.transaction.timelock - now)} 남음)`
+      );
+    }
+
+    const executed = await this.wallet.executeTransaction(txId);
+    this.store.markExecuted(txId, executed.hash, executed.success ?? false);
+    this.store.save();
+    return { ...executed, proposal: await this.get(txId) };
+  }
+
+  private encode(request: TransactionRequest): { to: Address; value: bigint; data: Hex; txType: TransactionTypeName } {
+    const txType = request.txType ?? "NORMAL";
+    if ("call" in request) {
+      const { to, value, data } = encodeContractCall(this.targets, request.call);
+      return { to, value, data, txType };
+    }
+    return { to: getAddress(request.to), value: toUnits(request.value ?? 0n), data: request.data ?? "0x", txType };
+  }
+
+  private async view(stored: StoredProposal, owners: Address[]): Promise<ProposalView> {
+    const transaction = await this.wallet.getTransaction(stored.txId);
+    const confirmedBy: Address[] = [];
+    const unconfirmedOwners: Address[] = [];
+    for (const owner of owners) {
+      ((await this.wallet.isConfirmedBy(stored.txId, owner)) ? confirmedBy : unconfirmedOwners).push(owner);
+    }
+
+    const missing = transaction.requiredConfirmations - transaction.confirmations;
+    const status: ProposalStatus = transaction.executed
+      ? "EXECUTED"
+      : missing > 0n
+        ? "AWAITING_CONFIRMATIONS"
+        : transaction.executable
+          ? "EXECUTABLE"
+          : "TIMELOCKED";
+    const confirmDelay = transaction.riskScore > HIGH_RISK_SCORE ? HIGH_RISK_CONFIRM_DELAY : 0n;
+
+    return {
+      ...stored,
+      transaction,
+      status,
+      confirmedBy,
+      unconfirmedOwners: transaction.executed ? [] : unconfirmedOwners,
+      missingConfirmations: missing > 0n ? missing : 0n,
+      confirmableAt: transaction.submissionTime + confirmDelay,
+    };
+  }
+
+  private async ownerAddresses(): Promise<Address[]> {
+    return (await this.wallet.getOwners()).map((o) => getAddress(o.address));
+  }
+
+  private async signer(): Promise<Address> {
+    const account = this.wallet.wallet?.account ?? (await this.hre.viem.getWalletClients())[0].account;
+    return getAddress(account.address);
+  }
+
+  private async now(): Promise<bigint> {
+    return (await (await this.hre.viem.getPublicClient()).getBlock()).timestamp;
+  }
+}
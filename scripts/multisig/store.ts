@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import type { Address, Hash, Hex } from "viem";
+
+import { replaceBigInt, reviveBigInt } from "../lib/json";
+import type { TransactionTypeName } from "../sdk/multisig";
+
+/**
+ * 🗄️ 멀티시그 제안 저장소 (파일 기반)
+ *
+ * 지갑마다 JSON 파일 하나에 제안 설명과 제출 당시 해석한 호출, 소유자별로 지정한 복구 보호자를 보관합니다.
+ * 승인 수, 타임락, 실행 여부, 복구 승인은 체인이 원본이므로 저장하지 않고 조회할 때 읽습니다.
+ */
+
+export const DEFAULT_MULTISIG_DIR = "data/multisig";
+
+export interface StoredProposal {
+  txId: bigint;
+  // 서비스 밖에서 제출되어 동기화로 추가된 제안은 ""
+  description: string;
+  proposer: Address;
+  to: Address;
+  value: bigint;
+  data: Hex;
+  txType: TransactionTypeName;
+  // 제출 당시 해석한 호출 (myToken.transfer(…), 0x… ← 1 ETH)
+  call: string;
+  submitTx: Hash;
+  submittedBlock: bigint;
+  // TransactionExecuted 이벤트 (실행 전이면 undefined)
+  executedTx?: Hash;
+  success?: boolean;
+}
+
+interface StoreData {
+  version: 1;
+  chainId: number;
+  wallet: Address;
+  // 마지막으로 이벤트를 동기화한 블록
+  lastBlock: bigint | null;
+  proposals: StoredProposal[];
+  // 소유자 → 미리 지정한 복구 보호자 (컨트랙트는 요청할 때만 보호자를 받음)
+  guardians?: Record<Address, Address[]>;
+}
+
+export class ProposalStore {
+  private constructor(
+    // undefined면 메모리 전용 (테스트용)
+    readonly file: string | undefined,
+    private data: StoreData
+  ) {}
+
+  static open(file: string | undefined, chainId: number, wallet: Address): ProposalStore {
+    if (file === undefined || !fs.existsSync(file)) {
+      return new ProposalStore(file, { version: 1, chainId, wallet, lastBlock: null, proposals: [] });
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, "utf8"), reviveBigInt) as StoreData;
+    if (data.chainId !== chainId || data.wallet !== wallet) {
+      throw new Error(`${file}: 체인 ${data.chainId} 지갑 ${data.wallet}의 저장소입니다 (현재 체인 ${chainId} 지갑 ${wallet})`);
+    }
+    return new ProposalStore(file, data);
+  }
+
+  static defaultFile(chainId: number, wallet: Address): string {
+    return path.join(DEFAULT_MULTISIG_DIR, `chain-${chainId}`, `${wallet}.json`);
+  }
+
+  get lastBlock(): bigint | undefined {
+    return this.data.lastBlock ?? undefined;
+  }
+
+  get proposals(): readonly StoredProposal[] {
+    return this.data.proposals;
+  }
+
+  get(txId: bigint): StoredProposal | undefined {
+    return this.data.proposals.find((p) => p.txId === txId);
+  }
+
+  /**
+   * 새 제안 추가 (이미 있으면 설명이 비어 있을 때만 덮어씀)
+   */
+  add(proposal: StoredProposal) {
+    const index = this.data.proposals.findIndex((p) => p.txId === proposal.txId);
+    if (index < 0) {
+      this.data.proposals.push(proposal);
+      this.data.proposals.sort((a, b) => (a.txId < b.txId ? -1 : a.txId > b.txId ? 1 : 0));
+    } else if (this.data.proposals[index].description === "") {
+      this.data.proposals[index] = { ...this.data.proposals[index], ...proposal };
+    }
+  }
+
+  guardiansOf(owner: Address): readonly Address[] | undefined {
+    return this.data.guardians?.[owner];
+  }
+
+  setGuardians(owner: Address, guardians: readonly Address[]) {
+    this.data.guardians = { ...this.data.guardians, [owner]: [...guardians] };
+  }
+
+  markExecuted(txId: bigint, executedTx: Hash, success: boolean) {
+    const proposal = this.get(txId);
+    if (proposal) Object.assign(proposal, { executedTx, success });
+  }
+
+  setLastBlock(blockNumber: bigint) {
+    this.data.lastBlock = blockNumber;
+  }
+
+  save() {
+    if (this.file === undefined) return;
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(this.data, replaceBigInt));
+    fs.renameSync(temp, this.file);
+  }
+}
@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+
+import type { Scenario, ScenarioStep } from "./types";
+
+/**
+ * 📂 시나리오 파일 로더
+ * YAML/JSON을 읽어 스키마를 검증합니다. 잘못된 필드는 실행 전에 위치와 함께 보고합니다.
+ */
+
+const STEP_KINDS = ["call", "read", "balance", "increaseTime"] as const;
+
+const STEP_KEYS: Record<(typeof STEP_KINDS)[number], string[]> = {
+  call: ["name", "call", "from", "args", "value", "expectRevert", "expectEvents", "save"],
+  read: ["name", "read", "args", "expect", "save"],
+  balance: ["name", "balance", "token", "expect", "save"],
+  increaseTime: ["name", "increaseTime"],
+};
+
+export class ScenarioValidationError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly problems: string[]
+  ) {
+    super([`시나리오 파일이 올바르지 않습니다: ${file}`, ...problems.map((p) => `  - ${p}`)].join("\n"));
+    this.name = "ScenarioValidationError";
+  }
+}
+
+export function loadScenario(file: string): Scenario {
+  const content = fs.readFileSync(file, "utf8");
+  const raw = path.extname(file) === ".json" ? JSON.parse(content) : parseYaml(content);
+  return validateScenario(raw, file);
+}
+
+export function validateScenario(raw: any, file: string): Scenario {
+  const problems: string[] = [];
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ScenarioValidationError(file, ["최상위 값은 객체여야 합니다"]);
+  }
+
+  if (typeof raw.name !== "string" || !raw.name) problems.push("name이 필요합니다");
+
+  const actors: string[] = raw.actors ?? [];
+  if (!Array.isArray(actors) || actors.some((a) => typeof a !== "string")) {
+    problems.push("actors는 문자열 배열이어야 합니다");
+  }
+
+  const deploy = raw.deploy ?? {};
+  for (const [alias, spec] of Object.entries<any>(deploy)) {
+    if (typeof spec?.contract !== "string") problems.push(`deploy.${alias}: contract(아티팩트 이름)가 필요합니다`);
+    if (spec?.args !== undefined && !Array.isArray(spec.args)) problems.push(`deploy.${alias}: args는 배열이어야 합니다`);
+    if (spec?.from !== undefined && !actors.includes(spec.from)) problems.push(`deploy.${alias}: 알 수 없는 배우 '${spec.from}'`);
+    if (actors.includes(alias)) problems.push(`deploy.${alias}: 배우 이름과 겹칩니다`);
+  }
+
+  const names = new Set([...actors, ...Object.keys(deploy)]);
+  const steps: ScenarioStep[] = raw.steps ?? [];
+  if (!Array.isArray(steps) || steps.length === 0) {
+    problems.push("steps에 하나 이상의 단계가 필요합니다");
+  } else {
+    steps.forEach((step: any, index) => problems.push(...validateStep(step, `steps[${index}]`, names)));
+  }
+
+  if (problems.length > 0) {
+    throw new ScenarioValidationError(file, problems);
+  }
+
+  return {
+    name: raw.name,
+    description: raw.description,
+    actors,
+    deploy,
+    steps,
+    file,
+  };
+}
+
+function validateStep(step: any, where: string, names: Set<string>): string[] {
+  if (typeof step !== "object" || step === null) return [`${where}: 객체여야 합니다`];
+
+  const kinds = STEP_KINDS.filter((kind) => kind in step);
+  if (kinds.length !== 1) {
+    return [`${where}: ${STEP_KINDS.join(" / ")} 중 정확히 하나가 필요합니다`];
+  }
+
+  const kind = kinds[0];
+  const problems = Object.keys(step)
+    .filter((key) => !STEP_KEYS[kind].includes(key))
+    .map((key) => `${where}: ${kind} 단계에서 알 수 없는 필드 '${key}'`);
+
+  if (kind === "call" || kind === "read") {
+    const target = step[kind];
+    const [contract, fn] = typeof target === "string" ? target.split(".") : [];
+    if (!contract || !fn) problems.push(`${where}: ${kind}는 '<컨트랙트>.<함수>' 형식이어야 합니다`);
+    else if (!names.has(contract)) problems.push(`${where}: 알 수 없는 컨트랙트 '${contract}'`);
+  }
+
+  if (kind === "call" && step.from !== undefined && !names.has(step.from)) {
+    problems.push(`${where}: 알 수 없는 배우 '${step.from}'`);
+  }
+
+  if (kind === "balance") {
+    if (!names.has(step.balance)) problems.push(`${where}: 알 수 없는 계정/컨트랙트 '${step.balance}'`);
+    if (step.token !== undefined && !names.has(step.token)) problems.push(`${where}: 알 수 없는 토큰 '${step.token}'`);
+  }
+
+  if (step.args !== undefined && !Array.isArray(step.args)) problems.push(`${where}: args는 배열이어야 합니다`);
+  if (step.save !== undefined && typeof step.save?.as !== "string") problems.push(`${where}: save.as가 필요합니다`);
+  if (step.save?.event !== undefined && step.save.arg === undefined) {
+    problems.push(`${where}: save.event를 쓰려면 save.arg가 필요합니다`);
+  }
+
+  return problems;
+}
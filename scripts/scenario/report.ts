@@ -0,0 +1,46 @@
+import fs from "fs";
+import path from "path";
+
+import type { ScenarioReport, StepStatus } from "./types";
+
+/**
+ * 📋 시나리오 결과 출력
+ */
+
+const STATUS_ICON: Record<StepStatus, string> = {
+  passed: "✅",
+  failed: "❌",
+  skipped: "⏭️",
+};
+
+export function printScenarioReport(report: ScenarioReport) {
+  console.log(`\n🎬 ${report.name} (${report.file})`);
+
+  for (const [alias, address] of Object.entries(report.deployments)) {
+    console.log(`   📦 ${alias}: ${address}`);
+  }
+
+  for (const step of report.steps) {
+    console.log(`  ${STATUS_ICON[step.status]} ${step.index + 1}. ${step.name}${step.status === "skipped" ? "" : ` (${step.durationMs}ms)`}`);
+    for (const detail of step.details) {
+      console.log(`       ${detail}`);
+    }
+    if (step.error) {
+      console.log(`       💥 ${step.error}`);
+    }
+  }
+
+  const count = (status: StepStatus) => report.steps.filter((s) => s.status === status).length;
+  console.log(
+    `  ${report.passed ? "🎉 통과" : "🚨 실패"}: ${count("passed")} 통과 / ${count("failed")} 실패 / ${count("skipped")} 건너뜀`
+  );
+}
+
+export function writeScenarioReports(file: string, reports: ScenarioReport[]) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(
+    file,
+    JSON.stringify({ generatedAt: new Date().toISOString(), passed: reports.every((r) => r.passed), scenarios: reports }, null, 2)
+  );
+  console.log(`\n📝 리포트 저장: ${path.relative(process.cwd(), file)}`);
+}
@@ -0,0 +1,319 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  erc20Abi,
+  parseEventLogs,
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  type Address,
+} from "viem";
+
+import { decodeRevert } from "../lib/revert";
+import { parseDuration } from "../lib/time";
+import { ScenarioValidationError } from "./loader";
+import type {
+  BalanceStep,
+  CallStep,
+  ReadStep,
+  SaveSpec,
+  Scenario,
+  ScenarioReport,
+  ScenarioStep,
+  ScenarioValue,
+  StepResult,
+  TimeStep,
+} from "./types";
+import { checkExpectation, coerceArg, display, pickField, resolveTemplates, toBigInt, valuesEqual, type ScenarioScope } from "./values";
+
+/**
+ * ▶️ 시나리오 실행기
+ * 배우 → 지갑 매핑, 컨트랙트 배포, 단계 실행을 순서대로 수행하고 단계별 결과를 기록합니다.
+ * 기본적으로 실행 전 스냅샷을 찍고 끝나면 되돌리므로 여러 시나리오가 서로 영향을 주지 않습니다.
+ */
+
+export interface RunOptions {
+  // 실패 후에도 나머지 단계를 계속 실행 (기본: 첫 실패 이후 건너뜀)
+  continueOnFailure?: boolean;
+  // 실행 후 네트워크 상태를 되돌리지 않음
+  keepState?: boolean;
+}
+
+interface DeployedContract {
+  address: Address;
+  abi: Abi;
+}
+
+interface RunContext {
+  hre: HardhatRuntimeEnvironment;
+  wallets: Record<string, Awaited<ReturnType<HardhatRuntimeEnvironment["viem"]["getWalletClients"]>>[number]>;
+  contracts: Record<string, DeployedContract>;
+  scope: ScenarioScope;
+  eventAbi: Abi;
+}
+
+export async function runScenario(
+  hre: HardhatRuntimeEnvironment,
+  scenario: Scenario,
+  options: RunOptions = {}
+): Promise<ScenarioReport> {
+  const snapshotId = options.keepState ? undefined : await hre.network.provider.request({ method: "evm_snapshot" });
+
+  try {
+    const context = await setup(hre, scenario);
+    const steps: StepResult[] = [];
+    let failed = false;
+
+    for (const [index, step] of scenario.steps.entries()) {
+      const name = step.name ?? describeStep(step);
+
+      if (failed && !options.continueOnFailure) {
+        steps.push({ index, name, status: "skipped", durationMs: 0, details: [] });
+        continue;
+      }
+
+      const started = Date.now();
+      const details: string[] = [];
+      try {
+        await executeStep(context, step, details);
+        steps.push({ index, name, status: "passed", durationMs: Date.now() - started, details });
+      } catch (error: any) {
+        failed = true;
+        steps.push({ index, name, status: "failed", durationMs: Date.now() - started, details, error: errorMessage(error) });
+      }
+    }
+
+    return {
+      name: scenario.name,
+      file: scenario.file,
+      passed: !failed,
+      deployments: Object.fromEntries(Object.entries(context.contracts).map(([alias, c]) => [alias, c.address])),
+      steps,
+    };
+  } finally {
+    if (snapshotId !== undefined) {
+      await hre.network.provider.request({ method: "evm_revert", params: [snapshotId] });
+    }
+  }
+}
+
+async function setup(hre: HardhatRuntimeEnvironment, scenario: Scenario): Promise<RunContext> {
+  const walletClients = await hre.viem.getWalletClients();
+  if (scenario.actors.length > walletClients.length) {
+    throw new Error(`배우 ${scenario.actors.length}명에 비해 사용 가능한 계정이 ${walletClients.length}개뿐입니다`);
+  }
+
+  const artifacts = await readDeployArtifacts(hre, scenario);
+  const context: RunContext = { hre, wallets: {}, contracts: {}, scope: {}, eventAbi: [] };
+
+  scenario.actors.forEach((actor, index) => {
+    context.wallets[actor] = walletClients[index];
+    context.scope[actor] = walletClients[index].account.address;
+  });
+
+  for (const [alias, spec] of Object.entries(scenario.deploy)) {
+    const { abi, inputs } = artifacts[alias];
+    const args = (spec.args ?? []).map((arg, i) => coerceArg(resolveTemplates(arg, context.scope), inputs[i]));
+    const wallet = spec.from ? context.wallets[spec.from] : walletClients[0];
+
+    let contract;
+    try {
+      contract = await hre.viem.deployContract(spec.contract, args, {
+        client: { wallet },
+        value: spec.value !== undefined ? toBigInt(resolveTemplates(spec.value, context.scope)) : undefined,
+      });
+    } catch (error: any) {
+      throw new Error(`${alias}(${spec.contract}) 배포 실패: ${errorMessage(error)}`);
+    }
+
+    context.contracts[alias] = { address: contract.address, abi };
+    context.scope[alias] = contract.address;
+    context.eventAbi = [...context.eventAbi, ...abi.filter((item) => item.type === "event")];
+  }
+
+  return context;
+}
+
+/**
+ * 배포 전에 아티팩트 존재 여부와 생성자 인자 개수를 모두 확인 (컴파일 결과가 필요해 로더가 아닌 여기서 검증)
+ */
+async function readDeployArtifacts(hre: HardhatRuntimeEnvironment, scenario: Scenario) {
+  const artifacts: Record<string, { abi: Abi; inputs: readonly AbiParameter[] }> = {};
+  const problems: string[] = [];
+
+  for (const [alias, spec] of Object.entries(scenario.deploy)) {
+    if (!(await hre.artifacts.artifactExists(spec.contract))) {
+      problems.push(`deploy.${alias}: 아티팩트 '${spec.contract}'를 찾을 수 없습니다`);
+      continue;
+    }
+
+    const { abi } = await hre.artifacts.readArtifact(spec.contract);
+    const constructor = (abi as Abi).find((item) => item.type === "constructor");
+    const inputs: readonly AbiParameter[] = constructor?.inputs ?? [];
+    const given = spec.args?.length ?? 0;
+    if (given !== inputs.length) {
+      const expected = inputs.map((input) => `${input.type}${input.name ? ` ${input.name}` : ""}`).join(", ");
+      problems.push(
+        `deploy.${alias}: ${spec.contract} 생성자는 인자 ${inputs.length}개(${expected || "없음"})를 받지만 ${given}개가 주어졌습니다`
+      );
+      continue;
+    }
+    artifacts[alias] = { abi, inputs };
+  }
+
+  if (problems.length > 0) throw new ScenarioValidationError(scenario.file, problems);
+  return artifacts;
+}
+
+async function executeStep(context: RunContext, step: ScenarioStep, details: string[]) {
+  if ("call" in step) return executeCall(context, step, details);
+  if ("read" in step) return executeRead(context, step, details);
+  if ("balance" in step) return executeBalance(context, step, details);
+  return executeTimeJump(context, step, details);
+}
+
+async function executeCall(context: RunContext, step: CallStep, details: string[]) {
+  const { hre, scope } = context;
+  const { contract, fn, args } = prepareCall(context, step.call, step.args);
+  const wallet = context.wallets[step.from ?? Object.keys(context.wallets)[0]];
+  const value = step.value !== undefined ? toBigInt(resolveTemplates(step.value, scope)) : undefined;
+
+  let hash;
+  try {
+    hash = await wallet.writeContract({
+      address: contract.address,
+      abi: contract.abi,
+      functionName: fn.name,
+      args,
+      value,
+      account: wallet.account,
+      chain: wallet.chain,
+    });
+  } catch (error) {
+    if (step.expectRevert === undefined || step.expectRevert === false) throw error;
+
+    const message = errorMessage(error);
+    if (typeof step.expectRevert === "string" && !message.includes(step.expectRevert)) {
+      throw new Error(`revert 메시지 불일치: '${step.expectRevert}' 기대, 실제 '${message}'`);
+    }
+    details.push(`↩️ 예상대로 revert: ${message}`);
+    return;
+  }
+
+  const publicClient = await hre.viem.getPublicClient();
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+  if (step.expectRevert !== undefined && step.expectRevert !== false) {
+    throw new Error(`revert를 기대했지만 트랜잭션이 성공했습니다 (${hash})`);
+  }
+  if (receipt.status !== "success") {
+    throw new Error(`트랜잭션이 revert 되었습니다 (${hash})`);
+  }
+
+  const events = parseEventLogs({ abi: context.eventAbi, logs: receipt.logs }) as { eventName: string; args: any }[];
+  details.push(`⛽ ${receipt.gasUsed} gas, 이벤트: ${events.map((e) => e.eventName).join(", ") || "없음"}`);
+
+  for (const expected of step.expectEvents ?? []) {
+    const candidates = events.filter((e) => e.eventName === expected.name);
+    const expectedArgs = (resolveTemplates(expected.args ?? {}, scope) ?? {}) as Record<string, unknown>;
+    const match = candidates.find((e) =>
+      Object.entries(expectedArgs).every(([key, value]) => valuesEqual(e.args?.[key], value))
+    );
+
+    if (!match) {
+      const seen = candidates.map((e) => display(e.args)).join(", ");
+      throw new Error(`이벤트 ${expected.name}${display(expectedArgs)}가 발생하지 않았습니다${seen ? ` (발생: ${seen})` : ""}`);
+    }
+  }
+
+  if (step.save) {
+    if (!step.save.event) throw new Error("call 단계의 save에는 event/arg가 필요합니다");
+    const event = events.find((e) => e.eventName === step.save!.event);
+    if (!event) throw new Error(`저장할 이벤트 ${step.save.event}가 발생하지 않았습니다`);
+    save(context, step.save, event.args?.[step.save.arg!], details);
+  }
+}
+
+async function executeRead(context: RunContext, step: ReadStep, details: string[]) {
+  const { contract, fn, args } = prepareCall(context, step.read, step.args);
+  const publicClient = await context.hre.viem.getPublicClient();
+  const value = await publicClient.readContract({ address: contract.address, abi: contract.abi, functionName: fn.name, args });
+
+  details.push(`📖 ${display(value)}`);
+  verify(context, value, step, details);
+}
+
+async function executeBalance(context: RunContext, step: BalanceStep, details: string[]) {
+  const publicClient = await context.hre.viem.getPublicClient();
+  const owner = context.scope[step.balance] as Address;
+
+  const value = step.token
+    ? await publicClient.readContract({
+        address: context.contracts[step.token].address,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [owner],
+      })
+    : await publicClient.getBalance({ address: owner });
+
+  details.push(`💰 ${step.balance} ${step.token ?? "ETH"} 잔액: ${value}`);
+  verify(context, value, step, details);
+}
+
+async function executeTimeJump(context: RunContext, step: TimeStep, details: string[]) {
+  const raw = resolveTemplates(step.increaseTime, context.scope);
+  const seconds = typeof raw === "string" && /^\d+\s*[smhdw]$/i.test(raw) ? parseDuration(raw) : toBigInt(raw);
+
+  await context.hre.network.provider.request({ method: "evm_increaseTime", params: [Number(seconds)] });
+  await context.hre.network.provider.request({ method: "evm_mine" });
+  details.push(`⏩ ${seconds}초 경과`);
+}
+
+function verify(context: RunContext, value: unknown, step: ReadStep | BalanceStep, details: string[]) {
+  if (step.expect !== undefined) {
+    const failure = checkExpectation(value, step.expect, context.scope);
+    if (failure) throw new Error(failure);
+  }
+  if (step.save) save(context, step.save, value, details);
+}
+
+function save(context: RunContext, spec: SaveSpec, value: unknown, details: string[]) {
+  const picked = pickField(value, spec.field);
+  context.scope[spec.as] = picked;
+  details.push(`💾 ${spec.as} = ${display(picked)}`);
+}
+
+function prepareCall(context: RunContext, target: string, rawArgs: ScenarioValue[] = []) {
+  const [alias, functionName] = target.split(".");
+  const contract = context.contracts[alias];
+
+  const fn = contract.abi.find(
+    (item): item is AbiFunction =>
+      item.type === "function" && item.name === functionName && item.inputs.length === rawArgs.length
+  );
+  if (!fn) {
+    throw new Error(`${target}: 인자 ${rawArgs.length}개를 받는 함수가 없습니다`);
+  }
+
+  return {
+    contract,
+    fn,
+    args: rawArgs.map((arg, i) => coerceArg(resolveTemplates(arg, context.scope), fn.inputs[i])),
+  };
+}
+
+function describeStep(step: ScenarioStep): string {
+  if ("call" in step) return `${step.call}${step.from ? ` (${step.from})` : ""}`;
+  if ("read" in step) return `읽기 ${step.read}`;
+  if ("balance" in step) return `잔액 ${step.balance}${step.token ? ` (${step.token})` : ""}`;
+  return `시간 이동 ${step.increaseTime}`;
+}
+
+// viem 오류는 shortMessage + revert 사유(details)가 가장 읽기 좋음
+// 카탈로그에 있는 사유면 코드와 한국어 메시지를 덧붙임 (expectRevert에 코드를 써도 매칭됨)
+function errorMessage(error: any): string {
+  const reason = error?.cause?.reason ?? error?.details;
+  const short = error?.shortMessage ?? error?.message ?? String(error);
+  const message = reason && !short.includes(reason) ? `${short} (${reason})` : short;
+  const info = decodeRevert(error).error;
+  return info ? `${message} [${info.code}] ${info.message_ko}` : message;
+}
@@ -0,0 +1,125 @@
+/**
+ * 🎬 시나리오 파일 스키마 (YAML/JSON)
+ *
+ * name: AdvancedLock 기본 흐름
+ * actors: [deployer, alice, bob]          # 지갑 계정에 순서대로 매핑
+ * deploy:
+ *   lock: { contract: AdvancedLock }
+ *   dex: { contract: SimpleDEX, args: ["${tokenA}", "${tokenB}"], from: deployer }
+ * steps:
+ *   - name: Alice 잠금 생성
+ *     call: lock.createLock
+ *     from: alice
+ *     args: ["${alice}", 1h]
+ *     value: 1 ether
+ *     expectEvents: [{ name: LockCreated, args: { beneficiary: "${alice}" } }]
+ *     save: { as: aliceLock, event: LockCreated, arg: lockId }
+ *   - call: lock.withdraw
+ *     from: alice
+ *     args: ["${aliceLock}"]
+ *     expectRevert: Lock not yet expired
+ *   - increaseTime: 1h
+ *   - read: lock.totalLocked
+ *     expect: 1 ether
+ *   - balance: alice
+ *     token: tokenA                         # 생략 시 ETH 잔액
+ *     expect: { gte: 100 ether }
+ */
+
+export type ScenarioValue = string | number | boolean | null | ScenarioValue[] | { [key: string]: ScenarioValue };
+
+export interface DeploySpec {
+  contract: string;
+  args?: ScenarioValue[];
+  from?: string;
+  value?: ScenarioValue;
+}
+
+// expect: 값 그대로 쓰면 equals와 같음
+export interface ExpectationSpec {
+  equals?: ScenarioValue;
+  gt?: ScenarioValue;
+  gte?: ScenarioValue;
+  lt?: ScenarioValue;
+  lte?: ScenarioValue;
+  contains?: ScenarioValue;
+  // 튜플/구조체 반환값의 인덱스 또는 필드 이름
+  field?: string | number;
+}
+
+export interface EventExpectation {
+  name: string;
+  args?: Record<string, ScenarioValue>;
+}
+
+export interface SaveSpec {
+  as: string;
+  // 지정하면 해당 이벤트의 인자를 저장, 없으면 반환값(read) 저장
+  event?: string;
+  arg?: string;
+  field?: string | number;
+}
+
+interface BaseStep {
+  name?: string;
+}
+
+export interface CallStep extends BaseStep {
+  call: string; // '<contract>.<function>'
+  from?: string;
+  args?: ScenarioValue[];
+  value?: ScenarioValue;
+  // true면 revert 여부만, 문자열이면 revert 메시지 포함 여부까지 확인
+  expectRevert?: boolean | string;
+  expectEvents?: EventExpectation[];
+  save?: SaveSpec;
+}
+
+export interface ReadStep extends BaseStep {
+  read: string;
+  args?: ScenarioValue[];
+  expect?: ScenarioValue | ExpectationSpec;
+  save?: SaveSpec;
+}
+
+export interface BalanceStep extends BaseStep {
+  balance: string; // 배우 또는 컨트랙트 이름
+  token?: string; // ERC-20 컨트랙트 이름 (생략 시 ETH)
+  expect?: ScenarioValue | ExpectationSpec;
+  save?: SaveSpec;
+}
+
+export interface TimeStep extends BaseStep {
+  increaseTime: ScenarioValue; // 초 또는 '1h', '30d' 형식
+}
+
+export type ScenarioStep = CallStep | ReadStep | BalanceStep | TimeStep;
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  actors: string[];
+  deploy: Record<string, DeploySpec>;
+  steps: ScenarioStep[];
+  // 파일 경로 (리포트용)
+  file: string;
+}
+
+export type StepStatus = "passed" | "failed" | "skipped";
+
+export interface StepResult {
+  index: number;
+  name: string;
+  status: StepStatus;
+  durationMs: number;
+  details: string[];
+  error?: string;
+}
+
+export interface ScenarioReport {
+  name: string;
+  file: string;
+  passed: boolean;
+  deployments: Record<string, string>;
+  steps: StepResult[];
+}
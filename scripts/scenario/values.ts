@@ -0,0 +1,188 @@
+import { getAddress, isAddress, parseEther, parseUnits, type AbiParameter } from "viem";
+
+import { parseDuration } from "../lib/time";
+import type { ExpectationSpec, ScenarioValue } from "./types";
+
+/**
+ * 🔣 시나리오 값 해석
+ * - "${alice}", "${lock}", "${savedVar}" 템플릿 치환
+ * - ABI 타입에 맞춘 변환 ("1.5 ether", "10 gwei", "30d" → bigint)
+ * - expect 비교
+ */
+
+// 이름 → 값 (배우/컨트랙트 주소, save로 저장한 값)
+export type ScenarioScope = Record<string, unknown>;
+
+const TEMPLATE = /\$\{(\w+)\}/g;
+const WHOLE_TEMPLATE = /^\$\{(\w+)\}$/;
+
+export function resolveTemplates(value: ScenarioValue, scope: ScenarioScope): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_TEMPLATE);
+    if (whole) return lookup(whole[1], scope);
+    return value.replace(TEMPLATE, (_, name) => String(lookup(name, scope)));
+  }
+  if (Array.isArray(value)) return value.map((v) => resolveTemplates(v, scope));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveTemplates(v, scope)]));
+  }
+  return value;
+}
+
+function lookup(name: string, scope: ScenarioScope): unknown {
+  if (!(name in scope)) {
+    throw new Error(`알 수 없는 이름 '\${${name}}' (사용 가능: ${Object.keys(scope).join(", ")})`);
+  }
+  return scope[name];
+}
+
+/**
+ * 숫자 표현을 bigint로 변환
+ *   123, "123", "1.5 ether", "10 gwei", "500 wei", "30d", "12h"
+ */
+export function toBigInt(value: unknown): bigint {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`정수가 아니거나 너무 큰 숫자: ${value} (큰 값은 문자열로 적으세요)`);
+    }
+    return BigInt(value);
+  }
+  if (typeof value === "boolean") return value ? 1n : 0n;
+  if (typeof value === "string") {
+    const text = value.trim();
+    const unit = text.match(/^(-?[\d.]+)\s*(ether|gwei|wei)$/i);
+    if (unit) {
+      const [, amount, name] = unit;
+      return name.toLowerCase() === "ether"
+        ? parseEther(amount)
+        : name.toLowerCase() === "gwei"
+          ? parseUnits(amount, 9)
+          : BigInt(amount);
+    }
+    if (/^\d+\s*[smhdw]$/i.test(text)) return parseDuration(text);
+    if (/^-?\d+$/.test(text)) return BigInt(text);
+  }
+  throw new Error(`숫자로 변환할 수 없는 값: ${JSON.stringify(value)}`);
+}
+
+/**
+ * ABI 파라미터 타입에 맞게 인자 변환
+ */
+export function coerceArg(value: unknown, param: AbiParameter): unknown {
+  const { type } = param;
+
+  const array = type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    if (!Array.isArray(value)) throw new Error(`${param.name || type}: 배열이 필요합니다`);
+    return value.map((v) => coerceArg(v, { ...param, type: array[1] }));
+  }
+
+  if (type === "tuple" && "components" in param) {
+    const fields = value as Record<string, unknown> | undefined;
+    return param.components.map((component, index) =>
+      coerceArg(Array.isArray(value) ? value[index] : fields?.[component.name!], component)
+    );
+  }
+
+  if (/^u?int\d*$/.test(type)) return toBigInt(value);
+  if (type === "address") {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new Error(`${param.name || type}: 주소가 아닙니다 (${JSON.stringify(value)})`);
+    }
+    return getAddress(value);
+  }
+  if (type === "bool") {
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "false") return value === "true";
+    throw new Error(`${param.name || type}: true/false가 아닙니다 (${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+export function pickField(value: unknown, field: string | number | undefined): unknown {
+  if (field === undefined) return value;
+  const picked = (value as Record<string | number, unknown> | undefined)?.[field];
+  if (picked === undefined) {
+    throw new Error(`반환값에 필드 '${field}'이(가) 없습니다`);
+  }
+  return picked;
+}
+
+/**
+ * expect 검증: 실패 시 설명 문자열, 성공 시 undefined
+ */
+export function checkExpectation(
+  actual: unknown,
+  expectation: ScenarioValue | ExpectationSpec,
+  scope: ScenarioScope
+): string | undefined {
+  const spec: ExpectationSpec = isExpectationSpec(expectation) ? expectation : { equals: expectation as ScenarioValue };
+  const value = pickField(actual, spec.field);
+
+  const comparisons: [keyof ExpectationSpec, (a: bigint, b: bigint) => boolean, string][] = [
+    ["gt", (a, b) => a > b, ">"],
+    ["gte", (a, b) => a >= b, ">="],
+    ["lt", (a, b) => a < b, "<"],
+    ["lte", (a, b) => a <= b, "<="],
+  ];
+
+  if (spec.equals !== undefined) {
+    const expected = resolveTemplates(spec.equals, scope);
+    if (!valuesEqual(value, expected)) {
+      return `기대값 ${display(expected)}, 실제값 ${display(value)}`;
+    }
+  }
+
+  for (const [key, compare, symbol] of comparisons) {
+    if (spec[key] === undefined) continue;
+    const expected = toBigInt(resolveTemplates(spec[key] as ScenarioValue, scope));
+    if (!compare(toBigInt(value), expected)) {
+      return `${display(value)} ${symbol} ${display(expected)} 조건을 만족하지 않습니다`;
+    }
+  }
+
+  if (spec.contains !== undefined) {
+    const expected = resolveTemplates(spec.contains, scope);
+    const found = Array.isArray(value)
+      ? value.some((item) => valuesEqual(item, expected))
+      : String(value).includes(String(expected));
+    if (!found) return `${display(value)}에 ${display(expected)}이(가) 없습니다`;
+  }
+
+  return undefined;
+}
+
+export function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === "bigint") {
+    try {
+      return actual === toBigInt(expected);
+    } catch {
+      return false;
+    }
+  }
+  if (typeof actual === "string" && isAddress(actual)) {
+    return typeof expected === "string" && isAddress(expected) && getAddress(actual) === getAddress(expected);
+  }
+  if (Array.isArray(actual)) {
+    return (
+      Array.isArray(expected) &&
+      actual.length === expected.length &&
+      actual.every((item, index) => valuesEqual(item, expected[index]))
+    );
+  }
+  return actual === expected;
+}
+
+export function display(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v)) ?? String(value);
+}
+
+function isExpectationSpec(value: unknown): value is ExpectationSpec {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    ["equals", "gt", "gte", "lt", "lte", "contains"].some((key) => key in value)
+  );
+}
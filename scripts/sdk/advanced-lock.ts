@@ -0,0 +1,93 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Address } from "viem";
+
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import { ContractClient, resolveContract, toSeconds, toUnits, type Amount, type ClientOptions, type Duration, type TxResult } from "./client";
+
+/**
+ * 🔒 AdvancedLock 클라이언트
+ *
+ *   const lock = await AdvancedLockClient.connect(hre, { wallet: alice });
+ *   const { lockId } = await lock.createLock(alice.account.address, "1.5", "30d");
+ *   const info = await lock.getLock(lockId);   // { amount, unlockTime, withdrawn, beneficiary }
+ */
+
+export interface LockInfo {
+  id: bigint;
+  amount: bigint;
+  unlockTime: bigint;
+  withdrawn: boolean;
+  beneficiary: Address;
+}
+
+export interface LockStats {
+  nextLockId: bigint;
+  totalLocked: bigint;
+  paused: boolean;
+}
+
+export class AdvancedLockClient extends ContractClient<EcosystemContract<"advancedLock">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.advancedLock.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<AdvancedLockClient> {
+    return new AdvancedLockClient(hre, await resolveContract(hre, "advancedLock", options), options.wallet);
+  }
+
+  async getLock(lockId: bigint): Promise<LockInfo> {
+    const [amount, unlockTime, withdrawn, beneficiary] = await this.contract.read.locks([lockId]);
+    return { id: lockId, amount, unlockTime, withdrawn, beneficiary };
+  }
+
+  async getUserLocks(user: Address): Promise<LockInfo[]> {
+    const ids = await this.contract.read.getUserLocks([user]);
+    return Promise.all(ids.map((id) => this.getLock(id)));
+  }
+
+  async getUserTotalLocked(user: Address): Promise<bigint> {
+    return this.contract.read.getUserTotalLocked([user]);
+  }
+
+  async getStats(): Promise<LockStats> {
+    const [nextLockId, totalLocked, paused] = await Promise.all([
+      this.contract.read.nextLockId(),
+      this.contract.read.totalLocked(),
+      this.contract.read.paused(),
+    ]);
+    return { nextLockId, totalLocked, paused };
+  }
+
+  /**
+   * amount는 ETH 단위, duration은 초 또는 "30d" 형식
+   */
+  async createLock(
+    beneficiary: Address,
+    amount: Amount,
+    duration: Duration
+  ): Promise<TxResult & { lockId: bigint; unlockTime: bigint }> {
+    const tx = await this.send("createLock", () =>
+      this.contract.write.createLock([beneficiary, toSeconds(duration)], { value: toUnits(amount), account: this.account })
+    );
+    const { lockId, unlockTime } = this.eventArgs<{ lockId: bigint; unlockTime: bigint }>(tx, "LockCreated");
+    return { ...tx, lockId, unlockTime };
+  }
+
+  async withdraw(lockId: bigint): Promise<TxResult & { amount: bigint }> {
+    const tx = await this.send("withdraw", () => this.contract.write.withdraw([lockId], { account: this.account }));
+    return { ...tx, amount: this.eventArgs<{ amount: bigint }>(tx, "Withdrawn").amount };
+  }
+
+  async emergencyWithdraw(lockId: bigint): Promise<TxResult & { amount: bigint }> {
+    const tx = await this.send("emergencyWithdraw", () =>
+      this.contract.write.emergencyWithdraw([lockId], { account: this.account })
+    );
+    return { ...tx, amount: this.eventArgs<{ amount: bigint }>(tx, "EmergencyWithdrawal").amount };
+  }
+
+  pause(): Promise<TxResult> {
+    return this.send("pause", () => this.contract.write.pause({ account: this.account }));
+  }
+
+  unpause(): Promise<TxResult> {
+    return this.send("unpause", () => this.contract.write.unpause({ account: this.account }));
+  }
+}
@@ -0,0 +1,292 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress, type Address } from "viem";
+
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import {
+  ContractClient,
+  enumIndex,
+  enumName,
+  resolveContract,
+  toUnits,
+  type Amount,
+  type ClientOptions,
+  type TxResult,
+} from "./client";
+import type { TokenApprovalOptions } from "./simple-dex";
+
+/**
+ * 🎮 BattleArenaP2E 클라이언트
+ *
+ *   const arena = await BattleArenaClient.connect(hre, { wallet: alice });
+ *   await arena.initializeCharacter(0n, "WARRIOR");
+ *   const { winner } = await arena.startBattle(0n, 1n, "RANKED");
+ *   const stats = await arena.getCharacterStats(0n);   // { level, winCount, rating, winRate, ... }
+ *
+ *   const { tournamentId } = await arena.createTournament({ name: "시즌 컵", entryFee: "5", startTime, tournamentType: "ROUND_ROBIN" });
+ *   await arena.connect(alice).joinTournament(tournamentId, 0n);   // 참가비 approve 포함
+ *   const { tournamentMatch } = await arena.connect(alice).startBattle(0n, 1n, "TOURNAMENT");   // 시작 후 경기로 기록
+ *   const { winner, prize } = await arena.completeTournament(tournamentId);   // 우승자는 컨트랙트가 결정
+ */
+
+export const CHARACTER_CLASSES = ["WARRIOR", "MAGE", "ARCHER", "ASSASSIN", "HEALER"] as const;
+export const BATTLE_TYPES = ["CASUAL", "RANKED", "TOURNAMENT", "GUILD_WAR"] as const;
+export const TOURNAMENT_TYPES = ["SINGLE_ELIMINATION", "ROUND_ROBIN", "BATTLE_ROYALE"] as const;
+
+// startBattle의 같은 상대 재대결 제한 (lastFightTime + 2 hours)
+export const REMATCH_COOLDOWN = 2n * 3600n;
+
+const ERC721_ARTIFACT = "@openzeppelin/contracts/token/ERC721/IERC721.sol:IERC721";
+
+export type CharacterClassName = (typeof CHARACTER_CLASSES)[number];
+export type BattleTypeName = (typeof BATTLE_TYPES)[number];
+export type TournamentTypeName = (typeof TOURNAMENT_TYPES)[number];
+
+export interface CharacterStats {
+  tokenId: bigint;
+  characterClass: CharacterClassName;
+  level: bigint;
+  experience: bigint;
+  health: bigint;
+  maxHealth: bigint;
+  attack: bigint;
+  defense: bigint;
+  speed: bigint;
+  magic: bigint;
+  lastBattle: bigint;
+  winCount: bigint;
+  lossCount: bigint;
+  streak: bigint;
+  maxStreak: bigint;
+  skillPoints: readonly bigint[];
+  prestigeLevel: bigint;
+  rating: bigint;
+  // 승률 (%)
+  winRate: bigint;
+  totalBattles: bigint;
+}
+
+export interface PlayerStats {
+  totalEarnings: bigint;
+  charactersOwned: bigint;
+  rank: bigint;
+  guildId: bigint;
+  seasonRewards: bigint;
+}
+
+export interface BattleRecord {
+  attacker: bigint;
+  defender: bigint;
+  winner: Address;
+  timestamp: bigint;
+  rewardAmount: bigint;
+  battleType: BattleTypeName;
+  spectators: bigint;
+  spectatorRewards: bigint;
+}
+
+export interface BattleOutcome {
+  winner: Address;
+  rewardAmount: bigint;
+  ratingChanges: { characterId: bigint; oldRating: bigint; newRating: bigint }[];
+  levelUps: { tokenId: bigint; newLevel: bigint }[];
+  // 두 캐릭터가 진행 중인 같은 토너먼트에 등록되어 있으면 TOURNAMENT 배틀이 경기 결과로 기록됨
+  tournamentMatch?: { tournamentId: bigint; winnerId: bigint; loserId: bigint };
+}
+
+export interface TournamentInfo {
+  tournamentId: bigint;
+  name: string;
+  entryFee: bigint;
+  prizePool: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  participants: readonly bigint[];
+  // 완료 전에는 0
+  winner: bigint;
+  completed: boolean;
+  tournamentType: TournamentTypeName;
+  // 기록된 경기 수 (기권 포함)
+  matchesPlayed: bigint;
+}
+
+export interface TournamentOptions {
+  name: string;
+  entryFee?: Amount;
+  // 참가 신청 마감 (이 시각 이후에만 결과 기록 가능)
+  startTime: bigint;
+  tournamentType: TournamentTypeName | number;
+}
+
+export interface SkillAllocation {
+  attack?: bigint;
+  defense?: bigint;
+  speed?: bigint;
+  magic?: bigint;
+}
+
+export class BattleArenaClient extends ContractClient<EcosystemContract<"battleArena">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.battleArena.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<BattleArenaClient> {
+    return new BattleArenaClient(hre, await resolveContract(hre, "battleArena", options), options.wallet);
+  }
+
+  async getCharacterStats(tokenId: bigint): Promise<CharacterStats> {
+    const [character, rating, winRate, totalBattles] = await this.contract.read.getCharacterStats([tokenId]);
+    const { class: characterClass, ...stats } = character;
+    return { tokenId, ...stats, characterClass: enumName(CHARACTER_CLASSES, characterClass), rating, winRate, totalBattles };
+  }
+
+  async getPlayerStats(player: Address): Promise<PlayerStats> {
+    const [totalEarnings, charactersOwned, rank, guildId, seasonRewards] = await this.contract.read.getPlayerStats([
+      player,
+    ]);
+    return { totalEarnings, charactersOwned, rank, guildId, seasonRewards };
+  }
+
+  /**
+   * 최근 배틀부터 최대 limit개
+   */
+  async getBattleHistory(tokenId: bigint, limit = 10n): Promise<BattleRecord[]> {
+    const battles = await this.contract.read.getCharacterBattleHistory([tokenId, limit]);
+    return battles.map((battle) => ({ ...battle, battleType: enumName(BATTLE_TYPES, battle.battleType) }));
+  }
+
+  initializeCharacter(tokenId: bigint, characterClass: CharacterClassName | number): Promise<TxResult> {
+    const classIndex = enumIndex(CHARACTER_CLASSES, characterClass, "캐릭터 클래스");
+    return this.send("initializeCharacter", () =>
+      this.contract.write.initializeCharacter([tokenId, classIndex], { account: this.account })
+    );
+  }
+
+  async startBattle(
+    attackerId: bigint,
+    defenderId: bigint,
+    battleType: BattleTypeName | number = "CASUAL"
+  ): Promise<TxResult & BattleOutcome> {
+    const typeIndex = enumIndex(BATTLE_TYPES, battleType, "배틀 타입");
+    const tx = await this.send("startBattle", () =>
+      this.contract.write.startBattle([attackerId, defenderId, typeIndex], { account: this.account })
+    );
+
+    const { winner, rewardAmount } = this.eventArgs<{ winner: Address; rewardAmount: bigint }>(tx, "BattleCompleted");
+    const ratingChanges = tx.events
+      .filter((e) => e.name === "RatingUpdated")
+      .map((e) => e.args as BattleOutcome["ratingChanges"][number]);
+    const levelUps = tx.events
+      .filter((e) => e.name === "CharacterLevelUp")
+      .map((e) => e.args as BattleOutcome["levelUps"][number]);
+    const tournamentMatch = tx.events.find((e) => e.name === "TournamentMatchRecorded")?.args as
+      | BattleOutcome["tournamentMatch"]
+      | undefined;
+
+    return { ...tx, winner, rewardAmount, ratingChanges, levelUps, tournamentMatch };
+  }
+
+  /**
+   * attackerId가 defenderId를 공격할 수 있는 가장 이른 시각 (배틀 쿨다운과 같은 상대 재대결 제한)
+   */
+  async battleReadyAt(attackerId: bigint, defenderId: bigint): Promise<bigint> {
+    const [{ lastBattle }, cooldown, recentlyFought, lastFightTime] = await Promise.all([
+      this.getCharacterStats(attackerId),
+      this.contract.read.BATTLE_COOLDOWN(),
+      this.contract.read.hasRecentlyFought([attackerId, defenderId]),
+      this.contract.read.lastFightTime([attackerId]),
+    ]);
+    const rematchAt = recentlyFought ? lastFightTime + REMATCH_COOLDOWN : 0n;
+    return lastBattle + cooldown > rematchAt ? lastBattle + cooldown : rematchAt;
+  }
+
+  async ownerOf(tokenId: bigint): Promise<Address> {
+    const characterNFT = await this.hre.viem.getContractAt(ERC721_ARTIFACT, await this.contract.read.characterNFT());
+    return getAddress(await characterNFT.read.ownerOf([tokenId]));
+  }
+
+  async getTournament(tournamentId: bigint): Promise<TournamentInfo> {
+    const [tournament, participants] = await Promise.all([
+      this.contract.read.tournaments([tournamentId]),
+      this.contract.read.getTournamentParticipants([tournamentId]),
+    ]);
+    const [id, name, entryFee, prizePool, startTime, endTime, winner, completed, tournamentType, matchesPlayed] =
+      tournament;
+    if (id === 0n) {
+      throw new Error(`BattleArenaP2E ${this.address}: 토너먼트 #${tournamentId}이(가) 없습니다`);
+    }
+    return {
+      tournamentId,
+      name,
+      entryFee,
+      prizePool,
+      startTime,
+      endTime,
+      participants,
+      winner,
+      completed,
+      tournamentType: enumName(TOURNAMENT_TYPES, tournamentType),
+      matchesPlayed,
+    };
+  }
+
+  /**
+   * 소유자 전용
+   */
+  async createTournament(options: TournamentOptions): Promise<TxResult & { tournamentId: bigint }> {
+    const typeIndex = enumIndex(TOURNAMENT_TYPES, options.tournamentType, "토너먼트 타입");
+    const tx = await this.send("createTournament", () =>
+      this.contract.write.createTournament(
+        [options.name, toUnits(options.entryFee ?? 0n), options.startTime, typeIndex],
+        { account: this.account }
+      )
+    );
+    return { ...tx, tournamentId: this.eventArgs<{ tournamentId: bigint }>(tx, "TournamentCreated").tournamentId };
+  }
+
+  /**
+   * 참가비는 보상 토큰으로 상금 풀에 들어갑니다
+   */
+  async joinTournament(tournamentId: bigint, tokenId: bigint, options: TokenApprovalOptions = {}): Promise<TxResult> {
+    if (options.approve ?? true) {
+      const { entryFee } = await this.getTournament(tournamentId);
+      if (entryFee > 0n) await this.ensureAllowance(await this.contract.read.rewardToken(), entryFee);
+    }
+    return this.send("joinTournament", () =>
+      this.contract.write.joinTournament([tournamentId, tokenId], { account: this.account })
+    );
+  }
+
+  /**
+   * 캐릭터 소유자가 배틀 없이 경기를 내줌 (회복할 수 없을 때)
+   */
+  forfeitTournamentMatch(tournamentId: bigint, tokenId: bigint, opponentId: bigint): Promise<TxResult> {
+    return this.send("forfeitTournamentMatch", () =>
+      this.contract.write.forfeitTournamentMatch([tournamentId, tokenId, opponentId], { account: this.account })
+    );
+  }
+
+  /**
+   * 누구나 호출 가능: 우승자는 컨트랙트가 기록된 경기 결과로 정합니다
+   * 상금 풀에서 플랫폼 수수료를 뺀 금액이 우승 캐릭터 소유자의 미수령 보상에 더해집니다
+   */
+  async completeTournament(tournamentId: bigint): Promise<TxResult & { winner: bigint; prize: bigint }> {
+    const tx = await this.send("completeTournament", () =>
+      this.contract.write.completeTournament([tournamentId], { account: this.account })
+    );
+    return { ...tx, ...this.eventArgs<{ winner: bigint; prize: bigint }>(tx, "TournamentCompleted") };
+  }
+
+  allocateSkillPoints(tokenId: bigint, points: SkillAllocation): Promise<TxResult> {
+    const { attack = 0n, defense = 0n, speed = 0n, magic = 0n } = points;
+    return this.send("allocateSkillPoints", () =>
+      this.contract.write.allocateSkillPoints([tokenId, attack, defense, speed, magic], { account: this.account })
+    );
+  }
+
+  healCharacter(tokenId: bigint): Promise<TxResult> {
+    return this.send("healCharacter", () => this.contract.write.healCharacter([tokenId], { account: this.account }));
+  }
+
+  async claimRewards(): Promise<TxResult & { amount: bigint }> {
+    const tx = await this.send("claimRewards", () => this.contract.write.claimRewards({ account: this.account }));
+    return { ...tx, amount: this.eventArgs<{ amount: bigint }>(tx, "RewardClaimed").amount };
+  }
+}
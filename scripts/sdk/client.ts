@@ -0,0 +1,228 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  getAddress,
+  parseEventLogs,
+  parseUnits,
+  type Abi,
+  type Account,
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+
+import { ContractRevertError, decodeRevert } from "../lib/revert";
+import {
+  getEcosystemContract,
+  getEcosystemContractAt,
+  type EcosystemContract,
+  type EcosystemContractName,
+  type RegistryOptions,
+} from "../lib/registry";
+import { parseDuration } from "../lib/time";
+
+/**
+ * 🧩 SDK 공용 기반
+ *
+ * 각 클라이언트는 hre.viem 컨트랙트 인스턴스를 감싸서
+ *   - 뷰 함수의 튜플 반환값을 이름 있는 객체로 변환
+ *   - 금액은 사람 단위("1.5", 1.5)로, 기간은 "30d" 형식으로 입력
+ *   - 쓰기 함수는 영수증까지 기다린 뒤 디코딩된 이벤트와 함께 반환
+ * 합니다. revert는 카탈로그 정보(info)를 담은 ContractRevertError로 변환됩니다.
+ */
+
+const ERC20_ARTIFACT = "@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20";
+
+// bigint는 최소 단위(wei) 그대로, number/string은 사람 단위 (18 decimals 기준)
+export type Amount = bigint | number | string;
+// bigint/number는 초, string은 "3600", "12h", "30d" 형식
+export type Duration = bigint | number | string;
+
+export interface ContractEvent {
+  name: string;
+  address: Address;
+  args: Record<string, unknown>;
+  logIndex: number;
+}
+
+export interface TxResult {
+  hash: Hash;
+  blockNumber: bigint;
+  gasUsed: bigint;
+  events: ContractEvent[];
+  receipt: TransactionReceipt;
+}
+
+export interface ClientOptions extends RegistryOptions {
+  // 레지스트리 대신 사용할 주소
+  address?: Address;
+  // 쓰기 트랜잭션을 보낼 지갑 (기본: 첫 번째 계정)
+  wallet?: WalletClient;
+}
+
+export function toUnits(amount: Amount, decimals = 18): bigint {
+  if (typeof amount === "bigint") return amount;
+
+  const text = typeof amount === "number" ? numberToString(amount) : amount.trim();
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new Error(`잘못된 금액: '${amount}' (예: 1.5, "0.25", 10n ** 18n)`);
+  }
+  return parseUnits(text, decimals);
+}
+
+export function toSeconds(duration: Duration): bigint {
+  if (typeof duration === "bigint") return duration;
+  if (typeof duration === "number") {
+    if (!Number.isSafeInteger(duration) || duration < 0) {
+      throw new Error(`잘못된 기간: ${duration}`);
+    }
+    return BigInt(duration);
+  }
+  return parseDuration(duration);
+}
+
+/**
+ * enum 이름 또는 인덱스 → 인덱스
+ */
+export function enumIndex<T extends string>(names: readonly T[], value: T | number, label: string): number {
+  const index = typeof value === "number" ? value : names.indexOf(value);
+  if (index < 0 || index >= names.length || !Number.isInteger(index)) {
+    throw new Error(`알 수 없는 ${label}: ${value} (사용 가능: ${names.join(", ")})`);
+  }
+  return index;
+}
+
+/**
+ * 컨트랙트가 돌려준 enum 인덱스 → 이름
+ */
+export function enumName<T extends string>(names: readonly T[], index: number | bigint): T {
+  return names[Number(index)] ?? (`UNKNOWN(${index})` as T);
+}
+
+/**
+ * 레지스트리(또는 options.address)에서 컨트랙트 인스턴스를 가져옵니다
+ */
+export async function resolveContract<N extends EcosystemContractName>(
+  hre: HardhatRuntimeEnvironment,
+  name: N,
+  options: ClientOptions
+): Promise<EcosystemContract<N>> {
+  if (options.address !== undefined) {
+    return getEcosystemContractAt(hre, name, getAddress(options.address));
+  }
+  return getEcosystemContract(hre, name, options);
+}
+
+interface ViemContract {
+  address: Address;
+  abi: Abi;
+}
+
+export abstract class ContractClient<C extends ViemContract> {
+  // revert 카탈로그 조회에 쓰는 아티팩트 이름
+  protected abstract readonly artifact: string;
+
+  constructor(
+    protected readonly hre: HardhatRuntimeEnvironment,
+    readonly contract: C,
+    readonly wallet?: WalletClient
+  ) {}
+
+  get address(): Address {
+    return getAddress(this.contract.address);
+  }
+
+  /**
+   * 같은 컨트랙트를 다른 지갑으로 사용하는 클라이언트
+   */
+  connect(wallet: WalletClient): this {
+    const Client = this.constructor as new (hre: HardhatRuntimeEnvironment, contract: C, wallet?: WalletClient) => this;
+    return new Client(this.hre, this.contract, wallet);
+  }
+
+  protected get account(): Account | undefined {
+    return this.wallet?.account;
+  }
+
+  // 쓰기 트랜잭션을 보낼 주소 (지갑을 지정하지 않으면 첫 번째 계정)
+  protected async sender(): Promise<Address> {
+    if (this.wallet?.account) return this.wallet.account.address;
+    const [first] = await this.hre.viem.getWalletClients();
+    return first.account.address;
+  }
+
+  /**
+   * 트랜잭션 전송 → 영수증 대기 → 이벤트 디코딩
+   */
+  protected async send(functionName: string, write: () => Promise<Hash>): Promise<TxResult> {
+    let hash: Hash;
+    try {
+      hash = await write();
+    } catch (error) {
+      throw this.toRevertError(functionName, error);
+    }
+
+    const publicClient = await this.hre.viem.getPublicClient();
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new ContractRevertError(functionName, `트랜잭션이 revert 되었습니다 (${hash})`);
+    }
+
+    const events = parseEventLogs({ abi: this.contract.abi, logs: receipt.logs }).map((log) => ({
+      name: log.eventName as string,
+      address: getAddress(log.address),
+      args: (log.args ?? {}) as Record<string, unknown>,
+      logIndex: log.logIndex,
+    }));
+
+    return { hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed, events, receipt };
+  }
+
+  /**
+   * 이 컨트랙트에 대한 ERC20 allowance가 부족하면 approve (approve 트랜잭션을 보냈으면 true)
+   */
+  protected async ensureAllowance(token: Address, amount: bigint): Promise<boolean> {
+    const erc20 = await this.hre.viem.getContractAt(ERC20_ARTIFACT, token);
+    const allowance = await erc20.read.allowance([await this.sender(), this.address]);
+    if (allowance >= amount) return false;
+
+    await this.send("approve", () => erc20.write.approve([this.address, amount], { account: this.account }));
+    return true;
+  }
+
+  /**
+   * eth_call 시뮬레이션 (트랜잭션을 보내지 않음). revert는 send와 같이 ContractRevertError로 변환됩니다.
+   */
+  protected async simulate<T>(functionName: string, call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw this.toRevertError(functionName, error);
+    }
+  }
+
+  private toRevertError(functionName: string, error: unknown): unknown {
+    const decoded = decodeRevert(error, { contract: this.artifact, functionName });
+    return decoded.reverted ? new ContractRevertError(functionName, decoded.reason, error, decoded.error) : error;
+  }
+
+  /**
+   * 이 컨트랙트가 발생시킨 이벤트 중 첫 번째 name 이벤트의 인자
+   */
+  protected eventArgs<T>(tx: TxResult, name: string): T {
+    const event = tx.events.find((e) => e.name === name && e.address === this.address);
+    if (!event) {
+      throw new Error(`${tx.hash}: ${name} 이벤트가 없습니다`);
+    }
+    return event.args as T;
+  }
+}
+
+// 1e-7 같은 지수 표기 대신 소수 표기
+function numberToString(value: number): string {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`잘못된 금액: ${value}`);
+  }
+  const text = String(value);
+  return /e/i.test(text) ? value.toFixed(18).replace(/\.?0+$/, "") : text;
+}
@@ -0,0 +1,288 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress, type Address, type Hash, type Hex } from "viem";
+
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import { ContractClient, enumIndex, enumName, resolveContract, type ClientOptions, type TxResult } from "./client";
+
+/**
+ * 🏛️ AIEnhancedDAO 클라이언트
+ *
+ *   const dao = await DaoClient.connect(hre, { wallet: alice });
+ *   const { proposalId, aiScore } = await dao.submitProposal({ title, description, proposalType: "FUNDING" });
+ *   await dao.connect(bob).vote(proposalId, "FOR", "좋은 제안");
+ *   const { status, currentSupport, requiredMajority } = await dao.getProposal(proposalId);
+ *
+ *   const unwatch = await dao.watchProposal(proposalId, { onQuorumReached, onStatusChanged });
+ *   const { executable, projectedStatus } = await dao.getOutlook(proposalId);   // 마감 후 SUCCEEDED 예상이면
+ *   await dao.executeProposal(proposalId);
+ */
+
+export const PROPOSAL_TYPES = ["FUNDING", "UPGRADE", "PARAMETER", "EMERGENCY", "PARTNERSHIP", "TREASURY"] as const;
+export const PROPOSAL_STATUSES = ["PENDING", "ACTIVE", "SUCCEEDED", "DEFEATED", "EXECUTED", "EXPIRED"] as const;
+export const VOTE_TYPES = ["AGAINST", "FOR", "ABSTAIN"] as const;
+
+export type ProposalTypeName = (typeof PROPOSAL_TYPES)[number];
+export type ProposalStatusName = (typeof PROPOSAL_STATUSES)[number];
+export type VoteTypeName = (typeof VOTE_TYPES)[number];
+
+export interface AIAnalysis {
+  feasibilityScore: bigint;
+  riskAssessment: bigint;
+  impactPrediction: bigint;
+  costBenefit: bigint;
+  keyInsights: readonly string[];
+  analysisTimestamp: bigint;
+}
+
+export interface ProposalInfo {
+  id: bigint;
+  title: string;
+  description: string;
+  proposer: Address;
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
+  deadline: bigint;
+  executed: boolean;
+  aiScore: bigint;
+  communityScore: bigint;
+  proposalType: ProposalTypeName;
+  status: ProposalStatusName;
+  executionData: Hex;
+  aiAnalysis: AIAnalysis;
+  // 통과에 필요한 찬성률 (%)
+  requiredMajority: bigint;
+  // 현재 찬성률 (%, 기권 제외)
+  currentSupport: bigint;
+}
+
+export interface VoterStats {
+  totalVotesCast: bigint;
+  successfulVotes: bigint;
+  reputationScore: bigint;
+  lastVoteTime: bigint;
+  isExpert: boolean;
+  votingPower: bigint;
+  weightedPower: bigint;
+}
+
+export interface DaoStats {
+  totalProposals: bigint;
+  activeProposals: bigint;
+  executedProposals: bigint;
+  avgAIScore: bigint;
+  totalTokenSupply: bigint;
+  treasuryBalance: bigint;
+}
+
+export interface ProposalVote {
+  voter: Address;
+  support: VoteTypeName;
+  // 평판/전문가 가중치 적용 후
+  weight: bigint;
+  reason: string;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+/**
+ * 지금 시점의 제안 진행 상황 (컨트랙트는 executeProposal 전까지 ACTIVE로 남음)
+ */
+export interface ProposalOutlook {
+  proposal: ProposalInfo;
+  // 최신 블록 시각
+  now: bigint;
+  votingOpen: boolean;
+  // executeProposal을 보낼 수 있는 가장 이른 블록 시각 (deadline 다음 초)
+  executableAt: bigint;
+  // 기권 포함 가중 투표 합계와 정족수 (정족수는 QuorumReached 이벤트에만 쓰이고 집계에는 반영되지 않음)
+  totalVotes: bigint;
+  quorumVotes: bigint;
+  quorumReached: boolean;
+  // 지금 집계하면 나올 결과 (찬반 투표가 없으면 집계가 revert 되므로 undefined)
+  projectedStatus?: "SUCCEEDED" | "DEFEATED";
+  // 마감이 지나 executeProposal을 보낼 수 있는지
+  executable: boolean;
+}
+
+export interface ProposalWatchHandlers {
+  onVote?: (vote: ProposalVote) => void;
+  onQuorumReached?: (totalVotes: bigint) => void;
+  onStatusChanged?: (status: ProposalStatusName) => void;
+  onError?: (error: Error) => void;
+  // 이벤트 폴링 간격 (ms)
+  pollingInterval?: number;
+}
+
+export interface ProposalDraft {
+  title: string;
+  // 100바이트 이상
+  description: string;
+  proposalType?: ProposalTypeName | number;
+  executionData?: Hex;
+}
+
+export class DaoClient extends ContractClient<EcosystemContract<"dao">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.dao.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<DaoClient> {
+    return new DaoClient(hre, await resolveContract(hre, "dao", options), options.wallet);
+  }
+
+  async getProposal(proposalId: bigint): Promise<ProposalInfo> {
+    const [proposal, aiAnalysis, requiredMajority, currentSupport] = await this.contract.read.getProposalInfo([
+      proposalId,
+    ]);
+    return {
+      ...proposal,
+      proposalType: enumName(PROPOSAL_TYPES, proposal.proposalType),
+      status: enumName(PROPOSAL_STATUSES, proposal.status),
+      aiAnalysis,
+      requiredMajority,
+      currentSupport,
+    };
+  }
+
+  async getVoterStats(voter: Address): Promise<VoterStats> {
+    const [profile, votingPower, weightedPower] = await this.contract.read.getVoterStats([voter]);
+    return { ...profile, votingPower, weightedPower };
+  }
+
+  async getStats(): Promise<DaoStats> {
+    const [totalProposals, activeProposals, executedProposals, avgAIScore, totalTokenSupply, treasuryBalance] =
+      await this.contract.read.getDAOStats();
+    return { totalProposals, activeProposals, executedProposals, avgAIScore, totalTokenSupply, treasuryBalance };
+  }
+
+  async hasVoted(proposalId: bigint, voter: Address): Promise<boolean> {
+    return this.contract.read.hasVoted([proposalId, voter]);
+  }
+
+  async getOutlook(proposalId: bigint): Promise<ProposalOutlook> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const [proposal, stats, quorumPercentage, block] = await Promise.all([
+      this.getProposal(proposalId),
+      this.getStats(),
+      this.contract.read.quorumPercentage(),
+      publicClient.getBlock(),
+    ]);
+    if (proposal.id === 0n) {
+      throw new Error(`AIEnhancedDAO ${this.address}: 제안 #${proposalId}이(가) 없습니다`);
+    }
+
+    const now = block.timestamp;
+    const totalVotes = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes;
+    const quorumVotes = (stats.totalTokenSupply * quorumPercentage) / 100n;
+    const active = proposal.status === "ACTIVE";
+    const decided = proposal.forVotes + proposal.againstVotes > 0n;
+    return {
+      proposal,
+      now,
+      votingOpen: active && now <= proposal.deadline,
+      executableAt: proposal.deadline + 1n,
+      totalVotes,
+      quorumVotes,
+      quorumReached: totalVotes >= quorumVotes,
+      projectedStatus:
+        active && decided
+          ? proposal.currentSupport >= proposal.requiredMajority
+            ? "SUCCEEDED"
+            : "DEFEATED"
+          : undefined,
+      executable: active && decided && now > proposal.deadline,
+    };
+  }
+
+  /**
+   * VoteCast 이벤트로 본 투표 내역 (오래된 순)
+   */
+  async getVotes(proposalId: bigint, fromBlock = 0n): Promise<ProposalVote[]> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const logs = await publicClient.getContractEvents({
+      address: this.address,
+      abi: this.contract.abi,
+      eventName: "VoteCast",
+      args: { proposalId },
+      fromBlock,
+    });
+    return logs.map((log) => toProposalVote(log.args as Record<string, unknown>, log.blockNumber, log.transactionHash));
+  }
+
+  /**
+   * 제안의 VoteCast / QuorumReached / ProposalStatusChanged 이벤트 감시. 반환된 함수를 호출하면 멈춥니다.
+   */
+  async watchProposal(proposalId: bigint, handlers: ProposalWatchHandlers): Promise<() => void> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    return publicClient.watchContractEvent({
+      address: this.address,
+      abi: this.contract.abi,
+      pollingInterval: handlers.pollingInterval,
+      onError: handlers.onError,
+      onLogs: (logs) => {
+        for (const log of logs) {
+          const args = log.args as Record<string, unknown>;
+          if (args.proposalId !== proposalId) continue;
+          switch (log.eventName) {
+            case "VoteCast":
+              handlers.onVote?.(toProposalVote(args, log.blockNumber, log.transactionHash));
+              break;
+            case "QuorumReached":
+              handlers.onQuorumReached?.(args.totalVotes as bigint);
+              break;
+            case "ProposalStatusChanged":
+              handlers.onStatusChanged?.(enumName(PROPOSAL_STATUSES, args.newStatus as number));
+              break;
+          }
+        }
+      },
+    });
+  }
+
+  async submitProposal(draft: ProposalDraft): Promise<TxResult & { proposalId: bigint; aiScore: bigint }> {
+    const typeIndex = enumIndex(PROPOSAL_TYPES, draft.proposalType ?? "FUNDING", "제안 타입");
+    const tx = await this.send("submitProposal", () =>
+      this.contract.write.submitProposal([draft.title, draft.description, typeIndex, draft.executionData ?? "0x"], {
+        account: this.account,
+      })
+    );
+    const { id } = this.eventArgs<{ id: bigint }>(tx, "ProposalCreated");
+    const { aiScore } = this.eventArgs<{ aiScore: bigint }>(tx, "AIAnalysisCompleted");
+    return { ...tx, proposalId: id, aiScore };
+  }
+
+  async vote(
+    proposalId: bigint,
+    support: VoteTypeName | number,
+    reason = ""
+  ): Promise<TxResult & { weight: bigint; quorumReached: boolean }> {
+    const voteIndex = enumIndex(VOTE_TYPES, support, "투표 타입");
+    const tx = await this.send("vote", () =>
+      this.contract.write.vote([proposalId, voteIndex, reason], { account: this.account })
+    );
+    const { weight } = this.eventArgs<{ weight: bigint }>(tx, "VoteCast");
+    return { ...tx, weight, quorumReached: tx.events.some((e) => e.name === "QuorumReached") };
+  }
+
+  /**
+   * 마감 후 집계. 부결이어도 트랜잭션은 성공하며 status가 DEFEATED가 됩니다.
+   */
+  async executeProposal(proposalId: bigint): Promise<TxResult & { status: ProposalStatusName; success?: boolean }> {
+    const tx = await this.send("executeProposal", () =>
+      this.contract.write.executeProposal([proposalId], { account: this.account })
+    );
+    const { newStatus } = this.eventArgs<{ newStatus: number }>(tx, "ProposalStatusChanged");
+    const executed = tx.events.find((e) => e.name === "ProposalExecuted");
+    return { ...tx, status: enumName(PROPOSAL_STATUSES, newStatus), success: executed?.args.success as boolean | undefined };
+  }
+}
+
+function toProposalVote(args: Record<string, unknown>, blockNumber: bigint, transactionHash: Hash): ProposalVote {
+  return {
+    voter: getAddress(args.voter as Address),
+    support: enumName(VOTE_TYPES, args.support as number),
+    weight: args.weight as bigint,
+    reason: args.reason as string,
+    blockNumber,
+    transactionHash,
+  };
+}
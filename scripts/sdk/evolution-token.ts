@@ -0,0 +1,177 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Address } from "viem";
+
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import {
+  ContractClient,
+  enumIndex,
+  enumName,
+  resolveContract,
+  toUnits,
+  type Amount,
+  type ClientOptions,
+  type TxResult,
+} from "./client";
+
+/**
+ * 🧬 EvolutionaryToken 클라이언트
+ *
+ *   const evo = await EvolutionTokenClient.connect(hre, { wallet: alice });
+ *   const { received, antiWhaleFee } = await evo.transfer(bob, "500");
+ *   await evo.stake(1n, "100");
+ *   const { tier, totalStaked, availableRewards } = await evo.getUserInfo(alice.account.address);
+ */
+
+export const USER_TIERS = ["BRONZE", "SILVER", "GOLD", "PLATINUM", "DIAMOND"] as const;
+export const EVOLUTION_PROPOSAL_TYPES = ["EVOLUTION", "STAKING_PARAMS", "BURNING", "MINTING", "PARTNERSHIP"] as const;
+
+export type UserTierName = (typeof USER_TIERS)[number];
+export type EvolutionProposalTypeName = (typeof EVOLUTION_PROPOSAL_TYPES)[number];
+
+export interface EvolutionUserInfo {
+  activityScore: bigint;
+  stakingAmount: bigint;
+  stakingStartTime: bigint;
+  lastActivityTime: bigint;
+  contributionPoints: bigint;
+  reputationScore: bigint;
+  tier: UserTierName;
+  ownedNFTs: readonly bigint[];
+  totalStaked: bigint;
+  availableRewards: bigint;
+  votingPower: bigint;
+  behaviorScore: bigint;
+}
+
+export interface StakingPoolInfo {
+  poolId: bigint;
+  poolName: string;
+  totalStaked: bigint;
+  // 연 보상률 (basis points)
+  rewardRate: bigint;
+  lockPeriod: bigint;
+  minStakeAmount: bigint;
+  isActive: boolean;
+  totalValueLocked: bigint;
+  currentAPYBps: bigint;
+}
+
+export interface EvolutionRecord {
+  generation: bigint;
+  timestamp: bigint;
+  featureName: string;
+  impactScore: bigint;
+  isActive: boolean;
+}
+
+export interface GovernanceStats {
+  totalProposals: bigint;
+  activeProposals: bigint;
+  executedProposals: bigint;
+  totalVotingPower: bigint;
+}
+
+export interface EconomicMetrics {
+  currentSupply: bigint;
+  maxSupply: bigint;
+  // basis points (100 = 1%)
+  burnRate: bigint;
+  // 전체 공급 대비 스테이킹 비율 (%)
+  stakingRatio: bigint;
+  rewardPool: bigint;
+  communityHealth: bigint;
+}
+
+export class EvolutionTokenClient extends ContractClient<EcosystemContract<"evolutionaryToken">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.evolutionaryToken.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<EvolutionTokenClient> {
+    return new EvolutionTokenClient(hre, await resolveContract(hre, "evolutionaryToken", options), options.wallet);
+  }
+
+  async balanceOf(account: Address): Promise<bigint> {
+    return this.contract.read.balanceOf([account]);
+  }
+
+  async getUserInfo(user: Address): Promise<EvolutionUserInfo> {
+    const [profile, totalStaked, availableRewards, votingPower, behaviorScore] = await this.contract.read.getUserInfo([
+      user,
+    ]);
+    return { ...profile, tier: enumName(USER_TIERS, profile.tier), totalStaked, availableRewards, votingPower, behaviorScore };
+  }
+
+  async getStakingPool(poolId: bigint): Promise<StakingPoolInfo> {
+    const [pool, totalValueLocked, currentAPYBps] = await this.contract.read.getStakingPoolInfo([poolId]);
+    return { poolId, ...pool, totalValueLocked, currentAPYBps };
+  }
+
+  /**
+   * 생성된 모든 스테이킹 풀 (1세대 진화에서 풀 2, 3이 추가됨)
+   */
+  async getStakingPools(): Promise<StakingPoolInfo[]> {
+    const count = await this.contract.read.stakingPoolCount();
+    return Promise.all(Array.from({ length: Number(count) }, (_, i) => this.getStakingPool(BigInt(i + 1))));
+  }
+
+  async getEvolutionHistory(): Promise<EvolutionRecord[]> {
+    return [...(await this.contract.read.getEvolutionHistory())];
+  }
+
+  async getGovernanceStats(): Promise<GovernanceStats> {
+    const [totalProposals, activeProposals, executedProposals, totalVotingPower] =
+      await this.contract.read.getGovernanceStats();
+    return { totalProposals, activeProposals, executedProposals, totalVotingPower };
+  }
+
+  async getEconomicMetrics(): Promise<EconomicMetrics> {
+    const [currentSupply, maxSupply, burnRate, stakingRatio, rewardPool, communityHealth] =
+      await this.contract.read.getEconomicMetrics();
+    return { currentSupply, maxSupply, burnRate, stakingRatio, rewardPool, communityHealth };
+  }
+
+  /**
+   * 고래 방지 수수료가 부과되면 antiWhaleFee만큼 덜 받습니다
+   */
+  async transfer(to: Address, amount: Amount): Promise<TxResult & { received: bigint; antiWhaleFee: bigint }> {
+    const value = toUnits(amount);
+    const tx = await this.send("transfer", () => this.contract.write.transfer([to, value], { account: this.account }));
+    const whale = tx.events.find((e) => e.name === "AntiWhaleTriggered");
+    const antiWhaleFee = (whale?.args.fee as bigint | undefined) ?? 0n;
+    return { ...tx, received: value - antiWhaleFee, antiWhaleFee };
+  }
+
+  stake(poolId: bigint, amount: Amount): Promise<TxResult> {
+    return this.send("stake", () => this.contract.write.stake([poolId, toUnits(amount)], { account: this.account }));
+  }
+
+  unstake(poolId: bigint, amount: Amount): Promise<TxResult> {
+    return this.send("unstake", () => this.contract.write.unstake([poolId, toUnits(amount)], { account: this.account }));
+  }
+
+  async claimAllRewards(): Promise<TxResult & { amount: bigint }> {
+    const tx = await this.send("claimAllRewards", () => this.contract.write.claimAllRewards({ account: this.account }));
+    return { ...tx, amount: this.eventArgs<{ amount: bigint }>(tx, "StakingRewardClaimed").amount };
+  }
+
+  async createProposal(
+    description: string,
+    proposalType: EvolutionProposalTypeName | number
+  ): Promise<TxResult & { proposalId: bigint }> {
+    const typeIndex = enumIndex(EVOLUTION_PROPOSAL_TYPES, proposalType, "제안 타입");
+    const tx = await this.send("createProposal", () =>
+      this.contract.write.createProposal([description, typeIndex], { account: this.account })
+    );
+    return { ...tx, proposalId: this.eventArgs<{ proposalId: bigint }>(tx, "ProposalCreated").proposalId };
+  }
+
+  async vote(proposalId: bigint, support: boolean): Promise<TxResult & { weight: bigint }> {
+    const tx = await this.send("vote", () => this.contract.write.vote([proposalId, support], { account: this.account }));
+    return { ...tx, weight: this.eventArgs<{ weight: bigint }>(tx, "VoteCast").weight };
+  }
+
+  executeProposal(proposalId: bigint): Promise<TxResult> {
+    return this.send("executeProposal", () =>
+      this.contract.write.executeProposal([proposalId], { account: this.account })
+    );
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * 📦 생태계 컨트랙트 SDK
+ *
+ *   import { AdvancedLockClient, DaoClient } from "./scripts/sdk";
+ *
+ *   const lock = await AdvancedLockClient.connect(hre);                       // 배포 레지스트리에서 주소 조회
+ *   const dao = new DaoClient(hre, await hre.viem.deployContract(...));      // 이미 가진 인스턴스 감싸기
+ */
+
+export * from "./client";
+export * from "./advanced-lock";
+export * from "./simple-dex";
+export * from "./intelligent-dex";
+export * from "./battle-arena";
+export * from "./dao";
+export * from "./multisig";
+export * from "./evolution-token";
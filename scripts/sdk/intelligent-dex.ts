@@ -0,0 +1,246 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { encodePacked, getAddress, keccak256, type Address, type Hex } from "viem";
+
+import {
+  calculateDynamicFee,
+  getDynamicAmountOut,
+  RECENT_SWAP_WINDOW,
+  type DynamicFeePoolState,
+  type PoolAnalytics,
+} from "../dex/dynamic-fee";
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import { ContractClient, resolveContract, toUnits, type Amount, type ClientOptions, type TxResult } from "./client";
+import type { TokenApprovalOptions } from "./simple-dex";
+
+/**
+ * 🧠 IntelligentDEX 클라이언트
+ *
+ *   const idex = await IntelligentDexClient.connect(hre, { wallet: alice });
+ *   const pools = await idex.getPools();                          // PoolCreated 이벤트 + getPoolInfo
+ *   const { fee, amountOut } = await idex.quote(poolId, tokenIn, "10");
+ *   await idex.swap(poolId, tokenIn, "10", amountOut);            // 최소 수령량은 컨트랙트가 확인
+ */
+
+export type { PoolAnalytics };
+
+export interface IntelligentPoolInfo {
+  poolId: Hex;
+  tokenA: Address;
+  tokenB: Address;
+  reserveA: bigint;
+  reserveB: bigint;
+  totalLiquidity: bigint;
+  volume24h: bigint;
+  feesCollected: bigint;
+  analytics: PoolAnalytics;
+}
+
+export interface IntelligentSwapQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  // 동적 수수료 (basis points)
+  fee: bigint;
+  tokenIn: Address;
+  tokenOut: Address;
+  pool: DynamicFeePoolState;
+}
+
+export interface IntelligentSwapResult {
+  poolId: Hex;
+  user: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint;
+}
+
+/**
+ * createPool이 쓰는 풀 ID: keccak256(abi.encodePacked(tokenA, tokenB)) - 토큰 순서에 따라 다름
+ */
+export function intelligentPoolId(tokenA: Address, tokenB: Address): Hex {
+  return keccak256(encodePacked(["address", "address"], [getAddress(tokenA), getAddress(tokenB)]));
+}
+
+export class IntelligentDexClient extends ContractClient<EcosystemContract<"intelligentDEX">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.intelligentDEX.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<IntelligentDexClient> {
+    return new IntelligentDexClient(hre, await resolveContract(hre, "intelligentDEX", options), options.wallet);
+  }
+
+  /**
+   * PoolCreated 이벤트로 찾은 풀 ID 목록 (생성 순서)
+   */
+  async getPoolIds(fromBlock = 0n): Promise<Hex[]> {
+    const events = await this.contract.getEvents.PoolCreated({}, { fromBlock });
+    return events.map((event) => event.args.poolId as Hex);
+  }
+
+  async getPoolInfo(poolId: Hex, blockNumber?: bigint): Promise<IntelligentPoolInfo> {
+    const [tokenA, tokenB, reserveA, reserveB, totalLiquidity, volume24h, feesCollected, analytics] =
+      await this.contract.read.getPoolInfo([poolId], { blockNumber });
+    if (BigInt(tokenA) === 0n) {
+      throw new Error(`IntelligentDEX ${this.address}: 풀 ${poolId}이(가) 없습니다`);
+    }
+
+    const { volatilityScore, liquidityHealth, tradingActivity, riskLevel } = analytics;
+    return {
+      poolId,
+      tokenA: getAddress(tokenA),
+      tokenB: getAddress(tokenB),
+      reserveA,
+      reserveB,
+      totalLiquidity,
+      volume24h,
+      feesCollected,
+      analytics: { volatilityScore, liquidityHealth, tradingActivity, riskLevel },
+    };
+  }
+
+  async getPools(fromBlock = 0n): Promise<IntelligentPoolInfo[]> {
+    const poolIds = await this.getPoolIds(fromBlock);
+    return Promise.all(poolIds.map((poolId) => this.getPoolInfo(poolId)));
+  }
+
+  /**
+   * swapHistory 배열 길이 (길이 getter가 없어 범위 밖 읽기가 실패하는 지점을 찾습니다)
+   */
+  async getSwapCount(poolId: Hex, blockNumber?: bigint): Promise<bigint> {
+    const exists = (index: bigint) =>
+      this.contract.read.swapHistory([poolId, index], { blockNumber }).then(
+        () => true,
+        () => false
+      );
+
+    if (!(await exists(0n))) return 0n;
+
+    // 존재하는 인덱스 low, 없는 인덱스 high 사이를 이진 탐색
+    let low = 0n;
+    let high = 1n;
+    while (await exists(high)) {
+      low = high;
+      high *= 2n;
+    }
+    while (high - low > 1n) {
+      const mid = (low + high) / 2n;
+      if (await exists(mid)) low = mid;
+      else high = mid;
+    }
+    return high;
+  }
+
+  /**
+   * timestamp 기준 최근 1시간 스왑 수 (컨트랙트 getRecentSwapCount와 같은 규칙)
+   * 수수료 계산에는 50개 초과 여부만 필요하므로 limit개까지만 셉니다.
+   */
+  async getRecentSwapCount(poolId: Hex, timestamp: bigint, limit = 51n, blockNumber?: bigint): Promise<bigint> {
+    const timeLimit = timestamp - RECENT_SWAP_WINDOW;
+    let count = 0n;
+    for (let i = await this.getSwapCount(poolId, blockNumber); i > 0n && count < limit; i--) {
+      const [swapTimestamp] = await this.contract.read.swapHistory([poolId, i - 1n], { blockNumber });
+      if (swapTimestamp < timeLimit) break;
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * 동적 수수료 계산에 필요한 풀 상태. 최근 스왑 수는 다음 블록(최신 블록 + 1초) 기준입니다.
+   */
+  async getFeeState(poolId: Hex, blockNumber?: bigint): Promise<DynamicFeePoolState & { tokenA: Address; tokenB: Address }> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const [info, block] = await Promise.all([
+      this.getPoolInfo(poolId, blockNumber),
+      publicClient.getBlock(blockNumber !== undefined ? { blockNumber } : {}),
+    ]);
+    const recentSwaps = await this.getRecentSwapCount(poolId, block.timestamp + 1n, 51n, blockNumber);
+
+    return {
+      tokenA: info.tokenA,
+      tokenB: info.tokenB,
+      reserveA: info.reserveA,
+      reserveB: info.reserveB,
+      volatilityScore: info.analytics.volatilityScore,
+      liquidityHealth: info.analytics.liquidityHealth,
+      recentSwaps,
+    };
+  }
+
+  /**
+   * 동적 수수료를 포함한 오프체인 견적
+   */
+  async quote(poolId: Hex, tokenIn: Address, amountIn: Amount): Promise<IntelligentSwapQuote> {
+    const amount = toUnits(amountIn);
+    const { tokenA, tokenB, ...pool } = await this.getFeeState(poolId);
+    const tokenInIsA = this.tokenInIsA(poolId, { tokenA, tokenB }, tokenIn);
+
+    const fee = calculateDynamicFee(pool, amount);
+    return {
+      amountIn: amount,
+      amountOut: getDynamicAmountOut(pool, tokenInIsA, amount, fee),
+      fee,
+      tokenIn: getAddress(tokenIn),
+      tokenOut: tokenInIsA ? tokenB : tokenA,
+      pool,
+    };
+  }
+
+  async getUserStats(user: Address): Promise<{ tradingScore: bigint; availableRewards: bigint }> {
+    const [tradingScore, availableRewards] = await this.contract.read.getUserStats([user]);
+    return { tradingScore, availableRewards };
+  }
+
+  async createPool(tokenA: Address, tokenB: Address): Promise<TxResult & { poolId: Hex }> {
+    const tx = await this.send("createPool", () =>
+      this.contract.write.createPool([tokenA, tokenB], { account: this.account })
+    );
+    return { ...tx, poolId: this.eventArgs<{ poolId: Hex }>(tx, "PoolCreated").poolId };
+  }
+
+  async addLiquidity(
+    poolId: Hex,
+    amountA: Amount,
+    amountB: Amount,
+    options: TokenApprovalOptions = {}
+  ): Promise<TxResult & { amountA: bigint; amountB: bigint }> {
+    const [a, b] = [toUnits(amountA), toUnits(amountB)];
+    if (options.approve ?? true) {
+      const { tokenA, tokenB } = await this.getPoolInfo(poolId);
+      await this.ensureAllowance(tokenA, a);
+      await this.ensureAllowance(tokenB, b);
+    }
+
+    const tx = await this.send("addLiquidity", () =>
+      this.contract.write.addLiquidity([poolId, a, b], { account: this.account })
+    );
+    return { ...tx, ...this.eventArgs<{ amountA: bigint; amountB: bigint }>(tx, "LiquidityAdded") };
+  }
+
+  /**
+   * minAmountOut보다 적게 받게 되면 컨트랙트가 "Insufficient output amount"로 revert
+   */
+  async swap(
+    poolId: Hex,
+    tokenIn: Address,
+    amountIn: Amount,
+    minAmountOut: Amount = 0n,
+    options: TokenApprovalOptions = {}
+  ): Promise<TxResult & IntelligentSwapResult> {
+    const amount = toUnits(amountIn);
+    if (options.approve ?? true) {
+      await this.ensureAllowance(tokenIn, amount);
+    }
+
+    const tx = await this.send("swap", () =>
+      this.contract.write.swap([poolId, tokenIn, amount, toUnits(minAmountOut)], { account: this.account })
+    );
+    return { ...tx, ...this.eventArgs<IntelligentSwapResult>(tx, "Swap") };
+  }
+
+  private tokenInIsA(poolId: Hex, pool: { tokenA: Address; tokenB: Address }, tokenIn: Address): boolean {
+    const token = getAddress(tokenIn);
+    if (token !== pool.tokenA && token !== pool.tokenB) {
+      throw new Error(`풀 ${poolId}에 없는 토큰입니다: ${token}`);
+    }
+    return token === pool.tokenA;
+  }
+}
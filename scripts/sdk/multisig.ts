@@ -0,0 +1,452 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeFunctionData, getAddress, type Address, type Hash, type Hex } from "viem";
+
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import {
+  previewTransaction,
+  SPENDING_DAY,
+  SPENDING_MONTH,
+  TIMELOCK_DELAYS,
+  type MultiSigPolicyModel,
+  type SecurityPolicy,
+  type TransactionPreview,
+} from "../multisig/policy";
+import {
+  ContractClient,
+  enumIndex,
+  enumName,
+  resolveContract,
+  toUnits,
+  type Amount,
+  type ClientOptions,
+  type TxResult,
+} from "./client";
+
+/**
+ * 🔐 IntelligentMultiSig 클라이언트
+ *
+ *   const wallet = await MultiSigClient.connect(hre, { wallet: owner1 });
+ *   await wallet.fund("5");
+ *   const { txId, requiredConfirmations } = await wallet.submitTransaction({ to: bob, value: "1" });
+ *   const { executed } = await wallet.connect(owner2).confirmTransaction(txId);   // 조건 충족 시 자동 실행
+ *   const preview = await wallet.previewTransaction({ to: bob, value: "6", txType: "HIGH_VALUE" });  // 제출 전 정책 계산
+ *   await wallet.requestRecovery(lostOwner, newOwner, guardians);                 // 보호자 2/3 승인 후 executeRecovery
+ */
+
+export const TRANSACTION_TYPES = [
+  "NORMAL",
+  "HIGH_VALUE",
+  "CONTRACT_INTERACTION",
+  "EMERGENCY",
+  "GOVERNANCE",
+  "RECOVERY",
+] as const;
+
+export type TransactionTypeName = (typeof TRANSACTION_TYPES)[number];
+
+export interface WalletStats {
+  balance: bigint;
+  pendingTransactions: bigint;
+  avgRiskScore: bigint;
+  emergencyTransactionCount: bigint;
+  emergencyMode: boolean;
+  totalOwners: bigint;
+  baseRequired: bigint;
+}
+
+export interface RiskFactors {
+  amountRisk: bigint;
+  recipientRisk: bigint;
+  dataComplexity: bigint;
+  timeRisk: bigint;
+  frequencyRisk: bigint;
+}
+
+export interface MultiSigTransaction {
+  txId: bigint;
+  to: Address;
+  value: bigint;
+  data: Hex;
+  executed: boolean;
+  confirmations: bigint;
+  riskScore: bigint;
+  // 이 시각 이후 실행 가능
+  timelock: bigint;
+  submissionTime: bigint;
+  submitter: Address;
+  txType: TransactionTypeName;
+  riskFactors: RiskFactors;
+  requiredConfirmations: bigint;
+  executable: boolean;
+}
+
+export interface OwnerInfo {
+  address: Address;
+  name: string;
+  isActive: boolean;
+  reputation: bigint;
+  lastActivity: bigint;
+  isEmergencyContact: boolean;
+  dailySpent: bigint;
+  monthlySpent: bigint;
+}
+
+export interface SubmittedTransaction {
+  txId: bigint;
+  submitter: Address;
+  to: Address;
+  value: bigint;
+  txType: TransactionTypeName;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+export interface ExecutedTransaction {
+  txId: bigint;
+  success: boolean;
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+export interface RecoveryRequest {
+  oldOwner: Address;
+  // 요청 트랜잭션 calldata의 새 소유자 (컨트랙트는 저장하지 않음, 다른 컨트랙트를 거친 요청이면 undefined)
+  newOwner?: Address;
+  requester: Address;
+  guardians: Address[];
+  approvedBy: Address[];
+  // executeRecovery에 필요한 승인 수: 보호자 수 × 2 / 3 (내림)
+  requiredApprovals: bigint;
+  requestedAt: bigint;
+  // 이 시각까지 승인 가능 (RECOVERY_PERIOD), 실행에는 기한이 없음
+  approvalDeadline: bigint;
+  transactionHash: Hash;
+}
+
+export interface TransactionDraft {
+  to: Address;
+  // ETH 단위
+  value?: Amount;
+  data?: Hex;
+  txType?: TransactionTypeName | number;
+}
+
+export class MultiSigClient extends ContractClient<EcosystemContract<"multiSig">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.multiSig.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<MultiSigClient> {
+    return new MultiSigClient(hre, await resolveContract(hre, "multiSig", options), options.wallet);
+  }
+
+  async getWalletStats(): Promise<WalletStats> {
+    const [
+      balance,
+      pendingTransactions,
+      avgRiskScore,
+      emergencyTransactionCount,
+      emergencyMode,
+      totalOwners,
+      baseRequired,
+    ] = await this.contract.read.getWalletStats();
+    return {
+      balance,
+      pendingTransactions,
+      avgRiskScore,
+      emergencyTransactionCount,
+      emergencyMode,
+      totalOwners,
+      baseRequired,
+    };
+  }
+
+  async getSecurityPolicy(): Promise<SecurityPolicy> {
+    const [dailyLimit, monthlyLimit, emergencyDelay, highValueThreshold, emergencyMode, emergencyActivatedAt] =
+      await this.contract.read.securityPolicy();
+    return { dailyLimit, monthlyLimit, emergencyDelay, highValueThreshold, emergencyMode, emergencyActivatedAt };
+  }
+
+  /**
+   * 정책 계산에 필요한 상태 (scripts/multisig/policy.ts)
+   * @param keys.recipients suspiciousActivity를 읽을 받는 주소
+   * @param keys.spenders dailySpent / monthlySpent를 읽을 소유자
+   * @param keys.timestamps 한도 초기화 여부(lastResetDay / lastResetMonth)를 읽을 시각
+   */
+  async getPolicyModel(
+    keys: { recipients?: readonly Address[]; spenders?: readonly Address[]; timestamps?: readonly bigint[] } = {}
+  ): Promise<MultiSigPolicyModel> {
+    const [policy, stats, required] = await Promise.all([
+      this.getSecurityPolicy(),
+      this.getWalletStats(),
+      this.contract.read.required(),
+    ]);
+    const model: MultiSigPolicyModel = {
+      policy,
+      ownerCount: stats.totalOwners,
+      required,
+      balance: stats.balance,
+      suspiciousActivity: {},
+      dailySpent: {},
+      monthlySpent: {},
+      resetDays: [],
+      resetMonths: [],
+    };
+
+    for (const recipient of keys.recipients ?? []) {
+      model.suspiciousActivity[getAddress(recipient)] = await this.contract.read.suspiciousActivity([recipient]);
+    }
+    for (const spender of keys.spenders ?? []) {
+      model.dailySpent[getAddress(spender)] = await this.contract.read.dailySpent([spender]);
+      model.monthlySpent[getAddress(spender)] = await this.contract.read.monthlySpent([spender]);
+    }
+    for (const timestamp of keys.timestamps ?? []) {
+      const [day, month] = [timestamp / SPENDING_DAY, timestamp / SPENDING_MONTH];
+      if (!model.resetDays.includes(day) && (await this.contract.read.lastResetDay([day])) === day) {
+        model.resetDays.push(day);
+      }
+      if (!model.resetMonths.includes(month) && (await this.contract.read.lastResetMonth([month])) === month) {
+        model.resetMonths.push(month);
+      }
+    }
+    return model;
+  }
+
+  /**
+   * 제출 전 위험 점수, 필요한 승인 수, 타임락, 실행 시 한도를 계산합니다 (아무것도 전송하지 않음)
+   * @param options.executor 타임락이 풀리자마자 실행할 소유자 (기본: 연결된 지갑)
+   * @param options.timestamp 제출 블록 시각 (기본: 다음 블록 예상 시각)
+   */
+  async previewTransaction(
+    draft: TransactionDraft,
+    options: { executor?: Address; timestamp?: bigint } = {}
+  ): Promise<TransactionPreview> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const timestamp = options.timestamp ?? nextBlockTimestamp((await publicClient.getBlock()).timestamp);
+    const executor = options.executor ?? (await this.sender());
+    const txType = TRANSACTION_TYPES[enumIndex(TRANSACTION_TYPES, draft.txType ?? "NORMAL", "트랜잭션 타입")];
+    const tx = { to: getAddress(draft.to), value: toUnits(draft.value ?? 0n), data: draft.data ?? "0x", txType };
+
+    // 실행 시각은 타임락에 달려 있으므로 가능한 타임락 해제 시각의 초기화 여부를 모두 읽음
+    const delays = [0n, ...Object.values(TIMELOCK_DELAYS)];
+    const model = await this.getPolicyModel({
+      recipients: [tx.to],
+      spenders: [executor],
+      timestamps: delays.map((delay) => timestamp + delay),
+    });
+    return previewTransaction(model, tx, { timestamp, executor });
+  }
+
+  async getTransaction(txId: bigint): Promise<MultiSigTransaction> {
+    const [transaction, riskFactors, requiredConfirmations, executable] =
+      await this.contract.read.getTransactionDetails([txId]);
+    return {
+      txId,
+      ...transaction,
+      txType: enumName(TRANSACTION_TYPES, transaction.txType),
+      riskFactors,
+      requiredConfirmations,
+      executable,
+    };
+  }
+
+  async getOwnerInfo(owner: Address): Promise<OwnerInfo> {
+    const [info, dailySpent, monthlySpent, isEmergencyContact] = await this.contract.read.getOwnerInfo([owner]);
+    return {
+      address: info.addr,
+      name: info.name,
+      isActive: info.isActive,
+      reputation: info.reputation,
+      lastActivity: info.lastActivity,
+      isEmergencyContact,
+      dailySpent,
+      monthlySpent,
+    };
+  }
+
+  /**
+   * 현재 소유자 목록 (owners 배열 순서)
+   */
+  async getOwners(): Promise<OwnerInfo[]> {
+    const { totalOwners } = await this.getWalletStats();
+    const owners: OwnerInfo[] = [];
+    for (let i = 0n; i < totalOwners; i++) {
+      const [address] = await this.contract.read.owners([i]);
+      owners.push(await this.getOwnerInfo(address));
+    }
+    return owners;
+  }
+
+  async isConfirmedBy(txId: bigint, owner: Address): Promise<boolean> {
+    return this.contract.read.confirmations([txId, owner]);
+  }
+
+  async getSubmissions(fromBlock = 0n, toBlock?: bigint): Promise<SubmittedTransaction[]> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const logs = await publicClient.getContractEvents({
+      address: this.address,
+      abi: this.contract.abi,
+      eventName: "TransactionSubmitted",
+      fromBlock,
+      toBlock,
+    });
+    return logs.map((log) => {
+      const args = log.args as { txId: bigint; submitter: Address; to: Address; value: bigint; txType: number };
+      return {
+        txId: args.txId,
+        submitter: getAddress(args.submitter),
+        to: getAddress(args.to),
+        value: args.value,
+        txType: enumName(TRANSACTION_TYPES, args.txType),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      };
+    });
+  }
+
+  async getExecutions(fromBlock = 0n, toBlock?: bigint): Promise<ExecutedTransaction[]> {
+    const publicClient = await this.hre.viem.getPublicClient();
+    const logs = await publicClient.getContractEvents({
+      address: this.address,
+      abi: this.contract.abi,
+      eventName: "TransactionExecuted",
+      fromBlock,
+      toBlock,
+    });
+    return logs.map((log) => {
+      const args = log.args as { txId: bigint; success: boolean };
+      return { ...args, blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+    });
+  }
+
+  /**
+   * 진행 중인 복구 요청 (없으면 undefined)
+   * 보호자 목록은 마지막 RecoveryRequested 이벤트에서, 승인은 recoveryApprovals에서 읽습니다.
+   */
+  async getRecoveryRequest(oldOwner: Address): Promise<RecoveryRequest | undefined> {
+    const requestedAt = await this.contract.read.recoveryRequestTime([oldOwner]);
+    if (requestedAt === 0n) return undefined;
+
+    const publicClient = await this.hre.viem.getPublicClient();
+    const logs = await publicClient.getContractEvents({
+      address: this.address,
+      abi: this.contract.abi,
+      eventName: "RecoveryRequested",
+      args: { owner: oldOwner },
+      fromBlock: 0n,
+    });
+    const log = logs[logs.length - 1];
+    const guardians = (log.args as { guardians: readonly Address[] }).guardians.map((g) => getAddress(g));
+
+    const approvedBy: Address[] = [];
+    for (const guardian of guardians) {
+      if (await this.contract.read.recoveryApprovals([oldOwner, guardian])) approvedBy.push(guardian);
+    }
+
+    const tx = await publicClient.getTransaction({ hash: log.transactionHash });
+    let newOwner: Address | undefined;
+    if (tx.to !== null && getAddress(tx.to) === this.address) {
+      const { functionName, args } = decodeFunctionData({ abi: this.contract.abi, data: tx.input });
+      if (functionName === "requestRecovery") newOwner = getAddress(args[1]);
+    }
+
+    return {
+      oldOwner: getAddress(oldOwner),
+      newOwner,
+      requester: getAddress(tx.from),
+      guardians,
+      approvedBy,
+      requiredApprovals: (BigInt(guardians.length) * 2n) / 3n,
+      requestedAt,
+      approvalDeadline: requestedAt + (await this.contract.read.RECOVERY_PERIOD()),
+      transactionHash: log.transactionHash,
+    };
+  }
+
+  async isEmergencyContact(address: Address): Promise<boolean> {
+    return this.contract.read.emergencyContacts([address]);
+  }
+
+  /**
+   * 지갑에 ETH 입금 (receive)
+   */
+  async fund(amount: Amount): Promise<TxResult> {
+    const wallet = this.wallet ?? (await this.hre.viem.getWalletClients())[0];
+    return this.send("receive", () =>
+      wallet.sendTransaction({ to: this.address, value: toUnits(amount), account: wallet.account!, chain: wallet.chain })
+    );
+  }
+
+  async submitTransaction(
+    draft: TransactionDraft
+  ): Promise<TxResult & { txId: bigint; riskScore: bigint; requiredConfirmations: bigint }> {
+    const typeIndex = enumIndex(TRANSACTION_TYPES, draft.txType ?? "NORMAL", "트랜잭션 타입");
+    const tx = await this.send("submitTransaction", () =>
+      this.contract.write.submitTransaction([draft.to, toUnits(draft.value ?? 0n), draft.data ?? "0x", typeIndex], {
+        account: this.account,
+      })
+    );
+    const { txId, riskScore, requiredConfirmations } = this.eventArgs<{
+      txId: bigint;
+      riskScore: bigint;
+      requiredConfirmations: bigint;
+    }>(tx, "RiskAnalysisCompleted");
+    return { ...tx, txId, riskScore, requiredConfirmations };
+  }
+
+  /**
+   * 승인. 필요한 승인 수와 타임락을 모두 충족하면 같은 트랜잭션에서 자동 실행됩니다.
+   */
+  async confirmTransaction(txId: bigint): Promise<TxResult & { executed: boolean; success?: boolean }> {
+    const tx = await this.send("confirmTransaction", () =>
+      this.contract.write.confirmTransaction([txId], { account: this.account })
+    );
+    return { ...tx, ...executionOf(tx) };
+  }
+
+  async executeTransaction(txId: bigint): Promise<TxResult & { executed: boolean; success?: boolean }> {
+    const tx = await this.send("executeTransaction", () =>
+      this.contract.write.executeTransaction([txId], { account: this.account })
+    );
+    return { ...tx, ...executionOf(tx) };
+  }
+
+  /**
+   * 비상 모드 활성화 (비상 연락처만). 비상 모드에서는 submitTransaction이 막힙니다.
+   */
+  async activateEmergencyMode(): Promise<TxResult> {
+    return this.send("activateEmergencyMode", () =>
+      this.contract.write.activateEmergencyMode({ account: this.account })
+    );
+  }
+
+  /**
+   * 소유자 교체 요청. 누구나 보낼 수 있고, 같은 소유자에 다시 요청하면 보호자와 요청 시각을 덮어씁니다.
+   */
+  async requestRecovery(oldOwner: Address, newOwner: Address, guardians: readonly Address[]): Promise<TxResult> {
+    return this.send("requestRecovery", () =>
+      this.contract.write.requestRecovery([oldOwner, newOwner, [...guardians]], { account: this.account })
+    );
+  }
+
+  async approveRecovery(oldOwner: Address): Promise<TxResult> {
+    return this.send("approveRecovery", () =>
+      this.contract.write.approveRecovery([oldOwner], { account: this.account })
+    );
+  }
+
+  async executeRecovery(oldOwner: Address, newOwner: Address): Promise<TxResult> {
+    return this.send("executeRecovery", () =>
+      this.contract.write.executeRecovery([oldOwner, newOwner], { account: this.account })
+    );
+  }
+}
+
+// 로컬 노드는 직전 블록 + 1초와 현재 시각 중 늦은 쪽으로 다음 블록을 채굴함
+function nextBlockTimestamp(latest: bigint): bigint {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  return now > latest ? now : latest + 1n;
+}
+
+function executionOf(tx: TxResult): { executed: boolean; success?: boolean } {
+  const executed = tx.events.find((e) => e.name === "TransactionExecuted");
+  return { executed: executed !== undefined, success: executed?.args.success as boolean | undefined };
+}
@@ -0,0 +1,219 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Address } from "viem";
+
+import {
+  assertSlippage,
+  quoteSwap,
+  type SlippageOptions,
+  type SwapFee,
+  type SwapQuote,
+} from "../dex/quote";
+import { ECOSYSTEM_CONTRACTS, type EcosystemContract } from "../lib/registry";
+import { ContractClient, resolveContract, toUnits, type Amount, type ClientOptions, type TxResult } from "./client";
+
+/**
+ * 🔄 SimpleDEX 클라이언트
+ *
+ *   const dex = await SimpleDexClient.connect(hre, { wallet: alice });
+ *   await dex.addLiquidity("1000", "2000");               // 필요하면 approve까지 처리
+ *   const { amountOut } = await dex.swap("AtoB", "10");
+ *   const quote = await dex.quote("AtoB", "10");            // 예상 수령량, 가격 영향, 실효 가격
+ *   await dex.swapWithProtection("AtoB", "10", { reference: quote, slippageBps: 50 });
+ *   const { reserveA, reserveB } = await dex.getPoolStats();
+ */
+
+export type SwapDirection = "AtoB" | "BtoA";
+
+export interface PoolStats {
+  reserveA: bigint;
+  reserveB: bigint;
+  totalLiquidity: bigint;
+  // 수수료율 (%) - 컨트랙트가 정수로 반환하므로 0.3%는 0
+  feePercent: bigint;
+}
+
+export interface PoolPrice {
+  // 1 토큰A = ? 토큰B (1e18 기준)
+  priceAinB: bigint;
+  // 1 토큰B = ? 토큰A (1e18 기준)
+  priceBinA: bigint;
+}
+
+export interface UserLiquidity {
+  liquidity: bigint;
+  shareA: bigint;
+  shareB: bigint;
+  // 지분율 (0.01% 단위)
+  shareBps: bigint;
+}
+
+export interface LiquidityChange {
+  amountA: bigint;
+  amountB: bigint;
+  liquidity: bigint;
+}
+
+export interface SwapResult {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface TokenApprovalOptions {
+  // false면 allowance를 확인하지 않음 (기본 true: 부족하면 approve 트랜잭션 먼저 전송)
+  approve?: boolean;
+}
+
+export interface ProtectedSwapOptions extends SlippageOptions, TokenApprovalOptions {
+  // 슬리피지 기준이 되는 이전 견적 (없으면 전송 직전 견적 기준)
+  reference?: SwapQuote;
+}
+
+export class SimpleDexClient extends ContractClient<EcosystemContract<"simpleDEX">> {
+  protected readonly artifact = ECOSYSTEM_CONTRACTS.simpleDEX.artifact;
+
+  static async connect(hre: HardhatRuntimeEnvironment, options: ClientOptions = {}): Promise<SimpleDexClient> {
+    return new SimpleDexClient(hre, await resolveContract(hre, "simpleDEX", options), options.wallet);
+  }
+
+  async getTokens(): Promise<{ tokenA: Address; tokenB: Address }> {
+    const [tokenA, tokenB] = await Promise.all([this.contract.read.tokenA(), this.contract.read.tokenB()]);
+    return { tokenA, tokenB };
+  }
+
+  async getPoolStats(): Promise<PoolStats> {
+    const [reserveA, reserveB, totalLiquidity, feePercent] = await this.contract.read.getPoolStats();
+    return { reserveA, reserveB, totalLiquidity, feePercent };
+  }
+
+  async getPrice(): Promise<PoolPrice> {
+    const [priceAinB, priceBinA] = await this.contract.read.getPrice();
+    return { priceAinB, priceBinA };
+  }
+
+  async getFee(): Promise<SwapFee> {
+    const [numerator, denominator] = await Promise.all([
+      this.contract.read.FEE_NUMERATOR(),
+      this.contract.read.FEE_DENOMINATOR(),
+    ]);
+    return { numerator, denominator };
+  }
+
+  async getUserLiquidity(user: Address): Promise<UserLiquidity> {
+    const [liquidity, shareA, shareB, shareBps] = await this.contract.read.getUserLiquidityInfo([user]);
+    return { liquidity, shareA, shareB, shareBps };
+  }
+
+  /**
+   * 현재 준비금 기준 예상 출력량
+   */
+  async getAmountOut(direction: SwapDirection, amountIn: Amount): Promise<bigint> {
+    const { reserveA, reserveB } = await this.getPoolStats();
+    const [reserveIn, reserveOut] = direction === "AtoB" ? [reserveA, reserveB] : [reserveB, reserveA];
+    return this.contract.read.getAmountOut([toUnits(amountIn), reserveIn, reserveOut]);
+  }
+
+  /**
+   * 현재 준비금 기준 오프체인 견적 (getAmountOut 재현 + 가격 영향/실효 가격)
+   */
+  async quote(direction: SwapDirection, amountIn: Amount, blockNumber?: bigint): Promise<SwapQuote> {
+    const [[reserveA, reserveB], fee] = await Promise.all([
+      this.contract.read.getPoolStats({ blockNumber }),
+      this.getFee(),
+    ]);
+    const [reserveIn, reserveOut] = direction === "AtoB" ? [reserveA, reserveB] : [reserveB, reserveA];
+    return quoteSwap(toUnits(amountIn), reserveIn, reserveOut, fee);
+  }
+
+  /**
+   * 시뮬레이션 후 스왑
+   *   1. 같은 블록 기준으로 견적을 내고 스왑을 eth_call로 시뮬레이션 (revert면 ContractRevertError)
+   *   2. 예상 수령량이 minAmountOut 또는 슬리피지 기준(reference 견적 대비)보다 적으면
+   *      트랜잭션을 보내지 않고 SlippageExceededError (approve 전에 한 번, 시뮬레이션 때 한 번 더 확인)
+   * 컨트랙트에 최소 수령량 인자가 없으므로 시뮬레이션과 채굴 사이의 가격 변동은 막지 못합니다.
+   */
+  async swapWithProtection(
+    direction: SwapDirection,
+    amountIn: Amount,
+    options: ProtectedSwapOptions = {}
+  ): Promise<TxResult & SwapResult & { quote: SwapQuote; minAmountOut: bigint }> {
+    const amount = toUnits(amountIn);
+    if (options.reference && options.reference.amountIn !== amount) {
+      throw new Error(`reference 견적의 입력량(${options.reference.amountIn})이 스왑 입력량(${amount})과 다릅니다`);
+    }
+
+    const publicClient = await this.hre.viem.getPublicClient();
+    const quoteAtLatest = async () => {
+      const blockNumber = await publicClient.getBlockNumber();
+      const quote = await this.quote(direction, amount, blockNumber);
+      return { blockNumber, quote, minAmountOut: assertSlippage(options.reference ?? quote, quote.amountOut, options) };
+    };
+
+    let checked = await quoteAtLatest();
+    if (options.approve ?? true) {
+      const { tokenA, tokenB } = await this.getTokens();
+      if (await this.ensureAllowance(direction === "AtoB" ? tokenA : tokenB, amount)) {
+        checked = await quoteAtLatest();
+      }
+    }
+
+    const { blockNumber, quote, minAmountOut } = checked;
+    const account = await this.sender();
+    if (direction === "AtoB") {
+      await this.simulate("swapAtoB", () => this.contract.simulate.swapAtoB([amount], { account, blockNumber }));
+    } else {
+      await this.simulate("swapBtoA", () => this.contract.simulate.swapBtoA([amount], { account, blockNumber }));
+    }
+
+    const swapped = await this.swap(direction, amount, { approve: false });
+    return { ...swapped, quote, minAmountOut };
+  }
+
+  async addLiquidity(
+    amountA: Amount,
+    amountB: Amount,
+    options: TokenApprovalOptions = {}
+  ): Promise<TxResult & LiquidityChange> {
+    const [a, b] = [toUnits(amountA), toUnits(amountB)];
+    if (options.approve ?? true) {
+      const { tokenA, tokenB } = await this.getTokens();
+      await this.ensureAllowance(tokenA, a);
+      await this.ensureAllowance(tokenB, b);
+    }
+
+    const tx = await this.send("addLiquidity", () =>
+      this.contract.write.addLiquidity([a, b], { account: this.account })
+    );
+    return { ...tx, ...this.eventArgs<LiquidityChange>(tx, "LiquidityAdded") };
+  }
+
+  /**
+   * liquidity는 LP 지분 (18 decimals 기준 사람 단위 또는 bigint)
+   */
+  async removeLiquidity(liquidity: Amount): Promise<TxResult & LiquidityChange> {
+    const tx = await this.send("removeLiquidity", () =>
+      this.contract.write.removeLiquidity([toUnits(liquidity)], { account: this.account })
+    );
+    return { ...tx, ...this.eventArgs<LiquidityChange>(tx, "LiquidityRemoved") };
+  }
+
+  async swap(
+    direction: SwapDirection,
+    amountIn: Amount,
+    options: TokenApprovalOptions = {}
+  ): Promise<TxResult & SwapResult> {
+    const amount = toUnits(amountIn);
+    if (options.approve ?? true) {
+      const { tokenA, tokenB } = await this.getTokens();
+      await this.ensureAllowance(direction === "AtoB" ? tokenA : tokenB, amount);
+    }
+
+    const tx = await this.send(direction === "AtoB" ? "swapAtoB" : "swapBtoA", () =>
+      direction === "AtoB"
+        ? this.contract.write.swapAtoB([amount], { account: this.account })
+        : this.contract.write.swapBtoA([amount], { account: this.account })
+    );
+    return { ...tx, ...this.eventArgs<SwapResult>(tx, "TokenSwapped") };
+  }
+}
@@ -0,0 +1,150 @@
+import { spawn } from 'child_process';
+
+import type { Finding, Severity, ToolResult } from './findings';
+
+/**
+ * 정적 분석 도구 실행기
+ * 각 도구를 JSON 모드로 실행하고 결과를 공통 Finding 스키마로 변환합니다.
+ * 발견 사항이 있으면 종료 코드가 0이 아닌 도구가 많으므로, 종료 코드가 아니라 출력으로 성공 여부를 판단합니다.
+ */
+
+export interface Analyzer {
+    name: string;
+    command: string;
+    args: string[];
+    parse: (stdout: string) => Finding[];
+}
+
+interface CommandOutput {
+    code: number | null;
+    stdout: string;
+    stderr: string;
+}
+
+export const ANALYZERS: Analyzer[] = [
+    {
+        name: 'Slither',
+        command: 'slither',
+        args: ['.', '--json', '-', '--filter-paths', 'node_modules'],
+        parse: parseSlitherOutput
+    },
+    {
+        name: 'Solhint',
+        command: 'solhint',
+        args: ['--formatter', 'json', 'contracts/**/*.sol'],
+        parse: parseSolhintOutput
+    }
+];
+
+export async function runAnalyzer(analyzer: Analyzer): Promise<ToolResult> {
+    let output: CommandOutput;
+    try {
+        output = await captureCommand(analyzer.command, analyzer.args);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return { tool: analyzer.name, status: 'missing', findings: [] };
+        }
+        return { tool: analyzer.name, status: 'error', findings: [], error: error.message };
+    }
+
+    try {
+        return { tool: analyzer.name, status: 'ok', findings: analyzer.parse(output.stdout) };
+    } catch (error: any) {
+        const detail = output.stderr.trim().split('\n').slice(-3).join(' ');
+        return {
+            tool: analyzer.name,
+            status: 'error',
+            findings: [],
+            error: `${error.message} (종료 코드 ${output.code}${detail ? `: ${detail}` : ''})`
+        };
+    }
+}
+
+const SLITHER_IMPACT: Record<string, Severity> = {
+    High: 'high',
+    Medium: 'medium',
+    Low: 'low',
+    Informational: 'informational',
+    Optimization: 'informational'
+};
+
+export function parseSlitherOutput(stdout: string): Finding[] {
+    const output = parseJson(stdout, 'Slither');
+    if (!output.success) {
+        throw new Error(`Slither 분석 실패: ${output.error ?? '알 수 없는 오류'}`);
+    }
+
+    return (output.results?.detectors ?? []).map((detector: any): Finding => {
+        const element = detector.elements?.[0];
+        return {
+            tool: 'Slither',
+            rule: detector.check,
+            severity: SLITHER_IMPACT[detector.impact] ?? 'informational',
+            contract: element ? slitherContractName(element) : undefined,
+            file: element?.source_mapping?.filename_relative,
+            line: element?.source_mapping?.lines?.[0],
+            message: String(detector.description ?? '').trim()
+        };
+    });
+}
+
+// 요소(함수, 노드 등)에서 부모를 따라 올라가며 컨트랙트 이름을 찾음
+function slitherContractName(element: any): string | undefined {
+    for (let current = element; current; current = current.type_specific_fields?.parent) {
+        if (current.type === 'contract') return current.name;
+    }
+    return undefined;
+}
+
+export function parseSolhintOutput(stdout: string): Finding[] {
+    const output = parseJson(stdout, 'Solhint');
+    if (!Array.isArray(output)) {
+        throw new Error('Solhint JSON 출력 형식을 인식할 수 없습니다');
+    }
+
+    // 버전에 따라 파일별 { filePath, messages: [...] } 또는 평탄한 메시지 배열을 출력
+    const messages: any[] = output.flatMap((entry: any) =>
+        Array.isArray(entry.messages)
+            ? entry.messages.map((m: any) => ({ ...m, filePath: entry.filePath }))
+            : [entry]
+    );
+
+    return messages
+        .filter((m) => m.ruleId !== undefined)
+        .map((m): Finding => ({
+            tool: 'Solhint',
+            rule: m.ruleId,
+            severity: m.severity === 2 || m.severity === 'Error' ? 'medium' : 'low',
+            contract: m.filePath ? m.filePath.split(/[\\/]/).pop()!.replace(/\.sol$/, '') : undefined,
+            file: m.filePath,
+            line: m.line,
+            message: m.message
+        }));
+}
+
+function parseJson(stdout: string, tool: string): any {
+    // 일부 도구는 JSON 앞에 진행 메시지를 출력하므로 첫 '{' 또는 '['부터 파싱
+    const start = stdout.search(/[[{]/);
+    if (start < 0) {
+        throw new Error(`${tool} 출력에서 JSON을 찾을 수 없습니다`);
+    }
+
+    try {
+        return JSON.parse(stdout.slice(start));
+    } catch (error: any) {
+        throw new Error(`${tool} JSON 파싱 실패: ${error.message}`);
+    }
+}
+
+function captureCommand(command: string, args: string[]): Promise<CommandOutput> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args);
+        let stdout = '';
+        let stderr = '';
+
+        child.stdout.on('data', (chunk) => (stdout += chunk));
+        child.stderr.on('data', (chunk) => (stderr += chunk));
+        child.on('error', reject);
+        child.on('close', (code) => resolve({ code, stdout, stderr }));
+    });
+}
@@ -0,0 +1,156 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * 컨트랙트 크기 검증 (EIP-170 / EIP-3860)
+ * 컴파일된 아티팩트의 런타임/초기화 바이트코드 크기를 제한값과 비교합니다.
+ */
+
+export const RUNTIME_SIZE_LIMIT = 24_576; // EIP-170
+export const INITCODE_SIZE_LIMIT = 49_152; // EIP-3860
+
+export type SizeStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface ContractSize {
+    contract: string;
+    sourceName: string;
+    runtimeSize: number;
+    initcodeSize: number;
+    runtimeHeadroom: number; // 남은 비율 (%)
+    initcodeHeadroom: number;
+    status: SizeStatus;
+}
+
+export interface ContractSizeReport {
+    generatedAt: string;
+    warnThresholdPercent: number;
+    limits: { runtime: number; initcode: number };
+    contracts: ContractSize[];
+    passed: boolean;
+}
+
+export interface ContractSizeOptions {
+    artifactsDir: string;
+    // 제한값 대비 사용률이 이 값(%) 이상이면 경고로 간주하고 실패 처리
+    warnThresholdPercent: number;
+    reportFile: string;
+}
+
+/**
+ * 아티팩트 폴더에서 배포 가능한 컨트랙트의 바이트코드 크기를 수집
+ */
+export function collectContractSizes(artifactsDir: string, warnThresholdPercent: number): ContractSize[] {
+    const contractsDir = path.join(artifactsDir, 'contracts');
+    if (!existsSync(contractsDir)) {
+        throw new Error(`아티팩트를 찾을 수 없습니다: ${contractsDir} (먼저 'npm run compile'을 실행하세요)`);
+    }
+
+    const sizes: ContractSize[] = [];
+
+    for (const file of listArtifactFiles(contractsDir)) {
+        const artifact = JSON.parse(readFileSync(file, 'utf8'));
+        const runtimeSize = hexByteLength(artifact.deployedBytecode);
+        const initcodeSize = hexByteLength(artifact.bytecode);
+
+        // 인터페이스/추상 컨트랙트는 바이트코드가 없음
+        if (runtimeSize === 0 && initcodeSize === 0) continue;
+
+        const runtimeUsage = (runtimeSize / RUNTIME_SIZE_LIMIT) * 100;
+        const initcodeUsage = (initcodeSize / INITCODE_SIZE_LIMIT) * 100;
+        const maxUsage = Math.max(runtimeUsage, initcodeUsage);
+
+        let status: SizeStatus = 'ok';
+        if (runtimeSize > RUNTIME_SIZE_LIMIT || initcodeSize > INITCODE_SIZE_LIMIT) {
+            status = 'exceeded';
+        } else if (maxUsage >= warnThresholdPercent) {
+            status = 'warning';
+        }
+
+        sizes.push({
+            contract: artifact.contractName,
+            sourceName: artifact.sourceName,
+            runtimeSize,
+            initcodeSize,
+            runtimeHeadroom: round(100 - runtimeUsage),
+            initcodeHeadroom: round(100 - initcodeUsage),
+            status
+        });
+    }
+
+    // 런타임 크기가 큰 순서로 정렬
+    return sizes.sort((a, b) => b.runtimeSize - a.runtimeSize);
+}
+
+/**
+ * 크기 검증 실행: 표 출력 + JSON 리포트 작성
+ * @returns 모든 컨트랙트가 제한/경고 임계값 안에 있으면 true
+ */
+export function checkContractSizes(options: ContractSizeOptions): ContractSizeReport {
+    const contracts = collectContractSizes(options.artifactsDir, options.warnThresholdPercent);
+
+    printSizeTable(contracts);
+
+    const report: ContractSizeReport = {
+        generatedAt: new Date().toISOString(),
+        warnThresholdPercent: options.warnThresholdPercent,
+        limits: { runtime: RUNTIME_SIZE_LIMIT, initcode: INITCODE_SIZE_LIMIT },
+        contracts,
+        passed: contracts.every((c) => c.status === 'ok')
+    };
+
+    mkdirSync(path.dirname(options.reportFile), { recursive: true });
+    writeFileSync(options.reportFile, JSON.stringify(report, null, 2));
+    console.log(`📝 리포트 저장: ${path.relative(process.cwd(), options.reportFile)}`);
+
+    for (const c of contracts) {
+        if (c.status === 'exceeded') {
+            console.error(`❌ ${c.contract}: 크기 제한 초과 (런타임 ${c.runtimeSize} bytes, 초기화 ${c.initcodeSize} bytes)`);
+        } else if (c.status === 'warning') {
+            console.warn(`⚠️ ${c.contract}: 경고 임계값 ${options.warnThresholdPercent}% 이상 사용`);
+        }
+    }
+
+    return report;
+}
+
+function printSizeTable(contracts: ContractSize[]) {
+    const icon: Record<SizeStatus, string> = { ok: '✅', warning: '⚠️', exceeded: '❌' };
+    const header = ['상태', '컨트랙트', '런타임 (bytes)', '여유', '초기화 (bytes)', '여유'];
+    const rows = contracts.map((c) => [
+        icon[c.status],
+        c.contract,
+        c.runtimeSize.toLocaleString(),
+        `${c.runtimeHeadroom.toFixed(1)}%`,
+        c.initcodeSize.toLocaleString(),
+        `${c.initcodeHeadroom.toFixed(1)}%`
+    ]);
+
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+    const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+
+    console.log(format(header));
+    console.log(widths.map((w) => '-'.repeat(w)).join('  '));
+    rows.forEach((row) => console.log(format(row)));
+}
+
+function listArtifactFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...listArtifactFiles(fullPath));
+        } else if (entry.name.endsWith('.json') && !entry.name.endsWith('.dbg.json')) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+function hexByteLength(hex: string | undefined): number {
+    if (!hex || hex === '0x') return 0;
+    return (hex.startsWith('0x') ? hex.length - 2 : hex.length) / 2;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,163 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+
+import type { Finding, GateResult, Severity, SuppressedFinding, ToolResult } from './findings';
+
+/**
+ * 발견 사항 리포트 출력 (SARIF 2.1.0 / Markdown / JSON)
+ */
+
+const SARIF_LEVEL: Record<Severity, string> = {
+    high: 'error',
+    medium: 'warning',
+    low: 'note',
+    informational: 'note'
+};
+
+const SEVERITY_ICON: Record<Severity, string> = {
+    high: '🔴',
+    medium: '🟠',
+    low: '🟡',
+    informational: '🔵'
+};
+
+const STATUS_LABEL: Record<ToolResult['status'], string> = {
+    ok: '✅ 실행 완료',
+    missing: '⚠️ 미설치',
+    error: '❌ 실행 실패'
+};
+
+export function toSarif(tools: ToolResult[], gate: GateResult) {
+    return {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: tools.map((tool) => {
+            const results = [
+                ...gate.active.filter((f) => f.tool === tool.tool),
+                ...gate.suppressed.filter((f) => f.tool === tool.tool)
+            ];
+
+            return {
+                tool: {
+                    driver: {
+                        name: tool.tool,
+                        rules: [...new Set(results.map((f) => f.rule))].map((id) => ({ id }))
+                    }
+                },
+                invocations: [
+                    {
+                        executionSuccessful: tool.status === 'ok',
+                        toolExecutionNotifications:
+                            tool.status === 'ok'
+                                ? []
+                                : [{ level: 'error', message: { text: tool.error ?? STATUS_LABEL[tool.status] } }]
+                    }
+                ],
+                results: results.map((finding) => ({
+                    ruleId: finding.rule,
+                    level: SARIF_LEVEL[finding.severity],
+                    message: { text: finding.message },
+                    locations: finding.file
+                        ? [
+                              {
+                                  physicalLocation: {
+                                      artifactLocation: { uri: finding.file },
+                                      region: finding.line ? { startLine: finding.line } : undefined
+                                  }
+                              }
+                          ]
+                        : [],
+                    properties: { severity: finding.severity, contract: finding.contract },
+                    suppressions:
+                        'justification' in finding
+                            ? [{ kind: 'external', justification: (finding as SuppressedFinding).justification }]
+                            : undefined
+                }))
+            };
+        })
+    };
+}
+
+export function toMarkdown(tools: ToolResult[], gate: GateResult): string {
+    const lines = [
+        '# 🔒 정적 분석 결과',
+        '',
+        `- 게이트: **${gate.failOn}** 이상 → ${gate.passed ? '✅ 통과' : `❌ 실패 (${gate.blocking.length}건)`}`,
+        `- 발견 사항: ${gate.active.length}건 (억제 ${gate.suppressed.length}건)`,
+        '',
+        '## 도구',
+        '',
+        '| 도구 | 상태 | 발견 사항 |',
+        '|------|------|-----------|',
+        ...tools.map((t) => `| ${t.tool} | ${STATUS_LABEL[t.status]}${t.error ? ` - ${escapeCell(t.error)}` : ''} | ${t.findings.length} |`),
+        ''
+    ];
+
+    if (gate.active.length > 0) {
+        lines.push('## 발견 사항', '', ...findingTable(gate.active), '');
+    }
+
+    if (gate.suppressed.length > 0) {
+        lines.push(
+            '## 억제된 발견 사항',
+            '',
+            '| 도구 | 규칙 | 위치 | 사유 |',
+            '|------|------|------|------|',
+            ...gate.suppressed.map(
+                (f) => `| ${f.tool} | \`${f.rule}\` | ${location(f)} | ${escapeCell(f.justification)} |`
+            ),
+            ''
+        );
+    }
+
+    if (gate.unusedSuppressions.length > 0) {
+        lines.push(
+            '## 사용되지 않은 억제 항목',
+            '',
+            ...gate.unusedSuppressions.map((s) => `- \`${s.rule}\`${s.contract ? ` (${s.contract})` : ''}: ${s.justification}`),
+            ''
+        );
+    }
+
+    return lines.join('\n');
+}
+
+export function writeFindingsReports(reportDir: string, tools: ToolResult[], gate: GateResult) {
+    mkdirSync(reportDir, { recursive: true });
+
+    const files = {
+        'findings.json': JSON.stringify({ generatedAt: new Date().toISOString(), tools, gate }, null, 2),
+        'findings.sarif': JSON.stringify(toSarif(tools, gate), null, 2),
+        'findings.md': toMarkdown(tools, gate)
+    };
+
+    for (const [name, content] of Object.entries(files)) {
+        const file = path.join(reportDir, name);
+        writeFileSync(file, content);
+        console.log(`📝 리포트 저장: ${path.relative(process.cwd(), file)}`);
+    }
+}
+
+function findingTable(findings: Finding[]): string[] {
+    return [
+        '| 심각도 | 도구 | 규칙 | 위치 | 내용 |',
+        '|--------|------|------|------|------|',
+        ...findings.map(
+            (f) =>
+                `| ${SEVERITY_ICON[f.severity]} ${f.severity} | ${f.tool} | \`${f.rule}\` | ${location(f)} | ${escapeCell(firstLine(f.message))} |`
+        )
+    ];
+}
+
+function location(finding: Finding): string {
+    const where = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}` : '-';
+    return finding.contract ? `${finding.contract} (${where})` : where;
+}
+
+function firstLine(text: string): string {
+    return text.split('\n')[0];
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,137 @@
+import { existsSync, readFileSync } from 'fs';
+
+/**
+ * 정적 분석 결과 공통 스키마
+ * Slither/Solhint 등 도구별 출력을 하나의 형식으로 정규화하고,
+ * 억제(suppression) 파일과 심각도 게이트를 적용합니다.
+ */
+
+export const SEVERITIES = ['informational', 'low', 'medium', 'high'] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+export interface Finding {
+    tool: string;
+    rule: string;
+    severity: Severity;
+    contract?: string;
+    file?: string;
+    line?: number;
+    message: string;
+}
+
+export type ToolStatus = 'ok' | 'missing' | 'error';
+
+export interface ToolResult {
+    tool: string;
+    // ok: 정상 실행 (발견 사항이 있어도 ok), missing: 도구 미설치, error: 실행/파싱 실패
+    status: ToolStatus;
+    findings: Finding[];
+    error?: string;
+}
+
+export interface Suppression {
+    rule: string;
+    tool?: string;
+    contract?: string;
+    file?: string;
+    line?: number;
+    justification: string;
+}
+
+export interface SuppressedFinding extends Finding {
+    justification: string;
+}
+
+export interface GateResult {
+    failOn: Severity;
+    active: Finding[];
+    suppressed: SuppressedFinding[];
+    unusedSuppressions: Suppression[];
+    // 게이트 이상 심각도의 미억제 발견 사항
+    blocking: Finding[];
+    passed: boolean;
+}
+
+export function parseSeverity(value: string): Severity {
+    const normalized = value.toLowerCase();
+    if (!(SEVERITIES as readonly string[]).includes(normalized)) {
+        throw new Error(`알 수 없는 심각도: ${value} (사용 가능: ${SEVERITIES.join(', ')})`);
+    }
+    return normalized as Severity;
+}
+
+export function severityRank(severity: Severity): number {
+    return SEVERITIES.indexOf(severity);
+}
+
+/**
+ * 억제 파일 읽기: { "suppressions": [{ "rule", "justification", ... }] }
+ * 사유(justification)가 없는 항목은 허용하지 않습니다.
+ */
+export function loadSuppressions(file: string): Suppression[] {
+    if (!existsSync(file)) return [];
+
+    const parsed = JSON.parse(readFileSync(file, 'utf8'));
+    const suppressions: Suppression[] = parsed.suppressions ?? [];
+
+    suppressions.forEach((s, index) => {
+        if (!s.rule) {
+            throw new Error(`${file}: suppressions[${index}]에 rule이 없습니다`);
+        }
+        if (!s.justification || !s.justification.trim()) {
+            throw new Error(`${file}: suppressions[${index}] (${s.rule})에 justification(사유)이 필요합니다`);
+        }
+    });
+
+    return suppressions;
+}
+
+export function matchesSuppression(finding: Finding, suppression: Suppression): boolean {
+    return (
+        suppression.rule === finding.rule &&
+        (suppression.tool === undefined || suppression.tool === finding.tool) &&
+        (suppression.contract === undefined || suppression.contract === finding.contract) &&
+        (suppression.file === undefined || suppression.file === finding.file) &&
+        (suppression.line === undefined || suppression.line === finding.line)
+    );
+}
+
+/**
+ * 억제 적용 후 failOn 이상 심각도의 발견 사항이 남아 있으면 실패
+ */
+export function applyGate(findings: Finding[], suppressions: Suppression[], failOn: Severity): GateResult {
+    const active: Finding[] = [];
+    const suppressed: SuppressedFinding[] = [];
+    const used = new Set<Suppression>();
+
+    for (const finding of findings) {
+        const suppression = suppressions.find((s) => matchesSuppression(finding, s));
+        if (suppression) {
+            used.add(suppression);
+            suppressed.push({ ...finding, justification: suppression.justification });
+        } else {
+            active.push(finding);
+        }
+    }
+
+    const blocking = active.filter((f) => severityRank(f.severity) >= severityRank(failOn));
+
+    return {
+        failOn,
+        active: sortFindings(active),
+        suppressed: sortFindings(suppressed),
+        unusedSuppressions: suppressions.filter((s) => !used.has(s)),
+        blocking: sortFindings(blocking),
+        passed: blocking.length === 0
+    };
+}
+
+// 심각도 높은 순 → 파일 → 라인
+function sortFindings<T extends Finding>(findings: T[]): T[] {
+    return [...findings].sort(
+        (a, b) =>
+            severityRank(b.severity) - severityRank(a.severity) ||
+            (a.file ?? '').localeCompare(b.file ?? '') ||
+            (a.line ?? 0) - (b.line ?? 0)
+    );
+}
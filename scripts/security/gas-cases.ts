@@ -0,0 +1,155 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-toolbox-viem/network-helpers';
+import hre from 'hardhat';
+import { encodePacked, keccak256, parseEther, type Hash } from 'viem';
+
+import type { GasMeasurement } from './gas-snapshot';
+
+/**
+ * 가스 스냅샷 대상 호출 목록
+ * 각 케이스는 공통 픽스처에서 시작해 준비 작업을 한 뒤, 측정할 트랜잭션의 해시를 돌려줍니다.
+ */
+
+export interface GasCase {
+    id: string; // '<컨트랙트>.<함수>' 형식, 스냅샷 키로 사용
+    run: (fixture: GasFixture) => Promise<Hash>;
+}
+
+type GasFixture = Awaited<ReturnType<typeof deployGasFixture>>;
+
+const LOCK_DURATION = 3600n; // AdvancedLock 최소 잠금 기간 (1시간)
+const LIQUIDITY = parseEther('10000');
+const SWAP_AMOUNT = parseEther('100');
+
+async function deployGasFixture() {
+    const [owner, user1, user2] = await hre.viem.getWalletClients();
+
+    const myToken = await hre.viem.deployContract('MyToken');
+    const pairToken = await hre.viem.deployContract('MyToken');
+    const myNFT = await hre.viem.deployContract('MyNFT');
+
+    const advancedLock = await hre.viem.deployContract('AdvancedLock');
+    const simpleDEX = await hre.viem.deployContract('SimpleDEX', [myToken.address, pairToken.address]);
+    const intelligentDEX = await hre.viem.deployContract('IntelligentDEX');
+    const battleArena = await hre.viem.deployContract('BattleArenaP2E', [myToken.address, myNFT.address]);
+    const multiSig = await hre.viem.deployContract('IntelligentMultiSig', [
+        [owner.account.address, user1.account.address, user2.account.address],
+        2n,
+        ['Owner', 'User1', 'User2']
+    ]);
+    const dao = await hre.viem.deployContract('AIEnhancedDAO', [myToken.address, multiSig.address]);
+
+    return { owner, user1, user2, myToken, pairToken, myNFT, advancedLock, simpleDEX, intelligentDEX, battleArena, multiSig, dao };
+}
+
+export const GAS_CASES: GasCase[] = [
+    {
+        id: 'MyToken.transfer',
+        run: async ({ myToken, user1 }) => myToken.write.transfer([user1.account.address, parseEther('100')])
+    },
+    {
+        id: 'MyNFT.adminMint',
+        run: async ({ myNFT, user1 }) => myNFT.write.adminMint([user1.account.address, 'ipfs://gas-snapshot'])
+    },
+    {
+        id: 'AdvancedLock.createLock',
+        run: async ({ advancedLock, user1 }) =>
+            advancedLock.write.createLock([user1.account.address, LOCK_DURATION], { value: parseEther('1') })
+    },
+    {
+        id: 'AdvancedLock.withdraw',
+        run: async ({ advancedLock, user1 }) => {
+            await waitFor(advancedLock.write.createLock([user1.account.address, LOCK_DURATION], { value: parseEther('1') }));
+            await time.increase(LOCK_DURATION);
+            return advancedLock.write.withdraw([0n], { account: user1.account });
+        }
+    },
+    {
+        id: 'SimpleDEX.addLiquidity',
+        run: async ({ simpleDEX, myToken, pairToken }) => {
+            await waitFor(myToken.write.approve([simpleDEX.address, LIQUIDITY]));
+            await waitFor(pairToken.write.approve([simpleDEX.address, LIQUIDITY]));
+            return simpleDEX.write.addLiquidity([LIQUIDITY, LIQUIDITY]);
+        }
+    },
+    {
+        id: 'SimpleDEX.swapAtoB',
+        run: async ({ simpleDEX, myToken, pairToken }) => {
+            await waitFor(myToken.write.approve([simpleDEX.address, LIQUIDITY + SWAP_AMOUNT]));
+            await waitFor(pairToken.write.approve([simpleDEX.address, LIQUIDITY]));
+            await waitFor(simpleDEX.write.addLiquidity([LIQUIDITY, LIQUIDITY]));
+            return simpleDEX.write.swapAtoB([SWAP_AMOUNT]);
+        }
+    },
+    {
+        id: 'IntelligentDEX.swap',
+        run: async ({ intelligentDEX, myToken, pairToken }) => {
+            const poolId = keccak256(encodePacked(['address', 'address'], [myToken.address, pairToken.address]));
+            await waitFor(intelligentDEX.write.createPool([myToken.address, pairToken.address]));
+            await waitFor(myToken.write.approve([intelligentDEX.address, LIQUIDITY + SWAP_AMOUNT]));
+            await waitFor(pairToken.write.approve([intelligentDEX.address, LIQUIDITY]));
+            await waitFor(intelligentDEX.write.addLiquidity([poolId, LIQUIDITY, LIQUIDITY]));
+            return intelligentDEX.write.swap([poolId, myToken.address, SWAP_AMOUNT, 0n]);
+        }
+    },
+    {
+        id: 'BattleArenaP2E.startBattle',
+        run: async ({ battleArena, myToken, myNFT, user1, user2 }) => {
+            await waitFor(myToken.write.transfer([battleArena.address, parseEther('10000')]));
+            await waitFor(myNFT.write.adminMint([user1.account.address, 'ipfs://attacker']));
+            await waitFor(myNFT.write.adminMint([user2.account.address, 'ipfs://defender']));
+            await waitFor(battleArena.write.initializeCharacter([0n, 0], { account: user1.account })); // WARRIOR
+            await waitFor(battleArena.write.initializeCharacter([1n, 1], { account: user2.account })); // MAGE
+            return battleArena.write.startBattle([0n, 1n, 0], { account: user1.account }); // CASUAL
+        }
+    },
+    {
+        id: 'AIEnhancedDAO.submitProposal',
+        run: async ({ dao }) => dao.write.submitProposal(proposalArgs())
+    },
+    {
+        id: 'AIEnhancedDAO.vote',
+        run: async ({ dao }) => {
+            await waitFor(dao.write.submitProposal(proposalArgs()));
+            return dao.write.vote([1n, 1, 'gas snapshot']); // FOR
+        }
+    },
+    {
+        id: 'IntelligentMultiSig.submitTransaction',
+        run: async ({ multiSig, user2 }) =>
+            multiSig.write.submitTransaction([user2.account.address, 0n, '0x', 0]) // NORMAL
+    }
+];
+
+/**
+ * 모든 케이스를 깨끗한 픽스처 상태에서 실행하고 gasUsed를 수집
+ */
+export async function measureGasCases(cases: GasCase[] = GAS_CASES): Promise<GasMeasurement[]> {
+    const measurements: GasMeasurement[] = [];
+
+    for (const gasCase of cases) {
+        try {
+            const fixture = await loadFixture(deployGasFixture);
+            const receipt = await waitFor(gasCase.run(fixture));
+            measurements.push({ id: gasCase.id, gasUsed: Number(receipt.gasUsed) });
+        } catch (error: any) {
+            measurements.push({ id: gasCase.id, error: error.shortMessage ?? error.message });
+        }
+    }
+
+    return measurements;
+}
+
+async function waitFor(tx: Promise<Hash>) {
+    const publicClient = await hre.viem.getPublicClient();
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: await tx });
+    if (receipt.status !== 'success') {
+        throw new Error(`트랜잭션 실패: ${receipt.transactionHash}`);
+    }
+    return receipt;
+}
+
+function proposalArgs() {
+    const description =
+        '가스 스냅샷 측정을 위한 제안입니다. 트레저리 자금 집행 절차와 투표 흐름의 가스 비용을 추적하여 변경 사항이 비용을 늘리지 않는지 확인합니다.';
+    return ['Gas snapshot proposal', description, 0, '0x'] as const; // FUNDING
+}
@@ -0,0 +1,158 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * 가스 스냅샷 비교 (회귀 감지)
+ * 대표 호출별 gasUsed를 커밋된 스냅샷 파일과 비교합니다.
+ */
+
+export const DEFAULT_SNAPSHOT_FILE = 'gas-snapshot.json';
+export const DEFAULT_REGRESSION_PERCENT = 5;
+
+// 호출 ID (예: 'SimpleDEX.swapAtoB') → gasUsed
+export type GasSnapshot = Record<string, number>;
+
+export interface GasMeasurement {
+    id: string;
+    gasUsed?: number;
+    error?: string; // 실행 중 revert 등으로 측정하지 못한 경우
+}
+
+export type GasDiffStatus = 'unchanged' | 'improved' | 'increased' | 'regressed' | 'new' | 'removed' | 'failed';
+
+export interface GasDiff {
+    id: string;
+    before?: number;
+    after?: number;
+    delta?: number;
+    deltaPercent?: number;
+    status: GasDiffStatus;
+    error?: string;
+}
+
+export interface GasDiffReport {
+    generatedAt: string;
+    thresholdPercent: number;
+    diffs: GasDiff[];
+    passed: boolean;
+}
+
+export function readGasSnapshot(file: string): GasSnapshot {
+    if (!existsSync(file)) return {};
+
+    const parsed = JSON.parse(readFileSync(file, 'utf8'));
+    for (const [id, gas] of Object.entries(parsed)) {
+        if (typeof gas !== 'number') {
+            throw new Error(`${file}: '${id}'의 가스 값이 숫자가 아닙니다`);
+        }
+    }
+    return parsed;
+}
+
+/**
+ * 측정에 성공한 호출만 ID 순으로 정렬해 저장 (diff가 안정적이도록)
+ */
+export function writeGasSnapshot(file: string, measurements: GasMeasurement[]): GasSnapshot {
+    const snapshot: GasSnapshot = {};
+    for (const m of [...measurements].sort((a, b) => a.id.localeCompare(b.id))) {
+        if (m.gasUsed !== undefined) snapshot[m.id] = m.gasUsed;
+    }
+
+    writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+    return snapshot;
+}
+
+/**
+ * 스냅샷과 현재 측정값 비교
+ * - 임계값(%)을 넘게 증가하면 'regressed' → 실패
+ * - 호출이 실행에 실패하면 (스냅샷에 없던 호출도) 'failed' → 실패
+ * - 새로 추가되었거나 사라진 호출은 보고만 함
+ */
+export function compareGasSnapshots(
+    baseline: GasSnapshot,
+    measurements: GasMeasurement[],
+    thresholdPercent: number
+): GasDiffReport {
+    const diffs: GasDiff[] = [];
+    const measuredIds = new Set(measurements.map((m) => m.id));
+
+    for (const m of measurements) {
+        const before = baseline[m.id];
+
+        if (m.gasUsed === undefined) {
+            // 기준이 없는 새 호출이라도 실행에 실패하면 실패
+            diffs.push({ id: m.id, before, status: 'failed', error: m.error });
+            continue;
+        }
+
+        if (before === undefined) {
+            diffs.push({ id: m.id, after: m.gasUsed, status: 'new' });
+            continue;
+        }
+
+        const delta = m.gasUsed - before;
+        const deltaPercent = before === 0 ? 0 : round((delta / before) * 100);
+
+        let status: GasDiffStatus = 'unchanged';
+        if (delta < 0) status = 'improved';
+        else if (delta > 0) status = deltaPercent > thresholdPercent ? 'regressed' : 'increased';
+
+        diffs.push({ id: m.id, before, after: m.gasUsed, delta, deltaPercent, status });
+    }
+
+    for (const [id, before] of Object.entries(baseline)) {
+        if (!measuredIds.has(id)) diffs.push({ id, before, status: 'removed' });
+    }
+
+    return {
+        generatedAt: new Date().toISOString(),
+        thresholdPercent,
+        diffs,
+        passed: diffs.every((d) => d.status !== 'regressed' && d.status !== 'failed')
+    };
+}
+
+export function printGasDiff(report: GasDiffReport) {
+    const icon: Record<GasDiffStatus, string> = {
+        unchanged: '✅',
+        improved: '📉',
+        increased: '📈',
+        regressed: '❌',
+        new: '🆕',
+        removed: '🗑️',
+        failed: '💥'
+    };
+    const header = ['상태', '호출', '이전', '현재', '변화'];
+    const rows = report.diffs.map((d) => [
+        icon[d.status],
+        d.id,
+        d.before?.toLocaleString() ?? '-',
+        d.after?.toLocaleString() ?? (d.error ? '실행 실패' : '-'),
+        d.delta === undefined ? '-' : `${d.delta > 0 ? '+' : ''}${d.delta.toLocaleString()} (${d.deltaPercent}%)`
+    ]);
+
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+    const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ');
+
+    console.log(format(header));
+    console.log(widths.map((w) => '-'.repeat(w)).join('  '));
+    rows.forEach((row) => console.log(format(row)));
+
+    for (const d of report.diffs) {
+        if (d.status === 'regressed') {
+            console.error(`❌ ${d.id}: 가스 사용량이 ${d.deltaPercent}% 증가 (임계값 ${report.thresholdPercent}%)`);
+        } else if (d.status === 'failed') {
+            console.error(`❌ ${d.id}: 실행 실패 - ${d.error}`);
+        }
+    }
+}
+
+export function writeGasDiffReport(file: string, report: GasDiffReport) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(report, null, 2));
+    console.log(`📝 리포트 저장: ${path.relative(process.cwd(), file)}`);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,252 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+import type { Finding, Severity, ToolResult } from './findings';
+
+/**
+ * 프로젝트 전용 정적 검사 엔진
+ * Solidity 소스를 가볍게 파싱(컨트랙트 → 상태 변수 / 함수)한 뒤 규칙 목록을 적용합니다.
+ * 컴파일 없이 동작하므로 외부 도구가 없거나 컴파일이 깨진 상태에서도 실행됩니다.
+ */
+
+export const RULE_ENGINE_TOOL = 'ProjectRules';
+
+export interface SolidityFunction {
+    name: string;
+    header: string; // 'function' 키워드부터 본문 '{' 직전까지 (modifier, visibility 포함)
+    body: string;
+    bodyOffset: number; // 파일 내 본문 시작 위치
+    mutability: 'view' | 'pure' | 'nonpayable' | 'payable';
+    visibility: 'external' | 'public' | 'internal' | 'private';
+}
+
+export interface SolidityContract {
+    name: string;
+    file: string;
+    // constant/immutable을 제외한 상태 변수 이름
+    stateVariables: Set<string>;
+    functions: SolidityFunction[];
+}
+
+export interface RuleMatch {
+    offset: number; // 파일 내 위치 (라인 계산용)
+    message: string;
+    severity?: Severity; // 지정하지 않으면 규칙 기본 심각도
+}
+
+export interface SourceRule {
+    id: string;
+    severity: Severity;
+    description: string;
+    check: (fn: SolidityFunction, contract: SolidityContract) => RuleMatch[];
+}
+
+/**
+ * 소스 폴더의 모든 .sol 파일에 규칙을 적용해 Finding 목록을 반환
+ */
+export function runSourceRules(sourcesDir: string, rules: SourceRule[]): ToolResult {
+    const findings: Finding[] = [];
+
+    try {
+        for (const file of listSolidityFiles(sourcesDir)) {
+            const relativeFile = path.relative(process.cwd(), file).split(path.sep).join('/');
+            const source = readFileSync(file, 'utf8');
+            findings.push(...checkSource(relativeFile, source, rules));
+        }
+    } catch (error: any) {
+        return { tool: RULE_ENGINE_TOOL, status: 'error', findings, error: error.message };
+    }
+
+    return { tool: RULE_ENGINE_TOOL, status: 'ok', findings };
+}
+
+export function checkSource(file: string, source: string, rules: SourceRule[]): Finding[] {
+    const findings: Finding[] = [];
+
+    for (const contract of parseSoliditySource(file, source)) {
+        for (const fn of contract.functions) {
+            for (const rule of rules) {
+                for (const match of rule.check(fn, contract)) {
+                    findings.push({
+                        tool: RULE_ENGINE_TOOL,
+                        rule: rule.id,
+                        severity: match.severity ?? rule.severity,
+                        contract: contract.name,
+                        file,
+                        line: lineAt(source, match.offset),
+                        message: match.message
+                    });
+                }
+            }
+        }
+    }
+
+    return findings;
+}
+
+/**
+ * 주석/문자열을 제거한 뒤 컨트랙트와 함수 구조를 추출
+ * (오프셋이 원본과 같도록 제거한 부분은 공백으로 채움)
+ */
+export function parseSoliditySource(file: string, source: string): SolidityContract[] {
+    const code = stripCommentsAndStrings(source);
+    const contracts: SolidityContract[] = [];
+    const contractPattern = /\b(?:abstract\s+contract|contract|library|interface)\s+(\w+)[^{;]*\{/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = contractPattern.exec(code)) !== null) {
+        const open = match.index + match[0].length - 1;
+        const close = findClosing(code, open, '{', '}');
+        const bodyStart = open + 1;
+        const body = code.slice(bodyStart, close);
+
+        contracts.push({
+            name: match[1],
+            file,
+            stateVariables: collectStateVariables(body),
+            functions: collectFunctions(body, bodyStart)
+        });
+
+        contractPattern.lastIndex = close + 1;
+    }
+
+    return contracts;
+}
+
+function collectFunctions(contractBody: string, baseOffset: number): SolidityFunction[] {
+    const functions: SolidityFunction[] = [];
+    const functionPattern = /\b(?:function\s+(\w+)|constructor|receive|fallback)\s*\(/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = functionPattern.exec(contractBody)) !== null) {
+        const paramsClose = findClosing(contractBody, match.index + match[0].length - 1, '(', ')');
+        const headerEnd = contractBody.slice(paramsClose).search(/[{;]/) + paramsClose;
+
+        // 본문이 없는 선언 (인터페이스, 추상 함수)
+        if (contractBody[headerEnd] === ';') {
+            functionPattern.lastIndex = headerEnd + 1;
+            continue;
+        }
+
+        const close = findClosing(contractBody, headerEnd, '{', '}');
+        const header = contractBody.slice(match.index, headerEnd);
+        const mutability = /\bview\b/.test(header)
+            ? 'view'
+            : /\bpure\b/.test(header)
+              ? 'pure'
+              : /\bpayable\b/.test(header)
+                ? 'payable'
+                : 'nonpayable';
+        // 가시성을 생략한 함수는 public, receive/fallback은 external
+        const visibility =
+            (header.match(/\b(external|public|internal|private)\b/)?.[1] as SolidityFunction['visibility']) ??
+            (/^(receive|fallback)\b/.test(match[0]) ? 'external' : 'public');
+
+        functions.push({
+            name: match[1] ?? match[0].replace(/\s*\($/, ''),
+            header,
+            body: contractBody.slice(headerEnd + 1, close),
+            bodyOffset: baseOffset + headerEnd + 1,
+            mutability,
+            visibility
+        });
+
+        functionPattern.lastIndex = close + 1;
+    }
+
+    return functions;
+}
+
+function collectStateVariables(contractBody: string): Set<string> {
+    const names = new Set<string>();
+
+    // 중첩 블록(함수 본문, struct, enum 등)을 비우고 최상위 선언만 남김
+    let topLevel = '';
+    let depth = 0;
+    for (const char of contractBody) {
+        if (char === '{') depth++;
+        if (depth === 0 || char === '{' || char === '}') topLevel += char;
+        if (char === '}') depth--;
+    }
+
+    for (const segment of topLevel.split(/[;}]/)) {
+        const declaration = segment.slice(segment.lastIndexOf('{') + 1).trim();
+        if (!declaration || /^(function|modifier|event|error|using|constructor|receive|fallback|struct|enum)\b/.test(declaration)) {
+            continue;
+        }
+
+        const left = declaration.split(/=(?!>)/)[0];
+        if (/\b(constant|immutable)\b/.test(left)) continue;
+
+        const name = left.match(/(\w+)\s*$/);
+        if (name) names.add(name[1]);
+    }
+
+    return names;
+}
+
+export function stripCommentsAndStrings(source: string): string {
+    let result = '';
+    let i = 0;
+
+    while (i < source.length) {
+        const two = source.slice(i, i + 2);
+
+        if (two === '//') {
+            while (i < source.length && source[i] !== '\n') {
+                result += ' ';
+                i++;
+            }
+        } else if (two === '/*') {
+            const end = source.indexOf('*/', i + 2);
+            const stop = end < 0 ? source.length : end + 2;
+            result += source.slice(i, stop).replace(/[^\n]/g, ' ');
+            i = stop;
+        } else if (source[i] === '"' || source[i] === "'") {
+            const quote = source[i];
+            result += quote;
+            i++;
+            while (i < source.length && source[i] !== quote) {
+                if (source[i] === '\\') {
+                    result += ' ';
+                    i++;
+                }
+                result += source[i] === '\n' ? '\n' : ' ';
+                i++;
+            }
+            if (i < source.length) result += quote;
+            i++;
+        } else {
+            result += source[i];
+            i++;
+        }
+    }
+
+    return result;
+}
+
+export function findClosing(code: string, openIndex: number, open: string, close: string): number {
+    let depth = 0;
+    for (let i = openIndex; i < code.length; i++) {
+        if (code[i] === open) depth++;
+        else if (code[i] === close && --depth === 0) return i;
+    }
+    throw new Error(`괄호 '${open}'의 짝을 찾을 수 없습니다 (위치 ${openIndex})`);
+}
+
+function lineAt(source: string, offset: number): number {
+    return source.slice(0, offset).split('\n').length;
+}
+
+function listSolidityFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...listSolidityFiles(fullPath));
+        } else if (entry.name.endsWith('.sol')) {
+            files.push(fullPath);
+        }
+    }
+    return files.sort();
+}
@@ -0,0 +1,142 @@
+import { findClosing, type RuleMatch, type SolidityContract, type SolidityFunction, type SourceRule } from './rule-engine';
+
+/**
+ * 프로젝트 전용 보안 규칙
+ * 새 규칙은 SourceRule을 구현해 SOURCE_RULES에 추가하면 됩니다.
+ */
+
+const BLOCK_ENTROPY = /\bblock\.(timestamp|difficulty|prevrandao|number|coinbase)\b|\bblockhash\s*\(|\bnow\b/;
+const WHOLE_BALANCE = /balanceOf\s*\(\s*address\s*\(\s*this\s*\)\s*\)|address\s*\(\s*this\s*\)\s*\.\s*balance/;
+const OUTBOUND_TRANSFER = /\.\s*(transfer|send|safeTransfer)\s*\(|\.\s*call\s*\{\s*value\s*:|\b_transfer\s*\(\s*address\s*\(\s*this\s*\)/;
+const TO_OWNER = /\bowner\s*\(\s*\)|\bmsg\.sender\b/;
+
+export const selfdestructRule: SourceRule = {
+    id: 'selfdestruct',
+    severity: 'high',
+    description: 'selfdestruct 사용 (EIP-6780 이후 코드가 삭제되지 않으며, 잔액이 강제로 전송됨)',
+    check: (fn, contract) =>
+        matchAll(fn, /\bselfdestruct\s*\(/g).map((offset) => ({
+            offset,
+            message: `${contract.name}.${fn.name}에서 selfdestruct를 호출합니다. EIP-6780 이후 같은 트랜잭션에서 생성된 경우가 아니면 코드가 삭제되지 않고 잔액만 전송됩니다.`
+        }))
+};
+
+export const blockRandomnessRule: SourceRule = {
+    id: 'block-randomness',
+    severity: 'high',
+    description: '블록 값(timestamp, difficulty, blockhash 등)으로 만든 난수',
+    check: (fn, contract) =>
+        matchAll(fn, /\bkeccak256\s*\(/g)
+            .filter((offset) => BLOCK_ENTROPY.test(callArguments(fn, offset)))
+            .map((offset) => ({
+                offset,
+                message: `${contract.name}.${fn.name}에서 블록 값으로 난수를 생성합니다. 검증자/호출자가 결과를 예측하거나 조작할 수 있습니다 (VRF 사용 권장).`
+            }))
+};
+
+export const unboundedLoopRule: SourceRule = {
+    id: 'unbounded-loop',
+    severity: 'medium',
+    description: '크기가 계속 늘어나는 상태 배열/카운터를 순회하는 반복문',
+    check: (fn, contract) => {
+        const tracked = storageAliases(fn, contract);
+        const matches: RuleMatch[] = [];
+
+        for (const offset of matchAll(fn, /\b(for|while)\s*\(/g)) {
+            const bound = unboundedBound(loopHeader(fn, offset), tracked);
+            if (!bound) continue;
+
+            // 외부에서만 호출되는 view/pure 함수는 트랜잭션을 막지 않으므로 심각도를 낮춤
+            // (internal/private view 헬퍼는 상태를 바꾸는 함수 안에서도 실행되므로 그대로 둠)
+            const readOnly = fn.mutability === 'view' || fn.mutability === 'pure';
+            const externallyCalled = fn.visibility === 'external' || fn.visibility === 'public';
+            matches.push({
+                offset,
+                severity: readOnly && externallyCalled ? 'low' : undefined,
+                message: `${contract.name}.${fn.name}의 반복문이 상한 없는 '${bound}'에 비례합니다. 데이터가 늘어나면 블록 가스 한도를 넘어 호출이 불가능해질 수 있습니다.`
+            });
+        }
+
+        return matches;
+    }
+};
+
+export const ownerFundDrainRule: SourceRule = {
+    id: 'owner-fund-drain',
+    severity: 'medium',
+    description: '소유자 전용 함수로 컨트랙트 자금을 소유자에게 인출',
+    check: (fn, contract) => {
+        if (!/\bonlyOwner\b/.test(fn.header)) return [];
+
+        const wholeBalance = WHOLE_BALANCE.test(fn.body);
+        const matches: RuleMatch[] = [];
+        let statementStart = 0;
+
+        for (const statement of fn.body.split(';')) {
+            if (OUTBOUND_TRANSFER.test(statement) && (wholeBalance || TO_OWNER.test(statement))) {
+                matches.push({
+                    offset: fn.bodyOffset + statementStart + statement.search(/\S/),
+                    message: wholeBalance
+                        ? `${contract.name}.${fn.name}: 소유자가 컨트랙트 잔액 전체를 인출할 수 있습니다 (사용자 예치금 포함). 타임락/멀티시그 또는 사용자별 환불을 고려하세요.`
+                        : `${contract.name}.${fn.name}: 소유자가 컨트랙트 자금을 자신에게 전송할 수 있습니다.`
+                });
+                break; // 함수당 한 번만 보고
+            }
+            statementStart += statement.length + 1;
+        }
+
+        return matches;
+    }
+};
+
+export const SOURCE_RULES: SourceRule[] = [selfdestructRule, blockRandomnessRule, unboundedLoopRule, ownerFundDrainRule];
+
+// 함수 본문에서 패턴이 나타나는 파일 내 위치 목록
+function matchAll(fn: SolidityFunction, pattern: RegExp): number[] {
+    return [...fn.body.matchAll(pattern)].map((m) => fn.bodyOffset + m.index!);
+}
+
+// 'keccak256(' 위치에서 괄호 안의 인자 텍스트
+function callArguments(fn: SolidityFunction, offset: number): string {
+    const start = offset - fn.bodyOffset;
+    const open = fn.body.indexOf('(', start);
+    return fn.body.slice(open + 1, findClosing(fn.body, open, '(', ')'));
+}
+
+// for (init; condition; step) 또는 while (condition)의 초기식과 조건식
+function loopHeader(fn: SolidityFunction, offset: number): { init: string; condition: string } {
+    const start = offset - fn.bodyOffset;
+    const open = fn.body.indexOf('(', start);
+    const inner = fn.body.slice(open + 1, findClosing(fn.body, open, '(', ')'));
+    const parts = inner.split(';');
+    return parts.length === 3 ? { init: parts[0], condition: parts[1] } : { init: '', condition: inner };
+}
+
+/**
+ * 상태 변수와, 상태 변수에서 복사/참조한 지역 변수 이름
+ * 예: address[] memory specs = battleSpectators[id];
+ */
+function storageAliases(fn: SolidityFunction, contract: SolidityContract): Set<string> {
+    const tracked = new Set(contract.stateVariables);
+    const aliasPattern = /\b(?:memory|storage)\s+(\w+)\s*=\s*(\w+)/g;
+
+    for (const [, alias, source] of fn.body.matchAll(aliasPattern)) {
+        if (tracked.has(source)) tracked.add(alias);
+    }
+
+    return tracked;
+}
+
+// 반복 횟수가 상태 배열 길이나 상태 카운터에 묶여 있으면 그 식을 반환
+// (for (i = swaps.length; i > 0; i--)처럼 길이에서 거꾸로 도는 경우를 위해 초기식도 확인)
+function unboundedBound(loop: { init: string; condition: string }, tracked: Set<string>): string | undefined {
+    for (const [expression, base] of `${loop.init};${loop.condition}`.matchAll(/\b(\w+)(?:\s*\[[^\]]*\]|\s*\.\s*\w+)*\s*\.\s*length\b/g)) {
+        if (tracked.has(base)) return expression.replace(/\s+/g, '');
+    }
+
+    for (const [, name] of loop.condition.matchAll(/[<>]=?\s*(\w+)\b(?!\s*[.([])/g)) {
+        if (tracked.has(name)) return name;
+    }
+
+    return undefined;
+}
@@ -0,0 +1,71 @@
+import path from 'path';
+
+import { measureGasCases } from './gas-cases';
+import {
+    compareGasSnapshots,
+    DEFAULT_REGRESSION_PERCENT,
+    DEFAULT_SNAPSHOT_FILE,
+    printGasDiff,
+    readGasSnapshot,
+    writeGasDiffReport,
+    writeGasSnapshot
+} from './gas-snapshot';
+
+/**
+ * 가스 스냅샷 측정 (hardhat run으로 실행 - 인프로세스 Hardhat 네트워크 사용)
+ *
+ * 환경 변수:
+ *   GAS_SNAPSHOT_UPDATE=true   비교 대신 스냅샷 파일을 현재 측정값으로 갱신
+ *   GAS_REGRESSION_PERCENT     실패로 판단할 증가율 (기본 5)
+ *   GAS_SNAPSHOT_FILE          스냅샷 파일 경로 (기본 gas-snapshot.json)
+ *   GAS_REPORT_FILE            비교 결과 JSON 리포트 경로 (선택)
+ */
+async function main(): Promise<boolean> {
+    const snapshotFile = path.resolve(process.env.GAS_SNAPSHOT_FILE ?? DEFAULT_SNAPSHOT_FILE);
+    const threshold = Number(process.env.GAS_REGRESSION_PERCENT ?? DEFAULT_REGRESSION_PERCENT);
+    if (!Number.isFinite(threshold)) {
+        throw new Error(`GAS_REGRESSION_PERCENT 값이 숫자가 아닙니다: ${process.env.GAS_REGRESSION_PERCENT}`);
+    }
+
+    const measurements = await measureGasCases();
+
+    if (process.env.GAS_SNAPSHOT_UPDATE === 'true') {
+        // 실패한 호출을 빼고 저장하면 그 호출의 회귀를 감지할 수 없으므로 갱신하지 않음
+        const failed = measurements.filter((m) => m.error);
+        if (failed.length > 0) {
+            failed.forEach((m) => console.error(`❌ ${m.id}: 실행 실패 - ${m.error}`));
+            console.error('   스냅샷을 갱신하지 않았습니다.');
+            return false;
+        }
+
+        const snapshot = writeGasSnapshot(snapshotFile, measurements);
+        console.log(`📸 스냅샷 갱신: ${path.relative(process.cwd(), snapshotFile)} (${Object.keys(snapshot).length}개 호출)`);
+        return true;
+    }
+
+    // 기준이 없으면 모든 호출이 'new'가 되어 회귀를 감지할 수 없으므로 실패
+    const baseline = readGasSnapshot(snapshotFile);
+    if (Object.keys(baseline).length === 0) {
+        console.error(`❌ 기준 스냅샷이 없습니다: ${path.relative(process.cwd(), snapshotFile)}`);
+        console.error("   'npm run gas:snapshot'으로 스냅샷을 만든 뒤 커밋하세요.");
+        return false;
+    }
+
+    const report = compareGasSnapshots(baseline, measurements, threshold);
+    printGasDiff(report);
+
+    if (process.env.GAS_REPORT_FILE) {
+        writeGasDiffReport(path.resolve(process.env.GAS_REPORT_FILE), report);
+    }
+
+    return report.passed;
+}
+
+main()
+    .then((passed) => {
+        if (!passed) process.exitCode = 1;
+    })
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,411 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, isHex, type Hex } from "viem";
+
+import {
+  buildExecutionData,
+  formatCallValue,
+  loadCallTargets,
+  previewExecutionData,
+  type CallTargets,
+  type ExecutionPreview,
+} from "../scripts/dao/calldata";
+import { decodeRevert, formatRevert } from "../scripts/lib/revert";
+import { formatDuration, formatTimestamp } from "../scripts/lib/time";
+import {
+  DaoClient,
+  PROPOSAL_TYPES,
+  VOTE_TYPES,
+  type ProposalOutlook,
+  type ProposalTypeName,
+  type VoteTypeName,
+} from "../scripts/sdk";
+import { getDeployedContract, getSigner, parseJsonArray, taskError } from "./utils";
+
+/**
+ * 🏛️ AIEnhancedDAO 제안 라이프사이클 태스크
+ *
+ *   npx hardhat dao:propose --title "보상 풀 확대" --description-file proposal.md --type FUNDING --network localhost
+ *   npx hardhat dao:propose --title "..." --description-file proposal.md \
+ *     --target dao --function withdrawTreasury --args '["1 ether", "multiSig"]' --network localhost
+ *   npx hardhat dao:calldata --target dao --function updateDAOParameters --args '[259200, 10, 60]'   # 인코딩 + 시뮬레이션
+ *   npx hardhat dao:preview --id 1 --network localhost            # 제안의 실행 데이터 해석 + 시뮬레이션
+ *   npx hardhat dao:vote --id 1 --support FOR --reason "찬성" --from 0x... --network localhost
+ *   npx hardhat dao:show --id 1 --network localhost
+ *   npx hardhat dao:watch --id 1 --network localhost             # 투표/정족수/상태 변경 추적 (Ctrl+C로 종료)
+ *   npx hardhat dao:execute --id 1 --fast-forward --network localhost
+ */
+
+// submitProposal의 설명 최소 길이 (바이트)
+const MIN_DESCRIPTION_BYTES = 100;
+
+async function loadDao(hre: HardhatRuntimeEnvironment, taskName: string, from?: string) {
+  const [dao, signer] = await Promise.all([
+    getDeployedContract(hre, taskName, "dao"),
+    getSigner(hre, taskName, from),
+  ]);
+  return new DaoClient(hre, dao, signer);
+}
+
+async function getOutlookOrThrow(dao: DaoClient, taskName: string, id: bigint): Promise<ProposalOutlook> {
+  try {
+    return await dao.getOutlook(id);
+  } catch (error: any) {
+    throw taskError(taskName, error.message);
+  }
+}
+
+function parseChoice<T extends string>(taskName: string, name: string, names: readonly T[], value: string): T {
+  const upper = value.toUpperCase();
+  if (!(names as readonly string[]).includes(upper)) {
+    throw taskError(taskName, `${name}: ${names.join(", ")} 중 하나여야 합니다 (입력: ${value})`);
+  }
+  return upper as T;
+}
+
+function revertMessage(error: unknown): string {
+  return formatRevert(decodeRevert(error), { hint: true });
+}
+
+async function loadTargetsOrThrow(hre: HardhatRuntimeEnvironment, taskName: string): Promise<CallTargets> {
+  try {
+    return await loadCallTargets(hre);
+  } catch (error: any) {
+    throw taskError(taskName, error.message);
+  }
+}
+
+/**
+ * --target/--function/--args → executionData
+ */
+function buildCallOrThrow(
+  taskName: string,
+  targets: CallTargets,
+  args: { target: string; function?: string; args: string }
+): Hex {
+  if (args.function === undefined) throw taskError(taskName, "--target에는 --function이 필요합니다");
+  const callArgs = parseJsonArray(taskName, "--args", args.args);
+  try {
+    const { executionData, call } = buildExecutionData(targets, {
+      target: args.target,
+      functionName: args.function,
+      args: callArgs,
+    });
+    console.log(`🧾 실행 호출: ${call.text}`);
+    return executionData;
+  } catch (error: any) {
+    throw taskError(taskName, error.message);
+  }
+}
+
+function printPreview(targets: CallTargets, preview: ExecutionPreview) {
+  if (preview.executionData === "0x") {
+    console.log("\n🧾 실행 데이터 없음 (가결돼도 호출하지 않음)");
+    return;
+  }
+  console.log(`\n🧾 실행 데이터 (${(preview.executionData.length - 2) / 2}바이트)`);
+  if (preview.call) {
+    console.log(`   호출: ${preview.call.text}`);
+  }
+  if (preview.ok) {
+    const result = preview.result === undefined ? "" : ` → ${formatCallValue(targets.contracts, preview.result)}`;
+    console.log(`   🔬 시뮬레이션 성공${result}`);
+  } else {
+    console.log(`   🔬 시뮬레이션 실패: ${preview.revert}`);
+  }
+}
+
+function percentBar(percent: bigint, required: bigint): string {
+  const width = 20;
+  const filled = Math.round((Number(percent > 100n ? 100n : percent) / 100) * width);
+  return `${"█".repeat(filled).padEnd(width, "░")} ${percent}% (필요 ${required}%)`;
+}
+
+function printOutlook({ proposal, ...outlook }: ProposalOutlook) {
+  const { aiAnalysis } = proposal;
+  console.log(`\n📋 제안 #${proposal.id}: ${proposal.title}`);
+  console.log(`   타입 ${proposal.proposalType}, 상태 ${proposal.status}, 제안자 ${proposal.proposer}`);
+  console.log(`   실행 데이터: ${proposal.executionData === "0x" ? "없음" : proposal.executionData}`);
+
+  console.log("\n🤖 AI 분석");
+  console.table({
+    "종합 점수": proposal.aiScore,
+    "실현 가능성": aiAnalysis.feasibilityScore,
+    "위험도": aiAnalysis.riskAssessment,
+    "예상 영향": aiAnalysis.impactPrediction,
+    "비용 대비 효과": aiAnalysis.costBenefit,
+  });
+
+  console.log("🗳️ 투표 현황 (가중치 적용)");
+  console.log(
+    `   찬성 ${formatEther(proposal.forVotes)} / 반대 ${formatEther(proposal.againstVotes)} / ` +
+      `기권 ${formatEther(proposal.abstainVotes)}`
+  );
+  console.log(`   찬성률 ${percentBar(proposal.currentSupport, proposal.requiredMajority)}`);
+  console.log(
+    `   정족수 ${formatEther(outlook.totalVotes)} / ${formatEther(outlook.quorumVotes)} ${outlook.quorumReached ? "✅" : "⏳"}`
+  );
+
+  if (outlook.votingOpen) {
+    const left = outlook.executableAt - outlook.now;
+    console.log(`\n⏰ 투표 마감 ${formatTimestamp(proposal.deadline)} (${formatDuration(left)} 남음)`);
+  } else if (proposal.status === "ACTIVE") {
+    console.log(`\n⏰ 투표 마감됨 (${formatTimestamp(proposal.deadline)})`);
+  }
+  if (outlook.projectedStatus) {
+    const verb = outlook.executable ? "지금 집계하면" : "현재 추세대로면";
+    console.log(`🔮 ${verb} ${outlook.projectedStatus === "SUCCEEDED" ? "✅ 가결" : "❌ 부결"}`);
+  } else if (proposal.status === "ACTIVE") {
+    console.log("🔮 찬반 투표가 없어 아직 집계할 수 없습니다");
+  }
+}
+
+task("dao:propose", "AIEnhancedDAO에 제안을 제출하고 AI 분석 결과를 출력합니다")
+  .addParam("title", "제안 제목")
+  .addOptionalParam("description", `제안 설명 (${MIN_DESCRIPTION_BYTES}바이트 이상)`)
+  .addOptionalParam("descriptionFile", "설명을 읽을 파일 (--description 대신)")
+  .addOptionalParam("type", `제안 타입 (${PROPOSAL_TYPES.join(" | ")})`, "FUNDING")
+  .addOptionalParam("data", "실행 데이터 (DAO 자신에게 보낼 calldata, 16진수)", "0x")
+  .addOptionalParam("target", "실행할 호출의 대상 컨트랙트 이름 (--data 대신, DAO 자신만 가능: dao)")
+  .addOptionalParam("function", "DAO 함수 이름 또는 시그니처")
+  .addOptionalParam("args", "함수 인자 (JSON 배열)", "[]")
+  .addOptionalParam("from", "제안자 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(
+    async (
+      args: {
+        title: string;
+        description?: string;
+        descriptionFile?: string;
+        type: string;
+        data: string;
+        target?: string;
+        function?: string;
+        args: string;
+        from?: string;
+      },
+      hre
+    ) => {
+      const taskName = "dao:propose";
+      if ((args.description === undefined) === (args.descriptionFile === undefined)) {
+        throw taskError(taskName, "--description과 --description-file 중 하나만 지정하세요");
+      }
+      let description: string;
+      try {
+        description = args.description ?? fs.readFileSync(args.descriptionFile!, "utf8").trim();
+      } catch (error: any) {
+        throw taskError(taskName, `설명 파일을 읽을 수 없습니다: ${error.message}`);
+      }
+      const bytes = Buffer.byteLength(description, "utf8");
+      if (bytes < MIN_DESCRIPTION_BYTES) {
+        throw taskError(taskName, `설명이 너무 짧습니다: ${bytes}바이트 (${MIN_DESCRIPTION_BYTES}바이트 이상)`);
+      }
+      const proposalType = parseChoice<ProposalTypeName>(taskName, "--type", PROPOSAL_TYPES, args.type);
+      if (!isHex(args.data) || args.data.length % 2 !== 0) {
+        throw taskError(taskName, `--data: 잘못된 16진수 '${args.data}'`);
+      }
+      if (args.target !== undefined && args.data !== "0x") {
+        throw taskError(taskName, "--data와 --target 중 하나만 지정하세요");
+      }
+
+      const dao = await loadDao(hre, taskName, args.from);
+      const targets = await loadTargetsOrThrow(hre, taskName);
+      const executionData =
+        args.target === undefined
+          ? (args.data as Hex)
+          : buildCallOrThrow(taskName, targets, { ...args, target: args.target });
+      let submitted;
+      try {
+        submitted = await dao.submitProposal({
+          title: args.title,
+          description,
+          proposalType,
+          executionData,
+        });
+      } catch (error) {
+        throw taskError(taskName, `제안 실패: ${revertMessage(error)}`);
+      }
+
+      console.log(`🚀 트랜잭션 제출: ${submitted.hash} (블록 ${submitted.blockNumber})`);
+      printOutlook(await dao.getOutlook(submitted.proposalId));
+      printPreview(targets, await previewExecutionData(hre, targets, executionData));
+    }
+  );
+
+task("dao:vote", "제안에 찬성/반대/기권 투표합니다")
+  .addParam("id", "제안 ID", undefined, types.bigint)
+  .addParam("support", `투표 (${VOTE_TYPES.join(" | ")})`)
+  .addOptionalParam("reason", "투표 사유", "")
+  .addOptionalParam("from", "투표자 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: { id: bigint; support: string; reason: string; from?: string }, hre) => {
+    const taskName = "dao:vote";
+    const support = parseChoice<VoteTypeName>(taskName, "--support", VOTE_TYPES, args.support);
+    const dao = await loadDao(hre, taskName, args.from);
+
+    const outlook = await getOutlookOrThrow(dao, taskName, args.id);
+    if (!outlook.votingOpen) {
+      const { status, deadline } = outlook.proposal;
+      throw taskError(taskName, `제안 #${args.id}은(는) 투표 중이 아닙니다 (상태 ${status}, 마감 ${formatTimestamp(deadline)})`);
+    }
+
+    let voted;
+    try {
+      voted = await dao.vote(args.id, support, args.reason);
+    } catch (error) {
+      throw taskError(taskName, `투표 실패: ${revertMessage(error)}`);
+    }
+    console.log(`🗳️ ${support} 투표 완료 (가중치 ${formatEther(voted.weight)}, 트랜잭션 ${voted.hash})`);
+    if (voted.quorumReached) console.log("🎯 정족수 도달 (QuorumReached)");
+    printOutlook(await dao.getOutlook(args.id));
+  });
+
+task("dao:show", "제안 정보, AI 분석, 필요 찬성률과 투표 내역을 출력합니다")
+  .addParam("id", "제안 ID", undefined, types.bigint)
+  .setAction(async (args: { id: bigint }, hre) => {
+    const taskName = "dao:show";
+    const dao = await loadDao(hre, taskName);
+    const outlook = await getOutlookOrThrow(dao, taskName, args.id);
+    printOutlook(outlook);
+    const targets = await loadTargetsOrThrow(hre, taskName);
+    printPreview(targets, await previewExecutionData(hre, targets, outlook.proposal.executionData));
+
+    const votes = await dao.getVotes(args.id);
+    if (votes.length === 0) return;
+    console.log(`\n🧾 투표 내역 (${votes.length}건)`);
+    console.table(
+      votes.map((v) => ({
+        투표자: v.voter,
+        선택: v.support,
+        가중치: formatEther(v.weight),
+        사유: v.reason,
+        블록: v.blockNumber,
+      }))
+    );
+  });
+
+task("dao:calldata", "DAO 함수 호출을 제안 실행 데이터로 인코딩하고 DAO 주소로 시뮬레이션합니다")
+  .addParam("target", "대상 컨트랙트 이름 (executeProposal은 DAO 자신만 호출: dao)")
+  .addParam("function", "DAO 함수 이름 또는 시그니처 (오버로드된 함수)")
+  .addOptionalParam("args", "함수 인자 (JSON 배열, 큰 정수는 \"1000\" / \"1.5 ether\" 문자열)", "[]")
+  .setAction(async (args: { target: string; function: string; args: string }, hre) => {
+    const taskName = "dao:calldata";
+    const targets = await loadTargetsOrThrow(hre, taskName);
+    const executionData = buildCallOrThrow(taskName, targets, args);
+    printPreview(targets, await previewExecutionData(hre, targets, executionData));
+    console.log(`\n${executionData}`);
+  });
+
+task("dao:preview", "제안(또는 주어진 실행 데이터)의 호출을 해석하고 DAO 주소로 시뮬레이션합니다")
+  .addOptionalParam("id", "제안 ID", undefined, types.bigint)
+  .addOptionalParam("data", "실행 데이터 (--id 대신, 16진수)")
+  .setAction(async (args: { id?: bigint; data?: string }, hre) => {
+    const taskName = "dao:preview";
+    if ((args.id === undefined) === (args.data === undefined)) {
+      throw taskError(taskName, "--id와 --data 중 하나만 지정하세요");
+    }
+    let executionData: Hex;
+    if (args.id !== undefined) {
+      const { proposal } = await getOutlookOrThrow(await loadDao(hre, taskName), taskName, args.id);
+      console.log(`📋 제안 #${proposal.id}: ${proposal.title} (상태 ${proposal.status})`);
+      executionData = proposal.executionData;
+    } else {
+      if (!isHex(args.data) || args.data.length % 2 !== 0) {
+        throw taskError(taskName, `--data: 잘못된 16진수 '${args.data}'`);
+      }
+      executionData = args.data;
+    }
+
+    const targets = await loadTargetsOrThrow(hre, taskName);
+    printPreview(targets, await previewExecutionData(hre, targets, executionData));
+  });
+
+task("dao:watch", "제안의 투표, 정족수 도달, 상태 변경 이벤트를 추적합니다")
+  .addParam("id", "제안 ID", undefined, types.bigint)
+  .addOptionalParam("interval", "폴링 간격 (ms)", 1000, types.int)
+  .setAction(async (args: { id: bigint; interval: number }, hre) => {
+    const taskName = "dao:watch";
+    const dao = await loadDao(hre, taskName);
+    const outlook = await getOutlookOrThrow(dao, taskName, args.id);
+    printOutlook(outlook);
+    if (outlook.proposal.status !== "ACTIVE") return;
+
+    console.log(`\n👀 제안 #${args.id} 이벤트 추적 중... (Ctrl+C로 종료)`);
+    let stop!: () => void;
+    const stopped = new Promise<void>((resolve) => (stop = resolve));
+    const unwatch = await dao.watchProposal(args.id, {
+      pollingInterval: args.interval,
+      onVote: (v) => {
+        const reason = v.reason ? ` "${v.reason}"` : "";
+        console.log(`🗳️ ${v.voter} → ${v.support} (가중치 ${formatEther(v.weight)})${reason}`);
+      },
+      onQuorumReached: (totalVotes) => console.log(`🎯 정족수 도달: 총 ${formatEther(totalVotes)}표`),
+      onStatusChanged: (status) => {
+        console.log(`📌 상태 변경: ${status}`);
+        stop();
+      },
+      onError: (error) => console.error(`❌ 이벤트 조회 실패: ${error.message}`),
+    });
+    process.once("SIGINT", stop);
+
+    await stopped;
+    unwatch();
+    process.removeListener("SIGINT", stop);
+    console.log("🛑 추적 종료");
+  });
+
+task("dao:execute", "투표가 끝난 제안을 집계하고 가결되면 실행합니다")
+  .addParam("id", "제안 ID", undefined, types.bigint)
+  .addFlag("fastForward", "로컬 네트워크에서 투표 마감까지 시간 이동")
+  .addFlag("force", "부결이 예상되어도 집계해 DEFEATED로 확정")
+  .addOptionalParam("from", "보내는 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: { id: bigint; fastForward: boolean; force: boolean; from?: string }, hre) => {
+    const taskName = "dao:execute";
+    const dao = await loadDao(hre, taskName, args.from);
+    let outlook = await getOutlookOrThrow(dao, taskName, args.id);
+    if (outlook.proposal.status !== "ACTIVE") {
+      throw taskError(taskName, `제안 #${args.id}은(는) 이미 집계되었습니다 (상태 ${outlook.proposal.status})`);
+    }
+
+    if (outlook.now < outlook.executableAt) {
+      if (!args.fastForward) {
+        throw taskError(
+          taskName,
+          `투표가 ${formatTimestamp(outlook.proposal.deadline)}에 끝납니다 ` +
+            `(${formatDuration(outlook.executableAt - outlook.now)} 남음, 로컬 네트워크는 --fast-forward)`
+        );
+      }
+      const chainId = await (await hre.viem.getPublicClient()).getChainId();
+      if (chainId !== 31337) {
+        throw taskError(taskName, `--fast-forward는 로컬 네트워크(31337)에서만 쓸 수 있습니다 (현재 ${chainId})`);
+      }
+      await hre.network.provider.send("evm_mine", [Number(outlook.executableAt)]);
+      console.log(`⏩ ${formatTimestamp(outlook.executableAt)}로 시간 이동`);
+      outlook = await dao.getOutlook(args.id);
+    }
+
+    if (outlook.projectedStatus === undefined) {
+      throw taskError(taskName, `제안 #${args.id}에 찬반 투표가 없어 집계할 수 없습니다`);
+    }
+    if (outlook.projectedStatus === "DEFEATED" && !args.force) {
+      throw taskError(
+        taskName,
+        `찬성률 ${outlook.proposal.currentSupport}%로 필요 ${outlook.proposal.requiredMajority}%에 못 미칩니다 ` +
+          "(부결로 확정하려면 --force)"
+      );
+    }
+
+    let executed;
+    try {
+      executed = await dao.executeProposal(args.id);
+    } catch (error) {
+      throw taskError(taskName, `집계 실패: ${revertMessage(error)}`);
+    }
+    console.log(`🚀 트랜잭션: ${executed.hash} (블록 ${executed.blockNumber})`);
+    if (executed.status === "EXECUTED") {
+      console.log(`✅ 제안 #${args.id} 가결 및 실행 완료`);
+    } else if (executed.status === "SUCCEEDED") {
+      console.log(`⚠️ 제안 #${args.id}은(는) 가결되었지만 실행 데이터 호출이 실패했습니다 (ProposalExecuted success=false)`);
+    } else {
+      console.log(`❌ 제안 #${args.id} 부결 (${executed.status})`);
+    }
+  });
@@ -0,0 +1,261 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, isAddress, parseEther, type Address } from "viem";
+
+import { formatBps, parseSlippageBps, SlippageExceededError, type SwapQuote } from "../scripts/dex/quote";
+import {
+  discoverPools,
+  executeRoutePlan,
+  planRoute,
+  RouteExecutionError,
+  RouteSlippageError,
+  type RoutePlan,
+  type RouterVenues,
+} from "../scripts/dex/router";
+import { ECOSYSTEM_CONTRACTS, loadDeploymentRegistry, type EcosystemContractName } from "../scripts/lib/registry";
+import { ContractRevertError, decodeRevert, formatRevert } from "../scripts/lib/revert";
+import { IntelligentDexClient, SimpleDexClient, type SwapDirection } from "../scripts/sdk";
+import { getDeployedContract, getSigner, parseAddress, taskError } from "./utils";
+
+/**
+ * 💱 SimpleDEX 견적/스왑 태스크
+ *
+ *   npx hardhat dex:quote --direction AtoB --amount 10 --network localhost
+ *   npx hardhat dex:swap --direction AtoB --amount 10 --slippage 0.5 --network localhost
+ *   npx hardhat dex:swap --direction BtoA --amount 10 --min-out 9.5 --from 0x... --network localhost
+ *   npx hardhat dex:route --token-in myToken --token-out pairToken --amount 500 --split --network localhost
+ *   npx hardhat dex:route --token-in myToken --token-out pairToken --amount 500 --split --execute --slippage 1
+ */
+
+interface DexArgs {
+  direction: string;
+  amount: string;
+  from?: string;
+}
+
+async function loadDex(hre: HardhatRuntimeEnvironment, taskName: string, from?: string) {
+  const [simpleDEX, signer] = await Promise.all([
+    getDeployedContract(hre, taskName, "simpleDEX"),
+    getSigner(hre, taskName, from),
+  ]);
+  return new SimpleDexClient(hre, simpleDEX, signer);
+}
+
+function parseSwapArgs(taskName: string, args: DexArgs): { direction: SwapDirection; amount: bigint } {
+  if (args.direction !== "AtoB" && args.direction !== "BtoA") {
+    throw taskError(taskName, `--direction은 AtoB 또는 BtoA여야 합니다 (입력: ${args.direction})`);
+  }
+  return { direction: args.direction, amount: parseAmount(taskName, args.amount) };
+}
+
+function parseAmount(taskName: string, value: string): bigint {
+  let amount: bigint;
+  try {
+    amount = parseEther(value);
+  } catch {
+    throw taskError(taskName, `--amount: 잘못된 금액 '${value}'`);
+  }
+  if (amount <= 0n) {
+    throw taskError(taskName, "--amount는 0보다 커야 합니다");
+  }
+  return amount;
+}
+
+function printQuote(direction: SwapDirection, quote: SwapQuote) {
+  const [tokenIn, tokenOut] = direction === "AtoB" ? ["A", "B"] : ["B", "A"];
+  console.log(`💱 ${formatEther(quote.amountIn)} ${tokenIn} → ${formatEther(quote.amountOut)} ${tokenOut}`);
+  console.table({
+    "현재 가격": `1 ${tokenIn} = ${formatEther(quote.spotPrice)} ${tokenOut}`,
+    "체결 가격": `1 ${tokenIn} = ${formatEther(quote.effectivePrice)} ${tokenOut}`,
+    "가격 영향": formatBps(quote.priceImpactBps),
+    수수료: `${formatEther(quote.feeAmount)} ${tokenIn}`,
+    "스왑 후 준비금": `${formatEther(quote.reserveInAfter)} ${tokenIn} / ${formatEther(quote.reserveOutAfter)} ${tokenOut}`,
+  });
+}
+
+task("dex:quote", "현재 준비금 기준 SimpleDEX 스왑 견적을 계산합니다")
+  .addParam("direction", "스왑 방향 (AtoB | BtoA)")
+  .addParam("amount", "입력 토큰 수량")
+  .setAction(async (args: DexArgs, hre) => {
+    const taskName = "dex:quote";
+    const { direction, amount } = parseSwapArgs(taskName, args);
+    const dex = await loadDex(hre, taskName);
+
+    const { reserveA, reserveB } = await dex.getPoolStats();
+    if (reserveA === 0n || reserveB === 0n) {
+      throw taskError(taskName, "풀에 유동성이 없습니다");
+    }
+
+    printQuote(direction, await dex.quote(direction, amount));
+  });
+
+task("dex:swap", "시뮬레이션 후 슬리피지 한도 안에서만 SimpleDEX 스왑을 보냅니다")
+  .addParam("direction", "스왑 방향 (AtoB | BtoA)")
+  .addParam("amount", "입력 토큰 수량")
+  .addOptionalParam("slippage", "견적 대비 허용 슬리피지 (예: 0.5, 1%, 50bps, 기본 0.5%)")
+  .addOptionalParam("minOut", "최소 수령량 (출력 토큰 수량)")
+  .addOptionalParam("from", "보내는 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: DexArgs & { slippage?: string; minOut?: string }, hre) => {
+    const taskName = "dex:swap";
+    const { direction, amount } = parseSwapArgs(taskName, args);
+
+    let slippageBps: number | undefined;
+    let minAmountOut: bigint | undefined;
+    try {
+      slippageBps = args.slippage !== undefined ? parseSlippageBps(args.slippage) : undefined;
+      minAmountOut = args.minOut !== undefined ? parseEther(args.minOut) : undefined;
+    } catch (error: any) {
+      throw taskError(taskName, error.message);
+    }
+
+    const dex = await loadDex(hre, taskName, args.from);
+    try {
+      const result = await dex.swapWithProtection(direction, amount, { slippageBps, minAmountOut });
+      printQuote(direction, result.quote);
+      console.log(`🛡️ 최소 수령량: ${formatEther(result.minAmountOut)}`);
+      console.log(`✅ 블록 ${result.blockNumber}에서 ${formatEther(result.amountOut)} 수령 (⛽ ${result.gasUsed} gas)`);
+    } catch (error) {
+      if (error instanceof SlippageExceededError) {
+        printQuote(direction, error.quote);
+        throw taskError(
+          taskName,
+          `예상 수령량 ${formatEther(error.expectedOut)}이(가) 최소 수령량 ${formatEther(error.minAmountOut)}보다 적어 보내지 않았습니다`
+        );
+      }
+      if (error instanceof ContractRevertError) {
+        throw taskError(taskName, `스왑 실패: ${formatRevert(decodeRevert(error), { hint: true })}`);
+      }
+      throw error;
+    }
+  });
+
+interface RouteArgs {
+  tokenIn: string;
+  tokenOut: string;
+  amount: string;
+  maxHops: number;
+  split: boolean;
+  execute: boolean;
+  slippage?: string;
+  from?: string;
+}
+
+// 주소 또는 레지스트리 이름(myToken, pairToken, evolutionaryToken)
+async function resolveToken(hre: HardhatRuntimeEnvironment, taskName: string, name: string, value: string) {
+  if (isAddress(value)) return parseAddress(taskName, name, value);
+  if (!(value in ECOSYSTEM_CONTRACTS)) {
+    throw taskError(taskName, `${name}: 주소 또는 레지스트리 이름이어야 합니다 (입력: ${value})`);
+  }
+
+  const registry = await loadDeploymentRegistry(hre);
+  const address = registry.addresses[value as EcosystemContractName];
+  if (address === undefined) {
+    throw taskError(taskName, `${name}: 체인 ${registry.chainId}에 '${value}' 배포 주소가 없습니다`);
+  }
+  return address;
+}
+
+// 배포된 거래소만 라우팅에 사용
+async function loadVenues(hre: HardhatRuntimeEnvironment, taskName: string, from?: string): Promise<RouterVenues> {
+  const [registry, signer] = await Promise.all([loadDeploymentRegistry(hre), getSigner(hre, taskName, from)]);
+  const { simpleDEX, intelligentDEX } = registry.addresses;
+  if (simpleDEX === undefined && intelligentDEX === undefined) {
+    throw taskError(taskName, `체인 ${registry.chainId}에 배포된 SimpleDEX/IntelligentDEX가 없습니다`);
+  }
+
+  return {
+    simpleDex: simpleDEX ? [await SimpleDexClient.connect(hre, { address: simpleDEX, wallet: signer })] : [],
+    intelligentDex: intelligentDEX
+      ? [await IntelligentDexClient.connect(hre, { address: intelligentDEX, wallet: signer })]
+      : [],
+  };
+}
+
+function shortAddress(address: Address): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function printPlan(plan: RoutePlan) {
+  console.log(`🧭 ${formatEther(plan.amountIn)} → ${formatEther(plan.amountOut)} (경로 ${plan.routes.length}개)`);
+  console.table(
+    plan.routes.flatMap((route, i) =>
+      route.hops.map((hop, j) => ({
+        경로: i + 1,
+        홉: j + 1,
+        거래소: hop.pool.venue,
+        토큰: `${shortAddress(hop.tokenIn)} → ${shortAddress(hop.tokenOut)}`,
+        입력: formatEther(hop.amountIn),
+        출력: formatEther(hop.amountOut),
+        수수료: formatBps(hop.feeBps),
+      }))
+    )
+  );
+}
+
+task("dex:route", "SimpleDEX와 IntelligentDEX 풀을 통틀어 최적 경로를 찾고 (선택) 실행합니다")
+  .addParam("tokenIn", "입력 토큰 (주소 또는 myToken/pairToken 같은 레지스트리 이름)")
+  .addParam("tokenOut", "출력 토큰 (주소 또는 레지스트리 이름)")
+  .addParam("amount", "입력 토큰 수량")
+  .addOptionalParam("maxHops", "최대 홉 수", 3, types.int)
+  .addFlag("split", "풀이 겹치지 않는 여러 경로로 나눠 보내기")
+  .addFlag("execute", "찾은 경로로 실제 스왑 실행")
+  .addOptionalParam("slippage", "견적 대비 허용 슬리피지 (예: 0.5, 1%, 50bps, 기본 0.5%)")
+  .addOptionalParam("from", "보내는 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: RouteArgs, hre) => {
+    const taskName = "dex:route";
+    const amount = parseAmount(taskName, args.amount);
+    if (args.maxHops < 1) {
+      throw taskError(taskName, "--max-hops는 1 이상이어야 합니다");
+    }
+
+    let slippageBps: number | undefined;
+    try {
+      slippageBps = args.slippage !== undefined ? parseSlippageBps(args.slippage) : undefined;
+    } catch (error: any) {
+      throw taskError(taskName, error.message);
+    }
+
+    const [tokenIn, tokenOut] = await Promise.all([
+      resolveToken(hre, taskName, "--token-in", args.tokenIn),
+      resolveToken(hre, taskName, "--token-out", args.tokenOut),
+    ]);
+    const venues = await loadVenues(hre, taskName, args.from);
+
+    let plan: RoutePlan;
+    try {
+      plan = planRoute(await discoverPools(venues), tokenIn, tokenOut, amount, {
+        maxHops: args.maxHops,
+        split: args.split,
+      });
+    } catch (error: any) {
+      throw taskError(taskName, error.message);
+    }
+    printPlan(plan);
+    if (!args.execute) return;
+
+    try {
+      const result = await executeRoutePlan(plan, venues, { slippageBps });
+      console.log(`🛡️ 최소 수령량: ${formatEther(result.minAmountOut)}`);
+      console.log(`✅ ${formatEther(result.amountOut)} 수령 (홉 ${result.hops.length}개, ⛽ ${result.gasUsed} gas)`);
+    } catch (error) {
+      if (error instanceof RouteSlippageError) {
+        throw taskError(
+          taskName,
+          `재견적 ${formatEther(error.expectedOut)}이(가) 최소 수령량 ${formatEther(error.minAmountOut)}보다 적어 보내지 않았습니다`
+        );
+      }
+      if (error instanceof RouteExecutionError) {
+        for (const hop of error.completed) {
+          console.log(`⚠️ 완료된 홉: ${hop.venue} ${formatEther(hop.amountIn)} → ${formatEther(hop.amountOut)} (${hop.hash})`);
+        }
+        throw taskError(taskName, error.message);
+      }
+      if (error instanceof SlippageExceededError) {
+        throw taskError(taskName, error.message);
+      }
+      if (error instanceof ContractRevertError) {
+        throw taskError(taskName, `스왑 실패: ${formatRevert(decodeRevert(error), { hint: true })}`);
+      }
+      throw error;
+    }
+  });
@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { formatEther } from "viem";
+
+import { DEFAULT_AGENT_COUNTS } from "../scripts/evolution/agents";
+import { economyCsv, economyMarkdown, feePayersCsv } from "../scripts/evolution/report";
+import {
+  DEFAULT_SIMULATION_DAYS,
+  runEconomySimulation,
+  type EconomySimulationOptions,
+} from "../scripts/evolution/simulation";
+import { EvolutionTokenClient } from "../scripts/sdk";
+import { getDeployedContract, getSigner, taskError } from "./utils";
+
+/**
+ * 🧬 EvolutionaryToken 경제 시뮬레이션 태스크 (Hardhat 네트워크 전용)
+ *
+ *   npx hardhat evolution:simulate                                  (새로 배포, 에이전트 300명, 90일)
+ *   npx hardhat evolution:simulate --whales 10 --traders 200 --days 120 --seed 42
+ *   npx hardhat evolution:simulate --profiles profiles.json --out reports/evolution-whales
+ *   npx hardhat evolution:simulate --deployed --network localhost   (레지스트리의 토큰, 상태가 바뀜)
+ */
+
+interface SimulateArgs {
+  whales: number;
+  traders: number;
+  stakers: number;
+  idlers: number;
+  days: number;
+  seed?: number;
+  profiles?: string;
+  deployed: boolean;
+  from?: string;
+  out: string;
+}
+
+function loadProfiles(taskName: string, file: string): EconomySimulationOptions["behaviours"] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error: any) {
+    throw taskError(taskName, `--profiles: ${file}을(를) 읽지 못했습니다 (${error.message})`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw taskError(taskName, `--profiles: 프로필 이름 → 덮어쓸 값 객체여야 합니다 (예: { "whale": { "activeChance": 0.9 } })`);
+  }
+  return parsed as EconomySimulationOptions["behaviours"];
+}
+
+task("evolution:simulate", "행동 프로필별 에이전트 수백 명으로 EvolutionaryToken 경제를 N일 동안 시뮬레이션합니다")
+  .addOptionalParam("whales", "고래 에이전트 수", DEFAULT_AGENT_COUNTS.whale, types.int)
+  .addOptionalParam("traders", "트레이더 에이전트 수", DEFAULT_AGENT_COUNTS.trader, types.int)
+  .addOptionalParam("stakers", "스테이커 에이전트 수", DEFAULT_AGENT_COUNTS.staker, types.int)
+  .addOptionalParam("idlers", "휴면 에이전트 수", DEFAULT_AGENT_COUNTS.idler, types.int)
+  .addOptionalParam("days", "시뮬레이션 일수", DEFAULT_SIMULATION_DAYS, types.int)
+  .addOptionalParam("seed", "난수 시드 (기본: 현재 시각)", undefined, types.int)
+  .addOptionalParam("profiles", "행동 프로필 덮어쓰기 JSON 파일")
+  .addFlag("deployed", "새로 배포하지 않고 배포 레지스트리의 EvolutionaryToken 사용")
+  .addOptionalParam("from", "배포와 시작 잔액 펀딩 계정 (기본: 첫 번째 계정)")
+  .addOptionalParam("out", "리포트 디렉터리", "reports/evolution")
+  .setAction(async (args: SimulateArgs, hre) => {
+    const taskName = "evolution:simulate";
+    if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
+      throw taskError(taskName, "에이전트 계정 가장과 시간 이동이 필요해 hardhat 또는 localhost 네트워크에서만 실행할 수 있습니다");
+    }
+
+    const behaviours = args.profiles === undefined ? undefined : loadProfiles(taskName, args.profiles);
+    const signer = await getSigner(hre, taskName, args.from);
+    const contract = args.deployed
+      ? await getDeployedContract(hre, taskName, "evolutionaryToken")
+      : await hre.viem.deployContract("EvolutionaryToken", [], { client: { wallet: signer } });
+    const token = new EvolutionTokenClient(hre, contract, signer);
+    if (!args.deployed) console.log(`🚀 EvolutionaryToken 배포: ${token.address}`);
+
+    let report;
+    try {
+      report = await runEconomySimulation(hre, token, {
+        agents: { whale: args.whales, trader: args.traders, staker: args.stakers, idler: args.idlers },
+        behaviours,
+        days: args.days,
+        seed: args.seed,
+      });
+    } catch (error: any) {
+      throw taskError(taskName, error.message);
+    }
+
+    console.log("\n🧬 진화 기록");
+    if (report.evolutions.length === 0) console.log("   진화가 일어나지 않았습니다");
+    console.table(
+      report.evolutions.map((e) => ({
+        세대: Number(e.generation),
+        일차: e.day,
+        기능: e.featureName,
+        계기: e.trigger ? `${e.trigger.action} (${e.trigger.profile})` : "시뮬레이션 밖",
+      }))
+    );
+
+    console.log("\n💸 고래 방지 수수료 상위 납부자");
+    console.table(
+      report.feePayers.slice(0, 10).map((p) => ({
+        납부자: p.address,
+        프로필: p.profile,
+        횟수: p.payments,
+        "총 수수료": formatEther(p.totalFees),
+      }))
+    );
+
+    const failed = Object.values(report.failures).reduce((sum, times) => sum + times, 0);
+    if (failed > 0) console.log(`⚠️ revert된 행동 ${failed}건 (summary.md 참고)`);
+
+    fs.mkdirSync(args.out, { recursive: true });
+    const files = {
+      "timeseries.csv": economyCsv(report),
+      "fees.csv": feePayersCsv(report),
+      "summary.md": economyMarkdown(report),
+    };
+    for (const [name, content] of Object.entries(files)) fs.writeFileSync(path.join(args.out, name), content);
+    const saved = Object.keys(files).map((name) => path.relative(process.cwd(), path.join(args.out, name)));
+    console.log(`📝 리포트 저장 (시드 ${report.seed}): ${saved.join(", ")}`);
+  });
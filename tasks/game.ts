@@ -0,0 +1,204 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { formatEther, parseEther } from "viem";
+
+import { SKILL_ALLOCATIONS, type SkillAllocationName } from "../scripts/game/battle";
+import { balanceCsv, balanceMarkdown, DEFAULT_BALANCE_OPTIONS, simulateBalance } from "../scripts/game/balance";
+import { DEFAULT_REGISTRATION_WINDOW, runTournament } from "../scripts/game/tournament-runner";
+import { decodeRevert, formatRevert } from "../scripts/lib/revert";
+import {
+  BATTLE_TYPES,
+  BattleArenaClient,
+  CHARACTER_CLASSES,
+  TOURNAMENT_TYPES,
+  type BattleTypeName,
+  type TournamentTypeName,
+} from "../scripts/sdk";
+import { getDeployedContract, getSigner, parseList, taskError } from "./utils";
+
+/**
+ * ⚔️ BattleArenaP2E 게임 태스크
+ *
+ *   npx hardhat game:balance                                   (네트워크 불필요)
+ *   npx hardhat game:balance --fights 5000 --levels 1,10,30 --allocations none,attack --seed 42
+ *   npx hardhat game:balance --battle-type TOURNAMENT --out reports/balance-tournament
+ *   npx hardhat game:tournament --characters 0,1,2,3,4 --type SINGLE_ELIMINATION --network localhost
+ *   npx hardhat game:tournament --tournament 3 --characters 5,6 --seed 42 --network localhost
+ */
+
+interface BalanceArgs {
+  fights: number;
+  levels: string;
+  allocations: string;
+  battleType: string;
+  seed?: number;
+  out: string;
+}
+
+function parseLevels(taskName: string, value: string): number[] {
+  return parseList(value).map((item) => {
+    const level = Number(item);
+    if (!Number.isInteger(level) || level < 1 || level > 99) {
+      throw taskError(taskName, `--levels: 1 ~ 99 사이 정수여야 합니다 (입력: ${item})`);
+    }
+    return level;
+  });
+}
+
+function parseAllocations(taskName: string, value: string): SkillAllocationName[] {
+  return parseList(value).map((item) => {
+    if (!(SKILL_ALLOCATIONS as readonly string[]).includes(item)) {
+      throw taskError(taskName, `--allocations: 알 수 없는 배분 '${item}' (${SKILL_ALLOCATIONS.join(", ")})`);
+    }
+    return item as SkillAllocationName;
+  });
+}
+
+task("game:balance", "클래스별 승률 행렬과 기대 보상/경험치를 시뮬레이션해 CSV/Markdown으로 저장합니다")
+  .addOptionalParam("fights", "클래스 쌍마다 배틀 수", DEFAULT_BALANCE_OPTIONS.fightsPerMatchup, types.int)
+  .addOptionalParam("levels", "레벨 후보 (쉼표 구분)", DEFAULT_BALANCE_OPTIONS.levels.join(","))
+  .addOptionalParam("allocations", "스킬 포인트 배분 후보 (쉼표 구분)", SKILL_ALLOCATIONS.join(","))
+  .addOptionalParam("battleType", `배틀 타입 (${BATTLE_TYPES.join(" | ")})`, DEFAULT_BALANCE_OPTIONS.battleType)
+  .addOptionalParam("seed", "난수 시드 (기본: 현재 시각)", undefined, types.int)
+  .addOptionalParam("out", "리포트 디렉터리", "reports/balance")
+  .setAction(async (args: BalanceArgs) => {
+    const taskName = "game:balance";
+    if (!(BATTLE_TYPES as readonly string[]).includes(args.battleType)) {
+      throw taskError(taskName, `--battle-type: ${BATTLE_TYPES.join(", ")} 중 하나여야 합니다 (입력: ${args.battleType})`);
+    }
+    if (args.fights <= 0) {
+      throw taskError(taskName, "--fights는 0보다 커야 합니다");
+    }
+
+    const levels = parseLevels(taskName, args.levels);
+    const allocations = parseAllocations(taskName, args.allocations);
+    if (levels.length === 0 || allocations.length === 0) {
+      throw taskError(taskName, "--levels와 --allocations에 후보가 하나 이상 있어야 합니다");
+    }
+
+    const total = args.fights * CHARACTER_CLASSES.length ** 2;
+    console.log(`🎲 ${total.toLocaleString()}회 배틀 시뮬레이션 중...`);
+    const report = simulateBalance({
+      fightsPerMatchup: args.fights,
+      levels,
+      allocations,
+      battleType: args.battleType as BattleTypeName,
+      seed: args.seed,
+    });
+
+    console.log(`\n⚔️ 승률 행렬 (행: 공격자, 열: 방어자, 시드 ${report.seed})`);
+    console.table(
+      Object.fromEntries(
+        CHARACTER_CLASSES.map((attacker) => [
+          attacker,
+          Object.fromEntries(
+            report.matchups
+              .filter((m) => m.attacker === attacker)
+              .map((m) => [m.defender, `${(m.winRate * 100).toFixed(1)}%`])
+          ),
+        ])
+      )
+    );
+
+    fs.mkdirSync(args.out, { recursive: true });
+    const csvFile = path.join(args.out, "balance.csv");
+    const markdownFile = path.join(args.out, "balance.md");
+    fs.writeFileSync(csvFile, balanceCsv(report));
+    fs.writeFileSync(markdownFile, balanceMarkdown(report));
+    console.log(`📝 리포트 저장: ${path.relative(process.cwd(), csvFile)}, ${path.relative(process.cwd(), markdownFile)}`);
+  });
+
+interface TournamentArgs {
+  characters: string;
+  type: string;
+  name: string;
+  entryFee: string;
+  registrationWindow: number;
+  tournament?: bigint;
+  seed?: number;
+  from?: string;
+  realtime: boolean;
+}
+
+function parseTokenIds(taskName: string, value: string): bigint[] {
+  return parseList(value).map((item) => {
+    if (!/^\d+$/.test(item)) {
+      throw taskError(taskName, `--characters: 토큰 ID는 0 이상 정수여야 합니다 (입력: ${item})`);
+    }
+    return BigInt(item);
+  });
+}
+
+task("game:tournament", "캐릭터를 토너먼트에 등록하고 대진표대로 배틀을 진행한 뒤 우승자에게 상금을 지급합니다")
+  .addOptionalParam("characters", "등록할 캐릭터 토큰 ID (쉼표 구분, 각 소유자 지갑으로 등록)", "")
+  .addOptionalParam("type", `토너먼트 타입 (${TOURNAMENT_TYPES.join(" | ")})`, "SINGLE_ELIMINATION")
+  .addOptionalParam("name", "새 토너먼트 이름", "BattleArena Cup")
+  .addOptionalParam("entryFee", "참가비 (보상 토큰)", "0")
+  .addOptionalParam(
+    "registrationWindow",
+    "새 토너먼트 참가 신청 기간 (초)",
+    Number(DEFAULT_REGISTRATION_WINDOW),
+    types.int
+  )
+  .addOptionalParam("tournament", "이어서 진행할 기존 토너먼트 ID (없으면 새로 생성)", undefined, types.bigint)
+  .addOptionalParam("seed", "공격자/배틀로얄 대진 난수 시드 (기본: 현재 시각)", undefined, types.int)
+  .addOptionalParam("from", "새 토너먼트를 만들 컨트랙트 소유자 계정 주소 (기본: 첫 번째 계정)")
+  .addFlag("realtime", "로컬 네트워크에서도 시간 이동 없이 실제로 대기")
+  .setAction(async (args: TournamentArgs, hre) => {
+    const taskName = "game:tournament";
+    if (!(TOURNAMENT_TYPES as readonly string[]).includes(args.type)) {
+      throw taskError(taskName, `--type: ${TOURNAMENT_TYPES.join(", ")} 중 하나여야 합니다 (입력: ${args.type})`);
+    }
+    const characters = parseTokenIds(taskName, args.characters);
+    if (args.tournament === undefined && characters.length < 2) {
+      throw taskError(taskName, "새 토너먼트에는 --characters로 캐릭터를 2개 이상 지정해야 합니다");
+    }
+    let entryFee: bigint;
+    try {
+      entryFee = parseEther(args.entryFee);
+    } catch {
+      throw taskError(taskName, `--entry-fee: 잘못된 금액 '${args.entryFee}'`);
+    }
+
+    const [battleArena, signer, publicClient] = await Promise.all([
+      getDeployedContract(hre, taskName, "battleArena"),
+      getSigner(hre, taskName, args.from),
+      hre.viem.getPublicClient(),
+    ]);
+    const arena = new BattleArenaClient(hre, battleArena, signer);
+    // 쿨다운과 참가 마감은 로컬 체인에서만 시간 이동으로 건너뜀
+    const advanceTime = !args.realtime && (await publicClient.getChainId()) === 31337;
+
+    let result;
+    try {
+      result = await runTournament(hre, arena, {
+        tournamentId: args.tournament,
+        name: args.name,
+        tournamentType: args.type as TournamentTypeName,
+        entryFee,
+        registrationWindow: BigInt(args.registrationWindow),
+        characters,
+        seed: args.seed,
+        advanceTime,
+      });
+    } catch (error) {
+      throw taskError(taskName, `토너먼트 진행 실패: ${formatRevert(decodeRevert(error), { hint: true })}`);
+    }
+
+    const battles = result.matches.filter((m) => m.outcome === "battle").length;
+    console.log(`\n📊 최종 순위 (배틀 ${battles}회, 시드 ${result.seed})`);
+    console.table(
+      result.standings.map((s) => ({
+        순위: s.rank,
+        캐릭터: `#${s.tokenId}`,
+        시드: s.seed,
+        승: s.wins,
+        패: s.losses,
+        부전승: s.byes,
+        "탈락 라운드": s.eliminatedInRound ?? "-",
+      }))
+    );
+    console.log(`💰 상금: ${formatEther(result.prize)} (캐릭터 #${result.champion} 소유자의 미수령 보상에 적립)`);
+    console.log(`🧾 completeTournament: ${result.completedTx}`);
+  });
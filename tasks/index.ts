@@ -0,0 +1,10 @@
+// Hardhat 태스크 등록 (hardhat.config.ts에서 import)
+import "./lock";
+import "./scenario";
+import "./indexer";
+import "./dex";
+import "./game";
+import "./dao";
+import "./multisig";
+import "./recovery";
+import "./evolution";
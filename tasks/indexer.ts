@@ -0,0 +1,137 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { EventIndexer } from "../scripts/indexer/indexer";
+import { openEventStore, queryEvents, summarizeEvents } from "../scripts/indexer/query";
+import { EventStore, type IndexedEvent } from "../scripts/indexer/store";
+import { formatTimestamp } from "../scripts/lib/time";
+import { taskError } from "./utils";
+
+/**
+ * 🛰️ 이벤트 인덱서 태스크
+ *
+ *   npx hardhat indexer:sync --network localhost                 # 백필 후 종료
+ *   npx hardhat indexer:sync --follow --network localhost        # 백필 후 새 블록 추적 (Ctrl+C로 종료)
+ *   npx hardhat indexer:query --contract advancedLock --event LockCreated --network localhost
+ */
+
+async function chainIndexFile(hre: HardhatRuntimeEnvironment, file?: string) {
+  const chainId = await (await hre.viem.getPublicClient()).getChainId();
+  return { chainId, file: file ?? EventStore.defaultFile(chainId) };
+}
+
+function printEvent(e: IndexedEvent) {
+  const args = Object.entries(e.args)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+  console.log(`#${e.blockNumber} ${formatTimestamp(e.timestamp)} ${e.contract}.${e.event}(${args})`);
+}
+
+task("indexer:sync", "생태계 컨트랙트 이벤트를 로컬 인덱스에 백필하고 선택적으로 추적합니다")
+  .addFlag("follow", "백필 후 새 블록을 계속 추적")
+  .addOptionalParam("fromBlock", "인덱스가 비어 있을 때 시작 블록", 0n, types.bigint)
+  .addOptionalParam("confirmations", "이 수만큼 뒤처진 블록까지만 인덱싱", 0n, types.bigint)
+  .addOptionalParam("file", "인덱스 파일 (기본: data/indexer/chain-<chainId>.json)")
+  .setAction(
+    async (args: { follow: boolean; fromBlock: bigint; confirmations: bigint; file?: string }, hre) => {
+      const taskName = "indexer:sync";
+      const { file } = await chainIndexFile(hre, args.file);
+
+      let indexer: EventIndexer;
+      try {
+        indexer = await EventIndexer.create(hre, {
+          file,
+          fromBlock: args.fromBlock,
+          confirmations: args.confirmations,
+          onProgress: (p) => {
+            if (p.reorgedTo !== undefined) {
+              console.log(`🔀 재구성 감지: 블록 ${p.reorgedTo} 이후 이벤트 ${p.removed}개 제거`);
+            }
+            console.log(`📦 블록 ${p.fromBlock} ~ ${p.toBlock}: 이벤트 ${p.events}개`);
+          },
+        });
+      } catch (error: any) {
+        throw taskError(taskName, error.message);
+      }
+
+      console.log(`🛰️ 인덱싱 대상 (${file}):`);
+      for (const { name, address } of indexer.watched) {
+        console.log(`   - ${name}: ${address}`);
+      }
+
+      if (!args.follow) {
+        await indexer.sync();
+        console.log(`✅ 블록 ${indexer.store.lastBlock}까지 인덱싱 완료 (총 이벤트 ${indexer.store.events.length}개)`);
+        return;
+      }
+
+      const stop = await indexer.follow((error: any) => console.error(`❌ 동기화 실패: ${error.message ?? error}`));
+      console.log(`👀 블록 ${indexer.store.lastBlock}부터 새 블록 추적 중... (Ctrl+C로 종료)`);
+
+      await new Promise<void>((resolve) => {
+        process.once("SIGINT", () => {
+          stop();
+          resolve();
+        });
+      });
+      console.log(`\n🛑 추적 종료 (마지막 블록 ${indexer.store.lastBlock})`);
+    }
+  );
+
+task("indexer:query", "로컬 인덱스에서 이벤트를 조회합니다")
+  .addOptionalParam("contract", "레지스트리 컨트랙트 이름 (예: advancedLock)")
+  .addOptionalParam("event", "이벤트 이름 (예: LockCreated)")
+  .addOptionalParam("fromBlock", "시작 블록", undefined, types.bigint)
+  .addOptionalParam("toBlock", "끝 블록", undefined, types.bigint)
+  .addOptionalParam("limit", "최대 개수 (최신순)", 20, types.int)
+  .addOptionalParam("file", "인덱스 파일 (기본: data/indexer/chain-<chainId>.json)")
+  .addFlag("summary", "컨트랙트/이벤트별 개수만 출력")
+  .setAction(
+    async (
+      args: {
+        contract?: string;
+        event?: string;
+        fromBlock?: bigint;
+        toBlock?: bigint;
+        limit: number;
+        file?: string;
+        summary: boolean;
+      },
+      hre
+    ) => {
+      const taskName = "indexer:query";
+      const { chainId, file } = await chainIndexFile(hre, args.file);
+
+      let store: EventStore;
+      try {
+        store = openEventStore(chainId, file);
+      } catch (error: any) {
+        throw taskError(taskName, error.message);
+      }
+      if (store.lastBlock === undefined) {
+        throw taskError(taskName, `인덱스가 비어 있습니다: ${file} (먼저 indexer:sync를 실행하세요)`);
+      }
+
+      console.log(`🗄️ ${file} (블록 ${store.lastBlock}까지, 이벤트 ${store.events.length}개)`);
+
+      if (args.summary) {
+        console.table(summarizeEvents(store));
+        return;
+      }
+
+      const events = queryEvents(store, {
+        contract: args.contract,
+        event: args.event,
+        fromBlock: args.fromBlock,
+        toBlock: args.toBlock,
+        order: "desc",
+        limit: args.limit,
+      });
+
+      if (events.length === 0) {
+        console.log("📭 조건에 맞는 이벤트가 없습니다");
+        return;
+      }
+      events.reverse().forEach(printEvent);
+    }
+  );
@@ -0,0 +1,194 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, isAddressEqual, parseEther, type Address } from "viem";
+
+import type { EcosystemContract } from "../scripts/lib/registry";
+import { formatDuration, formatTimestamp, parseDuration } from "../scripts/lib/time";
+import { getDeployedContract, getSigner, parseAddress, sendAndReport, taskError } from "./utils";
+
+/**
+ * 🔒 AdvancedLock 관리 태스크
+ *
+ *   npx hardhat lock:create --beneficiary 0x... --duration 30d --amount 1.5 --network localhost
+ *   npx hardhat lock:list --user 0x... --network localhost
+ *   npx hardhat lock:withdraw --id 0 --from 0x... --network localhost
+ *   npx hardhat lock:emergency-withdraw --id 0 --network localhost
+ *   npx hardhat lock:pause / lock:unpause --network localhost
+ */
+
+async function loadLock(hre: HardhatRuntimeEnvironment, taskName: string, from?: string) {
+  const [advancedLock, signer, publicClient] = await Promise.all([
+    getDeployedContract(hre, taskName, "advancedLock"),
+    getSigner(hre, taskName, from),
+    hre.viem.getPublicClient(),
+  ]);
+  return { advancedLock, signer, publicClient };
+}
+
+async function getLockOrThrow(hre: HardhatRuntimeEnvironment, taskName: string, id: bigint, from?: string) {
+  const { advancedLock, signer, publicClient } = await loadLock(hre, taskName, from);
+  const nextLockId = await advancedLock.read.nextLockId();
+  if (id >= nextLockId) {
+    throw taskError(taskName, `잠금 #${id}이(가) 존재하지 않습니다 (총 ${nextLockId}개)`);
+  }
+
+  const [amount, unlockTime, withdrawn, beneficiary] = await advancedLock.read.locks([id]);
+  return { advancedLock, signer, publicClient, lock: { amount, unlockTime, withdrawn, beneficiary } };
+}
+
+task("lock:create", "AdvancedLock에 새 잠금을 생성합니다")
+  .addParam("beneficiary", "수혜자 주소")
+  .addParam("duration", "잠금 기간 (예: 3600, 12h, 30d, 2w)")
+  .addParam("amount", "잠글 금액 (ETH)")
+  .addOptionalParam("from", "보내는 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: { beneficiary: string; duration: string; amount: string; from?: string }, hre) => {
+    const taskName = "lock:create";
+    const beneficiary = parseAddress(taskName, "--beneficiary", args.beneficiary);
+
+    let duration: bigint;
+    let amount: bigint;
+    try {
+      duration = parseDuration(args.duration);
+      amount = parseEther(args.amount);
+    } catch (error: any) {
+      throw taskError(taskName, error.message);
+    }
+    if (amount <= 0n) {
+      throw taskError(taskName, "--amount는 0보다 커야 합니다");
+    }
+
+    const { advancedLock, signer } = await loadLock(hre, taskName, args.from);
+
+    // 전송 전에 컨트랙트 제한값으로 검증
+    const [minDuration, maxDuration, paused] = await Promise.all([
+      advancedLock.read.MIN_LOCK_DURATION(),
+      advancedLock.read.MAX_LOCK_DURATION(),
+      advancedLock.read.paused(),
+    ]);
+    if (duration < minDuration || duration > maxDuration) {
+      throw taskError(
+        taskName,
+        `잠금 기간 ${formatDuration(duration)}은(는) 허용 범위(${formatDuration(minDuration)} ~ ${formatDuration(maxDuration)})를 벗어납니다`
+      );
+    }
+    if (paused) {
+      throw taskError(taskName, "컨트랙트가 일시정지 상태입니다");
+    }
+
+    console.log(`🔒 잠금 생성: ${formatEther(amount)} ETH → ${beneficiary} (${formatDuration(duration)})`);
+    await sendAndReport(hre, taskName, advancedLock.abi, () =>
+      advancedLock.write.createLock([beneficiary, duration], { value: amount, account: signer.account })
+    );
+  });
+
+task("lock:list", "사용자의 잠금 목록을 조회합니다")
+  .addOptionalParam("user", "조회할 수혜자 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: { user?: string }, hre) => {
+    const taskName = "lock:list";
+    const { advancedLock, signer, publicClient } = await loadLock(hre, taskName);
+    const user = args.user ? parseAddress(taskName, "--user", args.user) : signer.account.address;
+
+    const [lockIds, totalLocked, block] = await Promise.all([
+      advancedLock.read.getUserLocks([user]),
+      advancedLock.read.getUserTotalLocked([user]),
+      publicClient.getBlock(),
+    ]);
+
+    console.log(`👤 ${user}`);
+    if (lockIds.length === 0) {
+      console.log("잠금이 없습니다.");
+      return;
+    }
+
+    const rows = [];
+    for (const id of lockIds) {
+      const [amount, unlockTime, withdrawn] = await advancedLock.read.locks([id]);
+      const status = withdrawn
+        ? "✅ 인출 완료"
+        : block.timestamp >= unlockTime
+          ? "🔓 인출 가능"
+          : `🔒 잠김 (${formatDuration(unlockTime - block.timestamp)} 남음)`;
+
+      rows.push({ id: `#${id}`, amount: `${formatEther(amount)} ETH`, unlock: formatTimestamp(unlockTime), status });
+    }
+
+    console.table(rows);
+    console.log(`💰 미인출 잠금 합계: ${formatEther(totalLocked)} ETH`);
+  });
+
+task("lock:withdraw", "만료된 잠금을 수혜자 계정으로 인출합니다")
+  .addParam("id", "잠금 ID", undefined, types.bigint)
+  .addOptionalParam("from", "수혜자 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: { id: bigint; from?: string }, hre) => {
+    const taskName = "lock:withdraw";
+    const { advancedLock, signer, publicClient, lock } = await getLockOrThrow(hre, taskName, args.id, args.from);
+
+    if (lock.withdrawn) {
+      throw taskError(taskName, `잠금 #${args.id}은(는) 이미 인출되었습니다`);
+    }
+    // 기본 계정(eth_accounts)은 소문자 주소이므로 체크섬과 무관하게 비교
+    if (!isAddressEqual(lock.beneficiary, signer.account.address)) {
+      throw taskError(taskName, `수혜자(${lock.beneficiary})만 인출할 수 있습니다. --from으로 수혜자 계정을 지정하세요`);
+    }
+
+    const block = await publicClient.getBlock();
+    if (block.timestamp < lock.unlockTime) {
+      throw taskError(
+        taskName,
+        `아직 잠금 기간입니다: ${formatTimestamp(lock.unlockTime)} 해제 (${formatDuration(lock.unlockTime - block.timestamp)} 남음)`
+      );
+    }
+    if (await advancedLock.read.paused()) {
+      throw taskError(taskName, "컨트랙트가 일시정지 상태입니다");
+    }
+
+    console.log(`💸 잠금 #${args.id} 인출: ${formatEther(lock.amount)} ETH`);
+    await sendAndReport(hre, taskName, advancedLock.abi, () =>
+      advancedLock.write.withdraw([args.id], { account: signer.account })
+    );
+  });
+
+task("lock:emergency-withdraw", "소유자가 잠금 자금을 긴급 회수합니다")
+  .addParam("id", "잠금 ID", undefined, types.bigint)
+  .addOptionalParam("from", "소유자 계정 주소 (기본: 첫 번째 계정)")
+  .setAction(async (args: { id: bigint; from?: string }, hre) => {
+    const taskName = "lock:emergency-withdraw";
+    const { advancedLock, signer, lock } = await getLockOrThrow(hre, taskName, args.id, args.from);
+
+    await assertOwner(advancedLock, taskName, signer.account.address);
+    if (lock.withdrawn) {
+      throw taskError(taskName, `잠금 #${args.id}은(는) 이미 인출되었습니다`);
+    }
+
+    console.log(`🚨 잠금 #${args.id} 긴급 회수: ${formatEther(lock.amount)} ETH (수혜자 ${lock.beneficiary})`);
+    await sendAndReport(hre, taskName, advancedLock.abi, () =>
+      advancedLock.write.emergencyWithdraw([args.id], { account: signer.account })
+    );
+  });
+
+for (const action of ["pause", "unpause"] as const) {
+  task(`lock:${action}`, action === "pause" ? "AdvancedLock을 일시정지합니다" : "AdvancedLock 일시정지를 해제합니다")
+    .addOptionalParam("from", "소유자 계정 주소 (기본: 첫 번째 계정)")
+    .setAction(async (args: { from?: string }, hre) => {
+      const taskName = `lock:${action}`;
+      const { advancedLock, signer } = await loadLock(hre, taskName, args.from);
+
+      await assertOwner(advancedLock, taskName, signer.account.address);
+      const paused = await advancedLock.read.paused();
+      if (paused === (action === "pause")) {
+        throw taskError(taskName, `이미 ${paused ? "일시정지" : "활성"} 상태입니다`);
+      }
+
+      console.log(action === "pause" ? "⏸️ 일시정지 중..." : "▶️ 일시정지 해제 중...");
+      await sendAndReport(hre, taskName, advancedLock.abi, () =>
+        advancedLock.write[action]({ account: signer.account })
+      );
+    });
+}
+
+async function assertOwner(advancedLock: EcosystemContract<"advancedLock">, taskName: string, account: Address) {
+  const owner = await advancedLock.read.owner();
+  if (!isAddressEqual(owner, account)) {
+    throw taskError(taskName, `소유자(${owner})만 실행할 수 있습니다. --from으로 소유자 계정을 지정하세요`);
+  }
+}
@@ -0,0 +1,368 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, isHex, type Address, type Hex } from "viem";
+
+import { decodeRevert, formatRevert } from "../scripts/lib/revert";
+import { formatDuration, formatTimestamp } from "../scripts/lib/time";
+import { RISK_THRESHOLDS, type RiskLevel, type TransactionPreview } from "../scripts/multisig/policy";
+import {
+  ProposalService,
+  type ProposalDraft,
+  type ProposalView,
+  type TransactionRequest,
+} from "../scripts/multisig/service";
+import { ProposalStore } from "../scripts/multisig/store";
+import { MultiSigClient, TRANSACTION_TYPES, type TransactionTypeName } from "../scripts/sdk";
+import { getDeployedContract, getSigner, parseAddress, parseJsonArray, taskError } from "./utils";
+
+/**
+ * 📮 IntelligentMultiSig 제안 서비스 태스크
+ *
+ *   npx hardhat multisig:propose --description "운영비 지급" --to 0x... --value 1.5 --network localhost
+ *   npx hardhat multisig:propose --description "토큰 지급" \
+ *     --target myToken --function transfer --args '["0x...", "100 ether"]' --from 0x... --network localhost
+ *   npx hardhat multisig:preview --to 0x... --value 6 --type HIGH_VALUE --network localhost   # 제출 전 정책 계산
+ *   npx hardhat multisig:inbox --owner 0x... --network localhost   # 이 소유자가 승인/실행할 제안
+ *   npx hardhat multisig:show --id 0 --network localhost
+ *   npx hardhat multisig:confirm --id 0 --from 0x... --network localhost
+ *   npx hardhat multisig:execute --id 0 --fast-forward --network localhost
+ *
+ * 제안 설명은 data/multisig/chain-<chainId>/<지갑 주소>.json에 저장됩니다 (--file로 변경).
+ */
+
+async function loadService(
+  hre: HardhatRuntimeEnvironment,
+  taskName: string,
+  options: { from?: string; file?: string }
+): Promise<ProposalService> {
+  const [contract, signer] = await Promise.all([
+    getDeployedContract(hre, taskName, "multiSig"),
+    getSigner(hre, taskName, options.from),
+  ]);
+  const wallet = new MultiSigClient(hre, contract, signer);
+  const chainId = await (await hre.viem.getPublicClient()).getChainId();
+  try {
+    return await ProposalService.open(hre, wallet, {
+      file: options.file ?? ProposalStore.defaultFile(chainId, wallet.address),
+    });
+  } catch (error: any) {
+    throw taskError(taskName, error.message);
+  }
+}
+
+interface RequestArgs {
+  to?: string;
+  data: string;
+  target?: string;
+  function?: string;
+  args: string;
+  value: string;
+  type: string;
+}
+
+// --to/--data 또는 --target/--function/--args (propose, preview 공통)
+function parseRequest(taskName: string, args: RequestArgs): TransactionRequest {
+  if ((args.to === undefined) === (args.target === undefined)) {
+    throw taskError(taskName, "--to와 --target 중 하나만 지정하세요");
+  }
+  const txType = args.type.toUpperCase() as TransactionTypeName;
+  if (!TRANSACTION_TYPES.includes(txType)) {
+    throw taskError(taskName, `--type: ${TRANSACTION_TYPES.join(", ")} 중 하나여야 합니다 (입력: ${args.type})`);
+  }
+  if (!isHex(args.data) || args.data.length % 2 !== 0) {
+    throw taskError(taskName, `--data: 잘못된 16진수 '${args.data}'`);
+  }
+
+  if (args.to !== undefined) {
+    return { txType, to: parseAddress(taskName, "--to", args.to), value: args.value, data: args.data as Hex };
+  }
+  if (args.function === undefined) throw taskError(taskName, "--target에는 --function이 필요합니다");
+  if (args.data !== "0x") throw taskError(taskName, "--data는 --to와 함께만 쓸 수 있습니다");
+  const call = {
+    target: args.target!,
+    functionName: args.function,
+    args: parseJsonArray(taskName, "--args", args.args),
+    value: args.value,
+  };
+  return { txType, call };
+}
+
+function revertMessage(error: unknown): string {
+  return formatRevert(decodeRevert(error), { hint: true });
+}
+
+async function ownerNames(service: ProposalService): Promise<Map<Address, string>> {
+  const owners = await service.wallet.getOwners();
+  return new Map(owners.map((o) => [o.address, o.name || o.address]));
+}
+
+function statusLabel(view: ProposalView, now: bigint): string {
+  switch (view.status) {
+    case "EXECUTED":
+      return view.success === false ? "❌ 실행 실패" : "✅ 실행됨";
+    case "EXECUTABLE":
+      return "🚀 실행 가능";
+    case "TIMELOCKED":
+      return `⏳ 타임락 (${formatDuration(view.transaction.timelock - now)} 남음)`;
+    default:
+      return `✍️ 승인 대기 (${view.transaction.confirmations}/${view.transaction.requiredConfirmations})`;
+  }
+}
+
+function proposalRows(views: ProposalView[], now: bigint) {
+  return views.map((v) => ({
+    ID: v.txId,
+    설명: v.description || "(설명 없음)",
+    호출: v.call,
+    타입: v.txType,
+    위험도: v.transaction.riskScore,
+    상태: statusLabel(v, now),
+  }));
+}
+
+function printProposal(view: ProposalView, names: Map<Address, string>, now: bigint) {
+  const { transaction } = view;
+  console.log(`\n📮 트랜잭션 #${view.txId}: ${view.description || "(설명 없음, 서비스 밖에서 제출)"}`);
+  console.log(`   호출: ${view.call}`);
+  console.log(`   제안자 ${names.get(view.proposer) ?? view.proposer}, 타입 ${view.txType}, 위험 점수 ${transaction.riskScore}`);
+  console.log(`   상태: ${statusLabel(view, now)}`);
+
+  console.log("\n✍️ 승인 현황");
+  console.table([
+    ...view.confirmedBy.map((owner) => ({ 소유자: names.get(owner) ?? owner, 주소: owner, 승인: "✅" })),
+    ...view.unconfirmedOwners.map((owner) => ({ 소유자: names.get(owner) ?? owner, 주소: owner, 승인: "⏳" })),
+  ]);
+
+  if (view.status === "EXECUTED") {
+    console.log(`🧾 실행 트랜잭션: ${view.executedTx ?? "(알 수 없음)"}`);
+    return;
+  }
+  if (now < view.confirmableAt) {
+    console.log(`⚠️ 고위험 트랜잭션: ${formatTimestamp(view.confirmableAt)}부터 승인할 수 있습니다`);
+  }
+  console.log(`⏰ 타임락 해제: ${formatTimestamp(transaction.timelock)}`);
+}
+
+task("multisig:propose", "설명과 함께 멀티시그 트랜잭션을 제출합니다")
+  .addParam("description", "다른 소유자에게 보여줄 설명")
+  .addOptionalParam("to", "받는 주소 (--target 대신)")
+  .addOptionalParam("data", "원시 calldata (--to와 함께, 16진수)", "0x")
+  .addOptionalParam("target", "호출할 생태계 컨트랙트 이름 (myToken, simpleDEX …)")
+  .addOptionalParam("function", "대상 함수 이름 또는 시그니처")
+  .addOptionalParam("args", "함수 인자 (JSON 배열)", "[]")
+  .addOptionalParam("value", "보낼 ETH", "0")
+  .addOptionalParam("type", `트랜잭션 타입 (${TRANSACTION_TYPES.join(" | ")})`, "NORMAL")
+  .addOptionalParam("from", "제안 소유자 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "제안 저장소 파일")
+  .setAction(
+    async (
+      args: RequestArgs & { description: string; from?: string; file?: string },
+      hre
+    ) => {
+      const taskName = "multisig:propose";
+      const draft: ProposalDraft = { description: args.description, ...parseRequest(taskName, args) };
+
+      const service = await loadService(hre, taskName, args);
+      let view: ProposalView;
+      try {
+        view = await service.propose(draft);
+      } catch (error) {
+        throw taskError(taskName, `제안 실패: ${revertMessage(error)}`);
+      }
+
+      console.log(`🚀 트랜잭션 제출: ${view.submitTx} (블록 ${view.submittedBlock})`);
+      printProposal(view, await ownerNames(service), view.transaction.submissionTime);
+      console.log(`\n👉 다른 소유자: npx hardhat multisig:confirm --id ${view.txId} --from <주소>`);
+    }
+  );
+
+const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  LOW: `🟢 낮음 (${RISK_THRESHOLDS.medium} 미만)`,
+  MEDIUM: `🟡 중간 (${RISK_THRESHOLDS.medium} 이상)`,
+  HIGH: `🟠 높음 (${RISK_THRESHOLDS.high} 이상)`,
+  CRITICAL: `🔴 매우 높음 (${RISK_THRESHOLDS.critical} 이상)`,
+};
+
+function printPreview(preview: TransactionPreview & { call: string }, txType: string) {
+  console.log(`🔍 ${preview.call} (타입 ${txType})`);
+  console.log(`\n🎯 위험 점수 ${preview.riskScore} / 100: ${RISK_LEVEL_LABELS[preview.riskLevel]}`);
+  console.table([
+    { 요인: "금액", 점수: preview.factors.amountRisk },
+    { 요인: "받는 주소 이력", 점수: preview.factors.recipientRisk },
+    { 요인: "calldata 크기", 점수: preview.factors.dataComplexity },
+    { 요인: "야간 (22~6시 UTC)", 점수: preview.factors.timeRisk },
+    { 요인: "트랜잭션 타입", 점수: preview.typeRisk },
+  ]);
+
+  console.log(`✍️ 필요한 승인: ${preview.requiredConfirmations} / 소유자 ${preview.ownerCount}명`);
+  console.log(`⏳ 타임락: ${formatDuration(preview.timelockDelay)} → ${formatTimestamp(preview.executableAt)}부터 실행 가능`);
+  if (preview.confirmableAt > preview.submittedAt) {
+    console.log(`⚠️ 고위험: ${formatTimestamp(preview.confirmableAt)}부터 승인할 수 있습니다 (제출 1시간 뒤)`);
+  }
+  if (preview.flagsRecipient) {
+    console.log("🚩 제출하면 받는 주소의 의심 활동 기록이 늘어나 이후 트랜잭션의 위험 점수가 올라갑니다");
+  }
+
+  const { spending } = preview;
+  if (spending) {
+    const mark = (exceeded: boolean) => (exceeded ? "❌ 초과" : "✅");
+    console.log(`\n💸 실행 한도 (${spending.spender}, 타임락 해제 직후 실행 기준)`);
+    console.table([
+      {
+        구분: "일일",
+        "실행 후 사용액": `${formatEther(spending.dailySpent)} ETH`,
+        한도: `${formatEther(spending.dailyLimit)} ETH`,
+        초기화: spending.dailyReset ? "예" : "아니오",
+        결과: mark(spending.dailyExceeded),
+      },
+      {
+        구분: "월간",
+        "실행 후 사용액": `${formatEther(spending.monthlySpent)} ETH`,
+        한도: `${formatEther(spending.monthlyLimit)} ETH`,
+        초기화: spending.monthlyReset ? "예" : "아니오",
+        결과: mark(spending.monthlyExceeded),
+      },
+    ]);
+  }
+
+  if (preview.problems.length === 0) {
+    console.log("\n✅ 제출하고 실행할 수 있습니다");
+  } else {
+    for (const problem of preview.problems) console.log(`\n❌ ${problem}`);
+  }
+}
+
+task("multisig:preview", "멀티시그 트랜잭션의 위험 점수, 승인 수, 타임락, 한도를 제출 전에 계산합니다")
+  .addOptionalParam("to", "받는 주소 (--target 대신)")
+  .addOptionalParam("data", "원시 calldata (--to와 함께, 16진수)", "0x")
+  .addOptionalParam("target", "호출할 생태계 컨트랙트 이름 (myToken, simpleDEX …)")
+  .addOptionalParam("function", "대상 함수 이름 또는 시그니처")
+  .addOptionalParam("args", "함수 인자 (JSON 배열)", "[]")
+  .addOptionalParam("value", "보낼 ETH", "0")
+  .addOptionalParam("type", `트랜잭션 타입 (${TRANSACTION_TYPES.join(" | ")})`, "NORMAL")
+  .addOptionalParam("from", "실행할 소유자 주소, 한도 계산 기준 (기본: 첫 번째 계정)")
+  .setAction(async (args: RequestArgs & { from?: string }, hre) => {
+    const taskName = "multisig:preview";
+    const request = parseRequest(taskName, args);
+    const service = await loadService(hre, taskName, args);
+    let preview: TransactionPreview & { call: string };
+    try {
+      preview = await service.preview(request);
+    } catch (error) {
+      throw taskError(taskName, revertMessage(error));
+    }
+
+    printPreview(preview, request.txType ?? "NORMAL");
+    console.log("\n👉 제출: npx hardhat multisig:propose --description \"...\" (같은 인자)");
+  });
+
+task("multisig:inbox", "소유자가 승인하거나 실행할 멀티시그 제안을 보여줍니다")
+  .addOptionalParam("owner", "소유자 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "제안 저장소 파일")
+  .setAction(async (args: { owner?: string; file?: string }, hre) => {
+    const taskName = "multisig:inbox";
+    const service = await loadService(hre, taskName, args);
+    const names = await ownerNames(service);
+    const owner = args.owner === undefined ? undefined : parseAddress(taskName, "--owner", args.owner);
+    const inbox = await service.inbox(owner);
+    if (!names.has(inbox.owner)) {
+      throw taskError(taskName, `${inbox.owner}은(는) 멀티시그 소유자가 아닙니다`);
+    }
+
+    console.log(`📬 ${names.get(inbox.owner)} (${inbox.owner})`);
+    const sections: [string, ProposalView[]][] = [
+      ["✍️ 승인할 제안", inbox.toConfirm],
+      ["🚀 실행할 수 있는 제안", inbox.toExecute],
+      ["⏳ 다른 소유자나 타임락을 기다리는 제안", inbox.waiting],
+    ];
+    for (const [title, views] of sections) {
+      console.log(`\n${title} (${views.length}건)`);
+      if (views.length > 0) console.table(proposalRows(views, inbox.now));
+    }
+  });
+
+task("multisig:show", "멀티시그 제안의 호출, 소유자별 승인, 타임락을 출력합니다")
+  .addParam("id", "트랜잭션 ID", undefined, types.bigint)
+  .addOptionalParam("file", "제안 저장소 파일")
+  .setAction(async (args: { id: bigint; file?: string }, hre) => {
+    const taskName = "multisig:show";
+    const service = await loadService(hre, taskName, args);
+    let view: ProposalView;
+    try {
+      view = await service.get(args.id);
+    } catch (error: any) {
+      throw taskError(taskName, revertMessage(error));
+    }
+    const now = (await (await hre.viem.getPublicClient()).getBlock()).timestamp;
+    printProposal(view, await ownerNames(service), now);
+  });
+
+task("multisig:confirm", "멀티시그 제안을 승인합니다 (조건을 채우면 바로 실행됨)")
+  .addParam("id", "트랜잭션 ID", undefined, types.bigint)
+  .addOptionalParam("from", "승인할 소유자 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "제안 저장소 파일")
+  .setAction(async (args: { id: bigint; from?: string; file?: string }, hre) => {
+    const taskName = "multisig:confirm";
+    const service = await loadService(hre, taskName, args);
+    let confirmed;
+    try {
+      confirmed = await service.confirm(args.id);
+    } catch (error) {
+      throw taskError(taskName, `승인 실패: ${revertMessage(error)}`);
+    }
+
+    const { proposal } = confirmed;
+    console.log(`✍️ 승인 완료: ${confirmed.hash} (블록 ${confirmed.blockNumber})`);
+    if (confirmed.executed) {
+      console.log(`${confirmed.success ? "✅" : "❌"} 마지막 승인으로 실행까지 완료 (success=${confirmed.success})`);
+    } else if (proposal.status === "TIMELOCKED") {
+      const unlock = formatTimestamp(proposal.transaction.timelock);
+      console.log(`⏳ 승인이 모두 모였습니다. ${unlock} 이후 multisig:execute로 실행하세요`);
+    } else {
+      console.log(`⏳ 승인 ${proposal.missingConfirmations}개 더 필요 (미승인: ${proposal.unconfirmedOwners.join(", ")})`);
+    }
+  });
+
+task("multisig:execute", "승인과 타임락을 확인하고 멀티시그 제안을 실행합니다")
+  .addParam("id", "트랜잭션 ID", undefined, types.bigint)
+  .addFlag("fastForward", "로컬 네트워크에서 타임락 해제 시각까지 시간 이동")
+  .addOptionalParam("from", "실행할 소유자 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "제안 저장소 파일")
+  .setAction(async (args: { id: bigint; fastForward: boolean; from?: string; file?: string }, hre) => {
+    const taskName = "multisig:execute";
+    const service = await loadService(hre, taskName, args);
+
+    if (args.fastForward) {
+      let view: ProposalView;
+      try {
+        view = await service.get(args.id);
+      } catch (error) {
+        throw taskError(taskName, revertMessage(error));
+      }
+      const publicClient = await hre.viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+      if (chainId !== 31337) {
+        throw taskError(taskName, `--fast-forward는 로컬 네트워크(31337)에서만 쓸 수 있습니다 (현재 ${chainId})`);
+      }
+      if (view.status === "TIMELOCKED") {
+        await hre.network.provider.send("evm_mine", [Number(view.transaction.timelock)]);
+        console.log(`⏩ ${formatTimestamp(view.transaction.timelock)}로 시간 이동`);
+      }
+    }
+
+    let executed;
+    try {
+      executed = await service.execute(args.id);
+    } catch (error) {
+      throw taskError(taskName, `실행 실패: ${revertMessage(error)}`);
+    }
+    const { proposal } = executed;
+    console.log(`🚀 트랜잭션: ${executed.hash} (블록 ${executed.blockNumber})`);
+    if (executed.success) {
+      console.log(`✅ #${args.id} 실행 완료: ${proposal.call}`);
+    } else {
+      console.log(`❌ #${args.id} 호출이 실패했습니다 (TransactionExecuted success=false, 다시 실행할 수 없음)`);
+    }
+    const { balance } = await service.wallet.getWalletStats();
+    console.log(`💰 지갑 잔액: ${formatEther(balance)} ETH`);
+  });
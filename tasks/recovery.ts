@@ -0,0 +1,226 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Address } from "viem";
+
+import { decodeRevert, formatRevert } from "../scripts/lib/revert";
+import { formatDuration, formatTimestamp } from "../scripts/lib/time";
+import { RecoveryService, type RecoveryView } from "../scripts/multisig/recovery";
+import { ProposalStore } from "../scripts/multisig/store";
+import { MultiSigClient } from "../scripts/sdk";
+import { getDeployedContract, getSigner, parseAddress, parseList, taskError } from "./utils";
+
+/**
+ * 🛟 IntelligentMultiSig 보호자 기반 소유자 복구 태스크
+ *
+ *   # 키가 있을 때 미리: 소유자가 보호자 3명 이상 지정 (data/multisig 저장소에 기록)
+ *   npx hardhat recovery:guardians --guardians 0xA,0xB,0xC --from <소유자> --network localhost
+ *   # 키를 잃은 뒤: 요청 → 보호자 승인(7일 안) → 실행
+ *   npx hardhat recovery:request --owner <잃어버린 소유자> --new-owner 0x... --network localhost
+ *   npx hardhat recovery:approve --owner <잃어버린 소유자> --from <보호자> --network localhost
+ *   npx hardhat recovery:status --owner <잃어버린 소유자> --network localhost
+ *   npx hardhat recovery:execute --owner <잃어버린 소유자> --network localhost
+ */
+
+async function loadRecovery(
+  hre: HardhatRuntimeEnvironment,
+  taskName: string,
+  options: { from?: string; file?: string }
+): Promise<RecoveryService> {
+  const [contract, signer] = await Promise.all([
+    getDeployedContract(hre, taskName, "multiSig"),
+    getSigner(hre, taskName, options.from),
+  ]);
+  const wallet = new MultiSigClient(hre, contract, signer);
+  const chainId = await (await hre.viem.getPublicClient()).getChainId();
+  try {
+    return await RecoveryService.open(hre, wallet, {
+      file: options.file ?? ProposalStore.defaultFile(chainId, wallet.address),
+    });
+  } catch (error: any) {
+    throw taskError(taskName, error.message);
+  }
+}
+
+function revertMessage(error: unknown): string {
+  return formatRevert(decodeRevert(error), { hint: true });
+}
+
+async function ownerNames(recovery: RecoveryService): Promise<Map<Address, string>> {
+  const owners = await recovery.wallet.getOwners();
+  return new Map(owners.map((o) => [o.address, o.name || o.address]));
+}
+
+function statusLabel(view: RecoveryView): string {
+  switch (view.status) {
+    case "EXECUTABLE":
+      return "✅ 실행 가능 (실행에는 기한이 없음)";
+    case "EXPIRED":
+      return `⌛ 승인 기한 만료 (${view.approvedBy.length}/${view.requiredApprovals}), 다시 요청해야 합니다`;
+    default:
+      return `✍️ 보호자 승인 대기 (${view.approvedBy.length}/${view.requiredApprovals})`;
+  }
+}
+
+function printRecovery(view: RecoveryView, names: Map<Address, string>) {
+  const label = (address: Address) => (names.has(address) ? `${names.get(address)} (${address})` : address);
+  console.log(`\n🛟 복구 요청: ${label(view.oldOwner)} → ${view.newOwner ?? "(요청에서 읽지 못함)"}`);
+  console.log(`   요청자 ${label(view.requester)}, ${formatTimestamp(view.requestedAt)}`);
+  console.log(`   상태: ${statusLabel(view)}`);
+  const deadline = formatTimestamp(view.approvalDeadline);
+  console.log(
+    view.remaining > 0n
+      ? `   ⏳ 승인 기한: ${deadline} (${formatDuration(view.remaining)} 남음)`
+      : `   ⏳ 승인 기한: ${deadline} (마감)`
+  );
+
+  console.log("\n🤝 보호자 승인");
+  console.table(
+    view.guardians.map((guardian) => ({
+      보호자: names.get(guardian) ?? "-",
+      주소: guardian,
+      승인: view.approvedBy.includes(guardian) ? "✅" : "⏳",
+    }))
+  );
+
+  if (view.unexpectedGuardians) {
+    console.log(`⚠️ 요청의 보호자가 지정된 보호자와 다릅니다 (지정: ${view.nominated!.join(", ")})`);
+    console.log("   requestRecovery는 누구나 보낼 수 있습니다. 본인이 요청하지 않았다면 승인하지 마세요");
+  }
+  if (view.oldOwnerIsEmergencyContact) {
+    console.log("⚠️ 잃어버린 키는 비상 연락처입니다. 복구 후에도 비상 모드 활성화와 비상 트랜잭션 권한이 그 주소에 남습니다");
+  }
+}
+
+task("recovery:guardians", "소유자의 복구 보호자를 지정하거나 지정 현황을 보여줍니다")
+  .addOptionalParam("guardians", "보호자 주소 (쉼표 구분, 3명 이상). 생략하면 현황 출력")
+  .addOptionalParam("from", "보호자를 지정할 소유자 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "멀티시그 저장소 파일")
+  .setAction(async (args: { guardians?: string; from?: string; file?: string }, hre) => {
+    const taskName = "recovery:guardians";
+    const recovery = await loadRecovery(hre, taskName, args);
+
+    if (args.guardians !== undefined) {
+      const guardians = parseList(args.guardians).map((g) => parseAddress(taskName, "--guardians", g));
+      let nominated: readonly Address[];
+      try {
+        nominated = await recovery.nominate(guardians);
+      } catch (error: any) {
+        throw taskError(taskName, error.message);
+      }
+      console.log(`🤝 보호자 ${nominated.length}명 지정: ${nominated.join(", ")}`);
+      console.log(`   복구에는 ${Math.floor((nominated.length * 2) / 3)}명의 승인이 필요합니다`);
+      console.log(`💾 ${recovery.store.file ?? "(메모리)"}`);
+      return;
+    }
+
+    const owners = await recovery.wallet.getOwners();
+    console.table(
+      owners.map((o) => ({
+        소유자: o.name,
+        주소: o.address,
+        보호자: recovery.nominated(o.address)?.join(", ") ?? "(지정 안 됨)",
+        "비상 연락처": o.isEmergencyContact ? "✅" : "",
+      }))
+    );
+  });
+
+task("recovery:request", "키를 잃은 소유자를 새 주소로 바꾸는 복구를 요청합니다")
+  .addParam("owner", "키를 잃은 소유자 주소")
+  .addParam("newOwner", "새 소유자 주소")
+  .addOptionalParam("guardians", "보호자 주소 (쉼표 구분, 기본: recovery:guardians로 지정한 보호자)")
+  .addFlag("replace", "진행 중인 요청을 덮어씀 (승인 기한이 다시 시작됨)")
+  .addOptionalParam("from", "요청을 보낼 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "멀티시그 저장소 파일")
+  .setAction(
+    async (
+      args: { owner: string; newOwner: string; guardians?: string; replace: boolean; from?: string; file?: string },
+      hre
+    ) => {
+      const taskName = "recovery:request";
+      const oldOwner = parseAddress(taskName, "--owner", args.owner);
+      const newOwner = parseAddress(taskName, "--new-owner", args.newOwner);
+      const guardians =
+        args.guardians === undefined
+          ? undefined
+          : parseList(args.guardians).map((g) => parseAddress(taskName, "--guardians", g));
+
+      const recovery = await loadRecovery(hre, taskName, args);
+      let requested;
+      try {
+        requested = await recovery.request(oldOwner, newOwner, { guardians, replace: args.replace });
+      } catch (error) {
+        throw taskError(taskName, `요청 실패: ${revertMessage(error)}`);
+      }
+
+      console.log(`🚀 복구 요청: ${requested.hash} (블록 ${requested.blockNumber})`);
+      printRecovery(requested.recovery, await ownerNames(recovery));
+      console.log(`\n👉 보호자: npx hardhat recovery:approve --owner ${oldOwner} --from <보호자 주소>`);
+    }
+  );
+
+task("recovery:status", "복구 요청의 보호자 승인 현황과 남은 승인 기한을 보여줍니다")
+  .addParam("owner", "키를 잃은 소유자 주소")
+  .addOptionalParam("file", "멀티시그 저장소 파일")
+  .setAction(async (args: { owner: string; file?: string }, hre) => {
+    const taskName = "recovery:status";
+    const oldOwner = parseAddress(taskName, "--owner", args.owner);
+    const recovery = await loadRecovery(hre, taskName, args);
+    const view = await recovery.status(oldOwner);
+    if (!view) {
+      const nominated = recovery.nominated(oldOwner);
+      console.log(`ℹ️ ${oldOwner}에 대한 복구 요청이 없습니다`);
+      console.log(`   지정된 보호자: ${nominated?.join(", ") ?? "(지정 안 됨)"}`);
+      return;
+    }
+    printRecovery(view, await ownerNames(recovery));
+  });
+
+task("recovery:approve", "보호자로서 복구 요청을 승인합니다")
+  .addParam("owner", "키를 잃은 소유자 주소")
+  .addOptionalParam("from", "보호자 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "멀티시그 저장소 파일")
+  .setAction(async (args: { owner: string; from?: string; file?: string }, hre) => {
+    const taskName = "recovery:approve";
+    const oldOwner = parseAddress(taskName, "--owner", args.owner);
+    const recovery = await loadRecovery(hre, taskName, args);
+    let approved;
+    try {
+      approved = await recovery.approve(oldOwner);
+    } catch (error) {
+      throw taskError(taskName, `승인 실패: ${revertMessage(error)}`);
+    }
+
+    const { recovery: view } = approved;
+    console.log(`✍️ 승인 완료: ${approved.hash} (블록 ${approved.blockNumber})`);
+    if (view.status === "EXECUTABLE") {
+      console.log(`✅ 승인이 모두 모였습니다: npx hardhat recovery:execute --owner ${oldOwner}`);
+    } else {
+      console.log(`⏳ 승인 ${view.missingApprovals}개 더 필요 (미승인: ${view.pendingGuardians.join(", ")})`);
+    }
+  });
+
+task("recovery:execute", "보호자 승인이 모인 복구 요청을 실행해 소유자를 교체합니다")
+  .addParam("owner", "키를 잃은 소유자 주소")
+  .addOptionalParam("newOwner", "새 소유자 주소 (기본: 요청의 새 주소)")
+  .addOptionalParam("from", "실행할 주소 (기본: 첫 번째 계정)")
+  .addOptionalParam("file", "멀티시그 저장소 파일")
+  .setAction(async (args: { owner: string; newOwner?: string; from?: string; file?: string }, hre) => {
+    const taskName = "recovery:execute";
+    const oldOwner = parseAddress(taskName, "--owner", args.owner);
+    const newOwner = args.newOwner === undefined ? undefined : parseAddress(taskName, "--new-owner", args.newOwner);
+    const recovery = await loadRecovery(hre, taskName, args);
+    let executed;
+    try {
+      executed = await recovery.execute(oldOwner, newOwner);
+    } catch (error) {
+      throw taskError(taskName, `실행 실패: ${revertMessage(error)}`);
+    }
+
+    const { owner } = executed;
+    console.log(`🚀 트랜잭션: ${executed.hash} (블록 ${executed.blockNumber})`);
+    console.log(`✅ 소유자 교체: ${oldOwner} → ${owner.address} (${owner.name}, 평판 ${owner.reputation})`);
+    console.log(`👉 새 소유자도 보호자를 지정하세요: npx hardhat recovery:guardians --guardians ... --from ${owner.address}`);
+    if (await recovery.wallet.isEmergencyContact(oldOwner)) {
+      console.log("⚠️ 잃어버린 키에 비상 연락처 권한이 남아 있습니다. 컨트랙트에는 이를 회수하는 함수가 없습니다");
+    }
+  });
@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+
+import { loadScenario } from "../scripts/scenario/loader";
+import { printScenarioReport, writeScenarioReports } from "../scripts/scenario/report";
+import { runScenario } from "../scripts/scenario/runner";
+import type { Scenario, ScenarioReport } from "../scripts/scenario/types";
+import { taskError } from "./utils";
+
+/**
+ * 🎬 선언형 시나리오 실행
+ *
+ *   npx hardhat scenario:run                                    # scenarios/ 전체
+ *   npx hardhat scenario:run scenarios/advanced-lock.yaml --continue
+ *   npx hardhat scenario:run --report reports/scenarios.json
+ */
+
+const DEFAULT_SCENARIO_DIR = "scenarios";
+
+function findScenarioFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((file) => /\.(ya?ml|json)$/.test(file))
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+task("scenario:run", "YAML/JSON 시나리오를 실행하고 단계별 결과를 출력합니다")
+  .addOptionalVariadicPositionalParam("files", "시나리오 파일 (기본: scenarios/ 전체)")
+  .addFlag("continue", "실패한 단계 이후에도 나머지 단계를 실행")
+  .addFlag("keepState", "실행 후 네트워크 상태를 되돌리지 않음")
+  .addOptionalParam("report", "JSON 리포트 저장 경로", undefined, types.string)
+  .setAction(
+    async (args: { files?: string[]; continue: boolean; keepState: boolean; report?: string }, hre) => {
+      const taskName = "scenario:run";
+      const files = args.files?.length ? args.files : findScenarioFiles(DEFAULT_SCENARIO_DIR);
+      if (files.length === 0) {
+        throw taskError(taskName, `실행할 시나리오가 없습니다 (${DEFAULT_SCENARIO_DIR}/ 비어 있음)`);
+      }
+
+      // 실행 전에 모든 파일을 검증해 오타로 인한 중간 실패를 막음
+      const scenarios: Scenario[] = [];
+      for (const file of files) {
+        if (!fs.existsSync(file)) throw taskError(taskName, `파일을 찾을 수 없습니다: ${file}`);
+        try {
+          scenarios.push(loadScenario(file));
+        } catch (error: any) {
+          throw taskError(taskName, error.message);
+        }
+      }
+
+      await hre.run("compile", { quiet: true });
+
+      const reports: ScenarioReport[] = [];
+      for (const scenario of scenarios) {
+        let report: ScenarioReport;
+        try {
+          report = await runScenario(hre, scenario, { continueOnFailure: args.continue, keepState: args.keepState });
+        } catch (error: any) {
+          // 배포 등 준비 단계 실패
+          report = {
+            name: scenario.name,
+            file: scenario.file,
+            passed: false,
+            deployments: {},
+            steps: [{ index: 0, name: "준비", status: "failed", durationMs: 0, details: [], error: error.message }],
+          };
+        }
+        printScenarioReport(report);
+        reports.push(report);
+      }
+
+      if (args.report) writeScenarioReports(args.report, reports);
+
+      const failed = reports.filter((r) => !r.passed);
+      console.log(`\n📊 시나리오 ${reports.length}개 중 ${reports.length - failed.length}개 통과`);
+      if (failed.length > 0) {
+        throw taskError(taskName, `실패한 시나리오: ${failed.map((r) => r.name).join(", ")}`);
+      }
+    }
+  );
@@ -0,0 +1,133 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatEther, getAddress, isAddress, parseEventLogs, type Abi, type Address, type Hash } from "viem";
+
+import {
+  getEcosystemContract,
+  MissingDeploymentError,
+  type EcosystemContract,
+  type EcosystemContractName,
+} from "../scripts/lib/registry";
+import { decodeRevert, formatRevert } from "../scripts/lib/revert";
+import { formatTimestamp } from "../scripts/lib/time";
+
+/**
+ * 🧰 태스크 공용 헬퍼
+ */
+
+/**
+ * 태스크 실패: Hardhat이 스택 없이 메시지만 출력합니다
+ */
+export function taskError(task: string, message: string): HardhatPluginError {
+  return new HardhatPluginError(task, message);
+}
+
+/**
+ * --from 주소에 해당하는 지갑 (없으면 첫 번째 계정)
+ */
+export async function getSigner(hre: HardhatRuntimeEnvironment, task: string, from?: string) {
+  if (from === undefined) {
+    const [signer] = await hre.viem.getWalletClients();
+    return signer;
+  }
+
+  return hre.viem.getWalletClient(parseAddress(task, "--from", from));
+}
+
+export function parseAddress(task: string, name: string, value: string): Address {
+  if (!isAddress(value)) {
+    throw taskError(task, `${name}: 잘못된 주소 '${value}'`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * "a, b, c" 같은 쉼표 목록 파라미터 (빈 항목 무시)
+ */
+export function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+}
+
+/**
+ * --args 같은 JSON 배열 파라미터 (큰 정수는 문자열로)
+ */
+export function parseJsonArray(task: string, name: string, value: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error: any) {
+    throw taskError(task, `${name}: JSON 배열이 아닙니다 (${error.message})`);
+  }
+  if (!Array.isArray(parsed)) throw taskError(task, `${name}: JSON 배열이어야 합니다 (입력: ${value})`);
+  return parsed;
+}
+
+/**
+ * 배포 레지스트리에서 컨트랙트를 가져오고, 누락 시 태스크 오류로 변환
+ */
+export async function getDeployedContract<N extends EcosystemContractName>(
+  hre: HardhatRuntimeEnvironment,
+  task: string,
+  name: N
+): Promise<EcosystemContract<N>> {
+  try {
+    return await getEcosystemContract(hre, name);
+  } catch (error) {
+    if (error instanceof MissingDeploymentError) {
+      throw taskError(task, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 트랜잭션 전송 → 확인 대기 → 이벤트 디코딩 출력
+ * revert 사유는 카탈로그 코드/한국어 메시지/힌트와 함께 태스크 오류로 변환합니다.
+ */
+export async function sendAndReport(
+  hre: HardhatRuntimeEnvironment,
+  task: string,
+  abi: Abi,
+  send: () => Promise<Hash>
+) {
+  let hash: Hash;
+  try {
+    hash = await send();
+  } catch (error: any) {
+    throw taskError(task, `트랜잭션 실패: ${formatRevert(decodeRevert(error), { hint: true })}`);
+  }
+
+  console.log(`🚀 트랜잭션 제출: ${hash}`);
+
+  const publicClient = await hre.viem.getPublicClient();
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw taskError(task, `트랜잭션이 revert 되었습니다: ${hash}`);
+  }
+
+  console.log(`✅ 블록 ${receipt.blockNumber}에서 확인 (⛽ ${receipt.gasUsed} gas)`);
+
+  const events = parseEventLogs({ abi, logs: receipt.logs });
+  for (const event of events) {
+    console.log(`📡 ${event.eventName}`);
+    for (const [key, value] of Object.entries((event.args ?? {}) as Record<string, unknown>)) {
+      console.log(`   - ${key}: ${formatEventValue(key, value)}`);
+    }
+  }
+
+  return { receipt, events };
+}
+
+// 금액 필드는 ETH/토큰 단위로, 시간 필드는 날짜로 함께 표시
+function formatEventValue(key: string, value: unknown): string {
+  if (typeof value === "bigint" && /amount|value|balance/i.test(key)) {
+    return `${formatEther(value)} (${value})`;
+  }
+  if (typeof value === "bigint" && /time$/i.test(key)) {
+    return `${formatTimestamp(value)} (${value})`;
+  }
+  return String(value);
+}
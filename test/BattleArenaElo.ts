@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeAbiParameters, getAddress, keccak256, type Address, type Hex } from "viem";
+import { getStorageAt, loadFixture, setStorageAt, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { applyRatingChange, calculateExpectedScore, ELO_RATING, updateRatings } from "../scripts/game/elo";
+import { createRandom, seedFromEnv, type Random } from "../scripts/lib/random";
+import { BattleArenaClient, CHARACTER_CLASSES } from "../scripts/sdk";
+
+describe("BattleArenaP2E ELO 레이팅", function () {
+  describe("기대 점수와 레이팅 변화", function () {
+    it("기대 점수는 400 차이까지 선형이고 그 이상은 90 / 10으로 고정되어야 함", function () {
+      expect(calculateExpectedScore(1000n, 1000n)).to.equal(50n);
+      expect(calculateExpectedScore(1200n, 1000n)).to.equal(70n);
+      expect(calculateExpectedScore(1000n, 1200n)).to.equal(30n);
+      expect(calculateExpectedScore(1009n, 1000n)).to.equal(50n); // 9 * 40 / 400 = 0.9 → 0
+      expect(calculateExpectedScore(1399n, 1000n)).to.equal(89n);
+      expect(calculateExpectedScore(1400n, 1000n)).to.equal(90n);
+      expect(calculateExpectedScore(100n, 5000n)).to.equal(10n);
+    });
+
+    it("변화량은 0 방향으로 버리고 공격자와 방어자가 정확히 반대여야 함", function () {
+      expect(updateRatings(1000n, 1000n, true)).to.deep.equal({
+        expected: 50n,
+        attacker: { oldRating: 1000n, newRating: 1016n, change: 16n },
+        defender: { oldRating: 1000n, newRating: 984n, change: -16n },
+      });
+
+      // 32 × -70 / 100 = -22.4 → -22 (내림이면 -23)
+      const upset = updateRatings(1200n, 1000n, false);
+      expect(upset.attacker).to.deep.equal({ oldRating: 1200n, newRating: 1178n, change: -22n });
+      expect(upset.defender).to.deep.equal({ oldRating: 1000n, newRating: 1022n, change: 22n });
+    });
+
+    it("400 이상 차이에서는 이변이면 ±28, 예상대로면 ±3이어야 함", function () {
+      expect(updateRatings(2000n, 1000n, true).attacker.change).to.equal(3n);
+      expect(updateRatings(2000n, 1000n, false).attacker.change).to.equal(-28n);
+      expect(updateRatings(1000n, 2000n, true).defender.change).to.equal(-28n);
+      expect(updateRatings(1000n, 2000n, false).defender.change).to.equal(3n);
+    });
+
+    it("감소폭이 레이팅 이상이면 하한 100이 되고, 아니면 100 아래로도 내려가야 함", function () {
+      expect(applyRatingChange(16n, -16n).newRating).to.equal(ELO_RATING.floor);
+      expect(applyRatingChange(5n, -16n).newRating).to.equal(ELO_RATING.floor); // 하한이 오히려 올림
+      expect(applyRatingChange(17n, -16n).newRating).to.equal(1n);
+      expect(applyRatingChange(101n, -28n).newRating).to.equal(73n);
+      expect(applyRatingChange(5n, 16n).newRating).to.equal(21n);
+    });
+
+    it("무작위 레이팅 쌍에서 변화량은 3 ~ 28이고 합은 0이어야 함", function () {
+      const random = createRandom(seedFromEnv("DIFF_SEED"));
+      for (let i = 0; i < 500; i++) {
+        const label = `seed ${random.seed}, #${i}`;
+        const [a, d] = [random.bigint(1n, 3000n), random.bigint(1n, 3000n)];
+        const { expected, attacker, defender } = updateRatings(a, d, random.chance(0.5));
+
+        expect(expected >= 10n && expected <= 90n, label).to.be.true;
+        expect(attacker.change + defender.change, label).to.equal(0n);
+        const magnitude = attacker.change < 0n ? -attacker.change : attacker.change;
+        expect(magnitude >= 3n && magnitude <= 28n, label).to.be.true;
+      }
+    });
+  });
+
+  describe("온체인 차등 테스트", function () {
+    // 실패하면 메시지의 시드로 재현: DIFF_SEED=<seed> npx hardhat test test/BattleArenaElo.ts
+    const baseSeed = seedFromEnv("DIFF_SEED");
+    const CHARACTERS_PER_PLAYER = 2;
+
+    async function deployArenaFixture() {
+      const [deployer, ...wallets] = await hre.viem.getWalletClients();
+      const players = wallets.slice(0, 4);
+      const gameToken = await hre.viem.deployContract("MyToken");
+      const characterNFT = await hre.viem.deployContract("MyNFT");
+      const battleArena = await hre.viem.deployContract("BattleArenaP2E", [gameToken.address, characterNFT.address]);
+
+      const arena = new BattleArenaClient(hre, battleArena);
+      const characters: { tokenId: bigint; owner: Address; client: BattleArenaClient }[] = [];
+      for (const player of players) {
+        for (let i = 0; i < CHARACTERS_PER_PLAYER; i++) {
+          const tokenId = BigInt(characters.length);
+          await characterNFT.write.adminMint([player.account.address, `ipfs://character-${tokenId}`], {
+            account: deployer.account,
+          });
+          const client = arena.connect(player);
+          await client.initializeCharacter(tokenId, CHARACTER_CLASSES[characters.length % CHARACTER_CLASSES.length]);
+          characters.push({ tokenId, owner: getAddress(player.account.address), client });
+        }
+      }
+
+      const ratingSlot = await findRatingSlot(battleArena.address, characters.length);
+      return { arena, characters, ratingSlot };
+    }
+
+    type Fixture = Awaited<ReturnType<typeof deployArenaFixture>>;
+    type Character = Fixture["characters"][number];
+
+    interface BattlePair {
+      attacker: Character;
+      defender: Character;
+    }
+
+    function ratingKey(slot: bigint, tokenId: bigint): Hex {
+      return keccak256(encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [tokenId, slot]));
+    }
+
+    /**
+     * characterRating 매핑의 저장 슬롯: 초기화하지 않은 토큰은 0, 초기화한 토큰은 1000인 슬롯을 찾음
+     * (상속한 OpenZeppelin 버전에 따라 레이아웃이 달라지므로 고정하지 않음)
+     */
+    async function findRatingSlot(address: Address, uninitializedId: number): Promise<bigint> {
+      for (let slot = 0n; slot < 64n; slot++) {
+        const initialized = BigInt(await getStorageAt(address, ratingKey(slot, 0n)));
+        const untouched = BigInt(await getStorageAt(address, ratingKey(slot, BigInt(uninitializedId))));
+        if (initialized === ELO_RATING.initial && untouched === 0n) return slot;
+      }
+      throw new Error("characterRating 저장 슬롯을 찾지 못했습니다");
+    }
+
+    async function setRating(fixture: Fixture, tokenId: bigint, rating: bigint) {
+      await setStorageAt(fixture.arena.address, ratingKey(fixture.ratingSlot, tokenId), rating);
+    }
+
+    /**
+     * 체력이 남은 공격자와 다른 플레이어의 방어자 (승자 주소로 결과를 구분하기 위해)
+     */
+    async function pickPair(fixture: Fixture, random: Random): Promise<BattlePair> {
+      const healthy = [];
+      for (const character of fixture.characters) {
+        if ((await fixture.arena.getCharacterStats(character.tokenId)).health > 0n) healthy.push(character);
+      }
+      const attacker = random.pick(healthy);
+      const defender = random.pick(fixture.characters.filter((c) => c.owner !== attacker.owner));
+      return { attacker, defender };
+    }
+
+    /**
+     * 쿨다운과 재대결 제한이 풀린 뒤 배틀하고 RatingUpdated 이벤트를 레퍼런스와 비교
+     */
+    async function battleAndCompare(fixture: Fixture, ratings: Map<bigint, bigint>, pair: BattlePair, label: string) {
+      const { attacker, defender } = pair;
+      await time.increase(2 * 3600 + 1);
+
+      const outcome = await attacker.client.startBattle(attacker.tokenId, defender.tokenId, "RANKED");
+      const attackerWon = outcome.winner === attacker.owner;
+      const expected = updateRatings(ratings.get(attacker.tokenId)!, ratings.get(defender.tokenId)!, attackerWon);
+
+      expect(outcome.ratingChanges, `${label}: RatingUpdated`).to.deep.equal([
+        { characterId: attacker.tokenId, oldRating: expected.attacker.oldRating, newRating: expected.attacker.newRating },
+        { characterId: defender.tokenId, oldRating: expected.defender.oldRating, newRating: expected.defender.newRating },
+      ]);
+      for (const [tokenId, update] of [
+        [attacker.tokenId, expected.attacker],
+        [defender.tokenId, expected.defender],
+      ] as const) {
+        expect((await fixture.arena.getCharacterStats(tokenId)).rating, `${label}: rating ${tokenId}`).to.equal(
+          update.newRating
+        );
+        ratings.set(tokenId, update.newRating);
+      }
+      return expected;
+    }
+
+    for (const offset of [0, 1]) {
+      it(`무작위 배틀에서 모든 RatingUpdated가 레퍼런스와 같아야 함 (#${offset + 1})`, async function () {
+        const fixture = await loadFixture(deployArenaFixture);
+        const seed = baseSeed + offset;
+        const random = createRandom(seed);
+        const ratings = new Map<bigint, bigint>(fixture.characters.map((c) => [c.tokenId, ELO_RATING.initial]));
+
+        for (let step = 0; step < 40; step++) {
+          // 가끔 레이팅을 하한 근처, 평균, 큰 격차 구간으로 옮겨서 경계 구간도 섞음
+          if (random.chance(0.25)) {
+            const { tokenId } = random.pick(fixture.characters);
+            const rating = random.pick([
+              random.bigint(1n, 130n),
+              random.bigint(900n, 1100n),
+              random.bigint(1500n, 3000n),
+            ]);
+            await setRating(fixture, tokenId, rating);
+            ratings.set(tokenId, rating);
+          }
+          await battleAndCompare(fixture, ratings, await pickPair(fixture, random), `seed ${seed}, step ${step}`);
+        }
+      });
+    }
+
+    it("큰 격차와 하한 경계 레이팅 쌍도 레퍼런스와 같아야 함", async function () {
+      const fixture = await loadFixture(deployArenaFixture);
+      const random = createRandom(baseSeed);
+      const ratings = new Map<bigint, bigint>(fixture.characters.map((c) => [c.tokenId, ELO_RATING.initial]));
+
+      const pairs: [bigint, bigint][] = [
+        [2000n, 1000n], // 400 이상 격차: ±3 또는 ±28
+        [1000n, 2400n],
+        [1399n, 1000n], // 격차 고정 직전
+        [5n, 5n], // 진 쪽은 하한 100으로 올라감
+        [16n, 16n], // 감소폭과 레이팅이 같으면 하한
+        [17n, 3000n], // 이기면 +28, 지면 -3 → 14 (하한 아래)
+        [101n, 101n],
+      ];
+      for (const [i, [attackerRating, defenderRating]] of pairs.entries()) {
+        const pair = await pickPair(fixture, random);
+        const { attacker, defender } = pair;
+        for (const [tokenId, rating] of [
+          [attacker.tokenId, attackerRating],
+          [defender.tokenId, defenderRating],
+        ] as const) {
+          await setRating(fixture, tokenId, rating);
+          ratings.set(tokenId, rating);
+        }
+
+        const expected = await battleAndCompare(fixture, ratings, pair, `pair #${i} ${attackerRating}/${defenderRating}`);
+
+        if (attackerRating === defenderRating && attackerRating <= 16n) {
+          const loser = expected.attacker.change < 0n ? expected.attacker : expected.defender;
+          expect(loser.newRating).to.equal(ELO_RATING.floor);
+        }
+      }
+    });
+  });
+});
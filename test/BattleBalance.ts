@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, type Address } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { balanceCsv, balanceMarkdown, simulateBalance } from "../scripts/game/balance";
+import {
+  allocateSkillPoints,
+  applyClassBonuses,
+  battleRandomness,
+  calculateExperienceGain,
+  calculateReward,
+  characterAtLevel,
+  createCharacter,
+  simulateBattle,
+} from "../scripts/game/battle";
+import { createRandom, seedFromEnv } from "../scripts/lib/random";
+import { BATTLE_TYPES, BattleArenaClient, CHARACTER_CLASSES, type CharacterStats } from "../scripts/sdk";
+
+describe("BattleArenaP2E 밸런스 시뮬레이터", function () {
+  describe("배틀 계산", function () {
+    it("클래스 기본 능력치와 보너스를 컨트랙트와 같게 적용해야 함", function () {
+      expect(createCharacter("ASSASSIN")).to.deep.include({ attack: 28n, defense: 12n, speed: 30n, magic: 8n });
+      expect(applyClassBonuses("MAGE", 15n, 30n)).to.deep.equal([10n, 45n]); // 15 × 0.7 = 10.5 → 10
+      expect(applyClassBonuses("HEALER", 12n, 25n)).to.deep.equal([9n, 35n]);
+    });
+
+    it("레벨업 능력치와 스킬 포인트 배분을 반영해야 함", function () {
+      const warrior = characterAtLevel("WARRIOR", 10);
+      expect(warrior).to.deep.include({ level: 10n, maxHealth: 190n, attack: 43n, defense: 38n, speed: 24n, magic: 19n });
+      expect(warrior.skillPoints).to.deep.equal([9n, 0n, 0n, 0n]);
+
+      const balanced = allocateSkillPoints(warrior, "balanced");
+      expect(balanced).to.deep.include({ attack: 46n, defense: 40n, speed: 26n, magic: 21n });
+      expect(balanced.skillPoints).to.deep.equal([0n, 0n, 0n, 0n]);
+      expect(() => characterAtLevel("MAGE", 100)).to.throw("레벨은 1 ~ 99");
+    });
+
+    it("배틀 결과는 상한 적용 전 피해량으로 정하고 피해는 최대 체력 60%로 제한해야 함", function () {
+      const warrior = createCharacter("WARRIOR");
+      const mage = createCharacter("MAGE");
+
+      // 공격 32 / 마법 7 vs 방어 10 / 마법 45: 가한 피해 27 + 2, 반격 (3 + 44) × 0.7 = 32에 마법사가 더 빨라 10% 가산
+      expect(simulateBattle(warrior, mage, 100n)).to.deep.equal({
+        attackerWins: false,
+        damageDealt: 29n,
+        damageReceived: 35n,
+      });
+      expect(simulateBattle(warrior, mage, 120n).attackerWins).to.be.false; // 29 × 1.2 = 34
+
+      // 무작위 배율에 따라 승패가 갈리는 조합
+      const healer = createCharacter("HEALER");
+      expect(simulateBattle(warrior, healer, 100n)).to.deep.include({ attackerWins: false, damageDealt: 27n });
+      expect(simulateBattle(warrior, healer, 120n)).to.deep.include({ attackerWins: true, damageDealt: 32n });
+
+      const strong = characterAtLevel("ASSASSIN", 60);
+      expect(simulateBattle(strong, mage, 120n).damageDealt).to.equal(60n);
+    });
+
+    it("보상과 경험치는 레벨 차이와 배틀 타입을 반영해야 함", function () {
+      const low = characterAtLevel("ARCHER", 1);
+      const high = characterAtLevel("HEALER", 3);
+      // 기본 10 × (100 + 레벨 차 40%) × 랭크 150%
+      expect(calculateReward(low, high, "RANKED")).to.equal(21n * 10n ** 18n);
+      expect(calculateReward(high, low, "CASUAL", { attacker: 1000n, defender: 1200n })).to.equal(20n * 10n ** 18n);
+      expect(calculateExperienceGain(low, high, true)).to.equal(150n);
+      expect(calculateExperienceGain(high, low, false)).to.equal(50n);
+    });
+  });
+
+  describe("몬테카를로 시뮬레이션", function () {
+    it("같은 시드면 같은 결과를 내고 5 × 5 행렬을 채워야 함", function () {
+      const options = { fightsPerMatchup: 50, levels: [1, 20], allocations: ["none", "magic"] as const, seed: 7 };
+      const report = simulateBalance(options);
+
+      expect(report.matchups).to.have.length(25);
+      expect(simulateBalance(options)).to.deep.equal(report);
+      expect(report.allocationsAsAttacker.none.fights + report.allocationsAsAttacker.magic.fights).to.equal(25 * 50);
+      for (const characterClass of CHARACTER_CLASSES) {
+        expect(report.classes[characterClass].attacking.fights).to.equal(5 * 50);
+      }
+    });
+
+    it("CSV와 Markdown 리포트를 만들어야 함", function () {
+      const report = simulateBalance({ fightsPerMatchup: 20, seed: 1 });
+
+      const csv = balanceCsv(report).trim().split("\n");
+      expect(csv).to.have.length(26);
+      expect(csv[0]).to.equal(
+        "attacker,defender,fights,attacker_wins,win_rate,avg_damage_dealt,avg_damage_received," +
+          "avg_attacker_reward,avg_defender_reward,avg_attacker_xp,avg_defender_xp"
+      );
+      expect(csv[1]).to.match(/^WARRIOR,WARRIOR,20,\d+,0\.\d{4},/);
+
+      const markdown = balanceMarkdown(report);
+      expect(markdown).to.include("| 공격 \\ 방어 | WARRIOR | MAGE | ARCHER | ASSASSIN | HEALER |");
+      expect(markdown).to.include("시드: `1`");
+    });
+  });
+
+  describe("온체인 검증", function () {
+    // 실패하면 메시지의 시드로 재현: DIFF_SEED=<seed> npx hardhat test test/BattleBalance.ts
+    const seed = seedFromEnv("DIFF_SEED");
+
+    async function deployArenaFixture() {
+      const [deployer, ...wallets] = await hre.viem.getWalletClients();
+      const gameToken = await hre.viem.deployContract("MyToken");
+      const characterNFT = await hre.viem.deployContract("MyNFT");
+      const battleArena = await hre.viem.deployContract("BattleArenaP2E", [gameToken.address, characterNFT.address]);
+      const arena = new BattleArenaClient(hre, battleArena);
+
+      // 클래스마다 두 캐릭터, 모두 다른 플레이어 (승자 주소로 결과를 구분하기 위해)
+      const characters: { tokenId: bigint; owner: Address; client: BattleArenaClient }[] = [];
+      for (const [i, player] of wallets.slice(0, CHARACTER_CLASSES.length * 2).entries()) {
+        const tokenId = BigInt(i);
+        await characterNFT.write.adminMint([player.account.address, `ipfs://character-${i}`], { account: deployer.account });
+        const client = arena.connect(player);
+        await client.initializeCharacter(tokenId, CHARACTER_CLASSES[i % CHARACTER_CLASSES.length]);
+        characters.push({ tokenId, owner: getAddress(player.account.address), client });
+      }
+      return { arena, characters };
+    }
+
+    it("표본 배틀의 승패, 피해, 보상, 경험치가 시뮬레이터와 같아야 함", async function () {
+      const { arena, characters } = await loadFixture(deployArenaFixture);
+      const publicClient = await hre.viem.getPublicClient();
+      const random = createRandom(seed);
+      const stats = async (tokenId: bigint): Promise<CharacterStats> => arena.getCharacterStats(tokenId);
+
+      let attackerWins = 0;
+      for (let i = 0; i < 40; i++) {
+        const label = `seed ${seed}, battle ${i}`;
+        const candidates = [];
+        for (const character of characters) {
+          if ((await stats(character.tokenId)).health > 0n) candidates.push(character);
+        }
+        const attacker = random.pick(candidates);
+        const defender = random.pick(characters.filter((c) => c !== attacker));
+
+        // 쌓인 스킬 포인트를 가끔 배분해서 배분한 능력치도 검증
+        const available = (await stats(attacker.tokenId)).skillPoints[0];
+        if (available > 0n && random.chance(0.3)) {
+          const stat = random.pick(["attack", "defense", "speed", "magic"] as const);
+          await attacker.client.allocateSkillPoints(attacker.tokenId, { [stat]: available });
+        }
+
+        const [before, defenderBefore] = await Promise.all([stats(attacker.tokenId), stats(defender.tokenId)]);
+        await time.increase(2 * 3600 + 1);
+        const battleType = random.pick(BATTLE_TYPES);
+        const outcome = await attacker.client.startBattle(attacker.tokenId, defender.tokenId, battleType);
+
+        const block = await publicClient.getBlock({ blockNumber: outcome.blockNumber });
+        const randomness = battleRandomness(block.timestamp, attacker.tokenId, defender.tokenId, block.mixHash);
+        const expected = simulateBattle(before, defenderBefore, randomness);
+        const ratings = { attacker: before.rating, defender: defenderBefore.rating };
+
+        expect(outcome.winner === attacker.owner, `${label}: 승패`).to.equal(expected.attackerWins);
+        expect(outcome.rewardAmount, `${label}: 보상`).to.equal(calculateReward(before, defenderBefore, battleType, ratings));
+        if (expected.attackerWins) attackerWins++;
+
+        // 레벨업하면 체력이 회복되고 경험치가 차감되므로 레벨업하지 않은 쪽만 비교
+        const [after, defenderAfter] = await Promise.all([stats(attacker.tokenId), stats(defender.tokenId)]);
+        const leveledUp = new Set(outcome.levelUps.map((e) => e.tokenId));
+        for (const [tokenId, was, now, won, opponent, damage] of [
+          [attacker.tokenId, before, after, expected.attackerWins, defenderBefore, expected.damageDealt],
+          [defender.tokenId, defenderBefore, defenderAfter, !expected.attackerWins, before, expected.damageReceived],
+        ] as const) {
+          if (leveledUp.has(tokenId)) continue;
+          expect(now.experience - was.experience, `${label}: ${tokenId} 경험치`).to.equal(
+            calculateExperienceGain(was, opponent, won)
+          );
+          // 진 쪽만 피해를 입음: 공격자는 damageDealt, 방어자는 damageReceived 만큼 (컨트랙트 그대로)
+          const lost = won ? 0n : damage;
+          expect(now.health, `${label}: ${tokenId} 체력`).to.equal(was.health > lost ? was.health - lost : 0n);
+        }
+      }
+
+      // 표본이 한쪽 결과로만 치우치지 않았는지
+      expect(attackerWins).to.be.within(1, 39);
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { isAddressEqual, parseEther, type Address } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import {
+  eliminationSlots,
+  roundRobinSchedule,
+  seedEntrants,
+  TournamentBracket,
+  type TournamentEntrant,
+} from "../scripts/game/tournament";
+import { runTournament } from "../scripts/game/tournament-runner";
+import { createRandom, seedFromEnv } from "../scripts/lib/random";
+import { BattleArenaClient, CHARACTER_CLASSES, TOURNAMENT_TYPES } from "../scripts/sdk";
+
+describe("BattleArenaP2E 토너먼트", function () {
+  const entrants = (count: number): TournamentEntrant[] =>
+    Array.from({ length: count }, (_, i) => ({ tokenId: BigInt(i), rating: 1000n + BigInt(i) * 10n }));
+
+  describe("대진표", function () {
+    it("레이팅 순으로 시드를 매기고 상위 시드에게 부전승을 줘야 함", function () {
+      const seeded = seedEntrants(entrants(5));
+      expect(seeded).to.deep.equal([4n, 3n, 2n, 1n, 0n]);
+      expect(seedEntrants([{ tokenId: 7n, rating: 1000n }, { tokenId: 2n, rating: 1000n }])).to.deep.equal([2n, 7n]);
+
+      // 시드 순서 [1, 8, 4, 5, 2, 7, 3, 6] → 6 ~ 8번 자리가 비어 1 ~ 3번 시드가 부전승
+      expect(eliminationSlots(seeded)).to.deep.equal([4n, null, 1n, 0n, 3n, null, 2n, null]);
+
+      const bracket = new TournamentBracket("SINGLE_ELIMINATION", entrants(5), createRandom(1));
+      expect(bracket.nextRound()).to.deep.equal([{ round: 1, home: 1n, away: 0n }]);
+      expect(bracket.results.map((r) => r.winner)).to.deep.equal([4n, 3n, 2n]);
+      expect(() => bracket.nextRound()).to.throw("1라운드 경기가 1개 남아 있습니다");
+    });
+
+    it("싱글 엘리미네이션은 라운드마다 절반이 탈락하고 순위를 매겨야 함", function () {
+      const bracket = new TournamentBracket("SINGLE_ELIMINATION", entrants(5), createRandom(1));
+      // 매 경기 토큰 ID가 작은 쪽이 이김
+      const rounds: number[] = [];
+      while (!bracket.finished) {
+        const round = bracket.nextRound();
+        rounds.push(round.length);
+        for (const match of round) bracket.record(match, match.home < match.away ? match.home : match.away);
+      }
+
+      expect(rounds).to.deep.equal([1, 2, 1]);
+      expect(bracket.champion).to.equal(0n);
+      const standings = bracket.standings();
+      expect(standings.map((s) => s.tokenId)).to.deep.equal([0n, 2n, 4n, 3n, 1n]);
+      expect(standings[0]).to.deep.include({ rank: 1, seed: 5, wins: 3, losses: 0, eliminatedInRound: null });
+      expect(standings[2]).to.deep.include({ byes: 1, wins: 0, losses: 1, eliminatedInRound: 2 });
+      expect(() => bracket.record({ round: 3, home: 0n, away: 2n }, 0n)).to.throw("진행 중인 경기가 아닙니다");
+    });
+
+    it("리그전은 모든 쌍이 한 번씩 만나고 홀수면 라운드마다 한 명이 쉬어야 함", function () {
+      const schedule = roundRobinSchedule([0n, 1n, 2n, 3n, 4n]);
+      expect(schedule).to.have.length(5);
+
+      const pairs = new Set<string>();
+      for (const round of schedule) {
+        expect(round.filter(([home, away]) => home === null || away === null)).to.have.length(1);
+        for (const [home, away] of round) {
+          if (home !== null && away !== null) pairs.add([home, away].sort().join("-"));
+        }
+      }
+      expect(pairs.size).to.equal(10);
+
+      const bracket = new TournamentBracket("ROUND_ROBIN", entrants(5), createRandom(1));
+      while (!bracket.finished) {
+        for (const match of bracket.nextRound()) bracket.record(match, match.home > match.away ? match.home : match.away);
+      }
+      const standings = bracket.standings();
+      expect(standings.map((s) => [s.tokenId, s.wins, s.losses, s.byes])).to.deep.equal([
+        [4n, 4, 0, 1],
+        [3n, 3, 1, 1],
+        [2n, 2, 2, 1],
+        [1n, 1, 3, 1],
+        [0n, 0, 4, 1],
+      ]);
+      expect(standings.every((s) => s.eliminatedInRound === null)).to.be.true;
+    });
+
+    it("리그전 동률은 컨트랙트처럼 먼저 등록한 캐릭터가 앞서야 함", function () {
+      // 등록 순서 1, 0, 2 (시드 순서는 2, 1, 0), 0 > 1 > 2 > 0 으로 모두 1승 1패
+      const [e0, e1, e2] = entrants(3);
+      const beats = new Map([[0n, 1n], [1n, 2n], [2n, 0n]]);
+      const bracket = new TournamentBracket("ROUND_ROBIN", [e1, e0, e2], createRandom(1));
+      while (!bracket.finished) {
+        for (const match of bracket.nextRound()) {
+          bracket.record(match, beats.get(match.home) === match.away ? match.home : match.away);
+        }
+      }
+
+      expect(bracket.standings().map((s) => [s.tokenId, s.wins, s.registration])).to.deep.equal([
+        [1n, 1, 0],
+        [0n, 1, 1],
+        [2n, 1, 2],
+      ]);
+      expect(bracket.champion).to.equal(1n);
+    });
+
+    it("배틀로얄은 같은 시드면 같은 대진을 만들고 부전승을 고르게 나눠야 함", function () {
+      const play = (seed: number) => {
+        const bracket = new TournamentBracket("BATTLE_ROYALE", entrants(7), createRandom(seed));
+        const random = createRandom(seed + 1);
+        while (!bracket.finished) {
+          for (const match of bracket.nextRound()) bracket.record(match, random.chance(0.5) ? match.home : match.away);
+        }
+        return bracket;
+      };
+
+      const bracket = play(42);
+      expect(play(42).results).to.deep.equal(bracket.results);
+      expect(bracket.results.filter((r) => r.outcome !== "bye")).to.have.length(6);
+      expect(bracket.standings().filter((s) => s.eliminatedInRound === null)).to.have.length(1);
+      // 7 → 4 → 2 → 1: 인원이 홀수인 1라운드에만 부전승
+      expect(bracket.results.filter((r) => r.outcome === "bye")).to.have.length(1);
+    });
+
+    it("참가자가 2명 미만이거나 중복되면 거부해야 함", function () {
+      const random = createRandom(1);
+      expect(() => new TournamentBracket("ROUND_ROBIN", entrants(1), random)).to.throw("2명 이상");
+      expect(
+        () => new TournamentBracket("BATTLE_ROYALE", [...entrants(2), { tokenId: 0n, rating: 900n }], random)
+      ).to.throw("두 번 등록");
+    });
+  });
+
+  describe("온체인 진행", function () {
+    // 실패하면 메시지의 시드로 재현: DIFF_SEED=<seed> npx hardhat test test/BattleTournament.ts
+    const seed = seedFromEnv("DIFF_SEED");
+    const entryFee = parseEther("5");
+
+    async function deployTournamentFixture() {
+      const [deployer, ...players] = await hre.viem.getWalletClients();
+      const gameToken = await hre.viem.deployContract("MyToken");
+      const characterNFT = await hre.viem.deployContract("MyNFT");
+      const battleArena = await hre.viem.deployContract("BattleArenaP2E", [gameToken.address, characterNFT.address]);
+      const arena = new BattleArenaClient(hre, battleArena);
+
+      // 캐릭터 6개: 0 ~ 4는 각자 다른 플레이어, 5는 0번 캐릭터와 같은 소유자 (승자 주소가 겹치는 경우)
+      const owners: Address[] = [];
+      for (let i = 0; i < 6; i++) {
+        const player = players[i % 5];
+        await characterNFT.write.adminMint([player.account.address, `ipfs://character-${i}`], { account: deployer.account });
+        await arena.connect(player).initializeCharacter(BigInt(i), CHARACTER_CLASSES[i % CHARACTER_CLASSES.length]);
+        owners.push(player.account.address);
+      }
+      for (const player of players.slice(0, 5)) {
+        await gameToken.write.transfer([player.account.address, parseEther("100")], { account: deployer.account });
+      }
+      return { arena, battleArena, gameToken, owners, characters: [0n, 1n, 2n, 3n, 4n, 5n] };
+    }
+
+    for (const tournamentType of TOURNAMENT_TYPES) {
+      it(`${tournamentType}: 대진표대로 배틀을 치르고 결과로 정해진 우승자에게 상금 풀의 90%를 적립해야 함`, async function () {
+        const { arena, battleArena, characters, owners } = await loadFixture(deployTournamentFixture);
+        const publicClient = await hre.viem.getPublicClient();
+        const label = `seed ${seed}, ${tournamentType}`;
+
+        const result = await runTournament(hre, arena, {
+          name: `${tournamentType} 컵`,
+          tournamentType,
+          entryFee,
+          characters,
+          seed,
+          advanceTime: true,
+          log: () => {},
+        });
+
+        expect(result.tournament, label).to.deep.include({
+          completed: true,
+          winner: result.champion,
+          prizePool: entryFee * 6n,
+        });
+        expect(result.tournament.participants, label).to.have.members(characters);
+        expect(result.prize, label).to.equal((entryFee * 6n * 90n) / 100n);
+        expect(result.standings[0].tokenId, label).to.equal(result.champion);
+
+        // 실제로 치른 배틀 수: 엘리미네이션/배틀로얄은 n - 1 (기권 포함), 리그전은 모든 쌍
+        const decided = result.matches.filter((m) => m.outcome !== "bye");
+        expect(decided, label).to.have.length(tournamentType === "ROUND_ROBIN" ? 15 : 5);
+        for (const match of decided.filter((m) => m.outcome === "battle")) {
+          expect([match.attacker, match.defender], label).to.have.members([match.winner, match.loser]);
+        }
+
+        // 컨트랙트에 기록된 경기 결과가 대진표 결과와 같아야 함
+        const recorded = await battleArena.getEvents.TournamentMatchRecorded(
+          { tournamentId: result.tournament.tournamentId },
+          { fromBlock: 0n }
+        );
+        expect(recorded.map((e) => [e.args.winnerId, e.args.loserId, e.args.forfeit]), label).to.deep.equal(
+          decided.map((m) => [m.winner, m.loser, m.outcome === "forfeit"])
+        );
+        expect(result.tournament.matchesPlayed, label).to.equal(BigInt(decided.length));
+
+        // 우승 캐릭터 소유자의 미수령 보상은 completeTournament 블록에서 상금만큼 늘어남
+        const receipt = await publicClient.getTransactionReceipt({ hash: result.completedTx });
+        const owner = owners[Number(result.champion)];
+        const [before] = await battleArena.read.getPlayerStats([owner], { blockNumber: receipt.blockNumber - 1n });
+        const [after] = await battleArena.read.getPlayerStats([owner], { blockNumber: receipt.blockNumber });
+        expect(after - before, label).to.equal(result.prize);
+      });
+    }
+
+    it("참가 마감 이후 등록과 중복 등록, 경기가 남았을 때와 두 번 완료를 거부해야 함", async function () {
+      const { arena, characters } = await loadFixture(deployTournamentFixture);
+      const [, player0, player1] = await hre.viem.getWalletClients();
+      const startTime = BigInt(await time.latest()) + 600n;
+      const { tournamentId } = await arena.createTournament({
+        name: "마감 테스트",
+        entryFee,
+        startTime,
+        tournamentType: "ROUND_ROBIN",
+      });
+
+      const client = arena.connect(player0);
+      await client.joinTournament(tournamentId, 0n);
+      await arena.connect(player1).joinTournament(tournamentId, 1n);
+      await expect(client.joinTournament(tournamentId, 0n)).to.be.rejectedWith("Already registered");
+      await expect(arena.completeTournament(tournamentId)).to.be.rejectedWith("Tournament not started");
+
+      // 시작 전 TOURNAMENT 배틀은 경기로 기록되지 않음 (진 쪽만 피해를 입으므로 이긴 쪽이 다음 경기를 공격)
+      const warmup = await client.startBattle(0n, 1n, "TOURNAMENT");
+      expect(warmup.tournamentMatch).to.be.undefined;
+      const [attacker, defender] = isAddressEqual(warmup.winner, player0.account.address) ? [0n, 1n] : [1n, 0n];
+
+      await time.increaseTo(startTime);
+      await expect(client.joinTournament(tournamentId, 5n)).to.be.rejectedWith("Registration closed");
+
+      // 러너도 마감 뒤에는 나머지 캐릭터를 등록하지 못함
+      await expect(
+        runTournament(hre, arena, { tournamentId, characters, seed, advanceTime: true, log: () => {} })
+      ).to.be.rejectedWith("Registration closed");
+
+      await expect(arena.completeTournament(tournamentId)).to.be.rejectedWith("Matches remaining");
+      await time.increase(2 * 3600);
+      const { tournamentMatch } = await arena
+        .connect(attacker === 0n ? player0 : player1)
+        .startBattle(attacker, defender, "TOURNAMENT");
+      expect(tournamentMatch?.tournamentId).to.equal(tournamentId);
+      await expect(client.forfeitTournamentMatch(tournamentId, 0n, 1n)).to.be.rejectedWith("Match already played");
+      await expect(
+        runTournament(hre, arena, { tournamentId, advanceTime: true, log: () => {} })
+      ).to.be.rejectedWith("이미 경기 결과가 기록되어 있어");
+
+      // 완료는 누구나 호출할 수 있고 우승자는 기록된 결과로 정해짐
+      const winnerId = tournamentMatch!.winnerId;
+      expect((await client.completeTournament(tournamentId)).winner).to.equal(winnerId);
+      await expect(arena.completeTournament(tournamentId)).to.be.rejectedWith("Tournament already completed");
+      await expect(
+        runTournament(hre, arena, { tournamentId, advanceTime: true, log: () => {} })
+      ).to.be.rejectedWith(`이미 우승자 #${winnerId}로 끝났습니다`);
+    });
+
+    it("탈락한 캐릭터의 경기, 남의 캐릭터로 기권, 다른 토너먼트 중복 등록을 거부해야 함", async function () {
+      const { arena } = await loadFixture(deployTournamentFixture);
+      const [, player0, player1, player2] = await hre.viem.getWalletClients();
+      const startTime = BigInt(await time.latest()) + 600n;
+      const create = async (name: string, start: bigint) =>
+        (await arena.createTournament({ name, startTime: start, tournamentType: "SINGLE_ELIMINATION" })).tournamentId;
+      const tournamentId = await create("탈락 테스트", startTime);
+      const other = await create("다른 토너먼트", startTime + 86400n);
+
+      await arena.connect(player0).joinTournament(tournamentId, 0n);
+      await arena.connect(player1).joinTournament(tournamentId, 1n);
+      await arena.connect(player2).joinTournament(tournamentId, 2n);
+      await expect(arena.connect(player0).joinTournament(other, 0n)).to.be.rejectedWith(
+        "Already in another tournament"
+      );
+      // 5번 캐릭터(0번과 같은 소유자)는 등록하지 않았으므로 이 토너먼트 경기가 아님
+      await arena.connect(player0).joinTournament(other, 5n);
+      await time.increaseTo(startTime);
+
+      await expect(arena.connect(player0).forfeitTournamentMatch(tournamentId, 1n, 2n)).to.be.rejectedWith(
+        "Not your character"
+      );
+      await expect(arena.connect(player0).forfeitTournamentMatch(tournamentId, 0n, 5n)).to.be.rejectedWith(
+        "Not a tournament participant"
+      );
+      expect((await arena.connect(player0).startBattle(0n, 5n, "TOURNAMENT")).tournamentMatch).to.be.undefined;
+
+      await arena.connect(player1).forfeitTournamentMatch(tournamentId, 1n, 2n);
+      await expect(arena.connect(player1).startBattle(1n, 0n, "TOURNAMENT")).to.be.rejectedWith("Character eliminated");
+      await expect(arena.completeTournament(tournamentId)).to.be.rejectedWith("Matches remaining");
+
+      // 탈락한 캐릭터는 토너먼트가 끝나기 전에도 다른 토너먼트에 등록할 수 있음
+      await arena.connect(player1).joinTournament(other, 1n);
+      expect((await arena.getTournament(other)).participants).to.deep.equal([5n, 1n]);
+
+      await time.increase(2 * 3600);
+      const { tournamentMatch } = await arena.connect(player2).startBattle(2n, 0n, "TOURNAMENT");
+      const completed = await arena.completeTournament(tournamentId);
+      expect(completed.winner).to.equal(tournamentMatch!.winnerId);
+      expect((await arena.getTournament(tournamentId)).winner).to.equal(tournamentMatch!.winnerId);
+    });
+  });
+});
@@ -267,12 +267,15 @@ describe("🌟 Blockchain Portfolio - 종합 통합 테스트", function () {
   describe("📊 9. 성능 및 가스 최적화 테스트", function () {
     it("⛽ 가스 사용량 측정 및 최적화 검증", async function () {
       const { myToken, owner, user1 } = await loadFixture(deployAllContractsFixture);
+      const publicClient = await hre.viem.getPublicClient();
       
-      // 가스 사용량 측정
+      // 가스 사용량 측정 (회귀 감지는 npm run gas:check - gas-snapshot.json 기준)
       const transferTx = await myToken.write.transfer([user1.account.address, parseEther("100")]);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: transferTx });
       
       console.log("⛽ 가스 사용량 분석:");
-      console.log(`🔸 토큰 전송 트랜잭션: ${transferTx}`);
+      console.log(`🔸 토큰 전송: ${receipt.gasUsed} gas`);
+      expect(receipt.gasUsed < 100_000n).to.be.true;
       
       // 배치 전송으로 가스 효율성 테스트
       const recipients = [user1.account.address];
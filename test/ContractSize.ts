@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  checkContractSizes,
+  collectContractSizes,
+  INITCODE_SIZE_LIMIT,
+  RUNTIME_SIZE_LIMIT,
+} from "../scripts/security/contract-size";
+
+describe("ContractSize", function () {
+  let artifactsDir: string;
+  let log: typeof console.log;
+  let warn: typeof console.warn;
+  let error: typeof console.error;
+
+  const bytecode = (bytes: number) => `0x${"00".repeat(bytes)}`;
+
+  // Hardhat 아티팩트 구조를 흉내 냄 (artifacts/contracts/<소스>/<컨트랙트>.json)
+  function writeArtifact(contractName: string, runtimeSize: number, initcodeSize: number) {
+    const sourceName = `contracts/${contractName}.sol`;
+    const dir = path.join(artifactsDir, sourceName);
+    fs.mkdirSync(dir, { recursive: true });
+    const artifact = {
+      contractName,
+      sourceName,
+      bytecode: initcodeSize === 0 ? "0x" : bytecode(initcodeSize),
+      deployedBytecode: runtimeSize === 0 ? "0x" : bytecode(runtimeSize),
+    };
+    fs.writeFileSync(path.join(dir, `${contractName}.json`), JSON.stringify(artifact));
+    fs.writeFileSync(path.join(dir, `${contractName}.dbg.json`), JSON.stringify({ buildInfo: "" }));
+  }
+
+  before(function () {
+    artifactsDir = fs.mkdtempSync(path.join(os.tmpdir(), "contract-size-"));
+    writeArtifact("Small", 1_000, 1_200);
+    writeArtifact("NearLimit", 23_000, 24_000); // 런타임 93.6%
+    writeArtifact("AtLimit", RUNTIME_SIZE_LIMIT, RUNTIME_SIZE_LIMIT + 100);
+    writeArtifact("TooLarge", RUNTIME_SIZE_LIMIT + 1, 30_000);
+    writeArtifact("LargeInitcode", 500, INITCODE_SIZE_LIMIT + 1);
+    writeArtifact("IToken", 0, 0);
+
+    log = console.log;
+    warn = console.warn;
+    error = console.error;
+    console.log = console.warn = console.error = () => {};
+  });
+
+  after(function () {
+    console.log = log;
+    console.warn = warn;
+    console.error = error;
+    fs.rmSync(artifactsDir, { recursive: true, force: true });
+  });
+
+  it("경고 임계값과 크기 제한으로 상태를 매겨야 함", function () {
+    const status = Object.fromEntries(collectContractSizes(artifactsDir, 90).map((c) => [c.contract, c.status]));
+
+    expect(status).to.deep.equal({
+      TooLarge: "exceeded",
+      AtLimit: "warning", // 제한값과 같으면 초과가 아님
+      NearLimit: "warning",
+      Small: "ok",
+      LargeInitcode: "exceeded",
+    });
+    expect(collectContractSizes(artifactsDir, 95).find((c) => c.contract === "NearLimit")?.status).to.equal("ok");
+  });
+
+  it("바이트코드가 없는 인터페이스는 건너뛰고 런타임 크기가 큰 순서로 정렬해야 함", function () {
+    const sizes = collectContractSizes(artifactsDir, 90);
+
+    expect(sizes.map((c) => c.contract)).to.deep.equal(["TooLarge", "AtLimit", "NearLimit", "Small", "LargeInitcode"]);
+    expect(sizes.find((c) => c.contract === "Small")).to.deep.include({
+      sourceName: "contracts/Small.sol",
+      runtimeSize: 1_000,
+      initcodeSize: 1_200,
+      runtimeHeadroom: 95.9,
+    });
+  });
+
+  it("경고나 초과가 있으면 실패로 리포트해야 함", function () {
+    const reportFile = path.join(artifactsDir, "reports", "contract-size.json");
+    const report = checkContractSizes({ artifactsDir, warnThresholdPercent: 90, reportFile });
+
+    expect(report.passed).to.be.false;
+    expect(JSON.parse(fs.readFileSync(reportFile, "utf8")).contracts).to.have.length(5);
+    expect(() => collectContractSizes(path.join(artifactsDir, "missing"), 90)).to.throw("아티팩트를 찾을 수 없습니다");
+  });
+});
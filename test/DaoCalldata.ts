@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { encodeFunctionData, getAddress, parseAbi, parseEther } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import {
+  buildExecutionData,
+  callTarget,
+  decodeExecutionData,
+  previewExecutionData,
+  type CallTargets,
+} from "../scripts/dao/calldata";
+import { DaoClient } from "../scripts/sdk";
+
+describe("DAO 실행 데이터 빌더", function () {
+  describe("인코딩/디코딩", function () {
+    const DAO = "0x1111111111111111111111111111111111111111";
+    const TOKEN = "0x2222222222222222222222222222222222222222";
+    const MULTISIG = "0x3333333333333333333333333333333333333333";
+
+    const targets: CallTargets = (() => {
+      const dao = callTarget(
+        "dao",
+        {
+          address: DAO,
+          abi: parseAbi([
+            "function updateDAOParameters(uint256 _quorumPercentage, uint256 _proposalThreshold, uint256 _emergencyThreshold)",
+            "function withdrawTreasury(uint256 amount, address recipient)",
+            "function setExpertStatus(address voter, bool isExpert)",
+            "function setExpertStatus(address[] voters, bool isExpert)",
+            "function quorumPercentage() view returns (uint256)",
+          ]),
+        },
+        "AIEnhancedDAO"
+      );
+      const token = callTarget("myToken", {
+        address: TOKEN,
+        abi: parseAbi(["function transfer(address to, uint256 amount) returns (bool)"]),
+      });
+      const multiSig = callTarget("multiSig", { address: MULTISIG, abi: parseAbi(["function deposit() payable"]) });
+      return { dao, contracts: [dao, token, multiSig] };
+    })();
+
+    it("DAO 함수를 인코딩하고 주소 인자에 생태계 컨트랙트 이름을 받아야 함", function () {
+      const parameters = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "updateDAOParameters",
+        args: [20, "60", 80n],
+      });
+      expect(parameters.executionData).to.equal(
+        encodeFunctionData({
+          abi: targets.dao.abi,
+          functionName: "updateDAOParameters",
+          args: [20n, 60n, 80n],
+        })
+      );
+      expect(parameters.call.text).to.equal("dao.updateDAOParameters(20, 60, 80)");
+
+      const withdraw = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "withdrawTreasury",
+        args: ["1.5 ether", "multiSig"],
+      });
+      expect(withdraw.call).to.deep.include({
+        target: "dao",
+        address: DAO,
+        signature: "withdrawTreasury(uint256,address)",
+        value: 0n,
+      });
+      expect(withdraw.call.args).to.deep.equal([parseEther("1.5"), MULTISIG]);
+      expect(withdraw.call.text).to.equal(`dao.withdrawTreasury(1500000000000000000, multiSig(${MULTISIG}))`);
+
+      // 디코딩하면 같은 설명으로 돌아옴
+      expect(decodeExecutionData(targets, parameters.executionData)).to.deep.equal(parameters.call);
+      expect(decodeExecutionData(targets, withdraw.executionData)).to.deep.equal(withdraw.call);
+    });
+
+    it("오버로드된 함수는 시그니처로 지정해야 함", function () {
+      expect(() =>
+        buildExecutionData(targets, { target: "dao", functionName: "setExpertStatus", args: [TOKEN, true] })
+      ).to.throw("오버로드되어 있습니다. 시그니처로 지정하세요: setExpertStatus(address,bool), setExpertStatus(address[],bool)");
+
+      const { executionData, call } = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "setExpertStatus(address[], bool)",
+        args: [["myToken", MULTISIG], "true"],
+      });
+      expect(call.text).to.equal(`dao.setExpertStatus([myToken(${TOKEN}), multiSig(${MULTISIG})], true)`);
+      expect(decodeExecutionData(targets, executionData)!.text).to.equal(call.text);
+    });
+
+    it("DAO 밖 대상, 잘못된 함수, 인자, 금액을 거부해야 함", function () {
+      const build = (description: Parameters<typeof buildExecutionData>[1]) => () =>
+        buildExecutionData(targets, description);
+
+      // executeProposal은 DAO 자신만 호출하므로 다른 컨트랙트 호출은 실행될 수 없음
+      expect(build({ target: "myToken", functionName: "transfer", args: [MULTISIG, 1] })).to.throw(
+        "myToken.transfer: executeProposal은 DAO 자신의 함수만 호출하므로 dao 함수를 지정하세요"
+      );
+      expect(build({ target: "multiSig", functionName: "deposit", value: "1" })).to.throw("DAO 자신의 함수만");
+      expect(build({ target: "dex", functionName: "swap" })).to.throw(
+        "알 수 없는 대상 컨트랙트 'dex' (사용 가능: dao, myToken, multiSig)"
+      );
+      expect(build({ target: "dao", functionName: "burn" })).to.throw("dao에 burn 함수가 없습니다");
+      expect(build({ target: "dao", functionName: "quorumPercentage" })).to.throw("view 함수입니다");
+      expect(build({ target: "dao", functionName: "withdrawTreasury", args: ["1 ether"] })).to.throw(
+        "인자 2개가 필요합니다 (입력 1개)"
+      );
+      expect(build({ target: "dao", functionName: "withdrawTreasury", args: [1, "treasury"] })).to.throw(
+        "인자 recipient (address): 주소 또는 생태계 컨트랙트 이름이어야 합니다"
+      );
+      expect(build({ target: "dao", functionName: "withdrawTreasury", args: ["1.5", MULTISIG] })).to.throw("정수");
+      expect(build({ target: "dao", functionName: "updateDAOParameters", args: [1, 2, 3], value: 1n })).to.throw(
+        "ETH를 보낼 수 없습니다"
+      );
+    });
+
+    it("빈 데이터와 DAO에 없는 선택자를 구분해야 함", function () {
+      expect(decodeExecutionData(targets, "0x")).to.be.undefined;
+      expect(() => decodeExecutionData(targets, "0xdeadbeef")).to.throw("DAO에 선택자 0xdeadbeef인 함수가 없어");
+
+      // 다른 컨트랙트의 함수 선택자도 DAO에서는 실행되지 않음
+      const transfer = encodeFunctionData({
+        abi: targets.contracts[1].abi,
+        functionName: "transfer",
+        args: [MULTISIG, 1n],
+      });
+      expect(() => decodeExecutionData(targets, transfer)).to.throw(
+        `DAO에 선택자 ${transfer.slice(0, 10)}인 함수가 없어`
+      );
+    });
+  });
+
+  describe("온체인 미리보기", function () {
+    const draft = {
+      title: "멀티시그로 예산 이전",
+      description:
+        "Move part of the DAO ETH treasury to the operations multisig so that the season budget can be paid out. " +
+        "The withdrawal is executed by the DAO.",
+      proposalType: "FUNDING" as const,
+    };
+
+    async function deployCalldataFixture() {
+      const [deployer, recipient] = await hre.viem.getWalletClients();
+      const myToken = await hre.viem.deployContract("MyToken");
+      const contract = await hre.viem.deployContract("AIEnhancedDAO", [myToken.address, deployer.account.address]);
+      // DAO 트레저리에 ETH 예치
+      await deployer.sendTransaction({ to: contract.address, value: parseEther("10") });
+
+      const daoTarget = callTarget("dao", contract, "AIEnhancedDAO");
+      const targets: CallTargets = { dao: daoTarget, contracts: [daoTarget, callTarget("myToken", myToken, "MyToken")] };
+      const dao = new DaoClient(hre, contract);
+      return { targets, contract, dao, recipient: getAddress(recipient.account.address) };
+    }
+
+    it("DAO 주소로 시뮬레이션해 결과와 revert 사유를 보여줘야 함", async function () {
+      const { targets, contract, recipient } = await loadFixture(deployCalldataFixture);
+
+      const withdraw = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "withdrawTreasury",
+        args: ["4 ether", recipient],
+      });
+      expect(await previewExecutionData(hre, targets, withdraw.executionData)).to.deep.include({
+        ok: true,
+        call: withdraw.call,
+      });
+
+      const overdraft = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "withdrawTreasury",
+        args: ["50 ether", recipient],
+      });
+      const failed = await previewExecutionData(hre, targets, overdraft.executionData);
+      expect(failed.ok).to.be.false;
+      expect(failed.revert).to.include("Insufficient treasury");
+
+      const parameters = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "updateDAOParameters",
+        args: [60, 60, 80],
+      });
+      const tooHigh = await previewExecutionData(hre, targets, parameters.executionData);
+      expect(tooHigh).to.deep.include({ ok: false });
+      expect(tooHigh.revert).to.include("Quorum too high");
+
+      // 시뮬레이션은 상태를 바꾸지 않음
+      expect(await contract.read.quorumPercentage()).to.equal(20n);
+      expect(await contract.read.treasuryBalance()).to.equal(parseEther("10"));
+      expect(await previewExecutionData(hre, targets, "0x")).to.deep.equal({ executionData: "0x", ok: true });
+      expect((await previewExecutionData(hre, targets, "0xdeadbeef")).revert).to.include("선택자 0xdeadbeef");
+    });
+
+    it("가결된 제안이 미리보기한 호출을 그대로 실행해야 함", async function () {
+      const { targets, contract, dao, recipient } = await loadFixture(deployCalldataFixture);
+      const publicClient = await hre.viem.getPublicClient();
+      const { executionData, call } = buildExecutionData(targets, {
+        target: "dao",
+        functionName: "withdrawTreasury",
+        args: ["4 ether", recipient],
+      });
+      const { proposalId } = await dao.submitProposal({ ...draft, executionData });
+
+      const outlook = await dao.getOutlook(proposalId);
+      expect(decodeExecutionData(targets, outlook.proposal.executionData)).to.deep.equal(call);
+
+      const before = await publicClient.getBalance({ address: recipient });
+      await dao.vote(proposalId, "FOR");
+      await time.increaseTo(outlook.executableAt);
+      const executed = await dao.executeProposal(proposalId);
+      expect(executed).to.deep.include({ status: "EXECUTED", success: true });
+
+      expect(await publicClient.getBalance({ address: recipient })).to.equal(before + parseEther("4"));
+      expect(await contract.read.treasuryBalance()).to.equal(parseEther("6"));
+    });
+  });
+});
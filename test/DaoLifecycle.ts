@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { DaoClient, type ProposalStatusName, type ProposalVote } from "../scripts/sdk";
+
+describe("AIEnhancedDAO 제안 라이프사이클", function () {
+  const draft = {
+    title: "시즌 보상 풀 확대",
+    description:
+      "Allocate treasury funds to the season reward pool so that ranked players are rewarded every month. " +
+      "The budget is reviewed after one season.",
+  };
+
+  async function deployDaoFixture() {
+    const [deployer, alice, bob] = await hre.viem.getWalletClients();
+    const governanceToken = await hre.viem.deployContract("MyToken");
+    const contract = await hre.viem.deployContract("AIEnhancedDAO", [governanceToken.address, deployer.account.address]);
+
+    // 배포자가 총발행량 대부분을 보유, 앨리스/밥은 소액
+    for (const holder of [alice, bob]) {
+      await governanceToken.write.transfer([holder.account.address, parseEther("5000")]);
+    }
+    const dao = new DaoClient(hre, contract);
+    return { dao, deployer, alice, bob };
+  }
+
+  it("마감 전후 진행 상황을 계산하고 가결되면 실행해야 함", async function () {
+    const { dao, deployer, alice, bob } = await loadFixture(deployDaoFixture);
+    const { proposalId } = await dao.submitProposal({ ...draft, proposalType: "PARAMETER" });
+
+    let outlook = await dao.getOutlook(proposalId);
+    expect(outlook).to.deep.include({ votingOpen: true, executable: false, projectedStatus: undefined });
+    expect(outlook.executableAt).to.equal(outlook.proposal.deadline + 1n);
+    // 200바이트 미만 설명은 AI 점수 30 → 기본 51%에 15%p 가산
+    expect(outlook.proposal.aiScore).to.equal(30n);
+    expect(outlook.proposal.requiredMajority).to.equal(66n);
+
+    await dao.connect(alice).vote(proposalId, "AGAINST", "예산이 큼");
+    await dao.connect(bob).vote(proposalId, "ABSTAIN");
+    outlook = await dao.getOutlook(proposalId);
+    expect(outlook).to.deep.include({ projectedStatus: "DEFEATED", quorumReached: false });
+
+    const voted = await dao.vote(proposalId, "FOR", "찬성");
+    expect(voted.quorumReached).to.be.true;
+    outlook = await dao.getOutlook(proposalId);
+    expect(outlook).to.deep.include({ projectedStatus: "SUCCEEDED", quorumReached: true, votingOpen: true });
+    expect(outlook.totalVotes).to.equal(
+      outlook.proposal.forVotes + outlook.proposal.againstVotes + outlook.proposal.abstainVotes
+    );
+
+    await expect(dao.executeProposal(proposalId)).to.be.rejectedWith("Voting period not ended");
+    await time.increaseTo(outlook.executableAt);
+    outlook = await dao.getOutlook(proposalId);
+    expect(outlook).to.deep.include({ votingOpen: false, executable: true });
+
+    const executed = await dao.executeProposal(proposalId);
+    expect(executed).to.deep.include({ status: "EXECUTED", success: true });
+    expect(await dao.getOutlook(proposalId)).to.deep.include({ executable: false, projectedStatus: undefined });
+
+    const votes = await dao.getVotes(proposalId);
+    expect(votes.map((v) => [v.voter, v.support, v.reason])).to.deep.equal([
+      [getAddress(alice.account.address), "AGAINST", "예산이 큼"],
+      [getAddress(bob.account.address), "ABSTAIN", ""],
+      [getAddress(deployer.account.address), "FOR", "찬성"],
+    ]);
+    expect(votes[2].weight).to.equal(voted.weight);
+  });
+
+  it("찬성률이 부족하면 DEFEATED로 집계해야 함", async function () {
+    const { dao, alice } = await loadFixture(deployDaoFixture);
+    // 긴급 제안은 67% 이상 필요 (AI 점수 50이라 가감 없음)
+    const { proposalId } = await dao.submitProposal({ ...draft, proposalType: "EMERGENCY" });
+    await dao.connect(alice).vote(proposalId, "FOR");
+    await dao.vote(proposalId, "AGAINST");
+
+    const outlook = await dao.getOutlook(proposalId);
+    expect(outlook.proposal.requiredMajority).to.equal(67n);
+    expect(outlook.projectedStatus).to.equal("DEFEATED");
+
+    await time.increaseTo(outlook.executableAt);
+    expect((await dao.executeProposal(proposalId)).status).to.equal("DEFEATED");
+  });
+
+  it("투표, 정족수 도달, 상태 변경 이벤트를 감시해야 함", async function () {
+    const { dao, deployer, alice } = await loadFixture(deployDaoFixture);
+    const { proposalId } = await dao.submitProposal(draft);
+    const { proposalId: otherId } = await dao.submitProposal(draft);
+
+    const votes: ProposalVote[] = [];
+    const quorum: bigint[] = [];
+    let status: ProposalStatusName | undefined;
+    const unwatch = await dao.watchProposal(proposalId, {
+      pollingInterval: 50,
+      onVote: (vote) => votes.push(vote),
+      onQuorumReached: (totalVotes) => quorum.push(totalVotes),
+      onStatusChanged: (newStatus) => (status = newStatus),
+    });
+
+    try {
+      await dao.vote(otherId, "FOR");
+      await dao.connect(alice).vote(proposalId, "FOR", "좋아요");
+      await dao.vote(proposalId, "FOR");
+      await time.increaseTo((await dao.getOutlook(proposalId)).executableAt);
+      await dao.executeProposal(proposalId);
+
+      for (let i = 0; i < 100 && status === undefined; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    } finally {
+      unwatch();
+    }
+
+    expect(status).to.equal("EXECUTED");
+    expect(votes.map((v) => [v.voter, v.reason])).to.deep.equal([
+      [getAddress(alice.account.address), "좋아요"],
+      [getAddress(deployer.account.address), ""],
+    ]);
+    // 다른 제안의 이벤트는 무시하고, 정족수는 배포자 투표에서 도달
+    expect(quorum).to.have.length(1);
+  });
+
+  it("없는 제안은 거부해야 함", async function () {
+    const { dao } = await loadFixture(deployDaoFixture);
+    await expect(dao.getOutlook(7n)).to.be.rejectedWith("제안 #7이(가) 없습니다");
+  });
+});
@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+import { parseEther } from "viem";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { main as advancedInteraction } from "../scripts/advanced-interaction";
+import { main as contractShowcase } from "../scripts/contract-showcase";
+import { main as demoInteraction } from "../scripts/demo-interaction";
+import { main as fullEcosystemDemo } from "../scripts/full-ecosystem-demo";
+import { main as interactLock } from "../scripts/interact-lock";
+import { isStrictMode, StepRunner } from "../scripts/lib/steps";
+
+// 스크립트 출력은 요약만 남기고 숨김
+async function runQuietly(action: () => Promise<void>) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await action();
+  } finally {
+    console.log = log;
+  }
+}
+
+function failures(steps: StepRunner) {
+  return steps.records.filter((r) => r.status === "failed").map((r) => `${r.name}: ${r.reason}`);
+}
+
+describe("DemoScripts", function () {
+  describe("StepRunner", function () {
+    it("실패를 기록하고 의존 단계는 건너뛰어야 함", async function () {
+      const steps = new StepRunner("unit", { strict: true, verbose: false });
+
+      const value = await steps.step("성공", async () => 42);
+      const failed = await steps.step("실패", async () => {
+        throw new Error("boom");
+      });
+      await steps.step("의존 단계", async () => "never", { requires: [value, failed] });
+
+      expect(value).to.equal(42);
+      expect(failed).to.be.undefined;
+      expect(steps.records.map((r) => r.status)).to.deep.equal(["passed", "failed", "skipped"]);
+      expect(steps.records[1].reason).to.equal("boom");
+      expect(steps.exitCode()).to.equal(1);
+    });
+
+    it("strict 모드가 아니면 실패가 있어도 종료 코드 0이어야 함", async function () {
+      const steps = new StepRunner("unit", { strict: false, verbose: false });
+      await steps.step("실패", async () => {
+        throw new Error("boom");
+      });
+
+      expect(steps.passed).to.be.false;
+      expect(steps.exitCode()).to.equal(0);
+    });
+
+    it("--strict 인자나 STRICT 환경 변수로 strict 모드를 켜야 함", function () {
+      expect(isStrictMode(["node", "script.ts", "--strict"], {})).to.be.true;
+      expect(isStrictMode(["node", "script.ts"], { STRICT: "true" })).to.be.true;
+      expect(isStrictMode(["node", "script.ts"], {})).to.be.false;
+    });
+
+    it("expectRevert는 revert 사유를 디코딩해 비교해야 함", async function () {
+      const advancedLock = await hre.viem.deployContract("AdvancedLock");
+      const steps = new StepRunner("unit", { strict: true, verbose: false });
+
+      await steps.expectRevert("기간 검증", () => advancedLock.write.createLock([advancedLock.address, 60n]), "Invalid lock duration");
+      await steps.expectRevert("다른 사유", () => advancedLock.write.withdraw([0n]), "Lock not yet expired");
+      await steps.expectRevert("성공하면 실패", () => advancedLock.read.totalLocked());
+
+      expect(steps.records.map((r) => r.status)).to.deep.equal(["passed", "failed", "failed"]);
+      expect(steps.records[1].reason).to.include("Lock does not exist");
+    });
+  });
+
+  describe("strict 모드로 스크립트 실행", function () {
+    const scripts: [string, (steps: StepRunner) => Promise<void>][] = [
+      ["demo-interaction", demoInteraction],
+      ["advanced-interaction", advancedInteraction],
+      ["contract-showcase", contractShowcase],
+      ["full-ecosystem-demo", fullEcosystemDemo],
+    ];
+
+    for (const [name, main] of scripts) {
+      it(`${name}: 실패한 단계가 없어야 함`, async function () {
+        const snapshot = await takeSnapshot();
+        const steps = new StepRunner(name, { strict: true, verbose: false });
+
+        try {
+          await runQuietly(() => main(steps));
+        } finally {
+          await snapshot.restore();
+        }
+
+        expect(failures(steps)).to.deep.equal([]);
+        expect(steps.count("passed")).to.be.greaterThan(0);
+        expect(steps.exitCode()).to.equal(0);
+      });
+    }
+
+    it("interact-lock: 레지스트리의 Lock으로 실패한 단계가 없어야 함", async function () {
+      const snapshot = await takeSnapshot();
+      const overrideFile = path.join(os.tmpdir(), `demo-scripts-${process.pid}.json`);
+      const previous = process.env.DEPLOYMENT_OVERRIDES;
+      const steps = new StepRunner("interact-lock", { strict: true, verbose: false });
+
+      try {
+        const unlockTime = BigInt((await time.latest()) + 365 * 24 * 60 * 60);
+        const lock = await hre.viem.deployContract("Lock", [unlockTime], { value: parseEther("1") });
+        fs.writeFileSync(overrideFile, JSON.stringify({ "31337": { lock: lock.address } }));
+        process.env.DEPLOYMENT_OVERRIDES = overrideFile;
+
+        await runQuietly(() => interactLock(steps));
+      } finally {
+        if (previous === undefined) delete process.env.DEPLOYMENT_OVERRIDES;
+        else process.env.DEPLOYMENT_OVERRIDES = previous;
+        fs.rmSync(overrideFile, { force: true });
+        await snapshot.restore();
+      }
+
+      expect(failures(steps)).to.deep.equal([]);
+      expect(steps.count("skipped")).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { parseEther } from "viem";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import {
+  assertSlippage,
+  getAmountOut,
+  minAmountOutFor,
+  parseSlippageBps,
+  quoteSwap,
+  SlippageExceededError,
+} from "../scripts/dex/quote";
+import { ContractRevertError } from "../scripts/lib/revert";
+import { SimpleDexClient } from "../scripts/sdk";
+
+describe("SimpleDEX 견적", function () {
+  describe("오프체인 계산", function () {
+    it("getAmountOut 공식과 실패 사유를 재현해야 함", function () {
+      // 10 * 997 * 2000 / (1000 * 1000 + 10 * 997)
+      expect(getAmountOut(10n, 1000n, 2000n)).to.equal(19n);
+      expect(getAmountOut(parseEther("10"), parseEther("1000"), parseEther("2000"))).to.equal(
+        (parseEther("10") * 997n * parseEther("2000")) / (parseEther("1000") * 1000n + parseEther("10") * 997n)
+      );
+      expect(() => getAmountOut(0n, 1n, 1n)).to.throw("Insufficient input amount");
+      expect(() => getAmountOut(1n, 0n, 1n)).to.throw("Insufficient liquidity");
+    });
+
+    it("가격 영향과 실효 가격을 계산해야 함", function () {
+      const small = quoteSwap(parseEther("1"), parseEther("1000"), parseEther("1000"));
+      const large = quoteSwap(parseEther("100"), parseEther("1000"), parseEther("1000"));
+
+      expect(small.spotPrice).to.equal(parseEther("1"));
+      expect(small.feeAmount).to.equal(parseEther("0.003"));
+      expect(small.priceImpactBps).to.equal(9n); // 약 0.1%
+      expect(large.priceImpactBps).to.equal(906n); // 약 9%
+      expect(large.effectivePrice < large.spotPrice).to.be.true;
+      expect(large.reserveOutAfter).to.equal(parseEther("1000") - large.amountOut);
+    });
+
+    it("minAmountOut과 슬리피지 중 더 엄격한 값을 써야 함", function () {
+      const quote = { amountOut: 10_000n };
+      expect(minAmountOutFor(quote)).to.equal(9_950n); // 기본 0.5%
+      expect(minAmountOutFor(quote, { slippageBps: 100 })).to.equal(9_900n);
+      expect(minAmountOutFor(quote, { minAmountOut: 9_000n })).to.equal(9_000n);
+      expect(minAmountOutFor(quote, { minAmountOut: 9_999n, slippageBps: 100 })).to.equal(9_999n);
+      expect(() => minAmountOutFor(quote, { slippageBps: 10_001 })).to.throw("잘못된 슬리피지");
+
+      expect(parseSlippageBps("0.5")).to.equal(50);
+      expect(parseSlippageBps("1%")).to.equal(100);
+      expect(parseSlippageBps("25bps")).to.equal(25);
+      expect(() => parseSlippageBps("abc")).to.throw("잘못된 슬리피지");
+    });
+
+    it("예상 수령량이 기준보다 적으면 SlippageExceededError를 던져야 함", function () {
+      const reference = quoteSwap(parseEther("10"), parseEther("1000"), parseEther("1000"));
+      const moved = quoteSwap(parseEther("10"), parseEther("1100"), parseEther("900"));
+
+      expect(assertSlippage(reference, reference.amountOut)).to.equal(minAmountOutFor(reference));
+      expect(() => assertSlippage(reference, moved.amountOut, { slippageBps: 100 })).to.throw(SlippageExceededError);
+    });
+  });
+
+  describe("SimpleDexClient", function () {
+    async function deployPoolFixture() {
+      const [deployer, alice] = await hre.viem.getWalletClients();
+      const tokenA = await hre.viem.deployContract("MyToken");
+      const tokenB = await hre.viem.deployContract("MyToken");
+      const simpleDEX = await hre.viem.deployContract("SimpleDEX", [tokenA.address, tokenB.address]);
+
+      const dex = new SimpleDexClient(hre, simpleDEX);
+      await dex.addLiquidity("1000", "2000");
+      await tokenA.write.transfer([alice.account.address, parseEther("100")]);
+
+      return { deployer, alice, tokenA, tokenB, dex };
+    }
+
+    it("견적이 온체인 getAmountOut과 같아야 함", async function () {
+      const { dex } = await loadFixture(deployPoolFixture);
+
+      const quote = await dex.quote("BtoA", "25");
+      expect(quote.amountOut).to.equal(await dex.getAmountOut("BtoA", "25"));
+      expect(quote.spotPrice).to.equal((await dex.getPrice()).priceBinA);
+    });
+
+    it("슬리피지 이내면 스왑하고 견적만큼 받아야 함", async function () {
+      const { dex, alice, tokenB } = await loadFixture(deployPoolFixture);
+      const aliceDex = dex.connect(alice);
+
+      const quote = await aliceDex.quote("AtoB", "10");
+      const result = await aliceDex.swapWithProtection("AtoB", "10", { reference: quote, slippageBps: 50 });
+
+      expect(result.amountOut).to.equal(quote.amountOut);
+      expect(result.minAmountOut).to.equal(minAmountOutFor(quote, { slippageBps: 50 }));
+      expect(await tokenB.read.balanceOf([alice.account.address])).to.equal(quote.amountOut);
+    });
+
+    it("가격이 움직였으면 트랜잭션을 보내지 않아야 함", async function () {
+      const { dex, alice, tokenB } = await loadFixture(deployPoolFixture);
+      const aliceDex = dex.connect(alice);
+
+      const quote = await aliceDex.quote("AtoB", "10");
+      await dex.swap("AtoB", "100"); // 다른 사용자의 큰 스왑으로 가격 하락
+
+      const error = await aliceDex
+        .swapWithProtection("AtoB", "10", { reference: quote, slippageBps: 100 })
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(SlippageExceededError);
+      expect(await tokenB.read.balanceOf([alice.account.address])).to.equal(0n);
+
+      // 절대 최소 수령량도 적용
+      const tooHigh = await aliceDex.swapWithProtection("AtoB", "10", { minAmountOut: quote.amountOut }).catch((e) => e);
+      expect(tooHigh).to.be.instanceOf(SlippageExceededError);
+    });
+
+    it("시뮬레이션이 revert하면 ContractRevertError를 던져야 함", async function () {
+      const { dex, alice } = await loadFixture(deployPoolFixture);
+
+      // 앨리스는 토큰 B가 없음 → transferFrom 실패
+      const error = await dex.connect(alice).swapWithProtection("BtoA", "10").catch((e) => e);
+      expect(error).to.be.instanceOf(ContractRevertError);
+      expect(error.functionName).to.equal("swapBtoA");
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther, type Address, type Hex } from "viem";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { calculateDynamicFee, dynamicFeeBreakdown, getDynamicAmountOut } from "../scripts/dex/dynamic-fee";
+import { SIMPLE_DEX_FEE } from "../scripts/dex/quote";
+import {
+  discoverPools,
+  enumeratePaths,
+  executeRoutePlan,
+  findRoutes,
+  planRoute,
+  RouteSlippageError,
+  type IntelligentDexPool,
+  type SimpleDexPool,
+} from "../scripts/dex/router";
+import { IntelligentDexClient, intelligentPoolId, SimpleDexClient } from "../scripts/sdk";
+
+describe("DEX 라우터", function () {
+  const [A, B, C, D] = [1, 2, 3, 4].map((n) => getAddress(`0x${n.toString().repeat(40)}`)) as Address[];
+
+  function simplePool(tokenA: Address, tokenB: Address, reserveA: bigint, reserveB: bigint): SimpleDexPool {
+    const dex = getAddress(`0x${"a".repeat(38)}${tokenA.slice(2, 3)}${tokenB.slice(2, 3)}`);
+    return { id: `SimpleDEX:${dex}`, venue: "SimpleDEX", dex, tokenA, tokenB, reserveA, reserveB, fee: SIMPLE_DEX_FEE };
+  }
+
+  function intelligentPool(
+    tokenA: Address,
+    tokenB: Address,
+    reserveA: bigint,
+    reserveB: bigint,
+    analytics: Partial<Pick<IntelligentDexPool, "volatilityScore" | "liquidityHealth" | "recentSwaps">> = {}
+  ): IntelligentDexPool {
+    const poolId = intelligentPoolId(tokenA, tokenB);
+    return {
+      id: `IntelligentDEX:${poolId}`,
+      venue: "IntelligentDEX",
+      dex: getAddress(`0x${"b".repeat(40)}`),
+      poolId,
+      tokenA,
+      tokenB,
+      reserveA,
+      reserveB,
+      volatilityScore: 50n,
+      liquidityHealth: 100n,
+      recentSwaps: 0n,
+      ...analytics,
+    };
+  }
+
+  describe("IntelligentDEX 동적 수수료", function () {
+    const pool = { reserveA: 1000n, reserveB: 1000n, volatilityScore: 50n, liquidityHealth: 50n, recentSwaps: 10n };
+
+    it("요인별 가감을 컨트랙트와 같은 순서로 적용해야 함", function () {
+      expect(calculateDynamicFee(pool, 100n)).to.equal(30n);
+      // 준비금 합의 10% 초과 거래: 비율 / 2 가산 (300 * 100 / 2000 = 15 → +7)
+      expect(dynamicFeeBreakdown(pool, 300n)).to.deep.include({ tradeSize: 7n, fee: 37n });
+      // 건전한 유동성(-10), 한산한 거래(-5), 낮은 변동성(-10) → 5 → 최소 10
+      expect(calculateDynamicFee({ ...pool, liquidityHealth: 100n, recentSwaps: 0n, volatilityScore: 10n }, 1n)).to.equal(10n);
+      // 큰 거래 + 높은 변동성 + 활발한 거래 + 불건전 유동성 → 최대 100
+      expect(calculateDynamicFee({ ...pool, liquidityHealth: 10n, recentSwaps: 60n, volatilityScore: 90n }, 2000n)).to.equal(100n);
+    });
+
+    it("수수료를 뺀 입력으로 x * y = k 출력을 계산해야 함", function () {
+      // 100 * (10000 - 30) / 10000 = 99 → 99 * 2000 / (1000 + 99)
+      expect(getDynamicAmountOut({ reserveA: 1000n, reserveB: 2000n }, true, 100n, 30n)).to.equal(180n);
+      expect(getDynamicAmountOut({ reserveA: 1000n, reserveB: 2000n }, false, 100n, 30n)).to.equal(47n);
+      expect(getDynamicAmountOut({ reserveA: 0n, reserveB: 0n }, true, 100n, 30n)).to.equal(0n);
+      expect(() => getDynamicAmountOut({ reserveA: 0n, reserveB: 0n }, true, 1n, 30n)).to.throw("division by zero");
+    });
+  });
+
+  describe("경로 탐색", function () {
+    it("maxHops 이내에서 토큰과 풀을 반복하지 않는 경로만 찾아야 함", function () {
+      const pools = [
+        simplePool(A, B, parseEther("1000"), parseEther("1000")),
+        intelligentPool(A, B, parseEther("1000"), parseEther("1000")),
+        intelligentPool(B, C, parseEther("1000"), parseEther("1000")),
+        intelligentPool(C, D, parseEther("1000"), parseEther("1000")),
+      ];
+
+      expect(enumeratePaths(pools, A, B).map((p) => p.length)).to.deep.equal([1, 1]);
+      expect(enumeratePaths(pools, A, C)).to.have.length(2);
+      expect(enumeratePaths(pools, A, D, { maxHops: 2 })).to.be.empty;
+      expect(enumeratePaths(pools, A, D)).to.have.length(2);
+      expect(enumeratePaths(pools, A, A)).to.be.empty;
+    });
+
+    it("동적 수수료까지 반영해 가장 많이 받는 경로를 골라야 함", function () {
+      const amountIn = parseEther("10");
+      const simple = simplePool(A, B, parseEther("1000"), parseEther("1000"));
+      const cheap = intelligentPool(A, B, parseEther("1000"), parseEther("1000")); // 30 - 5 - 10 = 15bps
+      const busy = intelligentPool(A, B, parseEther("1000"), parseEther("1000"), { recentSwaps: 60n, liquidityHealth: 20n });
+
+      expect(findRoutes([simple, cheap], A, B, amountIn)[0].hops[0].pool).to.equal(cheap);
+      expect(findRoutes([simple, busy], A, B, amountIn)[0].hops[0].pool).to.equal(simple);
+      expect(findRoutes([simple, busy], A, B, amountIn)[1].hops[0].feeBps).to.equal(70n);
+    });
+
+    it("직접 풀보다 유리하면 다중 홉 경로를 선택해야 함", function () {
+      const pools = [
+        simplePool(A, C, parseEther("10"), parseEther("10")), // 얕은 직접 풀
+        intelligentPool(A, B, parseEther("1000"), parseEther("1000")),
+        simplePool(B, C, parseEther("1000"), parseEther("1000")),
+      ];
+
+      const [best, direct] = findRoutes(pools, A, C, parseEther("5"));
+      expect(best.path).to.deep.equal([A, B, C]);
+      expect(best.hops[1].amountIn).to.equal(best.hops[0].amountOut);
+      expect(direct.path).to.deep.equal([A, C]);
+      expect(best.amountOut > direct.amountOut).to.be.true;
+    });
+
+    it("유동성이 없는 풀은 건너뛰고 경로가 없으면 예외를 던져야 함", function () {
+      const empty = intelligentPool(A, B, 0n, 0n);
+      expect(findRoutes([empty], A, B, 1n)).to.be.empty;
+      expect(() => planRoute([empty], A, B, 1n)).to.throw("유동성 있는 경로가 없습니다");
+    });
+  });
+
+  describe("주문 분할", function () {
+    const pools = [
+      simplePool(A, B, parseEther("1000"), parseEther("1000")),
+      intelligentPool(A, B, parseEther("1000"), parseEther("1000")),
+    ];
+
+    it("큰 주문은 두 거래소에 나눠 단일 경로보다 많이 받아야 함", function () {
+      const amountIn = parseEther("200");
+      const single = planRoute(pools, A, B, amountIn);
+      const split = planRoute(pools, A, B, amountIn, { split: true });
+
+      expect(single.routes).to.have.length(1);
+      expect(split.routes).to.have.length(2);
+      expect(split.routes.reduce((sum, r) => sum + r.amountIn, 0n)).to.equal(amountIn);
+      expect(split.amountOut).to.equal(split.routes.reduce((sum, r) => sum + r.amountOut, 0n));
+      expect(split.amountOut > single.amountOut).to.be.true;
+    });
+
+    it("작은 주문이나 풀을 공유하는 경로는 분할하지 않아야 함", function () {
+      expect(planRoute(pools, A, B, 1000n, { split: true, parts: 4 }).routes).to.have.length(1);
+
+      const shared = [
+        intelligentPool(A, B, parseEther("1000"), parseEther("1000")),
+        simplePool(B, C, parseEther("1000"), parseEther("1000")),
+        intelligentPool(B, C, parseEther("1000"), parseEther("1000")),
+      ];
+      // 두 경로 모두 A/B 풀을 지나므로 하나만 사용
+      expect(planRoute(shared, A, C, parseEther("200"), { split: true }).routes).to.have.length(1);
+    });
+  });
+
+  describe("온체인 실행", function () {
+    async function deployVenuesFixture() {
+      const [deployer, alice] = await hre.viem.getWalletClients();
+      const tokenA = await hre.viem.deployContract("MyToken");
+      const tokenB = await hre.viem.deployContract("MyToken");
+      const tokenC = await hre.viem.deployContract("MyToken");
+      const simpleDEX = await hre.viem.deployContract("SimpleDEX", [tokenA.address, tokenB.address]);
+      const intelligentDEX = await hre.viem.deployContract("IntelligentDEX");
+
+      const dex = new SimpleDexClient(hre, simpleDEX);
+      const idex = new IntelligentDexClient(hre, intelligentDEX);
+      await dex.addLiquidity("1000", "1000");
+
+      const { poolId: abPool } = await idex.createPool(tokenA.address, tokenB.address);
+      const { poolId: bcPool } = await idex.createPool(tokenB.address, tokenC.address);
+      await idex.addLiquidity(abPool, "1000", "1000");
+      await idex.addLiquidity(bcPool, "1000", "1000");
+
+      await tokenA.write.transfer([alice.account.address, parseEther("500")]);
+
+      const venues = { simpleDex: [dex.connect(alice)], intelligentDex: [idex.connect(alice)] };
+      return { deployer, alice, tokenA, tokenB, tokenC, dex, idex, abPool, bcPool, venues };
+    }
+
+    it("PoolCreated 이벤트와 getPoolInfo로 풀을 찾아야 함", async function () {
+      const { tokenA, tokenB, abPool, bcPool, venues } = await loadFixture(deployVenuesFixture);
+      const pools = await discoverPools(venues);
+
+      expect(pools.map((p) => p.venue)).to.deep.equal(["SimpleDEX", "IntelligentDEX", "IntelligentDEX"]);
+      expect(abPool).to.equal(intelligentPoolId(tokenA.address, tokenB.address));
+      expect((pools[2] as IntelligentDexPool).poolId).to.equal(bcPool as Hex);
+      expect(pools[1]).to.deep.include({ reserveA: parseEther("1000"), liquidityHealth: 100n, recentSwaps: 0n });
+    });
+
+    it("오프체인 동적 수수료 견적이 실제 스왑과 같아야 함", async function () {
+      const { tokenA, abPool, idex, alice } = await loadFixture(deployVenuesFixture);
+      const aliceIdex = idex.connect(alice);
+
+      const quote = await aliceIdex.quote(abPool, tokenA.address, "300");
+      const result = await aliceIdex.swap(abPool, tokenA.address, "300", quote.amountOut);
+
+      // 큰 거래(+7), 한산한 거래(-5), 건전한 유동성(-10)
+      expect(quote.fee).to.equal(22n);
+      expect(result.fee).to.equal(quote.fee);
+      expect(result.amountOut).to.equal(quote.amountOut);
+    });
+
+    it("분할·다중 홉 라우트를 실행하고 견적만큼 받아야 함", async function () {
+      const { alice, tokenA, tokenB, tokenC, venues } = await loadFixture(deployVenuesFixture);
+      const plan = planRoute(await discoverPools(venues), tokenA.address, tokenC.address, parseEther("50"), {
+        split: true,
+      });
+      // A/B 두 풀 모두 같은 B/C 풀로 이어지므로 분할 없이 2홉
+      expect(plan.routes).to.have.length(1);
+      expect(plan.routes[0].hops.map((hop) => hop.tokenOut)).to.deep.equal([getAddress(tokenB.address), getAddress(tokenC.address)]);
+
+      const result = await executeRoutePlan(plan, venues, { slippageBps: 50 });
+      expect(result.amountOut).to.equal(plan.amountOut);
+      expect(await tokenC.read.balanceOf([alice.account.address])).to.equal(result.amountOut);
+      expect(result.hops.every((hop) => hop.amountOut >= hop.minAmountOut)).to.be.true;
+    });
+
+    it("재견적이 최소 수령량보다 적으면 아무것도 보내지 않아야 함", async function () {
+      const { alice, tokenA, tokenB, dex, idex, abPool, venues } = await loadFixture(deployVenuesFixture);
+      const plan = planRoute(await discoverPools(venues), tokenA.address, tokenB.address, parseEther("100"), {
+        split: true,
+      });
+
+      // 다른 사용자의 큰 스왑으로 두 풀 모두 가격 하락
+      await dex.swap("AtoB", "200");
+      await idex.swap(abPool, tokenA.address, "200");
+
+      const error = await executeRoutePlan(plan, venues, { slippageBps: 100 }).catch((e) => e);
+      expect(error).to.be.instanceOf(RouteSlippageError);
+      expect(await tokenA.read.balanceOf([alice.account.address])).to.equal(parseEther("500"));
+      expect(await tokenB.read.balanceOf([alice.account.address])).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther, type Address } from "viem";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+type EcosystemModuleType = typeof import("../ignition/modules/Ecosystem").default;
+
+describe("EcosystemModule", function () {
+  const initialLiquidity = parseEther("500");
+  const rewardPool = parseEther("2500");
+
+  let EcosystemModule: EcosystemModuleType;
+  let oracle: Address;
+  let previousOracle: string | undefined;
+
+  // NFT 모듈은 빌드될 때(import 시점) GAME_ORACLE을 읽으므로 환경 변수를 먼저 설정
+  before(async function () {
+    const [, , , oracleWallet] = await hre.viem.getWalletClients();
+    oracle = getAddress(oracleWallet.account.address);
+    previousOracle = process.env.GAME_ORACLE;
+    process.env.GAME_ORACLE = oracle;
+    ({ default: EcosystemModule } = await import("../ignition/modules/Ecosystem"));
+  });
+
+  after(function () {
+    if (previousOracle === undefined) delete process.env.GAME_ORACLE;
+    else process.env.GAME_ORACLE = previousOracle;
+  });
+
+  async function deployEcosystemFixture() {
+    return hre.ignition.deploy(EcosystemModule, {
+      parameters: {
+        DeFiModule: { initialLiquidity },
+        GameModule: { rewardPool },
+        GovernanceModule: { ownerNames: ["Deployer", "Alice", "Bob"], required: 3 },
+      },
+    });
+  }
+
+  it("두 DEX를 같은 토큰 쌍으로 배포하고 초기 유동성을 공급해야 함", async function () {
+    const { myToken, pairToken, simpleDEX, intelligentDEX } = await loadFixture(deployEcosystemFixture);
+
+    expect(await simpleDEX.read.tokenA()).to.equal(getAddress(myToken.address));
+    expect(await simpleDEX.read.tokenB()).to.equal(getAddress(pairToken.address));
+    expect(await simpleDEX.read.reserveA()).to.equal(initialLiquidity);
+    expect(await simpleDEX.read.reserveB()).to.equal(initialLiquidity);
+
+    // 유동성은 PoolCreated 이벤트에서 읽은 poolId의 풀에 들어가야 함
+    const created = await intelligentDEX.getEvents.PoolCreated({}, { fromBlock: 0n });
+    expect(created).to.have.length(1);
+    const [tokenA, tokenB, reserveA, reserveB] = await intelligentDEX.read.getPoolInfo([created[0].args.poolId!]);
+    expect([tokenA, tokenB]).to.deep.equal([getAddress(myToken.address), getAddress(pairToken.address)]);
+    expect([reserveA, reserveB]).to.deep.equal([initialLiquidity, initialLiquidity]);
+  });
+
+  it("DAO 트레저리를 멀티시그로, 아레나를 보상 토큰과 캐릭터 NFT로 연결해야 함", async function () {
+    const { myToken, myNFT, battleArena, multiSig, dao } = await loadFixture(deployEcosystemFixture);
+
+    expect(await dao.read.treasury()).to.equal(getAddress(multiSig.address));
+    expect(await dao.read.governanceToken()).to.equal(getAddress(myToken.address));
+    expect(await multiSig.read.required()).to.equal(3n);
+
+    expect(await battleArena.read.rewardToken()).to.equal(getAddress(myToken.address));
+    expect(await battleArena.read.characterNFT()).to.equal(getAddress(myNFT.address));
+    expect(await myToken.read.balanceOf([battleArena.address])).to.equal(rewardPool);
+  });
+
+  it("동적 NFT의 게임 오라클을 GAME_ORACLE로 설정해야 함", async function () {
+    const { dynamicNFT } = await loadFixture(deployEcosystemFixture);
+    const [deployer] = await hre.viem.getWalletClients();
+
+    expect(await dynamicNFT.read.gameOracle()).to.equal(oracle);
+    expect(oracle).to.not.equal(getAddress(deployer.account.address));
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+import { getAddress, parseEther, zeroHash, type Address } from "viem";
+import { loadFixture, mine, takeSnapshot, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { EventIndexer } from "../scripts/indexer/indexer";
+import { countEvents, queryEvents, summarizeEvents } from "../scripts/indexer/query";
+import { EventStore, REORG_WINDOW, type IndexedEvent } from "../scripts/indexer/store";
+
+describe("EventIndexer", function () {
+  async function deployLockFixture() {
+    const [owner, alice, bob] = await hre.viem.getWalletClients();
+    const advancedLock = await hre.viem.deployContract("AdvancedLock");
+
+    await advancedLock.write.createLock([alice.account.address, 3600n], { value: parseEther("1"), account: alice.account });
+    await advancedLock.write.createLock([bob.account.address, 7200n], { value: parseEther("2"), account: bob.account });
+
+    return { advancedLock, owner, alice, bob };
+  }
+
+  function fakeEvent(blockNumber: bigint, event: string, args: Record<string, unknown> = {}): IndexedEvent {
+    return {
+      contract: "advancedLock",
+      address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+      event,
+      args,
+      blockNumber,
+      blockHash: zeroHash,
+      timestamp: 0n,
+      transactionHash: zeroHash,
+      logIndex: 0,
+    };
+  }
+
+  describe("저장소와 조회", function () {
+    it("rollback은 지정한 블록 이후의 이벤트와 해시를 제거해야 함", function () {
+      const store = EventStore.open(undefined, 31337);
+      store.append(10n, new Map([[5n, zeroHash], [10n, zeroHash]]), [fakeEvent(5n, "LockCreated"), fakeEvent(9n, "Withdrawn")]);
+
+      expect(store.rollback(7n)).to.equal(1);
+      expect(store.lastBlock).to.equal(7n);
+      expect(store.knownBlocks()).to.deep.equal([5n]);
+      expect(store.events.map((e) => e.event)).to.deep.equal(["LockCreated"]);
+    });
+
+    it("오래된 블록 해시는 재구성 감지 창 밖으로 정리되어야 함", function () {
+      const store = EventStore.open(undefined, 31337);
+      store.append(1n, new Map([[1n, zeroHash]]), []);
+      store.append(REORG_WINDOW + 10n, new Map([[REORG_WINDOW + 10n, zeroHash]]), []);
+
+      expect(store.knownBlocks()).to.deep.equal([REORG_WINDOW + 10n]);
+    });
+
+    it("인자, 블록 범위, 정렬 조건으로 조회해야 함", function () {
+      const alice = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+      const store = EventStore.open(undefined, 31337);
+      store.append(
+        20n,
+        new Map(),
+        [
+          fakeEvent(3n, "LockCreated", { beneficiary: alice, lockId: 0n }),
+          fakeEvent(8n, "LockCreated", { beneficiary: zeroHash.slice(0, 42), lockId: 1n }),
+          fakeEvent(12n, "Withdrawn", { lockId: 0n }),
+        ]
+      );
+
+      expect(queryEvents(store, { args: { beneficiary: alice.toLowerCase() } })).to.have.length(1);
+      expect(queryEvents(store, { args: { lockId: "0" } }).map((e) => e.event)).to.deep.equal(["LockCreated", "Withdrawn"]);
+      expect(queryEvents(store, { fromBlock: 5n, order: "desc", limit: 1 })[0].event).to.equal("Withdrawn");
+      expect(countEvents(store, { event: ["LockCreated", "Withdrawn"], toBlock: 10n })).to.equal(2);
+      expect(summarizeEvents(store)).to.deep.equal([
+        { contract: "advancedLock", event: "LockCreated", count: 2 },
+        { contract: "advancedLock", event: "Withdrawn", count: 1 },
+      ]);
+    });
+  });
+
+  describe("체인 인덱싱", function () {
+    it("배포 이후의 이벤트를 ABI로 디코딩해 백필해야 함", async function () {
+      const { advancedLock, alice } = await loadFixture(deployLockFixture);
+      const indexer = await EventIndexer.create(hre, { contracts: { advancedLock: advancedLock.address } });
+
+      await indexer.sync();
+
+      const created = queryEvents(indexer.store, { contract: "advancedLock", event: "LockCreated" });
+      expect(created).to.have.length(2);
+      expect(created[0].args.beneficiary).to.equal(getAddress(alice.account.address));
+      expect(created[0].args.amount).to.equal(parseEther("1"));
+      expect(created[0].timestamp > 0n).to.be.true;
+      // Ownable 생성자 이벤트도 상속 ABI로 디코딩
+      expect(countEvents(indexer.store, { event: "OwnershipTransferred" })).to.equal(1);
+    });
+
+    it("추가 동기화는 새 블록만 인덱싱해야 함", async function () {
+      const { advancedLock, alice } = await loadFixture(deployLockFixture);
+      const indexer = await EventIndexer.create(hre, { contracts: { advancedLock: advancedLock.address }, batchSize: 2n });
+
+      await indexer.sync();
+      expect(await indexer.sync()).to.be.undefined;
+
+      await time.increase(3600);
+      await advancedLock.write.withdraw([0n], { account: alice.account });
+      const progress = await indexer.sync();
+
+      expect(progress?.events).to.equal(1);
+      expect(queryEvents(indexer.store, { event: "Withdrawn" })[0].args.lockId).to.equal(0n);
+    });
+
+    it("재구성 시 고아 블록의 이벤트를 버리고 새 체인을 인덱싱해야 함", async function () {
+      const { advancedLock, alice, bob } = await loadFixture(deployLockFixture);
+      const indexer = await EventIndexer.create(hre, { contracts: { advancedLock: advancedLock.address } });
+      await indexer.sync();
+
+      // 고아가 될 블록: Alice 인출
+      const snapshot = await takeSnapshot();
+      await time.increase(3600);
+      await advancedLock.write.withdraw([0n], { account: alice.account });
+      await indexer.sync();
+      expect(countEvents(indexer.store, { event: "Withdrawn" })).to.equal(1);
+
+      // 다른 체인으로 교체: 같은 높이 이상으로 새 잠금 생성
+      await snapshot.restore();
+      await advancedLock.write.createLock([bob.account.address, 3600n], { value: parseEther("3"), account: bob.account });
+      await mine(2);
+
+      const progress = await indexer.sync();
+
+      expect(progress?.reorgedTo).to.not.be.undefined;
+      expect(progress?.removed).to.equal(1);
+      expect(countEvents(indexer.store, { event: "Withdrawn" })).to.equal(0);
+      expect(countEvents(indexer.store, { event: "LockCreated" })).to.equal(3);
+    });
+
+    it("인덱스 파일에 저장하고 다시 열어 이어서 동기화해야 함", async function () {
+      const { advancedLock } = await loadFixture(deployLockFixture);
+      const file = path.join(os.tmpdir(), `indexer-${process.pid}.json`);
+      const contracts: Record<string, Address> = { advancedLock: advancedLock.address };
+
+      try {
+        const first = await EventIndexer.create(hre, { contracts, file });
+        await first.sync();
+
+        const reopened = await EventIndexer.create(hre, { contracts, file });
+        expect(reopened.store.lastBlock).to.equal(first.store.lastBlock);
+        expect(reopened.store.events).to.deep.equal(first.store.events);
+        expect(await reopened.sync()).to.be.undefined;
+      } finally {
+        fs.rmSync(file, { force: true });
+      }
+    });
+  });
+});
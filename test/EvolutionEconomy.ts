@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import {
+  createAgents,
+  DEFAULT_BEHAVIOURS,
+  planDay,
+  resolveBehaviours,
+  type AgentState,
+  type MarketState,
+} from "../scripts/evolution/agents";
+import { economyCsv, economyMarkdown, feePayersCsv } from "../scripts/evolution/report";
+import { DAY, runEconomySimulation } from "../scripts/evolution/simulation";
+import { createRandom, seedFromEnv } from "../scripts/lib/random";
+import { EvolutionTokenClient, type StakingPoolInfo } from "../scripts/sdk";
+
+describe("EvolutionaryToken 경제 시뮬레이션", function () {
+  const pool = (poolId: bigint, rewardRate: bigint, lockDays: bigint, minStake: string): StakingPoolInfo => ({
+    poolId,
+    poolName: `Pool ${poolId}`,
+    totalStaked: 0n,
+    rewardRate,
+    lockPeriod: lockDays * DAY,
+    minStakeAmount: parseEther(minStake),
+    isActive: true,
+    totalValueLocked: 0n,
+    currentAPYBps: rewardRate,
+  });
+  const emptyState = (balance: string): AgentState => ({
+    balance: parseEther(balance),
+    stakes: new Map(),
+    stakingStartTime: 0n,
+    voted: new Set(),
+  });
+
+  describe("에이전트 계획", function () {
+    const agents = createAgents({ whale: 1, trader: 2, staker: 2, idler: 1 });
+    const market: MarketState = {
+      day: 10,
+      timestamp: 1_000n * DAY,
+      pools: [pool(1n, 1000n, 30n, "100"), pool(2n, 1500n, 60n, "1000"), pool(3n, 2000n, 90n, "5000")],
+      openProposals: [],
+      agents,
+    };
+
+    it("프로필 순서대로 서로 다른 주소를 매기고 행동 프로필 덮어쓰기를 검증해야 함", function () {
+      expect(agents.map((a) => a.profile)).to.deep.equal(["whale", "trader", "trader", "staker", "staker", "idler"]);
+      expect(new Set(agents.map((a) => a.address)).size).to.equal(agents.length);
+      expect(createAgents({ whale: 1, trader: 2, staker: 2, idler: 1 })).to.deep.equal(agents);
+
+      expect(resolveBehaviours({ whale: { proposeChance: 0 } }).whale).to.deep.equal({
+        ...DEFAULT_BEHAVIOURS.whale,
+        proposeChance: 0,
+      });
+      expect(() => resolveBehaviours({ whale: { activeChance: 1.5 } })).to.throw("whale.activeChance는 0 ~ 1 사이");
+      expect(() => resolveBehaviours({ trader: { transferPercent: [10, 5] } })).to.throw("trader.transferPercent");
+      expect(() => resolveBehaviours({ staker: { claimEveryDays: 0 } })).to.throw("staker.claimEveryDays");
+      expect(() => resolveBehaviours({ bot: {} } as any)).to.throw("알 수 없는 행동 프로필 'bot'");
+    });
+
+    it("전송 금액은 정수 토큰 단위이고 잔액을 넘지 않아야 함", function () {
+      const seed = seedFromEnv("DIFF_SEED");
+      const random = createRandom(seed);
+      for (let step = 0; step < 200; step++) {
+        const agent = random.pick(agents);
+        const state = emptyState(String(random.int(0, 50_000)));
+        const actions = planDay(agent, DEFAULT_BEHAVIOURS[agent.profile], state, market, random);
+        const label = `seed ${seed}, step ${step}`;
+
+        let spent = 0n;
+        for (const action of actions) {
+          if (action.kind !== "transfer" && action.kind !== "stake") continue;
+          expect(action.amount % parseEther("1"), label).to.equal(0n);
+          expect(action.amount > 0n, label).to.be.true;
+          if (action.kind === "transfer") expect(action.to, label).to.not.equal(agent.address);
+          spent += action.amount;
+        }
+        expect(spent <= state.balance, label).to.be.true;
+      }
+    });
+
+    it("스테이커는 최소 금액을 넘는 풀 중 APY가 가장 높은 풀을 고르고 잠금이 풀린 뒤에만 인출해야 함", function () {
+      const staker = agents.find((a) => a.profile === "staker")!;
+      const behaviour = resolveBehaviours({
+        staker: { stakePercent: [50, 50], transfersPerDay: [0, 0], unstakeChance: 1, claimEveryDays: 7 },
+      }).staker;
+
+      // 잔액 3000의 50% = 1500 → 풀 2 (최소 1000, 15%)
+      const [stake] = planDay(staker, behaviour, emptyState("3000"), market, createRandom(1));
+      expect(stake).to.deep.equal({ kind: "stake", poolId: 2n, amount: parseEther("1500") });
+      // 잔액 150의 50% = 75 → 최소 금액을 넘는 풀이 없음
+      expect(planDay(staker, behaviour, emptyState("150"), market, createRandom(1))).to.deep.equal([]);
+
+      const staked: AgentState = {
+        ...emptyState("1500"),
+        stakes: new Map([[2n, parseEther("1500")]]),
+        stakingStartTime: market.timestamp - 59n * DAY,
+        lastClaimDay: market.day - 7,
+      };
+      expect(planDay(staker, behaviour, staked, market, createRandom(1))).to.deep.equal([{ kind: "claim" }]);
+
+      staked.stakingStartTime = market.timestamp - 60n * DAY;
+      expect(planDay(staker, behaviour, staked, market, createRandom(1))).to.deep.equal([
+        { kind: "unstake", poolId: 2n, amount: parseEther("1500") },
+        { kind: "claim" },
+      ]);
+    });
+
+    it("투표 기간이 남은 제안에 한 번씩만 투표해야 함", function () {
+      const trader = agents.find((a) => a.profile === "trader")!;
+      const behaviour = resolveBehaviours({ trader: { voteChance: 1, transfersPerDay: [0, 0] } }).trader;
+      const state = { ...emptyState("100"), voted: new Set([1n]) };
+      const actions = planDay(trader, behaviour, state, { ...market, openProposals: [1n, 2n] }, createRandom(3));
+      expect(actions).to.have.length(1);
+      expect(actions[0]).to.deep.include({ kind: "vote", proposalId: 2n });
+    });
+  });
+
+  describe("체인 시뮬레이션", function () {
+    async function deployTokenFixture() {
+      const contract = await hre.viem.deployContract("EvolutionaryToken");
+      const publicClient = await hre.viem.getPublicClient();
+      return { token: new EvolutionTokenClient(hre, contract), deployedAt: (await publicClient.getBlock()).timestamp };
+    }
+
+    it("30일 뒤 진화 조건이 되면 소유자가 아닌 행동이 revert되어 경제가 멈춘 것을 기록해야 함", async function () {
+      const { token } = await loadFixture(deployTokenFixture);
+      const report = await runEconomySimulation(hre, token, {
+        agents: { whale: 2, trader: 6, staker: 4, idler: 2 },
+        // 거버넌스 EVOLUTION 제안으로 진화가 섞이지 않게 제안은 끔
+        behaviours: { whale: { proposeChance: 0 }, trader: { activeChance: 1 } },
+        days: 35,
+        seed: 7,
+        log: () => {},
+      });
+
+      expect(report.samples).to.have.length(36);
+      expect(report.samples.map((s) => s.day)).to.deep.equal([...Array(36).keys()]);
+      expect(report.samples[0].tiers.DIAMOND).to.equal(2); // 고래 시작 잔액 120,000 → 활동 점수 120,000
+
+      // 첫 진화는 onlyOwner인 createStakingPool을 부르므로 에이전트 행동이 진화를 일으키면 행동 전체가 revert됨
+      expect(report.evolutions).to.be.empty;
+      expect(report.samples.every((s) => s.generation === 0)).to.be.true;
+      expect(await token.getStakingPools()).to.have.length(1);
+      expect(report.samples.slice(0, 30).every((s) => s.transactions > s.failures)).to.be.true;
+      expect(report.samples.slice(30).every((s) => s.failures > 0 && s.transactions < s.failures)).to.be.true;
+
+      const failed = Object.keys(report.failures);
+      expect(failed).to.not.be.empty;
+      expect(failed.every((key) => /^(transfer|stake|unstake): OwnableUnauthorizedAccount\(0x/.test(key))).to.be.true;
+      expect(report.samples.reduce((sum, s) => sum + s.failures, 0)).to.equal(
+        Object.values(report.failures).reduce((sum, times) => sum + times, 0)
+      );
+
+      // 수수료는 공급을 크게 가진 주소(펀딩 계정, 고래)만 내고 모두 보상 풀에 쌓임
+      expect(report.fees.length).to.be.greaterThan(0);
+      expect(new Set(report.fees.map((f) => f.profile))).to.satisfy((profiles: Set<string>) =>
+        [...profiles].every((p) => p === "whale" || p === "funder")
+      );
+      const totalFees = report.fees.reduce((sum, f) => sum + f.fee, 0n);
+      expect(report.samples.reduce((sum, s) => sum + s.antiWhaleFees, 0n)).to.equal(totalFees);
+      expect(report.feePayers.reduce((sum, p) => sum + p.totalFees, 0n)).to.equal(totalFees);
+      expect(report.samples[35].metrics.rewardPool).to.equal(totalFees);
+      expect(report.feePayers.find((p) => p.profile === "funder")?.address).to.equal(report.funder);
+
+      const csv = economyCsv(report).trim().split("\n");
+      expect(csv).to.have.length(37);
+      expect(csv[0].split(",")).to.include.members([
+        "supply",
+        "reward_pool",
+        "generation",
+        "failures",
+        "anti_whale_fees",
+        "tier_diamond",
+      ]);
+      expect(feePayersCsv(report).trim().split("\n")).to.have.length(report.feePayers.length + 1);
+      const markdown = economyMarkdown(report);
+      expect(markdown).to.include("진화가 일어나지 않았습니다.");
+      expect(markdown).to.include("## ⚠️ revert된 행동");
+      expect(markdown).to.include(`| ${failed[0]} |`);
+      expect(markdown).to.include(`| ${getAddress(report.feePayers[0].address)} |`);
+
+      // 소유자(펀딩 계정)가 행동해야 진화가 일어나고 풀이 추가됨
+      await token.transfer(report.funder, 1n);
+      const [evolution] = await token.getEvolutionHistory();
+      expect(evolution).to.deep.include({ generation: 1n, featureName: "Advanced Staking Pools", impactScore: 75n });
+      expect(await token.getStakingPools()).to.have.length(3);
+    });
+
+    it("시뮬레이션이 중간에 실패해도 에이전트 계정 가장을 해제해야 함", async function () {
+      const { token } = await loadFixture(deployTokenFixture);
+      const agents = { whale: 1, trader: 2, staker: 0, idler: 0 };
+      const run = runEconomySimulation(hre, token, {
+        agents,
+        days: 10,
+        seed: 7,
+        log: (message) => {
+          if (message.startsWith("📅")) throw new Error("로그 실패");
+        },
+      });
+      await expect(run).to.be.rejectedWith("로그 실패");
+
+      for (const agent of createAgents(agents)) {
+        const wallet = await hre.viem.getWalletClient(agent.address);
+        await expect(wallet.sendTransaction({ to: agent.address, value: 0n })).to.be.rejected;
+      }
+    });
+  });
+});
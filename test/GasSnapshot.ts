@@ -0,0 +1,90 @@
+import { expect } from "chai";
+
+import { compareGasSnapshots } from "../scripts/security/gas-snapshot";
+
+describe("GasSnapshot", function () {
+  const baseline = {
+    "SimpleDEX.swapAtoB": 100_000,
+    "AdvancedLock.createLock": 80_000,
+  };
+
+  describe("스냅샷 비교", function () {
+    it("임계값 이하의 증가와 감소는 통과해야 함", function () {
+      const report = compareGasSnapshots(
+        baseline,
+        [
+          { id: "SimpleDEX.swapAtoB", gasUsed: 104_000 },
+          { id: "AdvancedLock.createLock", gasUsed: 79_000 },
+        ],
+        5
+      );
+
+      expect(report.passed).to.be.true;
+      expect(report.diffs.map((d) => d.status)).to.deep.equal(["increased", "improved"]);
+      expect(report.diffs[0].delta).to.equal(4_000);
+      expect(report.diffs[0].deltaPercent).to.equal(4);
+    });
+
+    it("임계값을 넘는 증가는 실패해야 함", function () {
+      const report = compareGasSnapshots(
+        baseline,
+        [
+          { id: "SimpleDEX.swapAtoB", gasUsed: 106_000 },
+          { id: "AdvancedLock.createLock", gasUsed: 80_000 },
+        ],
+        5
+      );
+
+      expect(report.passed).to.be.false;
+      expect(report.diffs[0].status).to.equal("regressed");
+      expect(report.diffs[1].status).to.equal("unchanged");
+    });
+
+    it("스냅샷에 있던 호출이 실행에 실패하면 실패해야 함", function () {
+      const report = compareGasSnapshots(
+        baseline,
+        [
+          { id: "SimpleDEX.swapAtoB", error: "reverted" },
+          { id: "AdvancedLock.createLock", gasUsed: 80_000 },
+        ],
+        5
+      );
+
+      expect(report.passed).to.be.false;
+      expect(report.diffs[0].status).to.equal("failed");
+    });
+
+    it("스냅샷에 없던 호출도 실행에 실패하면 실패해야 함", function () {
+      const report = compareGasSnapshots(
+        baseline,
+        [
+          { id: "SimpleDEX.swapAtoB", gasUsed: 100_000 },
+          { id: "AdvancedLock.createLock", gasUsed: 80_000 },
+          { id: "BattleArenaP2E.startBattle", error: "reverted" },
+        ],
+        5
+      );
+
+      expect(report.passed).to.be.false;
+      expect(report.diffs[2]).to.deep.include({ status: "failed", error: "reverted" });
+    });
+
+    it("새 호출과 사라진 호출은 보고만 해야 함", function () {
+      const report = compareGasSnapshots(
+        baseline,
+        [
+          { id: "SimpleDEX.swapAtoB", gasUsed: 100_000 },
+          { id: "MyToken.transfer", gasUsed: 50_000 },
+        ],
+        5
+      );
+
+      expect(report.passed).to.be.true;
+      expect(report.diffs.map((d) => [d.id, d.status])).to.deep.equal([
+        ["SimpleDEX.swapAtoB", "unchanged"],
+        ["MyToken.transfer", "new"],
+        ["AdvancedLock.createLock", "removed"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { maxUint256, parseEther, type Address, type Hex } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import {
+  applyAddLiquidity,
+  applySwap,
+  countRecentSwaps,
+  createPoolModel,
+  dynamicFeeBreakdown,
+  feeStateAt,
+  liquidityHealthFor,
+  type IntelligentPoolModel,
+} from "../scripts/dex/dynamic-fee";
+import { createRandom, seedFromEnv, type Random } from "../scripts/lib/random";
+import { IntelligentDexClient, type TxResult } from "../scripts/sdk";
+
+describe("IntelligentDEX 수수료 모델", function () {
+  describe("분석값 갱신", function () {
+    it("유동성 건전성은 작은 쪽 준비금 비율로 계산해야 함", function () {
+      expect(liquidityHealthFor(1000n, 1000n)).to.equal(100n);
+      expect(liquidityHealthFor(1000n, 510n)).to.equal(100n);
+      expect(liquidityHealthFor(1000n, 500n)).to.equal(100n); // 50 * 2
+      expect(liquidityHealthFor(140n, 1000n)).to.equal(28n);
+      expect(() => liquidityHealthFor(0n, 0n)).to.throw("division by zero");
+    });
+
+    it("최근 스왑 수는 1시간 경계를 포함하고 오래된 스왑에서 멈춰야 함", function () {
+      expect(countRecentSwaps([100n, 5000n, 8600n], 8600n)).to.equal(2n); // 5000 = 8600 - 3600 포함
+      expect(countRecentSwaps([100n, 5000n, 8600n], 8601n)).to.equal(1n);
+      // 최신 스왑부터 거슬러 올라가므로 순서가 뒤섞인 오래된 항목은 보지 않음
+      expect(countRecentSwaps([9000n, 100n, 9000n], 9000n)).to.equal(1n);
+    });
+
+    it("addLiquidity는 B를 현재 비율로 맞추고 스왑은 건전성을 갱신하지 않아야 함", function () {
+      let pool = applyAddLiquidity(createPoolModel(), 1000n, 4000n).pool;
+      expect(pool).to.deep.include({ totalLiquidity: 2000n });
+      expect(pool.analytics.liquidityHealth).to.equal(50n);
+
+      const added = applyAddLiquidity(pool, 100n, 1000n);
+      expect(added.amountB).to.equal(400n);
+      expect(added.liquidity).to.equal(200n);
+      expect(() => applyAddLiquidity(pool, 100n, 399n)).to.throw("Insufficient B amount");
+
+      const swapped = applySwap(pool, false, 3000n, 10_000n);
+      expect(swapped.fee).to.equal(55n); // 30 + 큰 거래(60 / 2) - 한산한 거래(5)
+      pool = swapped.pool;
+      // 준비금이 1:12로 기울었지만 건전성은 addLiquidity 때 값(50) 그대로
+      expect(liquidityHealthFor(pool.reserveA, pool.reserveB) < 30n).to.be.true;
+      expect(pool.analytics).to.deep.include({ liquidityHealth: 50n, tradingActivity: 1n, volatilityScore: 50n });
+      expect(pool.swapTimestamps).to.deep.equal([10_000n]);
+    });
+  });
+
+  describe("온체인 차등 테스트", function () {
+    // 실패하면 메시지의 시드로 재현: DIFF_SEED=<seed> npx hardhat test test/IntelligentDexModel.ts
+    const baseSeed = seedFromEnv("DIFF_SEED");
+    const MAX_SWAP = parseEther("1000000");
+
+    async function deployPoolFixture() {
+      const [deployer, alice, bob] = await hre.viem.getWalletClients();
+      const tokenA = await hre.viem.deployContract("MyToken");
+      const tokenB = await hre.viem.deployContract("MyToken");
+      const intelligentDEX = await hre.viem.deployContract("IntelligentDEX");
+
+      const traders = [deployer, alice, bob];
+      for (const trader of traders) {
+        if (trader !== deployer) {
+          await tokenA.write.transfer([trader.account.address, parseEther("10000000")]);
+          await tokenB.write.transfer([trader.account.address, parseEther("10000000")]);
+        }
+        await tokenA.write.approve([intelligentDEX.address, maxUint256], { account: trader.account });
+        await tokenB.write.approve([intelligentDEX.address, maxUint256], { account: trader.account });
+      }
+
+      const idex = new IntelligentDexClient(hre, intelligentDEX);
+      const { poolId } = await idex.createPool(tokenA.address, tokenB.address);
+      await idex.addLiquidity(poolId, "10000", "10000", { approve: false });
+
+      const model = applyAddLiquidity(createPoolModel(), parseEther("10000"), parseEther("10000")).pool;
+      return { idex, traders, poolId, tokenA: tokenA.address, tokenB: tokenB.address, model };
+    }
+
+    interface Harness {
+      idex: IntelligentDexClient;
+      poolId: Hex;
+      tokenA: Address;
+      tokenB: Address;
+      model: IntelligentPoolModel;
+      // 관찰한 수수료 요인 (구간 커버리지 확인용)
+      seen: Set<string>;
+      label: string;
+    }
+
+    async function blockTimestamp(tx: TxResult): Promise<bigint> {
+      const publicClient = await hre.viem.getPublicClient();
+      return (await publicClient.getBlock({ blockNumber: tx.blockNumber })).timestamp;
+    }
+
+    async function expectPoolMatches(h: Harness) {
+      const info = await h.idex.getPoolInfo(h.poolId);
+      const { reserveA, reserveB, totalLiquidity, volume24h, feesCollected, analytics } = h.model;
+      expect(info, h.label).to.deep.include({ reserveA, reserveB, totalLiquidity, volume24h, feesCollected });
+      expect(info.analytics, h.label).to.deep.equal(analytics);
+    }
+
+    async function swapAndCompare(h: Harness, client: IntelligentDexClient, tokenInIsA: boolean, amountIn: bigint) {
+      const tx = await client.swap(h.poolId, tokenInIsA ? h.tokenA : h.tokenB, amountIn, 0n, { approve: false });
+      const timestamp = await blockTimestamp(tx);
+
+      const breakdown = dynamicFeeBreakdown(feeStateAt(h.model, timestamp), amountIn);
+      const expected = applySwap(h.model, tokenInIsA, amountIn, timestamp);
+      const emitted = tx.events.find((e) => e.name === "DynamicFeeCalculated")!.args as { newFee: bigint };
+
+      expect(tx.fee, `${h.label}: Swap.fee`).to.equal(expected.fee);
+      expect(emitted.newFee, `${h.label}: DynamicFeeCalculated.newFee`).to.equal(expected.fee);
+      expect(tx.amountOut, `${h.label}: amountOut`).to.equal(expected.amountOut);
+
+      for (const [factor, value] of Object.entries(breakdown)) {
+        if (factor !== "fee" && value !== 0n) h.seen.add(`${factor}:${value > 0n ? "+" : "-"}`);
+      }
+      if (expected.fee === 100n) h.seen.add("clamp:100");
+      h.model = expected.pool;
+    }
+
+    async function randomStep(h: Harness, clients: IntelligentDexClient[], random: Random) {
+      const roll = random.next();
+      if (roll < 0.1) {
+        // 1시간 창을 넘나들도록 시간 이동
+        await time.increase(random.pick([60, 600, 1800, 3600, 7200]));
+        return;
+      }
+
+      if (roll < 0.2) {
+        const amountA = (h.model.reserveA * BigInt(random.int(10, 2000))) / 10_000n;
+        const amountB = (amountA * h.model.reserveB) / h.model.reserveA + random.bigint(0n, parseEther("5"));
+        const tx = await random.pick(clients).addLiquidity(h.poolId, amountA, amountB, { approve: false });
+        const expected = applyAddLiquidity(h.model, amountA, amountB);
+        expect(tx.amountB, `${h.label}: addLiquidity.amountB`).to.equal(expected.amountB);
+        h.model = expected.pool;
+        return;
+      }
+
+      // 준비금 대비 0.01% ~ 80% 스왑 (큰 거래 가산과 불균형을 모두 만들기 위해, 잔액 안에서)
+      const tokenInIsA = random.chance(0.5);
+      const reserveIn = tokenInIsA ? h.model.reserveA : h.model.reserveB;
+      const bps = BigInt(random.pick([random.int(1, 100), random.int(100, 1000), random.int(1000, 8000)]));
+      const amountIn = (reserveIn * bps) / 10_000n + 1n;
+      await swapAndCompare(h, random.pick(clients), tokenInIsA, amountIn < MAX_SWAP ? amountIn : MAX_SWAP);
+    }
+
+    for (const offset of [0, 1, 2]) {
+      it(`무작위 스왑/유동성/시간 이동 시퀀스에서 모든 수수료가 모델과 같아야 함 (#${offset + 1})`, async function () {
+        const { idex, traders, poolId, tokenA, tokenB, model } = await loadFixture(deployPoolFixture);
+        const seed = baseSeed + offset;
+        const random = createRandom(seed);
+        const clients = traders.map((wallet) => idex.connect(wallet));
+        const h: Harness = { idex, poolId, tokenA, tokenB, model, seen: new Set(), label: `seed ${seed}` };
+
+        for (let step = 0; step < 60; step++) {
+          h.label = `seed ${seed}, step ${step}`;
+          await randomStep(h, clients, random);
+          await expectPoolMatches(h);
+        }
+      });
+    }
+
+    it("활발한 거래, 불균형 유동성, 수수료 상·하한 구간도 모델과 같아야 함", async function () {
+      const { idex, traders, poolId, tokenA, tokenB, model } = await loadFixture(deployPoolFixture);
+      const h: Harness = { idex, poolId, tokenA, tokenB, model, seen: new Set(), label: "scenario" };
+      const [deployer, alice] = traders.map((wallet) => idex.connect(wallet));
+
+      // 한산한 거래(-5) + 건전한 유동성(-10) → 15bps (변동성이 50 고정이라 하한 10bps에는 닿지 않음)
+      await swapAndCompare(h, alice, true, parseEther("1"));
+
+      // 1시간 안에 50회 넘게 스왑 → 활발한 거래 가산
+      for (let i = 0; i < 52; i++) {
+        h.label = `scenario, swap ${i}`;
+        await swapAndCompare(h, i % 2 === 0 ? alice : deployer, i % 2 === 0, parseEther("10"));
+      }
+
+      // 한쪽으로 몰아서 기울인 뒤 유동성을 추가하면 건전성이 30 미만으로 떨어짐
+      for (let i = 0; i < 3; i++) {
+        await swapAndCompare(h, alice, true, h.model.reserveA);
+      }
+      const amountB = (parseEther("1") * h.model.reserveB) / h.model.reserveA + 1n;
+      const added = await alice.addLiquidity(poolId, parseEther("1"), amountB, { approve: false });
+      h.model = applyAddLiquidity(h.model, parseEther("1"), added.amountB).pool;
+      expect(h.model.analytics.liquidityHealth < 30n).to.be.true;
+      await expectPoolMatches(h);
+
+      // 불건전 유동성(+25) + 활발한 거래(+15) + 초대형 거래(+50) → 상한(100bps)
+      await swapAndCompare(h, alice, true, h.model.reserveA + h.model.reserveB);
+      await expectPoolMatches(h);
+
+      // 1시간이 지나면 활발한 거래 가산이 사라짐
+      await time.increase(3601);
+      await swapAndCompare(h, deployer, false, parseEther("1"));
+      await expectPoolMatches(h);
+
+      expect([...h.seen]).to.include.members([
+        "tradeSize:+",
+        "activity:+",
+        "activity:-",
+        "liquidityHealth:+",
+        "liquidityHealth:-",
+        "clamp:100",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+import { getAddress } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+describe("lock:* 태스크", function () {
+  let overrideDir: string;
+  let previousOverrides: string | undefined;
+  let log: typeof console.log;
+
+  // 태스크는 배포 레지스트리에서 AdvancedLock을 찾으므로 오버라이드 파일로 픽스처 주소를 알려줌
+  async function deployLockFixture() {
+    const [deployer, alice] = await hre.viem.getWalletClients();
+    const advancedLock = await hre.viem.deployContract("AdvancedLock");
+    const chainId = await (await hre.viem.getPublicClient()).getChainId();
+    const file = path.join(overrideDir, "addresses.override.json");
+    fs.writeFileSync(file, JSON.stringify({ [chainId]: { advancedLock: advancedLock.address } }));
+    return { advancedLock, deployer, alice };
+  }
+
+  before(function () {
+    overrideDir = fs.mkdtempSync(path.join(os.tmpdir(), "lock-tasks-"));
+    previousOverrides = process.env.DEPLOYMENT_OVERRIDES;
+    process.env.DEPLOYMENT_OVERRIDES = path.join(overrideDir, "addresses.override.json");
+    log = console.log;
+    console.log = () => {};
+  });
+
+  after(function () {
+    console.log = log;
+    if (previousOverrides === undefined) delete process.env.DEPLOYMENT_OVERRIDES;
+    else process.env.DEPLOYMENT_OVERRIDES = previousOverrides;
+    fs.rmSync(overrideDir, { recursive: true, force: true });
+  });
+
+  it("--from 없이 첫 번째 계정이 수혜자로 인출하고 소유자로 일시정지/긴급 회수해야 함", async function () {
+    const { advancedLock, deployer } = await loadFixture(deployLockFixture);
+    // hardhat-viem의 기본 계정 주소는 소문자, 컨트랙트가 돌려주는 주소는 체크섬
+    expect(deployer.account.address).to.not.equal(getAddress(deployer.account.address));
+
+    await hre.run("lock:create", { beneficiary: deployer.account.address, duration: "1h", amount: "1" });
+    await hre.run("lock:create", { beneficiary: deployer.account.address, duration: "1d", amount: "2" });
+    await time.increase(3600);
+
+    await hre.run("lock:withdraw", { id: 0n });
+    expect((await advancedLock.read.locks([0n]))[2]).to.be.true;
+
+    await hre.run("lock:pause", {});
+    expect(await advancedLock.read.paused()).to.be.true;
+    await hre.run("lock:unpause", {});
+    expect(await advancedLock.read.paused()).to.be.false;
+
+    await hre.run("lock:emergency-withdraw", { id: 1n });
+    expect(await advancedLock.read.totalLocked()).to.equal(0n);
+  });
+
+  it("수혜자나 소유자가 아닌 계정은 전송 전에 거부해야 함", async function () {
+    const { deployer, alice } = await loadFixture(deployLockFixture);
+    const owner = getAddress(deployer.account.address);
+
+    await hre.run("lock:create", { beneficiary: owner, duration: "1h", amount: "1" });
+    await time.increase(3600);
+    const publicClient = await hre.viem.getPublicClient();
+    const balance = await publicClient.getBalance({ address: alice.account.address });
+
+    await expect(hre.run("lock:withdraw", { id: 0n, from: alice.account.address })).to.be.rejectedWith(
+      `수혜자(${owner})만 인출할 수 있습니다`
+    );
+    await expect(hre.run("lock:pause", { from: alice.account.address })).to.be.rejectedWith(
+      `소유자(${owner})만 실행할 수 있습니다`
+    );
+    await expect(hre.run("lock:emergency-withdraw", { id: 0n, from: alice.account.address })).to.be.rejectedWith(
+      `소유자(${owner})만 실행할 수 있습니다`
+    );
+    // 거부된 호출은 트랜잭션을 보내지 않으므로 가스도 쓰지 않음
+    expect(await publicClient.getBalance({ address: alice.account.address })).to.equal(balance);
+  });
+});
@@ -0,0 +1,397 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther, type Address, type Hex } from "viem";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { createRandom, seedFromEnv, type Random } from "../scripts/lib/random";
+import {
+  analyzeRisk,
+  applyExecution,
+  applySubmission,
+  checkSpending,
+  previewTransaction,
+  requiredConfirmationsFor,
+  timelockDelayFor,
+  type MultiSigPolicyModel,
+  type PolicyTransaction,
+} from "../scripts/multisig/policy";
+import { MultiSigClient, type TransactionTypeName, type TxResult } from "../scripts/sdk";
+
+const DAY = 86_400n;
+const HOUR = 3600n;
+
+describe("IntelligentMultiSig 정책 모델", function () {
+  describe("정책 계산", function () {
+    const alice = getAddress("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+    const bob = getAddress("0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc");
+    const recipient = getAddress("0x90f79bf6eb2c4f870365e785982e1f101e93b906");
+    // 1970-01-02 12:00 UTC
+    const NOON = DAY + 12n * HOUR;
+
+    function createModel(overrides: Partial<MultiSigPolicyModel> = {}): MultiSigPolicyModel {
+      return {
+        policy: {
+          dailyLimit: parseEther("10"),
+          monthlyLimit: parseEther("100"),
+          emergencyDelay: DAY,
+          highValueThreshold: parseEther("5"),
+          emergencyMode: false,
+          emergencyActivatedAt: 0n,
+        },
+        ownerCount: 5n,
+        required: 3n,
+        balance: parseEther("20"),
+        suspiciousActivity: {},
+        dailySpent: {},
+        monthlySpent: {},
+        resetDays: [],
+        resetMonths: [],
+        ...overrides,
+      };
+    }
+
+    function transfer(value: string, txType: TransactionTypeName = "NORMAL", data: Hex = "0x"): PolicyTransaction {
+      return { to: recipient, value: parseEther(value), data, txType };
+    }
+
+    it("금액, 받는 주소 이력, calldata 크기, 시간대, 타입 위험을 더하고 100에서 잘라야 함", function () {
+      const model = createModel();
+      expect(analyzeRisk(model, transfer("5"), NOON).riskScore).to.equal(0n); // 기준 금액과 같으면 가산 없음
+      expect(analyzeRisk(model, transfer("6"), NOON).factors.amountRisk).to.equal(30n);
+      expect(analyzeRisk(model, transfer("10.01"), NOON).factors.amountRisk).to.equal(60n); // 잔액 절반 초과
+
+      const data1000 = `0x${"ab".repeat(1000)}` as Hex;
+      const data1001 = `0x${"ab".repeat(1001)}` as Hex;
+      expect(analyzeRisk(model, transfer("0", "NORMAL", data1000), NOON).factors.dataComplexity).to.equal(15n);
+      expect(analyzeRisk(model, transfer("0", "NORMAL", data1001), NOON).factors.dataComplexity).to.equal(30n);
+
+      // 22시와 6시는 주간, 23시와 5시는 야간
+      const timeRisk = (hour: bigint) => analyzeRisk(model, transfer("0"), DAY + hour * HOUR).factors.timeRisk;
+      expect([5n, 6n, 22n, 23n].map(timeRisk)).to.deep.equal([15n, 0n, 0n, 15n]);
+
+      const flagged = createModel({ suspiciousActivity: { [recipient]: 3n } });
+      expect(analyzeRisk(flagged, transfer("0"), NOON).factors.recipientRisk).to.equal(50n);
+
+      const risk = analyzeRisk(flagged, transfer("15", "EMERGENCY", data1001), DAY + 23n * HOUR);
+      expect(risk).to.deep.include({ riskScore: 100n, typeRisk: 50n });
+      expect(risk.factors).to.deep.equal({
+        amountRisk: 60n,
+        recipientRisk: 50n,
+        dataComplexity: 30n,
+        timeRisk: 15n,
+        frequencyRisk: 0n,
+      });
+    });
+
+    it("위험 구간별 승인 수와 타임락은 소유자 수 기준이어야 함", function () {
+      const model = createModel();
+      const policy = (score: bigint, txType: TransactionTypeName = "NORMAL") => [
+        requiredConfirmationsFor(model, score, txType),
+        timelockDelayFor(score, txType),
+      ];
+      expect(policy(39n)).to.deep.equal([3n, HOUR]);
+      expect(policy(40n)).to.deep.equal([3n, DAY]);
+      expect(policy(60n)).to.deep.equal([3n, 3n * DAY]); // 5 * 2 / 3
+      expect(policy(80n)).to.deep.equal([5n, 7n * DAY]);
+      expect(policy(0n, "EMERGENCY")).to.deep.equal([5n, 0n]);
+
+      // 소유자 4명, 기본 3명: 중간 위험은 (4 + 1) / 2 = 2명으로 오히려 줄어듦
+      expect(requiredConfirmationsFor({ ownerCount: 4n, required: 3n }, 40n, "NORMAL")).to.equal(2n);
+    });
+
+    it("한도 초기화는 그날 처음 실행한 소유자에게만 적용되어야 함", function () {
+      let model = createModel();
+      model = applyExecution(model, alice, parseEther("8"), NOON);
+      model = applyExecution(model, bob, parseEther("3"), NOON + 60n);
+      expect(() => applyExecution(model, alice, parseEther("3"), NOON + 120n)).to.throw("Daily limit exceeded");
+
+      // 다음 날 처음 실행한 alice만 초기화되고, 이미 초기화된 날이라 bob의 사용액은 그대로 누적
+      model = applyExecution(model, alice, parseEther("3"), NOON + DAY);
+      expect(model.dailySpent[alice]).to.equal(parseEther("3"));
+      expect(checkSpending(model, bob, parseEther("8"), NOON + DAY + 60n)).to.deep.include({
+        dailySpent: parseEther("11"),
+        dailyReset: false,
+        dailyExceeded: true,
+      });
+      expect(model.monthlySpent[alice]).to.equal(parseEther("11")); // 같은 달
+    });
+
+    it("미리보기는 제출 불가 사유와 타임락 해제 시각 기준 한도를 함께 알려야 함", function () {
+      const model = createModel({ dailySpent: { [alice]: parseEther("9") }, resetDays: [1n] });
+
+      // 위험 30 → 1시간 타임락, 실행 시각이 같은 날이므로 alice의 사용액이 이어짐
+      const preview = previewTransaction(model, transfer("6"), { timestamp: NOON, executor: alice });
+      expect(preview).to.deep.include({
+        riskScore: 30n,
+        riskLevel: "LOW",
+        requiredConfirmations: 3n,
+        executableAt: NOON + HOUR,
+        confirmableAt: NOON,
+        flagsRecipient: false,
+      });
+      expect(preview.spending).to.deep.include({ dailySpent: parseEther("15"), dailyExceeded: true });
+      expect(preview.problems).to.deep.equal(["실행 불가: Daily limit exceeded"]);
+
+      const emergency = createModel({ policy: { ...model.policy, emergencyMode: true } });
+      expect(previewTransaction(emergency, transfer("0"), { timestamp: NOON }).problems).to.deep.equal([
+        "제출 불가: Wallet in emergency mode",
+      ]);
+      expect(() => applySubmission(emergency, transfer("0"), NOON)).to.throw("Wallet in emergency mode");
+
+      // 위험 85: 승인은 1시간 뒤부터, 받는 주소는 의심 주소로 기록
+      const risky = applySubmission(model, transfer("11", "HIGH_VALUE"), NOON);
+      expect(risky.preview).to.deep.include({ riskScore: 85n, confirmableAt: NOON + HOUR, flagsRecipient: true });
+      expect(risky.model.suspiciousActivity[recipient]).to.equal(1n);
+    });
+  });
+
+  describe("온체인 차등 테스트", function () {
+    // 실패하면 메시지의 시드로 재현: DIFF_SEED=<seed> npx hardhat test test/MultisigPolicy.ts
+    const baseSeed = seedFromEnv("DIFF_SEED");
+    const TYPES: TransactionTypeName[] = ["NORMAL", "HIGH_VALUE", "CONTRACT_INTERACTION", "EMERGENCY", "GOVERNANCE"];
+
+    async function deployMultiSigFixture() {
+      const wallets = await hre.viem.getWalletClients();
+      const ownerWallets = wallets.slice(0, 5);
+      const contract = await hre.viem.deployContract("IntelligentMultiSig", [
+        ownerWallets.map((w) => w.account.address),
+        3n,
+        ["Deployer", "Alice", "Bob", "Carol", "Dave"],
+      ]);
+      const wallet = new MultiSigClient(hre, contract);
+      await wallet.fund("60");
+
+      return {
+        wallet,
+        clients: ownerWallets.map((w) => wallet.connect(w)),
+        owners: ownerWallets.map((w) => getAddress(w.account.address)),
+        recipients: wallets.slice(5, 7).map((w) => getAddress(w.account.address)),
+        model: await wallet.getPolicyModel(),
+      };
+    }
+
+    interface Harness {
+      wallet: MultiSigClient;
+      clients: MultiSigClient[];
+      owners: Address[];
+      recipients: Address[];
+      model: MultiSigPolicyModel;
+      // 관찰한 위험 구간과 한도 결과 (커버리지 확인용)
+      seen: Set<string>;
+      label: string;
+    }
+
+    async function blockTimestamp(tx: TxResult): Promise<bigint> {
+      const publicClient = await hre.viem.getPublicClient();
+      return (await publicClient.getBlock({ blockNumber: tx.blockNumber })).timestamp;
+    }
+
+    /**
+     * 다음 트랜잭션을 timestamp 블록에 넣음. 직전 블록을 1초 앞에 채굴해 두면
+     * 가스 추정(직전 블록 + 1초)과 실제 실행이 같은 시각을 봅니다.
+     */
+    async function atNextBlock(timestamp: bigint) {
+      await time.increaseTo(timestamp - 1n);
+      await time.setNextBlockTimestamp(timestamp);
+    }
+
+    async function expectModelMatches(h: Harness) {
+      const chain = await h.wallet.getPolicyModel({ recipients: h.recipients, spenders: h.owners });
+      expect(chain.balance, `${h.label}: balance`).to.equal(h.model.balance);
+      for (const recipient of h.recipients) {
+        const expected = h.model.suspiciousActivity[recipient] ?? 0n;
+        expect(chain.suspiciousActivity[recipient], `${h.label}: suspiciousActivity`).to.equal(expected);
+      }
+      for (const owner of h.owners) {
+        expect(chain.dailySpent[owner], `${h.label}: dailySpent`).to.equal(h.model.dailySpent[owner] ?? 0n);
+        expect(chain.monthlySpent[owner], `${h.label}: monthlySpent`).to.equal(h.model.monthlySpent[owner] ?? 0n);
+      }
+    }
+
+    /**
+     * timestamp 블록에 제출하고 RiskAnalysisCompleted / 저장된 타임락을 모델과 비교
+     */
+    async function submitAndCompare(h: Harness, client: MultiSigClient, tx: PolicyTransaction, timestamp: bigint) {
+      // 제출 전에 SDK가 체인에서 읽어 계산한 미리보기
+      const predicted = await client.previewTransaction(tx, { timestamp });
+
+      await atNextBlock(timestamp);
+      const submitted = await client.submitTransaction(tx);
+      expect(await blockTimestamp(submitted), h.label).to.equal(timestamp);
+
+      const { model, preview } = applySubmission(h.model, tx, timestamp);
+      expect(submitted.riskScore, `${h.label}: riskScore`).to.equal(preview.riskScore);
+      expect(submitted.requiredConfirmations, `${h.label}: requiredConfirmations`).to.equal(
+        preview.requiredConfirmations
+      );
+      const stored = await h.wallet.getTransaction(submitted.txId);
+      expect(stored.timelock, `${h.label}: timelock`).to.equal(preview.executableAt);
+      expect(predicted, `${h.label}: previewTransaction`).to.deep.include({
+        riskScore: preview.riskScore,
+        requiredConfirmations: preview.requiredConfirmations,
+        executableAt: preview.executableAt,
+        flagsRecipient: preview.flagsRecipient,
+      });
+
+      h.seen.add(preview.riskLevel);
+      if (preview.flagsRecipient) h.seen.add("flagged");
+      if (preview.factors.recipientRisk > 0n) h.seen.add("recipientRisk");
+      h.model = model;
+      return { txId: submitted.txId, preview };
+    }
+
+    /**
+     * 필요한 소유자만큼 승인 (고위험이면 1시간 대기). 타임락이 최소 1시간이라 승인만으로는 실행되지 않음
+     */
+    async function confirmAll(h: Harness, txId: bigint, riskScore: bigint, requiredConfirmations: bigint) {
+      if (riskScore > 70n) await time.increase(3600);
+      for (const client of h.clients.slice(0, Number(requiredConfirmations))) {
+        const confirmed = await client.confirmTransaction(txId);
+        expect(confirmed.executed, `${h.label}: 승인 중 자동 실행`).to.be.false;
+      }
+    }
+
+    async function executeAndCompare(h: Harness, executor: number, txId: bigint, value: bigint, timestamp: bigint) {
+      let expected: MultiSigPolicyModel;
+      try {
+        expected = applyExecution(h.model, h.owners[executor], value, timestamp);
+      } catch (error: any) {
+        await atNextBlock(timestamp);
+        await expect(h.clients[executor].executeTransaction(txId), h.label).to.be.rejectedWith(error.message);
+        // revert된 실행은 블록을 만들지 않으므로 예약한 시각을 소비
+        await mine();
+        h.seen.add(error.message);
+        return false;
+      }
+
+      await atNextBlock(timestamp);
+      const executed = await h.clients[executor].executeTransaction(txId);
+      expect(executed, h.label).to.deep.include({ executed: true, success: true });
+      h.seen.add("executed");
+      h.model = expected;
+      return true;
+    }
+
+    async function randomStep(h: Harness, random: Random) {
+      const roll = random.next();
+      if (roll < 0.15) {
+        // 날짜와 30일 단위 달을 넘나들도록 시간 이동
+        await time.increase(random.pick([3600, 6 * 3600, 86_400, 7 * 86_400, 31 * 86_400]));
+        return;
+      }
+
+      // 다음 하루 안의 임의 시각 (야간 가산 구간 포함)
+      const timestamp = BigInt(await time.latest()) + BigInt(random.int(60, 86_400));
+      const client = random.pick(h.clients);
+      const to = random.pick(h.recipients);
+
+      if (roll < 0.55) {
+        const length = random.pick([0, 4, 68, 1000, 1001]);
+        const threshold = h.model.policy.highValueThreshold;
+        const value = random.pick([0n, parseEther("1"), threshold, threshold + 1n, h.model.balance / 2n + 1n]);
+        const tx = { to, value, data: `0x${"ab".repeat(length)}` as Hex, txType: random.pick(TYPES) };
+        await submitAndCompare(h, client, tx, timestamp);
+        return;
+      }
+
+      // 제출 → 승인 → 타임락 뒤 임의 소유자가 실행 (한도 초과 여부를 모델로 예측)
+      if (h.model.balance < parseEther("12")) {
+        await h.wallet.fund("50");
+        h.model = { ...h.model, balance: h.model.balance + parseEther("50") };
+      }
+      const value = random.bigint(parseEther("0.1"), parseEther("9"));
+      const txType = random.pick<TransactionTypeName>(["NORMAL", "HIGH_VALUE"]);
+      const { txId, preview } = await submitAndCompare(h, client, { to, value, data: "0x", txType }, timestamp);
+      await confirmAll(h, txId, preview.riskScore, preview.requiredConfirmations);
+
+      const latest = BigInt(await time.latest());
+      const start = preview.executableAt > latest + 1n ? preview.executableAt : latest + 2n;
+      const delay = BigInt(random.pick([0, 600, 86_400, 20 * 86_400]));
+      await executeAndCompare(h, random.int(0, h.owners.length - 1), txId, value, start + delay);
+    }
+
+    for (const offset of [0, 1]) {
+      it(`무작위 제출/실행/시간 이동 시퀀스에서 위험 점수, 승인 수, 타임락, 한도가 모델과 같아야 함 (#${offset + 1})`, async function () {
+        const fixture = await loadFixture(deployMultiSigFixture);
+        const seed = baseSeed + offset;
+        const random = createRandom(seed);
+        const h: Harness = { ...fixture, seen: new Set(), label: `seed ${seed}` };
+
+        for (let step = 0; step < 40; step++) {
+          h.label = `seed ${seed}, step ${step}`;
+          await randomStep(h, random);
+          await expectModelMatches(h);
+        }
+      });
+    }
+
+    it("날짜가 바뀌어도 그날 처음 실행하지 않은 소유자의 일일 한도는 초기화되지 않아야 함", async function () {
+      const fixture = await loadFixture(deployMultiSigFixture);
+      const h: Harness = { ...fixture, seen: new Set(), label: "scenario" };
+      const [deployer, alice, bob, carol] = [0, 1, 2, 3];
+      const [recipient] = h.recipients;
+
+      // 다음 UTC 자정 기준 day일 hour시
+      const midnight = (BigInt(await time.latest()) / DAY + 1n) * DAY;
+      const at = (day: bigint, hour: bigint, minute = 0n) => midnight + day * DAY + hour * HOUR + minute * 60n;
+
+      // 주간 제출, 잔액 60 ETH: 8 ETH는 기준 금액 초과(30), 3 ETH는 0 → 모두 낮은 위험, 1시간 타임락
+      const values = ["8", "3", "3", "8"].map((v) => parseEther(v));
+      const txIds: bigint[] = [];
+      for (const [i, value] of values.entries()) {
+        h.label = `scenario, submit ${i}`;
+        const tx = { to: recipient, value, data: "0x" as Hex, txType: "NORMAL" as const };
+        const { txId, preview } = await submitAndCompare(h, h.clients[deployer], tx, at(0n, 10n, BigInt(i)));
+        expect(preview.riskLevel).to.equal("LOW");
+        await confirmAll(h, txId, preview.riskScore, preview.requiredConfirmations);
+        txIds.push(txId);
+      }
+
+      h.label = "scenario, day 0";
+      expect(await executeAndCompare(h, alice, txIds[0], values[0], at(0n, 12n))).to.be.true;
+      expect(await executeAndCompare(h, bob, txIds[1], values[1], at(0n, 12n, 10n))).to.be.true;
+      expect(await executeAndCompare(h, alice, txIds[2], values[2], at(0n, 12n, 20n))).to.be.false; // 8 + 3
+      await expectModelMatches(h);
+
+      h.label = "scenario, day 1";
+      expect(await executeAndCompare(h, alice, txIds[2], values[2], at(1n, 10n))).to.be.true;
+
+      // bob이 실행한다면: 오늘은 alice가 이미 초기화했으므로 어제의 3 ETH가 남아 11 ETH
+      const preview = await h.clients[bob].previewTransaction(
+        { to: recipient, value: "8" },
+        { timestamp: at(1n, 10n, 10n) - HOUR }
+      );
+      expect(preview.spending).to.deep.include({
+        dailySpent: parseEther("11"),
+        dailyReset: false,
+        dailyExceeded: true,
+      });
+      expect(preview.problems).to.include("실행 불가: Daily limit exceeded");
+      expect(await executeAndCompare(h, bob, txIds[3], values[3], at(1n, 10n, 10n))).to.be.false;
+      expect(await executeAndCompare(h, carol, txIds[3], values[3], at(1n, 10n, 20n))).to.be.true;
+      await expectModelMatches(h);
+
+      // 야간 + HIGH_VALUE + 긴 calldata → 100점: 받는 주소가 의심 주소로 기록되어 다음 제출에 반영
+      h.label = "scenario, suspicious";
+      const data = `0x${"ab".repeat(1001)}` as Hex;
+      const flagged = await submitAndCompare(
+        h,
+        h.clients[alice],
+        { to: recipient, value: parseEther("7"), data, txType: "HIGH_VALUE" },
+        at(2n, 23n)
+      );
+      expect(flagged.preview).to.deep.include({ riskScore: 100n, requiredConfirmations: 5n, flagsRecipient: true });
+      const next = await submitAndCompare(
+        h,
+        h.clients[deployer],
+        { to: recipient, value: 0n, data: "0x", txType: "NORMAL" },
+        at(3n, 10n)
+      );
+      expect(next.preview.factors.recipientRisk).to.equal(20n);
+      await expectModelMatches(h);
+
+      expect([...h.seen]).to.include.members(["LOW", "CRITICAL", "flagged", "recipientRisk", "executed"]);
+      expect([...h.seen]).to.include("Daily limit exceeded");
+    });
+  });
+});
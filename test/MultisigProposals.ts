@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { callTarget } from "../scripts/lib/calls";
+import { ProposalService } from "../scripts/multisig/service";
+import { MultiSigClient } from "../scripts/sdk";
+
+describe("IntelligentMultiSig 제안 서비스", function () {
+  async function deployMultiSigFixture() {
+    const [deployer, alice, bob, carol] = await hre.viem.getWalletClients();
+    const myToken = await hre.viem.deployContract("MyToken");
+    const contract = await hre.viem.deployContract("IntelligentMultiSig", [
+      [deployer.account.address, alice.account.address, bob.account.address],
+      2n,
+      ["Deployer", "Alice", "Bob"],
+    ]);
+    const wallet = new MultiSigClient(hre, contract);
+    await wallet.fund("10");
+    await myToken.write.transfer([contract.address, parseEther("1000")]);
+
+    const targets = [callTarget("multiSig", contract, "IntelligentMultiSig"), callTarget("myToken", myToken, "MyToken")];
+    const service = await ProposalService.open(hre, wallet, { targets });
+    const [owner, first, second, outsider] = [deployer, alice, bob, carol].map((w) => getAddress(w.account.address));
+    return { wallet, service, myToken, deployer, alice, bob, owners: { owner, first, second }, outsider };
+  }
+
+  it("소유자별 받은 편지함을 보여주고 타임락 후 마지막 서명자가 실행해야 함", async function () {
+    const { service, alice, bob, owners, outsider } = await loadFixture(deployMultiSigFixture);
+    const publicClient = await hre.viem.getPublicClient();
+
+    const proposal = await service.propose({ description: "외주 개발비 지급", to: outsider, value: "1" });
+    expect(proposal).to.deep.include({
+      txId: 0n,
+      description: "외주 개발비 지급",
+      proposer: owners.owner,
+      status: "AWAITING_CONFIRMATIONS",
+      missingConfirmations: 2n,
+      call: `${outsider} ← 1 ETH`,
+    });
+    expect(proposal.confirmedBy).to.be.empty;
+
+    // 제출자도 아직 승인하지 않았으므로 모두의 승인 대기 목록에 있음
+    for (const owner of Object.values(owners)) {
+      expect((await service.inbox(owner)).toConfirm.map((p) => p.txId)).to.deep.equal([0n]);
+    }
+
+    await service.confirm(0n);
+    const confirmed = await service.connect(alice).confirm(0n);
+    expect(confirmed.executed).to.be.false;
+    expect(confirmed.proposal).to.deep.include({ status: "TIMELOCKED", missingConfirmations: 0n });
+    expect(confirmed.proposal.confirmedBy).to.deep.equal([owners.owner, owners.first]);
+    expect(confirmed.proposal.unconfirmedOwners).to.deep.equal([owners.second]);
+
+    const waiting = await service.inbox(owners.second);
+    expect(waiting.toConfirm).to.be.empty;
+    expect(waiting.waiting.map((p) => p.txId)).to.deep.equal([0n]);
+    await expect(service.connect(bob).execute(0n)).to.be.rejectedWith("까지 타임락입니다");
+
+    await time.increaseTo(confirmed.proposal.transaction.timelock);
+    expect((await service.inbox(owners.second)).toExecute.map((p) => p.txId)).to.deep.equal([0n]);
+
+    const before = await publicClient.getBalance({ address: outsider });
+    const executed = await service.connect(bob).execute(0n);
+    expect(executed).to.deep.include({ executed: true, success: true });
+    expect(executed.proposal).to.deep.include({ status: "EXECUTED", executedTx: executed.hash, success: true });
+    expect(await publicClient.getBalance({ address: outsider })).to.equal(before + parseEther("1"));
+
+    expect(await service.list()).to.be.empty;
+    expect((await service.list({ includeExecuted: true })).map((p) => p.txId)).to.deep.equal([0n]);
+  });
+
+  it("컨트랙트 호출을 해석해 저장하고 서비스 밖에서 제출된 트랜잭션도 동기화해야 함", async function () {
+    const { wallet, service, myToken, owners, outsider } = await loadFixture(deployMultiSigFixture);
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "multisig-")), "proposals.json");
+
+    try {
+      const persisted = await ProposalService.open(hre, wallet, { file, targets: service.targets });
+      const proposal = await persisted.propose({
+        description: "마케팅 예산",
+        call: { target: "myToken", functionName: "transfer", args: [outsider, "250 ether"] },
+      });
+      expect(proposal.to).to.equal(getAddress(myToken.address));
+      expect(proposal.call).to.equal(`myToken.transfer(${outsider}, 250000000000000000000)`);
+
+      // 다른 도구로 제출한 트랜잭션은 설명 없이 추가됨
+      await wallet.submitTransaction({ to: outsider, value: "0.5" });
+
+      const reopened = await ProposalService.open(hre, wallet, { file, targets: service.targets });
+      const listed = await reopened.list();
+      expect(listed.map((p) => [p.txId, p.description, p.proposer])).to.deep.equal([
+        [0n, "마케팅 예산", owners.owner],
+        [1n, "", owners.owner],
+      ]);
+      expect(listed[1].call).to.equal(`${outsider} ← 0.5 ETH`);
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it("승인 전후 조건을 미리 확인해 거부해야 함", async function () {
+    const { service, alice, outsider } = await loadFixture(deployMultiSigFixture);
+
+    await expect(service.propose({ description: "  ", to: outsider })).to.be.rejectedWith("제안 설명이 필요합니다");
+    await expect(service.get(9n)).to.be.rejectedWith("트랜잭션 #9이(가) 없습니다");
+
+    await service.propose({ description: "소액 지급", to: outsider, value: "0.1" });
+    await service.confirm(0n);
+    await expect(service.confirm(0n)).to.be.rejectedWith("이미 승인했습니다");
+    await expect(service.execute(0n)).to.be.rejectedWith("승인 1개가 더 필요합니다");
+
+    // 잔액 절반 초과 + HIGH_VALUE → 위험 점수 85: 모든 소유자 승인, 제출 1시간 뒤부터 승인 가능
+    const risky = await service.propose({ description: "전액 이동", to: outsider, value: "6", txType: "HIGH_VALUE" });
+    expect(Number(risky.transaction.riskScore)).to.be.greaterThan(70);
+    expect(risky.missingConfirmations).to.equal(3n);
+    await expect(service.connect(alice).confirm(risky.txId)).to.be.rejectedWith("부터 승인할 수 있습니다");
+
+    await time.increaseTo(risky.confirmableAt);
+    await service.connect(alice).confirm(risky.txId);
+    expect((await service.get(risky.txId)).confirmedBy).to.have.length(1);
+  });
+});
@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { RecoveryService } from "../scripts/multisig/recovery";
+import { MultiSigClient } from "../scripts/sdk";
+
+const RECOVERY_PERIOD = 7n * 86_400n;
+
+describe("IntelligentMultiSig 소유자 복구", function () {
+  async function deployMultiSigFixture() {
+    const [deployer, alice, bob, carol, dave, erin, frank] = await hre.viem.getWalletClients();
+    // 처음 두 소유자(deployer, alice)가 비상 연락처
+    const contract = await hre.viem.deployContract("IntelligentMultiSig", [
+      [deployer.account.address, alice.account.address, bob.account.address],
+      2n,
+      ["Deployer", "Alice", "Bob"],
+    ]);
+    const wallet = new MultiSigClient(hre, contract);
+    await wallet.fund("10");
+
+    const recovery = await RecoveryService.open(hre, wallet);
+    const [owner, first, second] = [deployer, alice, bob].map((w) => getAddress(w.account.address));
+    const guardians = [carol, dave, erin].map((w) => getAddress(w.account.address));
+    return {
+      contract,
+      wallet,
+      recovery,
+      wallets: { deployer, alice, bob, carol, dave, erin, frank },
+      owners: { owner, first, second },
+      guardians,
+      newOwner: getAddress(frank.account.address),
+    };
+  }
+
+  it("지정한 보호자 2/3 승인으로 키를 잃은 소유자를 새 주소로 교체해야 함", async function () {
+    const { wallet, recovery, wallets, owners, guardians, newOwner } = await loadFixture(deployMultiSigFixture);
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "recovery-")), "multisig.json");
+
+    try {
+      // 키가 있을 때 bob이 보호자를 지정해 두고, 키를 잃은 뒤 다른 소유자가 요청
+      const persisted = await RecoveryService.open(hre, wallet, { file });
+      await persisted.connect(wallets.bob).nominate(guardians);
+      const reopened = await RecoveryService.open(hre, wallet, { file });
+      expect(reopened.nominated(owners.second)).to.deep.equal(guardians);
+
+      const requested = await reopened.request(owners.second, newOwner);
+      expect(requested.recovery).to.deep.include({
+        oldOwner: owners.second,
+        newOwner,
+        requester: owners.owner,
+        status: "AWAITING_APPROVALS",
+        requiredApprovals: 2n,
+        missingApprovals: 2n,
+        remaining: RECOVERY_PERIOD,
+        unexpectedGuardians: false,
+        oldOwnerIsEmergencyContact: false,
+      });
+      expect(requested.recovery.guardians).to.deep.equal(guardians);
+
+      const first = await reopened.connect(wallets.carol).approve(owners.second);
+      expect(first.recovery).to.deep.include({ status: "AWAITING_APPROVALS", missingApprovals: 1n });
+      expect(first.recovery.pendingGuardians).to.deep.equal(guardians.slice(1));
+
+      await time.increase(3 * 86_400);
+      const second = await reopened.connect(wallets.dave).approve(owners.second);
+      expect(second.recovery).to.deep.include({ status: "EXECUTABLE", missingApprovals: 0n });
+      expect(second.recovery.remaining < RECOVERY_PERIOD - 3n * 86_400n).to.be.true;
+
+      // 실행은 누구나 가능, 새 주소가 같은 자리(이름 유지)를 평판 50으로 이어받음
+      const executed = await reopened.connect(wallets.erin).execute(owners.second);
+      expect(executed.owner).to.deep.include({ address: newOwner, name: "Bob", reputation: 50n });
+      expect((await wallet.getOwners()).map((o) => getAddress(o.address))).to.deep.equal([
+        owners.owner,
+        owners.first,
+        newOwner,
+      ]);
+      expect(await reopened.status(owners.second)).to.be.undefined;
+
+      await wallet.connect(wallets.frank).submitTransaction({ to: owners.owner, value: "1" });
+      await expect(wallet.connect(wallets.bob).submitTransaction({ to: owners.owner })).to.be.rejectedWith(
+        "Not an owner"
+      );
+    } finally {
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it("승인이 부족하거나 기한이 지나면 실행과 승인을 거부해야 함", async function () {
+    const { wallet, recovery, wallets, owners, guardians, newOwner } = await loadFixture(deployMultiSigFixture);
+
+    await expect(recovery.request(owners.second, newOwner)).to.be.rejectedWith("보호자가 지정되지 않았습니다");
+    await expect(recovery.request(owners.second, newOwner, { guardians: guardians.slice(0, 2) })).to.be.rejectedWith(
+      "보호자가 최소 3명 필요합니다"
+    );
+    await expect(wallet.requestRecovery(owners.second, newOwner, guardians.slice(0, 2))).to.be.rejectedWith(
+      "Need at least 3 guardians"
+    );
+
+    const { recovery: requested } = await recovery.request(owners.second, newOwner, { guardians });
+    await recovery.connect(wallets.carol).approve(owners.second);
+    await expect(recovery.connect(wallets.carol).approve(owners.second)).to.be.rejectedWith("이미 승인했습니다");
+    await expect(recovery.connect(wallets.frank).approve(owners.second)).to.be.rejectedWith("보호자가 아닙니다");
+    await expect(wallet.connect(wallets.frank).approveRecovery(owners.second)).to.be.rejectedWith("Not a guardian");
+
+    // 보호자 3명 중 1명 승인: 2명 필요
+    await expect(recovery.execute(owners.second)).to.be.rejectedWith("보호자 승인 1개가 더 필요합니다 (1/2");
+    await expect(wallet.executeRecovery(owners.second, newOwner)).to.be.rejectedWith("Not enough approvals");
+
+    await time.increaseTo(requested.approvalDeadline);
+    const expired = await recovery.get(owners.second);
+    expect(expired).to.deep.include({ status: "EXPIRED", remaining: 0n, missingApprovals: 1n });
+    await expect(recovery.connect(wallets.dave).approve(owners.second)).to.be.rejectedWith("승인 기한");
+    await expect(wallet.connect(wallets.dave).approveRecovery(owners.second)).to.be.rejectedWith(
+      "Recovery period expired"
+    );
+    await expect(recovery.execute(owners.second)).to.be.rejectedWith("승인 기한이 지나 다시 요청해야 합니다");
+
+    // 만료된 요청은 replace 없이 다시 요청할 수 있고, 컨트랙트는 이전 요청의 승인을 지우지 않음
+    const renewed = await recovery.request(owners.second, newOwner, { guardians });
+    expect(renewed.recovery).to.deep.include({ status: "AWAITING_APPROVALS", missingApprovals: 1n });
+    expect(renewed.recovery.approvedBy).to.deep.equal([guardians[0]]);
+  });
+
+  it("승인 전 실행, 요청 없는 실행, 진행 중인 요청 덮어쓰기를 막아야 함", async function () {
+    const { wallet, recovery, wallets, owners, guardians, newOwner } = await loadFixture(deployMultiSigFixture);
+
+    await expect(recovery.execute(owners.second, newOwner)).to.be.rejectedWith("복구 요청이 없습니다");
+    await expect(wallet.executeRecovery(owners.second, newOwner)).to.be.rejectedWith("No recovery request");
+    await expect(recovery.request(owners.second, owners.first, { guardians })).to.be.rejectedWith("이미 소유자입니다");
+    await expect(recovery.request(newOwner, owners.first, { guardians })).to.be.rejectedWith("멀티시그 소유자가 아닙니다");
+
+    const { recovery: requested } = await recovery
+      .connect(wallets.carol)
+      .request(owners.second, newOwner, { guardians });
+    expect(requested.requester).to.equal(guardians[0]);
+    await expect(recovery.execute(owners.second)).to.be.rejectedWith("보호자 승인 2개가 더 필요합니다 (0/2");
+    await expect(wallet.executeRecovery(owners.second, newOwner)).to.be.rejectedWith("Not enough approvals");
+
+    await expect(recovery.request(owners.second, newOwner, { guardians })).to.be.rejectedWith("이미 진행 중입니다");
+    await time.increase(86_400);
+    const replaced = await recovery.request(owners.second, newOwner, {
+      guardians: [...guardians].reverse(),
+      replace: true,
+    });
+    expect(replaced.recovery.requestedAt > requested.requestedAt).to.be.true;
+    expect(replaced.recovery.remaining).to.equal(RECOVERY_PERIOD);
+
+    // 승인이 모여도 요청과 다른 새 주소로는 실행하지 않음 (컨트랙트는 아무 주소나 받음)
+    await recovery.connect(wallets.carol).approve(owners.second);
+    await recovery.connect(wallets.dave).approve(owners.second);
+    await expect(recovery.execute(owners.second, getAddress(wallets.erin.account.address))).to.be.rejectedWith(
+      `요청된 새 소유자는 ${newOwner}입니다`
+    );
+  });
+
+  it("비상 모드에서도 복구가 진행되고 비상 연락처 권한은 잃어버린 키에 남아야 함", async function () {
+    const { contract, wallet, recovery, wallets, owners, guardians, newOwner } =
+      await loadFixture(deployMultiSigFixture);
+    const publicClient = await hre.viem.getPublicClient();
+
+    await expect(wallet.connect(wallets.bob).activateEmergencyMode()).to.be.rejectedWith(
+      "Not authorized for emergency"
+    );
+    await wallet.connect(wallets.alice).activateEmergencyMode();
+    expect((await wallet.getSecurityPolicy()).emergencyMode).to.be.true;
+    await expect(wallet.submitTransaction({ to: newOwner, value: "1" })).to.be.rejectedWith("Wallet in emergency mode");
+
+    // 비상 연락처인 deployer의 키를 잃음: 복구 함수는 비상 모드를 확인하지 않음
+    const { recovery: requested } = await recovery
+      .connect(wallets.alice)
+      .request(owners.owner, newOwner, { guardians });
+    expect(requested.oldOwnerIsEmergencyContact).to.be.true;
+    await recovery.connect(wallets.carol).approve(owners.owner);
+    await recovery.connect(wallets.erin).approve(owners.owner);
+    const executed = await recovery.execute(owners.owner);
+    expect(executed.owner).to.deep.include({ address: newOwner, name: "Deployer", isEmergencyContact: false });
+
+    // 새 소유자도 비상 모드에서는 제출할 수 없음
+    await expect(wallet.connect(wallets.frank).submitTransaction({ to: newOwner })).to.be.rejectedWith(
+      "Wallet in emergency mode"
+    );
+
+    // 컨트랙트는 비상 연락처 권한을 옮기지 않으므로 잃어버린 키가 여전히 비상 트랜잭션을 보낼 수 있음
+    expect(await wallet.isEmergencyContact(owners.owner)).to.be.true;
+    const before = await publicClient.getBalance({ address: owners.owner });
+    await contract.write.emergencyTransaction([owners.owner, parseEther("1"), "0x"], {
+      account: wallets.deployer.account,
+    });
+    expect(await publicClient.getBalance({ address: wallet.address })).to.equal(parseEther("9"));
+    expect((await publicClient.getBalance({ address: owners.owner })) > before - parseEther("0.1")).to.be.true;
+  });
+});
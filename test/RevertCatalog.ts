@@ -0,0 +1,254 @@
+import { expect } from "chai";
+import {
+  CallExecutionError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+  parseAbi,
+  type Abi,
+  UnknownRpcError,
+  type Hex,
+} from "viem";
+
+import { buildCatalog, findRevertInfo, loadRevertCatalog, type RevertCatalog } from "../scripts/errors/catalog";
+import { extractRequires, extractRevertCatalog, type ExtractionResult } from "../scripts/errors/extract";
+import { ContractRevertError, decodeRevert, formatRevert } from "../scripts/lib/revert";
+
+describe("RevertCatalog", function () {
+  const source = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract Vault is Ownable {
+    string private note = "require(false, \\"in a string\\")";
+
+    modifier onlyMember() {
+        require(members[msg.sender], "Not a member");
+        _;
+    }
+
+    function deposit() external payable onlyMember {
+        _check(msg.value);
+    }
+
+    function withdraw(uint256 amount) public onlyMember {
+        _check(amount);
+        // require(false, "commented out");
+        require(balance[msg.sender] >= amount, "Insufficient balance");
+    }
+
+    function _check(uint256 amount) internal pure {
+        require(amount > 0, "Amount must be greater than 0");
+    }
+}
+`;
+
+  function extraction(messages: string[], customErrors: string[] = []): ExtractionResult {
+    return {
+      contracts: [
+        {
+          name: "Vault",
+          file: "contracts/Vault.sol",
+          requires: messages.map((message) => ({ message, functions: ["withdraw"] })),
+          customErrors: customErrors.map((name) => ({ name, signature: `${name}(address)`, declaredIn: "Ownable" })),
+        },
+      ],
+      missingImports: [],
+    };
+  }
+
+  const errorAbi = parseAbi(["error Error(string)", "error OwnableUnauthorizedAccount(address)", "error Panic(uint256)"]);
+
+  function revertedCall(functionName: string, data: Hex): ContractFunctionExecutionError {
+    const abi = [...errorAbi, { type: "function", name: functionName, inputs: [], outputs: [], stateMutability: "nonpayable" }] as Abi;
+    return new ContractFunctionExecutionError(new ContractFunctionRevertedError({ abi, data, functionName }), {
+      abi,
+      functionName,
+      args: [],
+    });
+  }
+
+  function requireData(message: string): Hex {
+    return encodeErrorResult({ abi: errorAbi, errorName: "Error", args: [message] });
+  }
+
+  describe("추출", function () {
+    it("modifier와 internal 함수의 require를 진입 함수로 펼쳐야 함", function () {
+      const requires = extractRequires("contracts/Vault.sol", source, "Vault");
+
+      expect(requires).to.deep.equal([
+        { message: "Not a member", functions: ["deposit", "withdraw"] },
+        { message: "Insufficient balance", functions: ["withdraw"] },
+        { message: "Amount must be greater than 0", functions: ["deposit", "withdraw"] },
+      ]);
+    });
+
+    it("상속받은 OpenZeppelin 커스텀 에러를 포함해야 함", function () {
+      const { contracts } = extractRevertCatalog("contracts");
+      const lock = contracts.find((c) => c.name === "AdvancedLock")!;
+
+      expect(lock.requires.map((r) => r.message)).to.include("Lock not yet expired");
+      expect(lock.customErrors.map((e) => e.signature)).to.include.members([
+        "OwnableUnauthorizedAccount(address)",
+        "EnforcedPause()",
+        "ReentrancyGuardReentrantCall()",
+      ]);
+    });
+  });
+
+  describe("카탈로그 병합", function () {
+    it("기존 코드와 번역을 유지하고 새 항목에 다음 번호를 부여해야 함", function () {
+      const first = buildCatalog(extraction(["Not a member", "Insufficient balance"]));
+      expect(first.catalog.contracts.Vault.errors.map((e) => e.code)).to.deep.equal(["VAULT-001", "VAULT-002"]);
+      expect(first.untranslated).to.deep.equal(["VAULT-001", "VAULT-002"]);
+
+      first.catalog.contracts.Vault.errors[1].message_ko = "잔액이 부족합니다";
+
+      // 첫 항목 제거, 새 항목 추가
+      const second = buildCatalog(extraction(["Insufficient balance", "Paused"]), first.catalog);
+      const entries = second.catalog.contracts.Vault.errors;
+
+      expect(entries.map((e) => [e.code, e.message_en, e.deprecated ?? false])).to.deep.equal([
+        ["VAULT-001", "Not a member", true],
+        ["VAULT-002", "Insufficient balance", false],
+        ["VAULT-003", "Paused", false],
+      ]);
+      expect(entries[1].message_ko).to.equal("잔액이 부족합니다");
+      expect(second.added).to.deep.equal(["VAULT-003"]);
+      expect(second.deprecated).to.deep.equal(["VAULT-001"]);
+    });
+
+    it("같은 사유의 번역을 다른 컨트랙트에서 재사용해야 함", function () {
+      const previous: RevertCatalog = {
+        version: 1,
+        contracts: {
+          Other: {
+            prefix: "OTHER",
+            file: "contracts/Other.sol",
+            errors: [
+              {
+                code: "OTHER-001",
+                kind: "error",
+                message_en: "Caller is not the owner",
+                message_ko: "소유자만 호출할 수 있습니다",
+                hint: "owner()로 호출하세요",
+                functions: [],
+                error: "OwnableUnauthorizedAccount(address)",
+              },
+            ],
+          },
+        },
+      };
+
+      const { catalog } = buildCatalog(extraction([], ["OwnableUnauthorizedAccount"]), previous);
+      expect(catalog.contracts.Vault.errors[0]).to.deep.include({
+        code: "VAULT-001",
+        message_en: "Caller is not the owner",
+        message_ko: "소유자만 호출할 수 있습니다",
+      });
+      expect(catalog.contracts.Other.errors[0].deprecated).to.be.true;
+    });
+
+    it("커밋된 카탈로그가 소스와 일치하고 모두 번역되어 있어야 함", function () {
+      const { added, deprecated, untranslated } = buildCatalog(extractRevertCatalog("contracts"), loadRevertCatalog());
+
+      expect(added, "npm run errors:catalog 필요").to.be.empty;
+      expect(deprecated).to.be.empty;
+      expect(untranslated).to.be.empty;
+    });
+  });
+
+  describe("디코딩", function () {
+    it("require 문자열을 코드와 한국어 메시지로 변환해야 함", function () {
+      const decoded = decodeRevert(revertedCall("withdraw", requireData("Lock not yet expired")));
+
+      expect(decoded.reason).to.equal("Lock not yet expired");
+      expect(decoded.error).to.deep.include({
+        contract: "AdvancedLock",
+        function: "withdraw",
+        message_en: "Lock not yet expired",
+        message_ko: "아직 잠금 해제 시간이 되지 않았습니다",
+      });
+      expect(decoded.error!.code).to.match(/^LOCK-\d{3}$/);
+      expect(formatRevert(decoded)).to.equal(`[${decoded.error!.code}] 아직 잠금 해제 시간이 되지 않았습니다 (Lock not yet expired)`);
+    });
+
+    it("같은 문자열은 컨트랙트와 함수 이름으로 구분해야 함", function () {
+      const daoVote = decodeRevert(revertedCall("vote", requireData("Already voted")), { contract: "AIEnhancedDAO" });
+      const evoVote = decodeRevert(revertedCall("vote", requireData("Already voted")), { contract: "EvolutionaryToken" });
+      expect(daoVote.error!.code).to.match(/^DAO-/);
+      expect(evoVote.error!.code).to.match(/^EVO-/);
+
+      // 컨트랙트를 모르면 함수 이름으로: swapAtoB는 SimpleDEX에만 있음
+      const swap = findRevertInfo({ message: "Insufficient output amount", functionName: "swapAtoB" });
+      expect(swap!.contract).to.equal("SimpleDEX");
+    });
+
+    it("커스텀 에러와 Panic도 변환해야 함", function () {
+      const owner = decodeRevert(
+        revertedCall(
+          "pause",
+          encodeErrorResult({
+            abi: errorAbi,
+            errorName: "OwnableUnauthorizedAccount",
+            args: ["0x70997970C51812dc3A010C7d01b50e0d17dc79C8"],
+          })
+        ),
+        { contract: "AdvancedLock" }
+      );
+      expect(owner.reason).to.match(/^OwnableUnauthorizedAccount\(/);
+      expect(owner.error).to.deep.include({ contract: "AdvancedLock", function: "pause", message_en: "Caller is not the owner" });
+
+      const panic = decodeRevert(
+        revertedCall("startBattle", encodeErrorResult({ abi: errorAbi, errorName: "Panic", args: [0x11n] })),
+        { contract: "BattleArenaP2E" }
+      );
+      expect(panic.error).to.deep.include({ contract: "BattleArenaP2E", function: "startBattle", code: "PANIC-11" });
+    });
+
+    it("revert 데이터가 없으면 Hardhat 오류 메시지에서 사유를 찾아야 함", function () {
+      // gas: "auto"로 가스 추정이 실패하면 viem은 revert 데이터 없이 UnknownRpcError만 받음
+      const estimateFailed = (functionName: string, details: string) => {
+        const cause = new UnknownRpcError(new Error(`VM Exception while processing transaction: ${details}`));
+        return new ContractFunctionExecutionError(new CallExecutionError(cause, {}), { abi: [], functionName, args: [] });
+      };
+
+      const owner = decodeRevert(
+        estimateFailed(
+          "pause",
+          `reverted with custom error 'OwnableUnauthorizedAccount("0x70997970C51812dc3A010C7d01b50e0d17dc79C8")'`
+        ),
+        { contract: "AdvancedLock" }
+      );
+      expect(owner).to.deep.include({
+        reverted: true,
+        reason: "OwnableUnauthorizedAccount(0x70997970C51812dc3A010C7d01b50e0d17dc79C8)",
+      });
+      expect(owner.error).to.deep.include({ contract: "AdvancedLock", function: "pause" });
+
+      const expired = decodeRevert(estimateFailed("withdraw", "reverted with reason string 'Lock not yet expired'"));
+      expect(expired.error).to.deep.include({ contract: "AdvancedLock", function: "withdraw" });
+
+      const panic = decodeRevert(
+        estimateFailed(
+          "startBattle",
+          "reverted with panic code 0x11 (Arithmetic operation overflowed outside of an unchecked block)"
+        ),
+        { contract: "BattleArenaP2E" }
+      );
+      expect(panic.reason).to.equal("Panic 0x11: Arithmetic operation overflowed outside of an unchecked block");
+      expect(panic.error).to.deep.include({ code: "PANIC-11" });
+
+      expect(decodeRevert(estimateFailed("withdraw", "nonce too low"))).to.deep.include({ reverted: false });
+    });
+
+    it("카탈로그에 없는 사유는 그대로 두어야 함", function () {
+      const decoded = decodeRevert(revertedCall("withdraw", requireData("Something else")));
+      expect(decoded).to.deep.equal({ reverted: true, reason: "Something else" });
+      expect(formatRevert(decoded)).to.equal("Something else");
+
+      const error = new ContractRevertError("withdraw", "Something else");
+      expect(error.message).to.equal("withdraw revert: Something else");
+    });
+  });
+});
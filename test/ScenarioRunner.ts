@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import path from "path";
+
+import { loadScenario, ScenarioValidationError, validateScenario } from "../scripts/scenario/loader";
+import { runScenario } from "../scripts/scenario/runner";
+import { checkExpectation, coerceArg, resolveTemplates, toBigInt } from "../scripts/scenario/values";
+
+describe("ScenarioRunner", function () {
+  const alice = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+  describe("시나리오 로더", function () {
+    it("저장소의 샘플 시나리오를 모두 읽을 수 있어야 함", function () {
+      for (const file of ["advanced-lock.yaml", "simple-dex.yaml"]) {
+        const scenario = loadScenario(path.join(__dirname, "..", "scenarios", file));
+        expect(scenario.steps.length).to.be.greaterThan(0);
+      }
+    });
+
+    it("잘못된 필드를 모두 모아 보고해야 함", function () {
+      const raw = {
+        name: "broken",
+        actors: ["alice"],
+        deploy: { lock: { contract: "AdvancedLock" } },
+        steps: [
+          { call: "lock.withdraw", from: "mallory" },
+          { call: "vault.deposit" },
+          { read: "lock.totalLocked", expectRevert: true },
+          { increaseTime: "1h", call: "lock.withdraw" },
+        ],
+      };
+
+      try {
+        validateScenario(raw, "broken.yaml");
+        expect.fail("검증 오류가 발생해야 함");
+      } catch (error) {
+        expect(error).to.be.instanceOf(ScenarioValidationError);
+        const { problems } = error as ScenarioValidationError;
+        expect(problems).to.have.length(4);
+        expect(problems[0]).to.include("mallory");
+        expect(problems[1]).to.include("vault");
+        expect(problems[2]).to.include("expectRevert");
+        expect(problems[3]).to.include("정확히 하나");
+      }
+    });
+  });
+
+  describe("체인 실행", function () {
+    for (const file of ["advanced-lock.yaml", "simple-dex.yaml"]) {
+      it(`샘플 시나리오 ${file}의 모든 단계가 통과해야 함`, async function () {
+        const report = await runScenario(hre, loadScenario(path.join(__dirname, "..", "scenarios", file)));
+        const failed = report.steps.filter((s) => s.status !== "passed").map((s) => `${s.name}: ${s.error}`);
+        expect(failed).to.deep.equal([]);
+        expect(report.passed).to.be.true;
+      });
+    }
+
+    it("생성자 인자 개수가 맞지 않으면 배포 전에 검증 오류를 던져야 함", async function () {
+      const scenario = validateScenario(
+        {
+          name: "bad deploy",
+          actors: ["deployer"],
+          deploy: {
+            lock: { contract: "AdvancedLock", args: [1] },
+            dex: { contract: "SimpleDEX", args: ["${deployer}"] },
+            vault: { contract: "Vault" },
+          },
+          steps: [{ read: "lock.totalLocked" }],
+        },
+        "bad-deploy.yaml"
+      );
+
+      const error = await runScenario(hre, scenario).catch((e) => e);
+      expect(error).to.be.instanceOf(ScenarioValidationError);
+      expect(error.problems).to.deep.equal([
+        "deploy.lock: AdvancedLock 생성자는 인자 0개(없음)를 받지만 1개가 주어졌습니다",
+        "deploy.dex: SimpleDEX 생성자는 인자 2개(address _tokenA, address _tokenB)를 받지만 1개가 주어졌습니다",
+        "deploy.vault: 아티팩트 'Vault'를 찾을 수 없습니다",
+      ]);
+    });
+  });
+
+  describe("값 변환", function () {
+    it("단위와 기간 표현을 bigint로 변환해야 함", function () {
+      expect(toBigInt("1.5 ether")).to.equal(1_500_000_000_000_000_000n);
+      expect(toBigInt("10 gwei")).to.equal(10_000_000_000n);
+      expect(toBigInt("1h")).to.equal(3600n);
+      expect(toBigInt(42)).to.equal(42n);
+      expect(() => toBigInt(1e30)).to.throw("문자열");
+      expect(() => toBigInt("abc")).to.throw();
+    });
+
+    it("템플릿 전체 치환은 원래 타입을 유지해야 함", function () {
+      const scope = { alice, lockId: 3n };
+      expect(resolveTemplates("${lockId}", scope)).to.equal(3n);
+      expect(resolveTemplates(["${alice}", "잠금 #${lockId}"], scope)).to.deep.equal([alice, "잠금 #3"]);
+      expect(() => resolveTemplates("${bob}", scope)).to.throw("bob");
+    });
+
+    it("ABI 타입에 맞게 인자를 변환해야 함", function () {
+      expect(coerceArg("2 ether", { type: "uint256" })).to.equal(2_000_000_000_000_000_000n);
+      expect(coerceArg(alice.toLowerCase(), { type: "address" })).to.equal(alice);
+      expect(coerceArg(["1", 2], { type: "uint8[]" })).to.deep.equal([1n, 2n]);
+      expect(() => coerceArg("nope", { name: "to", type: "address" })).to.throw("to");
+      expect(coerceArg("false", { type: "bool" })).to.equal(false);
+      expect(coerceArg([true, "true"], { type: "bool[]" })).to.deep.equal([true, true]);
+      expect(() => coerceArg("yes", { name: "strict", type: "bool" })).to.throw("strict: true/false가 아닙니다");
+      expect(() => coerceArg(1, { name: "strict", type: "bool" })).to.throw("strict");
+    });
+  });
+
+  describe("기대값 검증", function () {
+    it("equals와 범위 조건을 확인해야 함", function () {
+      expect(checkExpectation(10n, "10", {})).to.be.undefined;
+      expect(checkExpectation(10n, { gt: 5, lte: "10" }, {})).to.be.undefined;
+      expect(checkExpectation(10n, { lt: 10 }, {})).to.include("<");
+      expect(checkExpectation(10n, 11, {})).to.include("기대값");
+    });
+
+    it("튜플 필드와 주소를 비교해야 함", function () {
+      const lock = [1n, 100n, true, alice];
+      expect(checkExpectation(lock, { field: 2, equals: true }, {})).to.be.undefined;
+      expect(checkExpectation(lock, { field: 3, equals: "${alice}" }, { alice: alice.toLowerCase() })).to.be.undefined;
+      expect(checkExpectation([alice], { contains: alice }, {})).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { ContractRevertError, decodeRevert } from "../scripts/lib/revert";
+import {
+  AdvancedLockClient,
+  BattleArenaClient,
+  DaoClient,
+  enumIndex,
+  EvolutionTokenClient,
+  MultiSigClient,
+  SimpleDexClient,
+  toSeconds,
+  toUnits,
+} from "../scripts/sdk";
+
+describe("SDK 클라이언트", function () {
+  async function deployEcosystemFixture() {
+    const [deployer, alice, bob] = await hre.viem.getWalletClients();
+
+    const gameToken = await hre.viem.deployContract("MyToken");
+    const pairToken = await hre.viem.deployContract("MyToken");
+    const characterNFT = await hre.viem.deployContract("MyNFT");
+    const advancedLock = await hre.viem.deployContract("AdvancedLock");
+    const simpleDEX = await hre.viem.deployContract("SimpleDEX", [gameToken.address, pairToken.address]);
+    const battleArena = await hre.viem.deployContract("BattleArenaP2E", [gameToken.address, characterNFT.address]);
+    const dao = await hre.viem.deployContract("AIEnhancedDAO", [gameToken.address, deployer.account.address]);
+    const multiSig = await hre.viem.deployContract("IntelligentMultiSig", [
+      [deployer.account.address, alice.account.address, bob.account.address],
+      2n,
+      ["Deployer", "Alice", "Bob"],
+    ]);
+    const evolutionaryToken = await hre.viem.deployContract("EvolutionaryToken");
+
+    return {
+      deployer,
+      alice,
+      bob,
+      characterNFT,
+      lock: new AdvancedLockClient(hre, advancedLock),
+      dex: new SimpleDexClient(hre, simpleDEX),
+      arena: new BattleArenaClient(hre, battleArena),
+      dao: new DaoClient(hre, dao),
+      multiSig: new MultiSigClient(hre, multiSig),
+      evo: new EvolutionTokenClient(hre, evolutionaryToken),
+    };
+  }
+
+  describe("단위 변환", function () {
+    it("사람 단위 금액과 기간을 변환해야 함", function () {
+      expect(toUnits("1.5")).to.equal(parseEther("1.5"));
+      expect(toUnits(0.25)).to.equal(parseEther("0.25"));
+      expect(toUnits(1e-7)).to.equal(100_000_000_000n);
+      expect(toUnits(123n)).to.equal(123n);
+      expect(toUnits("2", 6)).to.equal(2_000_000n);
+      expect(() => toUnits("1 ether")).to.throw("잘못된 금액");
+
+      expect(toSeconds("30d")).to.equal(30n * 24n * 3600n);
+      expect(toSeconds(90)).to.equal(90n);
+    });
+
+    it("enum 이름과 인덱스를 모두 받아야 함", function () {
+      const names = ["AGAINST", "FOR", "ABSTAIN"] as const;
+      expect(enumIndex(names, "FOR", "투표 타입")).to.equal(1);
+      expect(enumIndex(names, 2, "투표 타입")).to.equal(2);
+      expect(() => enumIndex(names, 3, "투표 타입")).to.throw("알 수 없는 투표 타입");
+    });
+  });
+
+  describe("AdvancedLockClient", function () {
+    it("잠금 생성 결과와 조회값을 이름 있는 객체로 반환해야 함", async function () {
+      const { lock, alice } = await loadFixture(deployEcosystemFixture);
+      const aliceLock = lock.connect(alice);
+
+      const created = await aliceLock.createLock(alice.account.address, "1.5", "1h");
+      expect(created.lockId).to.equal(0n);
+      expect(created.events.map((e) => e.name)).to.include("LockCreated");
+
+      const info = await lock.getLock(created.lockId);
+      expect(info).to.deep.include({
+        amount: parseEther("1.5"),
+        unlockTime: created.unlockTime,
+        withdrawn: false,
+        beneficiary: getAddress(alice.account.address),
+      });
+      expect((await lock.getStats()).totalLocked).to.equal(parseEther("1.5"));
+    });
+
+    it("revert 사유를 ContractRevertError로 전달해야 함", async function () {
+      const { lock, alice } = await loadFixture(deployEcosystemFixture);
+      const aliceLock = lock.connect(alice);
+      const { lockId } = await aliceLock.createLock(alice.account.address, 1, 3600);
+
+      const error = await aliceLock.withdraw(lockId).catch((e) => e);
+      expect(error).to.be.instanceOf(ContractRevertError);
+      expect(error.functionName).to.equal("withdraw");
+      expect(decodeRevert(error)).to.deep.include({ reverted: true, reason: "Lock not yet expired" });
+      expect(error.info).to.deep.include({ contract: "AdvancedLock", function: "withdraw", code: "LOCK-007" });
+
+      await time.increase(3600);
+      expect((await aliceLock.withdraw(lockId)).amount).to.equal(parseEther("1"));
+    });
+  });
+
+  describe("SimpleDexClient", function () {
+    it("approve를 처리하고 유동성/스왑 결과를 반환해야 함", async function () {
+      const { dex } = await loadFixture(deployEcosystemFixture);
+
+      const added = await dex.addLiquidity("1000", "2000");
+      expect(added.amountA).to.equal(parseEther("1000"));
+      expect(await dex.getPoolStats()).to.deep.equal({
+        reserveA: parseEther("1000"),
+        reserveB: parseEther("2000"),
+        totalLiquidity: added.liquidity,
+        feePercent: 0n,
+      });
+
+      const quoted = await dex.getAmountOut("AtoB", "10");
+      const swapped = await dex.swap("AtoB", "10");
+      expect(swapped.amountIn).to.equal(parseEther("10"));
+      expect(swapped.amountOut).to.equal(quoted);
+    });
+  });
+
+  describe("BattleArenaClient", function () {
+    it("캐릭터 통계를 클래스 이름과 함께 반환해야 함", async function () {
+      const { arena, characterNFT, alice } = await loadFixture(deployEcosystemFixture);
+      await characterNFT.write.adminMint([alice.account.address, "ipfs://warrior"]);
+
+      await arena.connect(alice).initializeCharacter(0n, "MAGE");
+      const stats = await arena.getCharacterStats(0n);
+
+      expect(stats.characterClass).to.equal("MAGE");
+      expect(stats.level).to.equal(1n);
+      expect(stats.totalBattles).to.equal(0n);
+      expect(stats.rating).to.be.a("bigint");
+    });
+  });
+
+  describe("DaoClient", function () {
+    it("제안, 투표 결과와 제안 정보를 이름으로 반환해야 함", async function () {
+      const { dao, deployer } = await loadFixture(deployEcosystemFixture);
+
+      const { proposalId, aiScore } = await dao.submitProposal({
+        title: "게임 보상 풀 확대",
+        description: "배틀 보상 풀을 확대하여 신규 플레이어 유입을 늘리고 커뮤니티 활동을 장려하기 위한 예산 집행 제안입니다. 기간은 한 시즌입니다.",
+        proposalType: "FUNDING",
+      });
+      const voted = await dao.vote(proposalId, "FOR", "찬성");
+      const proposal = await dao.getProposal(proposalId);
+
+      expect(proposal.status).to.equal("ACTIVE");
+      expect(proposal.proposalType).to.equal("FUNDING");
+      expect(proposal.aiScore).to.equal(aiScore);
+      expect(proposal.forVotes).to.equal(voted.weight);
+      expect(proposal.currentSupport).to.equal(100n);
+      expect(await dao.hasVoted(proposalId, deployer.account.address)).to.be.true;
+      expect((await dao.getStats()).activeProposals).to.equal(1n);
+    });
+  });
+
+  describe("MultiSigClient", function () {
+    it("제출, 승인, 타임락 후 실행까지 진행해야 함", async function () {
+      const { multiSig, alice, bob } = await loadFixture(deployEcosystemFixture);
+      const publicClient = await hre.viem.getPublicClient();
+
+      await multiSig.fund("5");
+      const { txId, requiredConfirmations } = await multiSig.submitTransaction({ to: bob.account.address, value: "1" });
+      expect(requiredConfirmations).to.equal(2n);
+
+      await multiSig.confirmTransaction(txId);
+      const confirmed = await multiSig.connect(alice).confirmTransaction(txId);
+      expect(confirmed.executed).to.be.false; // 1시간 타임락
+
+      const pending = await multiSig.getTransaction(txId);
+      expect(pending).to.deep.include({ confirmations: 2n, executable: false, txType: "NORMAL" });
+
+      await time.increaseTo(pending.timelock);
+      const before = await publicClient.getBalance({ address: bob.account.address });
+      const executed = await multiSig.executeTransaction(txId);
+
+      expect(executed).to.deep.include({ executed: true, success: true });
+      expect(await publicClient.getBalance({ address: bob.account.address })).to.equal(before + parseEther("1"));
+      expect(await multiSig.getWalletStats()).to.deep.include({ balance: parseEther("4"), pendingTransactions: 0n });
+    });
+  });
+
+  describe("EvolutionTokenClient", function () {
+    it("스테이킹 풀과 사용자 정보를 이름으로 반환해야 함", async function () {
+      const { evo, deployer } = await loadFixture(deployEcosystemFixture);
+
+      const pool = await evo.getStakingPool(1n);
+      expect(pool).to.deep.include({ poolName: "Genesis Pool", rewardRate: 1000n, isActive: true });
+
+      await evo.stake(1n, "100");
+      const info = await evo.getUserInfo(deployer.account.address);
+      expect(info.tier).to.equal("SILVER"); // 활동 1100 + 스테이킹 100 → GOLD에서 재계산
+      expect(info.totalStaked).to.equal(parseEther("100"));
+      expect((await evo.getEconomicMetrics()).maxSupply).to.equal(parseEther("10000000"));
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+
+import { parseSlitherOutput, parseSolhintOutput } from "../scripts/security/analyzers";
+import { applyGate, type Finding } from "../scripts/security/findings";
+
+describe("SecurityFindings", function () {
+  describe("도구 출력 정규화", function () {
+    it("Slither JSON을 공통 스키마로 변환해야 함", function () {
+      const stdout = `Compilation warnings\n${JSON.stringify({
+        success: true,
+        error: null,
+        results: {
+          detectors: [
+            {
+              check: "weak-prng",
+              impact: "High",
+              description: "BattleArenaP2E.calculateSkillBasedBattle uses a weak PRNG\n",
+              elements: [
+                {
+                  type: "node",
+                  source_mapping: { filename_relative: "contracts/BattleGame.sol", lines: [310, 311] },
+                  type_specific_fields: {
+                    parent: {
+                      type: "function",
+                      type_specific_fields: { parent: { type: "contract", name: "BattleArenaP2E" } },
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      })}`;
+
+      expect(parseSlitherOutput(stdout)).to.deep.equal([
+        {
+          tool: "Slither",
+          rule: "weak-prng",
+          severity: "high",
+          contract: "BattleArenaP2E",
+          file: "contracts/BattleGame.sol",
+          line: 310,
+          message: "BattleArenaP2E.calculateSkillBasedBattle uses a weak PRNG",
+        },
+      ]);
+    });
+
+    it("Slither 분석 실패는 발견 사항 없음과 구분되어야 함", function () {
+      const stdout = JSON.stringify({ success: false, error: "Compilation failed", results: {} });
+      expect(() => parseSlitherOutput(stdout)).to.throw("Compilation failed");
+    });
+
+    it("Solhint JSON의 심각도를 매핑해야 함", function () {
+      const stdout = JSON.stringify([
+        { line: 5, column: 1, severity: "Error", message: "Avoid tx.origin", ruleId: "avoid-tx-origin", filePath: "contracts/MyNFT.sol" },
+        { line: 9, column: 1, severity: "Warning", message: "Missing NatSpec", ruleId: "use-natspec", filePath: "contracts/MyNFT.sol" },
+        { conclusion: "2 problems" },
+      ]);
+
+      const findings = parseSolhintOutput(stdout);
+      expect(findings.map((f) => [f.rule, f.severity, f.contract])).to.deep.equal([
+        ["avoid-tx-origin", "medium", "MyNFT"],
+        ["use-natspec", "low", "MyNFT"],
+      ]);
+    });
+  });
+
+  describe("심각도 게이트", function () {
+    const findings: Finding[] = [
+      { tool: "Slither", rule: "weak-prng", severity: "high", contract: "BattleArenaP2E", message: "prng" },
+      { tool: "Solhint", rule: "use-natspec", severity: "low", contract: "MyNFT", message: "natspec" },
+    ];
+
+    it("게이트 이상 심각도가 남아 있으면 실패해야 함", function () {
+      const gate = applyGate(findings, [], "high");
+      expect(gate.passed).to.be.false;
+      expect(gate.blocking.map((f) => f.rule)).to.deep.equal(["weak-prng"]);
+    });
+
+    it("억제된 발견 사항은 사유와 함께 게이트에서 제외되어야 함", function () {
+      const gate = applyGate(
+        findings,
+        [
+          { rule: "weak-prng", contract: "BattleArenaP2E", justification: "게임 데모용 난수" },
+          { rule: "weak-prng", contract: "SimpleDEX", justification: "사용되지 않음" },
+        ],
+        "high"
+      );
+
+      expect(gate.passed).to.be.true;
+      expect(gate.suppressed[0].justification).to.equal("게임 데모용 난수");
+      expect(gate.unusedSuppressions.map((s) => s.contract)).to.deep.equal(["SimpleDEX"]);
+    });
+
+    it("낮은 게이트에서는 low 발견 사항도 실패해야 함", function () {
+      const gate = applyGate(findings, [], "low");
+      expect(gate.blocking).to.have.length(2);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { readFileSync } from "fs";
+import path from "path";
+
+import { checkSource, parseSoliditySource } from "../scripts/security/rule-engine";
+import { SOURCE_RULES } from "../scripts/security/rules";
+
+describe("SecurityRules", function () {
+  const source = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+contract Sample is Ownable {
+    uint256 public constant MAX_PLAYERS = 10;
+    mapping(uint256 => address[]) public spectators;
+    uint256[] public history;
+    uint256 public proposalCount;
+    string private note = "selfdestruct(x) in a string";
+
+    struct Info { uint256 amount; }
+
+    // selfdestruct(payable(owner())) in a comment
+    function destroy() external onlyOwner {
+        selfdestruct(payable(owner()));
+    }
+
+    function roll(uint256 id) internal view returns (uint256) {
+        return uint256(keccak256(abi.encodePacked(block.timestamp, id, block.prevrandao))) % 100;
+    }
+
+    function poolId(address a, address b) public pure returns (bytes32) {
+        return keccak256(abi.encodePacked(a, b));
+    }
+
+    function reward(uint256 battleId) internal {
+        address[] memory specs = spectators[battleId];
+        for (uint256 i = 0; i < specs.length; i++) {}
+        for (uint256 i = 0; i < MAX_PLAYERS; i++) {}
+    }
+
+    function recent() external view returns (uint256 count) {
+        for (uint256 i = history.length; i > 0; i--) { count++; }
+        for (uint256 i = 1; i <= proposalCount; i++) {}
+    }
+
+    function sum(uint256[] memory values) public pure returns (uint256 total) {
+        for (uint256 i = 0; i < values.length; i++) { total += values[i]; }
+    }
+
+    function emergencyWithdraw() external onlyOwner {
+        uint256 balance = token.balanceOf(address(this));
+        token.transfer(owner(), balance);
+    }
+
+    function withdrawFees(uint256 amount) external onlyOwner {
+        payable(owner()).transfer(amount);
+    }
+
+    function refund(address user, uint256 amount) external {
+        payable(user).transfer(amount);
+    }
+}
+`;
+
+  function findings(rule: string) {
+    return checkSource("contracts/Sample.sol", source, SOURCE_RULES)
+      .filter((f) => f.rule === rule)
+      .map((f) => ({ line: f.line, severity: f.severity, fn: f.message.match(/^Sample\.\w+/)?.[0] }));
+  }
+
+  it("상태 변수에서 constant와 함수 내부 선언을 제외해야 함", function () {
+    const [contract] = parseSoliditySource("contracts/Sample.sol", source);
+    expect([...contract.stateVariables].sort()).to.deep.equal(["history", "note", "proposalCount", "spectators"]);
+    expect(contract.functions.map((f) => f.name)).to.include.members(["destroy", "roll", "reward", "refund"]);
+  });
+
+  it("주석과 문자열이 아닌 selfdestruct 호출만 보고해야 함", function () {
+    expect(findings("selfdestruct")).to.deep.equal([{ line: 16, severity: "high", fn: "Sample.destroy" }]);
+  });
+
+  it("블록 값으로 만든 해시만 난수로 보고해야 함", function () {
+    expect(findings("block-randomness")).to.deep.equal([{ line: 20, severity: "high", fn: "Sample.roll" }]);
+  });
+
+  it("상태 배열/카운터에 묶인 반복문을 보고하고 external/public view 함수는 심각도를 낮춰야 함", function () {
+    expect(findings("unbounded-loop")).to.deep.equal([
+      { line: 29, severity: "medium", fn: "Sample.reward" },
+      { line: 34, severity: "low", fn: "Sample.recent" },
+      { line: 35, severity: "low", fn: "Sample.recent" },
+    ]);
+  });
+
+  it("상태를 바꾸는 함수 안에서 실행되는 internal view 헬퍼는 심각도를 낮추지 않아야 함", function () {
+    // IntelligentDEX.swap → calculateDynamicFee/updateTradingActivity → getRecentSwapCount가 swapHistory 전체를 복사
+    const file = path.join(__dirname, "../contracts/IntelligentDEX.sol");
+    const dexSource = readFileSync(file, "utf8");
+    const [contract] = parseSoliditySource(file, dexSource);
+    const helper = contract.functions.find((f) => f.name === "getRecentSwapCount")!;
+    expect(helper).to.deep.include({ mutability: "view", visibility: "internal" });
+
+    const loops = checkSource(file, dexSource, SOURCE_RULES).filter(
+      (f) => f.rule === "unbounded-loop" && f.message.startsWith("IntelligentDEX.getRecentSwapCount")
+    );
+    expect(loops).to.have.length(1);
+    expect(loops[0].severity).to.equal("medium");
+    expect(loops[0].message).to.contain("'swaps.length'");
+  });
+
+  it("소유자 전용 인출만 보고해야 함", function () {
+    const drains = checkSource("contracts/Sample.sol", source, SOURCE_RULES).filter(
+      (f) => f.rule === "owner-fund-drain"
+    );
+    expect(drains.map((f) => f.line)).to.deep.equal([44, 48]);
+    expect(drains[0].message).to.contain("잔액 전체");
+  });
+});
@@ -0,0 +1,310 @@
+import { expect } from "chai";
+import fc from "fast-check";
+import hre from "hardhat";
+import { maxUint256, parseEther, type Address } from "viem";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+
+import { getAmountOut } from "../scripts/dex/quote";
+import { seedFromEnv } from "../scripts/lib/random";
+import { ContractRevertError } from "../scripts/lib/revert";
+import { SimpleDexClient, type SwapDirection } from "../scripts/sdk";
+
+/**
+ * 🧪 SimpleDEX 상태 기반 속성 테스트 (fast-check)
+ *
+ * 여러 계정의 addLiquidity / removeLiquidity / swapAtoB / swapBtoA 무작위 시퀀스를 실행하고
+ * 매 단계 뒤에 불변식을 확인합니다. 실패하면 fast-check가 가장 짧은 시퀀스로 줄여서 보고합니다.
+ *
+ *   - 스왑은 x * y를 줄이지 않음 (유동성 변경은 LP 지분당 x * y를 줄이지 않음)
+ *   - reserveA/B == 컨트랙트의 토큰 잔액
+ *   - totalLiquidity == 모든 계정 liquidityBalance의 합
+ *   - 유동성 제거 시 지분 비율(liquidity / totalLiquidity)보다 많이 받지 않음
+ *
+ * 재현: PROPERTY_SEED=<seed> [PROPERTY_PATH=<path>] npx hardhat test test/SimpleDexInvariants.ts
+ */
+
+interface PoolModel {
+  reserveA: bigint;
+  reserveB: bigint;
+  totalLiquidity: bigint;
+  liquidity: bigint[];
+}
+
+interface PoolReal {
+  clients: SimpleDexClient[];
+  accounts: Address[];
+  dexAddress: Address;
+  balanceOf: (token: "A" | "B", owner: Address) => Promise<bigint>;
+}
+
+type PoolCommand = fc.AsyncCommand<PoolModel, PoolReal>;
+
+const ACCOUNTS = 3;
+const ACCOUNT_NAMES = ["deployer", "alice", "bob"];
+
+async function expectRevert(action: Promise<unknown>, reason: string) {
+  const error = await action.then(
+    () => undefined,
+    (e) => e
+  );
+  expect(error, `'${reason}' revert 예상`).to.be.instanceOf(ContractRevertError);
+  expect((error as ContractRevertError).reason).to.equal(reason);
+}
+
+/**
+ * 체인 상태가 모델과 같고 불변식을 만족하는지 확인
+ */
+async function checkInvariants(model: PoolModel, real: PoolReal) {
+  const stats = await real.clients[0].getPoolStats();
+  const [balanceA, balanceB, ...liquidity] = await Promise.all([
+    real.balanceOf("A", real.dexAddress),
+    real.balanceOf("B", real.dexAddress),
+    ...real.accounts.map(async (account) => (await real.clients[0].getUserLiquidity(account)).liquidity),
+  ]);
+
+  expect(stats).to.deep.include({
+    reserveA: model.reserveA,
+    reserveB: model.reserveB,
+    totalLiquidity: model.totalLiquidity,
+  });
+  expect(liquidity).to.deep.equal(model.liquidity);
+
+  expect(balanceA, "reserveA == tokenA.balanceOf(dex)").to.equal(stats.reserveA);
+  expect(balanceB, "reserveB == tokenB.balanceOf(dex)").to.equal(stats.reserveB);
+  expect(
+    liquidity.reduce((sum, l) => sum + l, 0n),
+    "totalLiquidity == Σ liquidityBalance"
+  ).to.equal(stats.totalLiquidity);
+}
+
+// 지분당 x * y: kAfter / L_after² >= kBefore / L_before²
+function expectShareValueNotDecreased(before: PoolModel, after: PoolModel) {
+  if (before.totalLiquidity === 0n || after.totalLiquidity === 0n) return;
+  const kBefore = before.reserveA * before.reserveB;
+  const kAfter = after.reserveA * after.reserveB;
+  expect(
+    kAfter * before.totalLiquidity ** 2n >= kBefore * after.totalLiquidity ** 2n,
+    "LP 지분당 x * y가 줄어들면 안 됨"
+  ).to.be.true;
+}
+
+class AddLiquidityCommand implements PoolCommand {
+  constructor(
+    readonly account: number,
+    readonly amountA: bigint,
+    readonly amountB: bigint
+  ) {}
+
+  check() {
+    return true;
+  }
+
+  async run(model: PoolModel, real: PoolReal) {
+    const before = { ...model, liquidity: [...model.liquidity] };
+    const expected =
+      model.totalLiquidity === 0n
+        ? undefined // 최초 공급: sqrt(amountA * amountB)
+        : min((this.amountA * model.totalLiquidity) / model.reserveA, (this.amountB * model.totalLiquidity) / model.reserveB);
+
+    const add = real.clients[this.account].addLiquidity(this.amountA, this.amountB, { approve: false });
+    if (expected === 0n) {
+      await expectRevert(add, "Insufficient liquidity minted");
+      return checkInvariants(model, real);
+    }
+
+    const { liquidity } = await add;
+    if (expected === undefined) {
+      expect(liquidity * liquidity <= this.amountA * this.amountB).to.be.true;
+      expect((liquidity + 1n) * (liquidity + 1n) > this.amountA * this.amountB).to.be.true;
+    } else {
+      expect(liquidity).to.equal(expected);
+    }
+
+    model.reserveA += this.amountA;
+    model.reserveB += this.amountB;
+    model.totalLiquidity += liquidity;
+    model.liquidity[this.account] += liquidity;
+
+    expectShareValueNotDecreased(before, model);
+    await checkInvariants(model, real);
+  }
+
+  toString() {
+    return `addLiquidity(${ACCOUNT_NAMES[this.account]}, ${this.amountA}, ${this.amountB})`;
+  }
+}
+
+class RemoveLiquidityCommand implements PoolCommand {
+  // shareBps: 보유 LP 지분 중 제거할 비율 (10000 초과면 잔액보다 많이 요청)
+  constructor(
+    readonly account: number,
+    readonly shareBps: bigint
+  ) {}
+
+  check(model: Readonly<PoolModel>) {
+    return model.liquidity[this.account] > 0n;
+  }
+
+  async run(model: PoolModel, real: PoolReal) {
+    const before = { ...model, liquidity: [...model.liquidity] };
+    const balance = model.liquidity[this.account];
+    const liquidity = max((balance * this.shareBps) / 10_000n, 1n);
+
+    const remove = real.clients[this.account].removeLiquidity(liquidity);
+    if (liquidity > balance) {
+      await expectRevert(remove, "Insufficient liquidity balance");
+      return checkInvariants(model, real);
+    }
+
+    const { amountA, amountB } = await remove;
+    // 지분 비율보다 많이 받으면 안 됨 (내림 나눗셈과 정확히 같아야 함)
+    expect(amountA * model.totalLiquidity <= liquidity * model.reserveA, "A 지분 초과 인출").to.be.true;
+    expect(amountB * model.totalLiquidity <= liquidity * model.reserveB, "B 지분 초과 인출").to.be.true;
+    expect(amountA).to.equal((liquidity * model.reserveA) / model.totalLiquidity);
+    expect(amountB).to.equal((liquidity * model.reserveB) / model.totalLiquidity);
+
+    model.reserveA -= amountA;
+    model.reserveB -= amountB;
+    model.totalLiquidity -= liquidity;
+    model.liquidity[this.account] -= liquidity;
+
+    expectShareValueNotDecreased(before, model);
+    await checkInvariants(model, real);
+  }
+
+  toString() {
+    return `removeLiquidity(${ACCOUNT_NAMES[this.account]}, ${Number(this.shareBps) / 100}%)`;
+  }
+}
+
+class SwapCommand implements PoolCommand {
+  constructor(
+    readonly account: number,
+    readonly direction: SwapDirection,
+    readonly amountIn: bigint
+  ) {}
+
+  check() {
+    return true;
+  }
+
+  async run(model: PoolModel, real: PoolReal) {
+    const kBefore = model.reserveA * model.reserveB;
+    const [reserveIn, reserveOut] =
+      this.direction === "AtoB" ? [model.reserveA, model.reserveB] : [model.reserveB, model.reserveA];
+
+    const swap = real.clients[this.account].swap(this.direction, this.amountIn, { approve: false });
+    if (reserveIn === 0n || reserveOut === 0n) {
+      await expectRevert(swap, "Insufficient liquidity");
+      return checkInvariants(model, real);
+    }
+
+    const expectedOut = getAmountOut(this.amountIn, reserveIn, reserveOut);
+    if (expectedOut === 0n) {
+      await expectRevert(swap, "Insufficient output amount");
+      return checkInvariants(model, real);
+    }
+
+    const { amountOut } = await swap;
+    expect(amountOut).to.equal(expectedOut);
+
+    if (this.direction === "AtoB") {
+      model.reserveA += this.amountIn;
+      model.reserveB -= amountOut;
+    } else {
+      model.reserveB += this.amountIn;
+      model.reserveA -= amountOut;
+    }
+
+    expect(model.reserveA * model.reserveB >= kBefore, "스왑 후 x * y가 줄어들면 안 됨").to.be.true;
+    await checkInvariants(model, real);
+  }
+
+  toString() {
+    return `${this.direction === "AtoB" ? "swapAtoB" : "swapBtoA"}(${ACCOUNT_NAMES[this.account]}, ${this.amountIn})`;
+  }
+}
+
+function min(x: bigint, y: bigint): bigint {
+  return x < y ? x : y;
+}
+
+function max(x: bigint, y: bigint): bigint {
+  return x > y ? x : y;
+}
+
+describe("SimpleDEX 불변식 (속성 기반)", function () {
+  this.timeout(10 * 60 * 1000);
+
+  async function deployPoolFixture() {
+    const wallets = (await hre.viem.getWalletClients()).slice(0, ACCOUNTS);
+    const tokenA = await hre.viem.deployContract("MyToken");
+    const tokenB = await hre.viem.deployContract("MyToken");
+    const simpleDEX = await hre.viem.deployContract("SimpleDEX", [tokenA.address, tokenB.address]);
+
+    for (const wallet of wallets) {
+      if (wallet !== wallets[0]) {
+        await tokenA.write.transfer([wallet.account.address, parseEther("1000000")]);
+        await tokenB.write.transfer([wallet.account.address, parseEther("1000000")]);
+      }
+      await tokenA.write.approve([simpleDEX.address, maxUint256], { account: wallet.account });
+      await tokenB.write.approve([simpleDEX.address, maxUint256], { account: wallet.account });
+    }
+
+    const dex = new SimpleDexClient(hre, simpleDEX);
+    const real: PoolReal = {
+      clients: wallets.map((wallet) => dex.connect(wallet)),
+      accounts: wallets.map((wallet) => wallet.account.address),
+      dexAddress: simpleDEX.address,
+      balanceOf: (token, owner) => (token === "A" ? tokenA : tokenB).read.balanceOf([owner]),
+    };
+    return { real };
+  }
+
+  // 먼지 단위(1 ~ 1000 wei)와 일반 금액(최대 1000 토큰)을 섞어 반올림 경계도 포함
+  const amount = fc.oneof(fc.bigInt({ min: 1n, max: 1000n }), fc.bigInt({ min: 1n, max: parseEther("1000") }));
+  const account = fc.integer({ min: 0, max: ACCOUNTS - 1 });
+
+  const commands = fc.commands(
+    [
+      fc.tuple(account, amount, amount).map(([a, x, y]) => new AddLiquidityCommand(a, x, y)),
+      fc.tuple(account, fc.bigInt({ min: 1n, max: 12_000n })).map(([a, bps]) => new RemoveLiquidityCommand(a, bps)),
+      fc.tuple(account, amount).map(([a, x]) => new SwapCommand(a, "AtoB", x)),
+      fc.tuple(account, amount).map(([a, x]) => new SwapCommand(a, "BtoA", x)),
+    ],
+    { maxCommands: 20 }
+  );
+
+  it("무작위 유동성/스왑 시퀀스에서 불변식을 유지해야 함", async function () {
+    const seed = seedFromEnv("PROPERTY_SEED");
+    console.log(`      🎲 PROPERTY_SEED=${seed}`);
+
+    await fc.assert(
+      fc.asyncProperty(commands, async (cmds) => {
+        const { real } = await loadFixture(deployPoolFixture);
+        const model: PoolModel = { reserveA: 0n, reserveB: 0n, totalLiquidity: 0n, liquidity: Array(ACCOUNTS).fill(0n) };
+        await fc.asyncModelRun(() => ({ model, real }), cmds);
+      }),
+      { numRuns: 25, seed, path: process.env.PROPERTY_PATH }
+    );
+  });
+
+  it("전부 인출하면 준비금이 0이 되고 먼저 나간 LP도 지분 이상 받지 않아야 함", async function () {
+    const { real } = await loadFixture(deployPoolFixture);
+    const [deployer, alice] = real.clients;
+
+    await deployer.addLiquidity("1000", "1000", { approve: false });
+    await alice.addLiquidity("500", "500", { approve: false });
+    await deployer.swap("AtoB", "250", { approve: false });
+
+    const { reserveA, reserveB, totalLiquidity } = await deployer.getPoolStats();
+    const aliceShare = (await deployer.getUserLiquidity(real.accounts[1])).liquidity;
+    const removed = await alice.removeLiquidity(aliceShare);
+    expect(removed.amountA).to.equal((aliceShare * reserveA) / totalLiquidity);
+    expect(removed.amountB).to.equal((aliceShare * reserveB) / totalLiquidity);
+
+    await deployer.removeLiquidity((await deployer.getUserLiquidity(real.accounts[0])).liquidity);
+    expect(await deployer.getPoolStats()).to.deep.include({ reserveA: 0n, reserveB: 0n, totalLiquidity: 0n });
+    expect(await real.balanceOf("A", real.dexAddress)).to.equal(0n);
+  });
+});